@@ -0,0 +1,212 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { build } from "esbuild";
+import { Miniflare } from "miniflare";
+import { AGENT_LIVENESS_INTERVAL_MS, AgentHub, parseAgentMessage } from "./agents";
+
+const AUTH = { Authorization: "Bearer test-secret" };
+
+type FakeSocket = WebSocket & { sent: unknown[] };
+
+function fakeSocket(agent: string, open = true): FakeSocket {
+  const sent: unknown[] = [];
+  return {
+    sent,
+    send: (message: string) => {
+      if (!open) throw new Error("socket closed");
+      sent.push(JSON.parse(message));
+    },
+    close: () => {
+      open = false;
+    },
+    deserializeAttachment: () => ({ agent, connectedAt: 0 }),
+  } as unknown as FakeSocket;
+}
+
+// Stands in for the runtime's hibernation API; the upgrade itself is covered under Miniflare below.
+function createHub(sockets: FakeSocket[]) {
+  vi.stubGlobal("WebSocketRequestResponsePair", class {
+    constructor(readonly request: string, readonly response: string) {}
+  });
+  const kv = new Map<string, string>();
+  let alarm: number | null = null;
+  const state = {
+    getWebSockets: (tag?: string) => sockets.filter((socket) => tag === undefined
+      || (socket.deserializeAttachment() as { agent: string }).agent === tag),
+    setWebSocketAutoResponse: () => undefined,
+    storage: {
+      getAlarm: async () => alarm,
+      setAlarm: async (time: number) => {
+        alarm = time;
+      },
+      deleteAlarm: async () => {
+        alarm = null;
+      },
+    },
+  } as unknown as DurableObjectState;
+  const env = {
+    CLANKA_STATE: {
+      get: async (key: string) => kv.get(key) ?? null,
+      put: async (key: string, value: string) => {
+        kv.set(key, value);
+      },
+    } as unknown as KVNamespace,
+  };
+  return { hub: new AgentHub(state, env), kv, alarm: () => alarm };
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.useRealTimers();
+});
+
+describe("parseAgentMessage", () => {
+  it("accepts presence, activity, and history messages and echoes their id", () => {
+    expect(parseAgentMessage(JSON.stringify({ type: "presence", id: "m1", presence: { state: "focus" } })))
+      .toMatchObject({ ok: true, type: "presence", id: "m1" });
+    expect(parseAgentMessage(new TextEncoder().encode(JSON.stringify({
+      type: "history",
+      history: [{ desc: "one" }],
+    })).buffer as ArrayBuffer)).toMatchObject({ ok: true, type: "history", id: null });
+  });
+
+  it("reports invalid JSON, unknown types, and schema issues with paths", () => {
+    expect(parseAgentMessage("{")).toMatchObject({ ok: false, issues: [{ path: "$", expected: "JSON" }] });
+    expect(parseAgentMessage(JSON.stringify({ type: "reboot", id: "m2" })))
+      .toMatchObject({ ok: false, id: "m2", issues: [{ path: "$.type" }] });
+    expect(parseAgentMessage(JSON.stringify({ type: "activity", activity: { desc: " ", type: "SHIP" } })))
+      .toMatchObject({ ok: false, issues: [{ path: "$.activity.desc" }] });
+  });
+});
+
+describe("AgentHub", () => {
+  it("addresses commands by agent tag and reports who received them", async () => {
+    const sockets = [fakeSocket("builder"), fakeSocket("reviewer"), fakeSocket("reviewer", false)];
+    const { hub } = createHub(sockets);
+    const command = async (body: unknown) => (await hub.fetch(new Request("https://agent-hub/command", {
+      method: "POST",
+      body: JSON.stringify(body),
+    }))).json();
+
+    expect(await command({ id: "c1", command: "pause", agent: "reviewer" })).toEqual({ delivered: ["reviewer"] });
+    expect(await command({ id: "c2", command: "refresh_caches" })).toEqual({ delivered: ["builder", "reviewer"] });
+    expect(sockets[0].sent).toEqual([expect.objectContaining({ type: "command", id: "c2", command: "refresh_caches" })]);
+    expect(sockets[1].sent.map((message) => (message as { id: string }).id)).toEqual(["c1", "c2"]);
+  });
+
+  it("keeps last_seen fresh from the alarm until the last socket closes", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(Date.parse("2026-03-01T00:00:00Z"));
+    const socket = fakeSocket("builder");
+    const sockets = [socket];
+    const { hub, kv, alarm } = createHub(sockets);
+
+    await hub.alarm();
+    expect(kv.get("last_seen")).toBe(String(Date.parse("2026-03-01T00:00:00Z")));
+    expect(JSON.parse(kv.get("agent:builder:v1") ?? "null")).toMatchObject({ lastSeen: Date.parse("2026-03-01T00:00:00Z") });
+    expect(alarm()).toBe(Date.now() + AGENT_LIVENESS_INTERVAL_MS);
+
+    await hub.webSocketClose(socket, 1000, "done");
+    expect(alarm()).toBeNull();
+    sockets.length = 0;
+    kv.clear();
+    await hub.alarm();
+    expect(kv.has("last_seen")).toBe(false);
+  });
+});
+
+describe("GET /agents/connect under Miniflare", () => {
+  let mf: Miniflare;
+
+  beforeAll(async () => {
+    const bundle = await build({
+      entryPoints: ["src/index.ts"],
+      bundle: true,
+      format: "esm",
+      platform: "neutral",
+      target: "es2022",
+      write: false,
+    });
+    mf = new Miniflare({
+      modules: true,
+      script: bundle.outputFiles[0].text,
+      compatibilityDate: "2024-02-08",
+      kvNamespaces: ["CLANKA_STATE"],
+      durableObjects: { AGENT_HUB: "AgentHub", STREAM_HUB: "StreamHub" },
+      bindings: { ADMIN_KEY: "test-secret" },
+    });
+    await mf.ready;
+  }, 60_000);
+
+  afterAll(async () => {
+    await mf?.dispose();
+  });
+
+  async function connect(agent: string) {
+    const res = await mf.dispatchFetch(`http://localhost/agents/connect?agent=${agent}`, {
+      headers: { ...AUTH, Upgrade: "websocket" },
+    });
+    const ws = res.webSocket;
+    if (!ws) throw new Error(`expected an upgrade, got ${res.status}`);
+    const received: Array<Record<string, unknown>> = [];
+    ws.addEventListener("message", (event) => received.push(JSON.parse(String(event.data))));
+    ws.accept();
+    const next = async (type: string) => {
+      await vi.waitFor(() => expect(received.some((message) => message.type === type)).toBe(true));
+      return received.splice(received.findIndex((message) => message.type === type), 1)[0];
+    };
+    return { res, ws, next };
+  }
+
+  it("requires a token with presence:write and a WebSocket upgrade", async () => {
+    const unauthenticated = await mf.dispatchFetch("http://localhost/agents/connect", { headers: { Upgrade: "websocket" } });
+    expect(unauthenticated.status).toBe(401);
+    await unauthenticated.arrayBuffer();
+
+    const plain = await mf.dispatchFetch("http://localhost/agents/connect", { headers: AUTH });
+    expect(plain.status).toBe(426);
+    expect(await plain.json()).toMatchObject({ error: { code: "upgrade_required" } });
+
+    const badName = await mf.dispatchFetch("http://localhost/agents/connect?agent=no%20spaces", {
+      headers: { ...AUTH, Upgrade: "websocket" },
+    });
+    expect(badName.status).toBe(400);
+    expect(await badName.json()).toMatchObject({ error: { code: "invalid_query" } });
+  });
+
+  it("marks the agent online, applies its messages, and delivers commands", async () => {
+    const { res, ws, next } = await connect("builder");
+    expect(res.status).toBe(101);
+    expect(res.headers.get("X-Request-Id")).toEqual(expect.any(String));
+    expect(await next("welcome")).toEqual({ type: "welcome", agent: "builder", commands: ["refresh_caches", "pause", "resume"] });
+    expect(await (await mf.dispatchFetch("http://localhost/health")).json()).toMatchObject({ status: "operational" });
+
+    ws.send(JSON.stringify({ type: "ping" }));
+    expect(await next("pong")).toEqual({ type: "pong" });
+
+    ws.send(JSON.stringify({ type: "presence", id: "p1", presence: { state: "focus", task: "api" } }));
+    expect(await next("ack")).toEqual({ type: "ack", id: "p1" });
+    expect(await (await mf.dispatchFetch("http://localhost/agents/builder")).json())
+      .toMatchObject({ id: "builder", online: true, state: "focus", message: null, task: "api" });
+
+    ws.send(JSON.stringify({ type: "activity", id: "a1", activity: { desc: "deployed", type: "SHIP" } }));
+    expect(await next("ack")).toEqual({ type: "ack", id: "a1" });
+    ws.send(JSON.stringify({ type: "history", history: [{ desc: "newer" }, { desc: "older" }] }));
+    expect(await next("ack")).toEqual({ type: "ack", id: null });
+    const history = await (await mf.dispatchFetch("http://localhost/history")).json() as { history: Array<{ desc: string }> };
+    expect(history.history.map((entry) => entry.desc).slice(0, 3)).toEqual(["newer", "older", "deployed"]);
+
+    ws.send(JSON.stringify({ type: "activity", activity: { type: "SHIP" } }));
+    expect(await next("error")).toMatchObject({ code: "invalid_message", issues: [{ path: "$.activity.desc" }] });
+
+    const sent = await mf.dispatchFetch("http://localhost/admin/agents/commands", {
+      method: "POST",
+      headers: { ...AUTH, "Content-Type": "application/json" },
+      body: JSON.stringify({ command: "pause", agent: "builder" }),
+    });
+    const body = await sent.json() as { id: string };
+    expect(body).toEqual({ success: true, id: expect.any(String), command: "pause", delivered: ["builder"] });
+    expect(await next("command")).toMatchObject({ type: "command", id: body.id, command: "pause" });
+
+    ws.close(1000, "done");
+  });
+});
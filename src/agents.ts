@@ -0,0 +1,287 @@
+// Agent sockets: one Durable Object holds every `/agents/connect` WebSocket, using the hibernation API
+
+import type { JsonSchema } from "./schemas";
+import {
+  AGENT_MESSAGE_MAX_LENGTH,
+  AGENT_OFFLINE_AFTER_MAX_SEC,
+  AGENT_OFFLINE_AFTER_MIN_SEC,
+  AGENT_TASK_MAX_LENGTH,
+  agentPresenceEvent,
+  isAgentId,
+  prependHistory,
+  recordAgentPresence,
+  toHistoryBatch,
+  toHistoryEntry,
+  touchAgent,
+  touchLastSeen,
+} from "./presence";
+import { PRESENCE_STATES, PRESENCE_TRANSITIONS, type PresenceState } from "./presence-states";
+import { publishStreamEvents, type StreamPublish } from "./stream";
+import { validateSchema, type ValidationIssue } from "./validation";
+
+// Commands are relayed verbatim; what each one means is up to the agent that receives it.
+export const AGENT_COMMANDS = ["refresh_caches", "pause", "resume"] as const;
+export type AgentCommand = typeof AGENT_COMMANDS[number];
+
+export const AGENT_MESSAGE_TYPES = ["presence", "activity", "history"] as const;
+export type AgentMessageType = typeof AGENT_MESSAGE_TYPES[number];
+
+// Every socket shares one hub, so a command can reach any agent.
+export const AGENT_HUB_NAME = "global";
+// Internal URLs the worker uses to reach the hub; the host is never resolved.
+export const AGENT_HUB_CONNECT_URL = "https://agent-hub/connect";
+export const AGENT_HUB_COMMAND_URL = "https://agent-hub/command";
+// Carries the agent name the worker resolved and validated into the hub.
+export const AGENT_NAME_HEADER = "X-Agent-Name";
+// Under half of the shortest offline threshold, which is when a silent agent starts decaying to `idle`.
+export const AGENT_LIVENESS_INTERVAL_MS = 2 * 60 * 1000;
+// Answered by the runtime without waking a hibernated hub.
+export const AGENT_PING = JSON.stringify({ type: "ping" });
+export const AGENT_PONG = JSON.stringify({ type: "pong" });
+
+export type AgentHubEnv = {
+  CLANKA_STATE: KVNamespace;
+  STREAM_HUB?: DurableObjectNamespace;
+};
+
+// Kept on the socket itself so it survives hibernation.
+type AgentAttachment = { agent: string; connectedAt: number };
+
+const historyItemSchema: JsonSchema = {
+  type: "object",
+  properties: {
+    desc: { type: "string" },
+    message: { type: "string" },
+    type: { type: "string" },
+    timestamp: { type: "number" },
+    hash: { type: "string" },
+  },
+};
+
+// Socket messages mirror the bodies of `PUT /agents/:id/presence`, `POST /admin/activity` and `/heartbeat`.
+const AGENT_MESSAGE_SCHEMAS: Record<AgentMessageType, JsonSchema> = {
+  presence: {
+    type: "object",
+    properties: {
+      presence: {
+        type: "object",
+        properties: {
+          state: { type: "string", enum: PRESENCE_STATES },
+          message: { type: "string", nullable: true, maxLength: AGENT_MESSAGE_MAX_LENGTH },
+          task: { type: "string", nullable: true, maxLength: AGENT_TASK_MAX_LENGTH },
+          offlineAfterSec: { type: "integer", minimum: AGENT_OFFLINE_AFTER_MIN_SEC, maximum: AGENT_OFFLINE_AFTER_MAX_SEC },
+        },
+      },
+    },
+    required: ["presence"],
+  },
+  activity: {
+    type: "object",
+    properties: {
+      activity: {
+        type: "object",
+        properties: { desc: { type: "string", pattern: "\\S" }, type: { type: "string", pattern: "\\S" } },
+        required: ["desc", "type"],
+      },
+    },
+    required: ["activity"],
+  },
+  history: {
+    type: "object",
+    properties: { history: { type: "array", items: historyItemSchema } },
+    required: ["history"],
+  },
+};
+
+export function isAgentCommand(value: unknown): value is AgentCommand {
+  return typeof value === "string" && (AGENT_COMMANDS as readonly string[]).includes(value);
+}
+
+function isAgentMessageType(value: unknown): value is AgentMessageType {
+  return typeof value === "string" && (AGENT_MESSAGE_TYPES as readonly string[]).includes(value);
+}
+
+type ParsedAgentMessage =
+  | { ok: true; type: AgentMessageType; id: string | null; message: Record<string, unknown> }
+  | { ok: false; id: string | null; issues: ValidationIssue[] };
+
+export function parseAgentMessage(raw: string | ArrayBuffer): ParsedAgentMessage {
+  let value: unknown;
+  try {
+    value = JSON.parse(typeof raw === "string" ? raw : new TextDecoder().decode(raw));
+  } catch {
+    return { ok: false, id: null, issues: [{ path: "$", expected: "JSON", received: "invalid JSON" }] };
+  }
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return { ok: false, id: null, issues: validateSchema({ type: "object" }, value) };
+  }
+  const message = value as Record<string, unknown>;
+  // Echoed back on the ack, so an agent can match replies to what it sent.
+  const id = typeof message.id === "string" ? message.id : null;
+  if (!isAgentMessageType(message.type)) {
+    return {
+      ok: false,
+      id,
+      issues: validateSchema({ type: "string", enum: AGENT_MESSAGE_TYPES }, message.type, "$.type"),
+    };
+  }
+  const issues = validateSchema(AGENT_MESSAGE_SCHEMAS[message.type], message);
+  return issues.length > 0 ? { ok: false, id, issues } : { ok: true, type: message.type, id, message };
+}
+
+/**
+ * Durable Object behind `/agents/connect`. An agent is online while its socket is open: connecting
+ * counts as a heartbeat, and an alarm keeps refreshing the agent's `lastSeen` (and the system's
+ * `last_seen`) until the last socket closes, so the hub can hibernate between messages. Sockets are
+ * tagged with the agent name, which is how `POST /command` addresses a single agent.
+ */
+export class AgentHub {
+  constructor(private readonly state: DurableObjectState, private readonly env: AgentHubEnv) {
+    state.setWebSocketAutoResponse(new WebSocketRequestResponsePair(AGENT_PING, AGENT_PONG));
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    const { pathname } = new URL(request.url);
+    if (request.method === "GET" && pathname === "/connect") return this.connect(request);
+    if (request.method === "POST" && pathname === "/command") return this.command(request);
+    return new Response("Not Found", { status: 404 });
+  }
+
+  async webSocketMessage(ws: WebSocket, raw: string | ArrayBuffer): Promise<void> {
+    const parsed = parseAgentMessage(raw);
+    if (!parsed.ok) {
+      this.send(ws, { type: "error", id: parsed.id, code: "invalid_message", issues: parsed.issues });
+      return;
+    }
+    const now = Date.now();
+    const agent = this.attachment(ws)?.agent ?? null;
+    const events = await this.apply(agent, parsed.type, parsed.message, now);
+    if (!Array.isArray(events)) {
+      this.send(ws, {
+        type: "error",
+        id: parsed.id,
+        code: "invalid_transition",
+        from: events.from,
+        to: events.to,
+        allowed: PRESENCE_TRANSITIONS[events.from],
+      });
+      return;
+    }
+    if (agent !== null && parsed.type !== "presence") await touchAgent(this.env.CLANKA_STATE, agent, now);
+    await touchLastSeen(this.env.CLANKA_STATE, now);
+    this.send(ws, { type: "ack", id: parsed.id });
+    await publishStreamEvents(this.env.STREAM_HUB, events);
+  }
+
+  async webSocketClose(ws: WebSocket, code: number, reason: string): Promise<void> {
+    try {
+      ws.close(code, reason);
+    } catch {
+      // already closed by the runtime
+    }
+    if (this.state.getWebSockets().filter((socket) => socket !== ws).length === 0) {
+      await this.state.storage.deleteAlarm();
+    }
+  }
+
+  async webSocketError(ws: WebSocket): Promise<void> {
+    await this.webSocketClose(ws, 1011, "socket error");
+  }
+
+  async alarm(): Promise<void> {
+    const sockets = this.state.getWebSockets();
+    if (sockets.length === 0) return;
+    const now = Date.now();
+    const agents = new Set(sockets.map((socket) => this.attachment(socket)?.agent).filter((agent): agent is string => agent !== undefined));
+    for (const agent of agents) await touchAgent(this.env.CLANKA_STATE, agent, now);
+    await touchLastSeen(this.env.CLANKA_STATE, now);
+    await this.state.storage.setAlarm(now + AGENT_LIVENESS_INTERVAL_MS);
+  }
+
+  private async connect(request: Request): Promise<Response> {
+    const agent = request.headers.get(AGENT_NAME_HEADER) ?? "";
+    if (request.headers.get("Upgrade")?.toLowerCase() !== "websocket" || !isAgentId(agent)) {
+      return new Response("Expected a WebSocket upgrade from a named agent", { status: 426 });
+    }
+    const [client, server] = Object.values(new WebSocketPair());
+    const now = Date.now();
+    const attachment: AgentAttachment = { agent, connectedAt: now };
+    this.state.acceptWebSocket(server, [agent]);
+    server.serializeAttachment(attachment);
+
+    await touchAgent(this.env.CLANKA_STATE, agent, now);
+    await touchLastSeen(this.env.CLANKA_STATE, now);
+    if (await this.state.storage.getAlarm() === null) {
+      await this.state.storage.setAlarm(now + AGENT_LIVENESS_INTERVAL_MS);
+    }
+    this.send(server, { type: "welcome", agent, commands: AGENT_COMMANDS });
+    await publishStreamEvents(this.env.STREAM_HUB, [
+      { type: "heartbeat", data: { status: "operational", last_seen: new Date(now).toISOString() } },
+    ]);
+    return new Response(null, { status: 101, webSocket: client });
+  }
+
+  private async command(request: Request): Promise<Response> {
+    const body = await request.json().catch(() => null) as { id?: unknown; command?: unknown; agent?: unknown } | null;
+    if (!body || typeof body.id !== "string" || !isAgentCommand(body.command)) {
+      return new Response("Invalid command", { status: 400 });
+    }
+    const sockets = this.state.getWebSockets(typeof body.agent === "string" ? body.agent : undefined);
+    const payload = { type: "command", id: body.id, command: body.command, issuedAt: new Date().toISOString() };
+    const delivered = new Set<string>();
+    for (const socket of sockets) {
+      if (this.send(socket, payload)) delivered.add(this.attachment(socket)?.agent ?? "unknown");
+    }
+    return Response.json({ delivered: [...delivered].sort() });
+  }
+
+  private async apply(
+    agent: string | null,
+    type: AgentMessageType,
+    message: Record<string, unknown>,
+    now: number,
+  ): Promise<StreamPublish[] | { from: PresenceState; to: PresenceState }> {
+    const kv = this.env.CLANKA_STATE;
+    if (type === "presence") {
+      if (agent === null) return [];
+      const presence = message.presence as {
+        state?: PresenceState;
+        message?: string | null;
+        task?: string | null;
+        offlineAfterSec?: number;
+      };
+      const result = await recordAgentPresence(kv, agent, {
+        state: presence.state ?? "active",
+        message: presence.message ?? null,
+        task: presence.task ?? null,
+        offlineAfterSec: presence.offlineAfterSec,
+      }, now);
+      if (!result.ok) return { from: result.from, to: result.to };
+      return [{ type: "presence", data: agentPresenceEvent(result.agent) }];
+    }
+    if (type === "activity") {
+      const activity = message.activity as { desc: string; type: string };
+      const entry = toHistoryEntry({ desc: activity.desc.trim(), type: activity.type.trim() }, now);
+      await prependHistory(kv, [entry]);
+      return [{ type: "history", data: entry }];
+    }
+    const added = toHistoryBatch(message.history as unknown[], now);
+    await prependHistory(kv, added);
+    // Oldest first, matching the order `/heartbeat` publishes in.
+    return added.reverse().map((entry): StreamPublish => ({ type: "history", data: entry }));
+  }
+
+  private attachment(ws: WebSocket): AgentAttachment | null {
+    return ws.deserializeAttachment() as AgentAttachment | null;
+  }
+
+  // False when the socket is already gone; its close handler does the cleanup.
+  private send(ws: WebSocket, message: unknown): boolean {
+    try {
+      ws.send(JSON.stringify(message));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,152 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  decodeAuditCursor,
+  encodeAuditCursor,
+  queryAuditLog,
+  recordAuditEvent,
+  toAuditCsv,
+  type AuditEvent,
+} from "./audit";
+
+function createMockKV() {
+  const store: Record<string, { value: string; metadata?: unknown }> = {};
+  return {
+    get: async (key: string) => (store[key] ? JSON.parse(store[key].value) : null),
+    put: async (key: string, value: string, opts?: { metadata?: unknown }) => {
+      store[key] = { value, metadata: opts?.metadata };
+    },
+    // Two keys per page, so queries have to follow KV list cursors.
+    list: async ({ prefix = "", cursor }: { prefix?: string; cursor?: string }) => {
+      const names = Object.keys(store).filter((name) => name.startsWith(prefix)).sort();
+      const start = cursor ? Number(cursor) : 0;
+      const keys = names.slice(start, start + 2).map((name) => ({ name, metadata: store[name].metadata }));
+      const complete = start + 2 >= names.length;
+      return { keys, list_complete: complete, cursor: complete ? undefined : String(start + 2) };
+    },
+  } as unknown as KVNamespace;
+}
+
+function event(timestamp: number, overrides: Partial<AuditEvent> = {}): AuditEvent {
+  return {
+    timestamp,
+    action: "tasks.create",
+    actor: "bot",
+    actorId: "id-1",
+    target: null,
+    ip: "unknown",
+    method: "POST",
+    path: "/admin/tasks",
+    status: 200,
+    requestId: null,
+    ...overrides,
+  };
+}
+
+describe("queryAuditLog", () => {
+  it("returns events newest first across KV list pages", async () => {
+    const kv = createMockKV();
+    for (const timestamp of [1000, 3000, 2000, 5000, 4000]) {
+      await recordAuditEvent(kv, event(timestamp));
+    }
+
+    const first = await queryAuditLog(kv, { since: null, actor: null, action: null, limit: 3, cursor: null });
+    expect(first.events.map((item) => item.timestamp)).toEqual([5000, 4000, 3000]);
+
+    const second = await queryAuditLog(kv, {
+      since: 2000,
+      actor: null,
+      action: null,
+      limit: 3,
+      cursor: decodeAuditCursor(first.nextCursor!),
+    });
+    expect(second.events.map((item) => item.timestamp)).toEqual([2000]);
+    expect(second.nextCursor).toBeNull();
+  });
+});
+
+describe("audit keys", () => {
+  it("list newest first and still read auth failures written before the audit log", async () => {
+    const kv = createMockKV();
+    await kv.put("auth_fail:1500:7", JSON.stringify({ path: "/set-presence", ip: "1.2.3.4", timestamp: 1500 }));
+    for (const timestamp of [1000, 3000, 2000]) {
+      await recordAuditEvent(kv, event(timestamp));
+    }
+
+    const { keys } = await kv.list({ prefix: "audit:r:" });
+    expect(keys[0].name).toMatch(/^audit:r:9999999996999:\d+$/);
+    const { events } = await queryAuditLog(kv, { since: null, actor: null, action: null, limit: 10, cursor: null });
+    expect(events.map((item) => item.timestamp)).toEqual([3000, 2000, 1500, 1000]);
+    expect(events[2]).toMatchObject({ action: "auth.failure", actor: "anonymous", ip: "1.2.3.4", status: 401 });
+  });
+
+  it("skips pre-audit auth failures when the filter cannot match them", async () => {
+    const kv = createMockKV();
+    await kv.put("auth_fail:1500:7", JSON.stringify({ path: "/set-presence", ip: "1.2.3.4", timestamp: 1500 }));
+    const get = vi.spyOn(kv, "get");
+
+    const { events } = await queryAuditLog(kv, { since: null, actor: "bot", action: null, limit: 10, cursor: null });
+    expect(events).toEqual([]);
+    expect(get).not.toHaveBeenCalled();
+  });
+
+  it("caps value reads per query and continues from a cursor", async () => {
+    const kv = createMockKV();
+    for (let timestamp = 1001; timestamp <= 1045; timestamp += 1) {
+      await kv.put(`auth_fail:${timestamp}:7`, JSON.stringify({ path: "/set-presence", ip: "1.2.3.4", timestamp }));
+    }
+    const get = vi.spyOn(kv, "get");
+
+    const first = await queryAuditLog(kv, { since: null, actor: null, action: null, limit: 500, cursor: null });
+    expect(get).toHaveBeenCalledTimes(40);
+    expect(first.events).toHaveLength(40);
+    expect(first.events[0].timestamp).toBe(1045);
+
+    const second = await queryAuditLog(kv, {
+      since: null, actor: null, action: null, limit: 500, cursor: decodeAuditCursor(first.nextCursor!),
+    });
+    expect(second.events.map((item) => item.timestamp)).toEqual([1005, 1004, 1003, 1002, 1001]);
+    expect(second.nextCursor).toBeNull();
+  });
+});
+
+describe("recordAuditEvent", () => {
+  it("truncates long paths and targets so the event keeps its KV metadata", async () => {
+    const kv = createMockKV();
+    const long = `/admin/tasks/${"x".repeat(2000)}`;
+    await recordAuditEvent(kv, event(1000, { path: long, target: "x".repeat(2000) }));
+
+    const { keys } = await kv.list({ prefix: "audit:" });
+    const stored = keys[0].metadata as AuditEvent;
+    expect(stored.path).toHaveLength(256);
+    expect(stored.path.startsWith("/admin/tasks/xxx")).toBe(true);
+    expect(stored.target).toHaveLength(256);
+    expect(new TextEncoder().encode(JSON.stringify(stored)).length).toBeLessThanOrEqual(1024);
+  });
+
+  it("drops metadata that would still be too large and reads the value instead", async () => {
+    const kv = createMockKV();
+    await recordAuditEvent(kv, event(1000, { path: "/é".repeat(120), target: "é".repeat(250), actor: "é".repeat(64) }));
+
+    const { keys } = await kv.list({ prefix: "audit:" });
+    expect(keys[0].metadata).toBeUndefined();
+    const { events } = await queryAuditLog(kv, { since: null, actor: null, action: null, limit: 10, cursor: null });
+    expect(events).toEqual([expect.objectContaining({ timestamp: 1000, actor: "é".repeat(64) })]);
+  });
+});
+
+describe("audit cursors", () => {
+  it("round-trips and rejects garbage", () => {
+    const cursor = { timestamp: 1700000000000, key: "audit:1700000000000:7" };
+    expect(decodeAuditCursor(encodeAuditCursor(cursor))).toEqual(cursor);
+    expect(decodeAuditCursor("not-a-cursor")).toBeNull();
+  });
+});
+
+describe("toAuditCsv", () => {
+  it("quotes cells containing separators", () => {
+    const csv = toAuditCsv([event(0, { target: "a,\"b\"" })]);
+    expect(csv.split("\r\n")[1]).toBe(
+      "1970-01-01T00:00:00.000Z,tasks.create,bot,id-1,\"a,\"\"b\"\"\",unknown,POST,/admin/tasks,200,",
+    );
+  });
+});
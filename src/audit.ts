@@ -0,0 +1,233 @@
+// Audit log of admin actions and auth failures, stored as one KV key per event
+
+import { parseReverseTimestamp, reverseTimestampKey } from "./reverse-timestamp";
+
+export type AuditEvent = {
+  timestamp: number;
+  action: string;
+  actor: string;
+  actorId: string | null;
+  target: string | null;
+  ip: string;
+  method: string;
+  path: string;
+  status: number;
+  requestId: string | null;
+};
+
+export type AuditQuery = {
+  since: number | null;
+  actor: string | null;
+  action: string | null;
+  limit: number;
+  cursor: AuditCursor | null;
+};
+
+export type AuditCursor = { timestamp: number; key: string };
+
+export const AUDIT_KEY_PREFIX = "audit:";
+// Written before the audit log existed; still the key format for auth failures.
+export const AUTH_FAILURE_KEY_PREFIX = "auth_fail:";
+export const AUDIT_TTL_SEC = 60 * 60 * 24 * 30;
+export const AUDIT_DEFAULT_LIMIT = 50;
+export const AUDIT_MAX_LIMIT = 500;
+// Caller-controlled fields are cut to this many characters, so a long path cannot push an event past KV limits.
+const AUDIT_FIELD_MAX_LENGTH = 256;
+// KV rejects metadata larger than this; such events are still written, and queries read their value instead.
+const AUDIT_METADATA_MAX_BYTES = 1024;
+// Upper bound on keys listed per query, so a flood of failures cannot make reads unbounded.
+const AUDIT_SCAN_LIMIT = 10_000;
+// Upper bound on values read per query, for keys without metadata, to stay inside the subrequest limit.
+const AUDIT_VALUE_READ_LIMIT = 40;
+// Keys carry a reverse timestamp after this marker, so the scan budget drops the oldest events. The marker
+// sets them apart from `auth_fail:<ts>:<rand>` keys written before the audit log, which start with 1.
+const AUDIT_REVERSE_MARKER = "r";
+const AUDIT_FIELDS = [
+  "timestamp",
+  "action",
+  "actor",
+  "actorId",
+  "target",
+  "ip",
+  "method",
+  "path",
+  "status",
+  "requestId",
+] as const;
+
+function auditKey(prefix: string, timestamp: number): string {
+  return `${prefix}${AUDIT_REVERSE_MARKER}:${reverseTimestampKey(timestamp)}:${Math.floor(Math.random() * 100000)}`;
+}
+
+function auditKeyTimestamp(name: string): number {
+  const parts = name.split(":");
+  return parts[1] === AUDIT_REVERSE_MARKER ? parseReverseTimestamp(parts[2]) : Number(parts[1]);
+}
+
+function truncate<T extends string | null>(value: T): T {
+  return (value !== null && value.length > AUDIT_FIELD_MAX_LENGTH ? `${value.slice(0, AUDIT_FIELD_MAX_LENGTH - 1)}…` : value) as T;
+}
+
+async function putAuditEvent(kv: KVNamespace, prefix: string, event: AuditEvent): Promise<void> {
+  const stored = { ...event, path: truncate(event.path), target: truncate(event.target) };
+  const value = JSON.stringify(stored);
+  try {
+    await kv.put(auditKey(prefix, event.timestamp), value, {
+      expirationTtl: AUDIT_TTL_SEC,
+      ...(new TextEncoder().encode(value).length <= AUDIT_METADATA_MAX_BYTES ? { metadata: stored } : {}),
+    });
+  } catch {
+    // ignore audit write errors; the request itself already succeeded or failed
+  }
+}
+
+export async function recordAuditEvent(kv: KVNamespace, event: AuditEvent): Promise<void> {
+  await putAuditEvent(kv, AUDIT_KEY_PREFIX, event);
+}
+
+export async function recordAuthFailure(
+  kv: KVNamespace,
+  event: Omit<AuditEvent, "action" | "actor" | "actorId" | "target" | "status">,
+): Promise<void> {
+  await putAuditEvent(kv, AUTH_FAILURE_KEY_PREFIX, {
+    ...event,
+    action: "auth.failure",
+    actor: "anonymous",
+    actorId: null,
+    target: null,
+    status: 401,
+  });
+}
+
+function stringOr<T>(value: unknown, fallback: T): string | T {
+  return typeof value === "string" ? value : fallback;
+}
+
+// Older `auth_fail:*` values only carry `{ path, ip, timestamp }`; fill the rest from the prefix.
+function normalizeAuditEvent(value: unknown, key: string): AuditEvent | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+  const item = value as Record<string, unknown>;
+  const keyTimestamp = auditKeyTimestamp(key);
+  const timestamp = typeof item.timestamp === "number" ? item.timestamp : keyTimestamp;
+  if (!Number.isFinite(timestamp)) return null;
+  const isAuthFailure = key.startsWith(AUTH_FAILURE_KEY_PREFIX);
+
+  return {
+    timestamp,
+    action: stringOr(item.action, isAuthFailure ? "auth.failure" : "unknown"),
+    actor: stringOr(item.actor, "anonymous"),
+    actorId: stringOr(item.actorId, null),
+    target: stringOr(item.target, null),
+    ip: stringOr(item.ip, "unknown"),
+    method: stringOr(item.method, ""),
+    path: stringOr(item.path, ""),
+    status: typeof item.status === "number" ? item.status : isAuthFailure ? 401 : 0,
+    requestId: stringOr(item.requestId, null),
+  };
+}
+
+// `since` is only passed for marked keys, which list newest first, so the scan can stop at the first page
+// reaching back past it.
+async function listAuditKeys(
+  kv: KVNamespace,
+  prefix: string,
+  budget: number,
+  since: number | null,
+): Promise<Array<{ name: string; metadata?: unknown }>> {
+  const keys: Array<{ name: string; metadata?: unknown }> = [];
+  let cursor: string | undefined;
+  do {
+    const page = await kv.list({ prefix, cursor });
+    keys.push(...page.keys);
+    const last = page.keys[page.keys.length - 1]?.name;
+    const pastSince = since !== null && last !== undefined && auditKeyTimestamp(last) < since;
+    cursor = page.list_complete || pastSince ? undefined : page.cursor;
+  } while (cursor && keys.length < budget);
+  return keys.slice(0, budget);
+}
+
+function isBeforeCursor(entry: AuditCursor, cursor: AuditCursor | null): boolean {
+  if (!cursor) return true;
+  if (entry.timestamp !== cursor.timestamp) return entry.timestamp < cursor.timestamp;
+  return entry.key < cursor.key;
+}
+
+/**
+ * Returns matching events newest first. Filters that only need the timestamp run on key names,
+ * so values are fetched only for records written without metadata. Once `AUDIT_VALUE_READ_LIMIT`
+ * values have been read, the page ends early with a cursor, possibly with fewer events than asked for.
+ */
+export async function queryAuditLog(
+  kv: KVNamespace,
+  query: AuditQuery,
+): Promise<{ events: AuditEvent[]; nextCursor: string | null }> {
+  // Unmarked keys are anonymous auth failures, so other actors or actions skip them entirely.
+  const legacyMatches = (query.action === null || query.action === "auth.failure")
+    && (query.actor === null || query.actor === "anonymous");
+  const keys = [
+    ...await listAuditKeys(kv, `${AUDIT_KEY_PREFIX}${AUDIT_REVERSE_MARKER}:`, AUDIT_SCAN_LIMIT, query.since),
+    ...await listAuditKeys(kv, `${AUTH_FAILURE_KEY_PREFIX}${AUDIT_REVERSE_MARKER}:`, AUDIT_SCAN_LIMIT, query.since),
+    ...legacyMatches ? await listAuditKeys(kv, `${AUTH_FAILURE_KEY_PREFIX}1`, AUDIT_SCAN_LIMIT, null) : [],
+  ];
+
+  const candidates = keys
+    .map((key) => ({ ...key, timestamp: auditKeyTimestamp(key.name) }))
+    .filter((key) => Number.isFinite(key.timestamp))
+    .filter((key) => query.since === null || key.timestamp >= query.since)
+    .filter((key) => isBeforeCursor({ timestamp: key.timestamp, key: key.name }, query.cursor))
+    .sort((a, b) => b.timestamp - a.timestamp || (a.name < b.name ? 1 : a.name > b.name ? -1 : 0));
+
+  const events: AuditEvent[] = [];
+  // The last key examined, matching or not; the next page starts after it.
+  let last: AuditCursor | null = null;
+  let reads = 0;
+  for (const key of candidates) {
+    const stored = key.metadata ?? null;
+    if (events.length === query.limit || (stored === null && reads === AUDIT_VALUE_READ_LIMIT)) {
+      return { events, nextCursor: last ? encodeAuditCursor(last) : null };
+    }
+    if (stored === null) reads += 1;
+    const raw = stored ?? await kv.get(key.name, "json").catch(() => null);
+    last = { timestamp: key.timestamp, key: key.name };
+    const event = normalizeAuditEvent(raw, key.name);
+    if (!event) continue;
+    if (query.action && event.action !== query.action) continue;
+    if (query.actor && event.actor !== query.actor && event.actorId !== query.actor) continue;
+    events.push(event);
+  }
+  return { events, nextCursor: null };
+}
+
+export function encodeAuditCursor(cursor: AuditCursor): string {
+  return btoa(JSON.stringify([cursor.timestamp, cursor.key]))
+    .replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+export function decodeAuditCursor(value: string): AuditCursor | null {
+  try {
+    const parsed = JSON.parse(atob(value.replace(/-/g, "+").replace(/_/g, "/"))) as unknown;
+    if (!Array.isArray(parsed) || typeof parsed[0] !== "number" || typeof parsed[1] !== "string") return null;
+    return { timestamp: parsed[0], key: parsed[1] };
+  } catch {
+    return null;
+  }
+}
+
+export function toAuditRecord(event: AuditEvent): Omit<AuditEvent, "timestamp"> & { timestamp: string } {
+  return { ...event, timestamp: new Date(event.timestamp).toISOString() };
+}
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, "\"\"")}"` : text;
+}
+
+export function toAuditCsv(events: AuditEvent[]): string {
+  const rows = events.map(toAuditRecord).map((record) => AUDIT_FIELDS.map((field) => csvCell(record[field])).join(","));
+  return [AUDIT_FIELDS.join(","), ...rows].join("\r\n") + "\r\n";
+}
+
+export function toAuditNdjson(events: AuditEvent[]): string {
+  return events.map((event) => `${JSON.stringify(toAuditRecord(event))}\n`).join("");
+}
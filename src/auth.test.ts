@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import {
+  API_TOKENS_KEY,
+  authenticate,
+  constantTimeEqual,
+  hashToken,
+  mintApiToken,
+  readPresentedToken,
+  revokeApiToken,
+  timingSafeEqual,
+} from "./auth";
+
+function createMockKV(initial: Record<string, string> = {}) {
+  const store: Record<string, string> = { ...initial };
+  return {
+    get: async (key: string) => store[key] ?? null,
+    put: async (key: string, value: string) => { store[key] = value; },
+    __store: store,
+  };
+}
+
+function request(headers: Record<string, string>) {
+  return new Request("https://api.test/x", { headers });
+}
+
+describe("readPresentedToken", () => {
+  it("prefers the Authorization header and requires the exact Bearer form", () => {
+    expect(readPresentedToken(request({ Authorization: "Bearer abc" }))).toBe("abc");
+    expect(readPresentedToken(request({ Authorization: "bearer abc", "X-Admin-Token": "def" }))).toBeNull();
+  });
+
+  it("falls back to the legacy headers", () => {
+    expect(readPresentedToken(request({ "X-Admin-Token": "def" }))).toBe("def");
+    expect(readPresentedToken(request({ ADMIN_TOKEN: "ghi" }))).toBe("ghi");
+    expect(readPresentedToken(request({}))).toBeNull();
+  });
+});
+
+describe("constant-time comparison", () => {
+  it("matches only identical strings", async () => {
+    expect(constantTimeEqual("abc", "abc")).toBe(true);
+    expect(constantTimeEqual("abc", "abd")).toBe(false);
+    expect(constantTimeEqual("abc", "abcd")).toBe(false);
+    expect(await timingSafeEqual("secret", "secret")).toBe(true);
+    expect(await timingSafeEqual("secret", "secret2")).toBe(false);
+  });
+});
+
+describe("authenticate", () => {
+  it("maps ADMIN_KEY to every scope and ADMIN_TOKEN to its legacy scopes", async () => {
+    const env = { CLANKA_STATE: createMockKV() as any, ADMIN_KEY: "root", ADMIN_TOKEN: "ops" };
+
+    const root = await authenticate(request({ Authorization: "Bearer root" }), env);
+    const ops = await authenticate(request({ ADMIN_TOKEN: "ops" }), env);
+
+    expect(root?.scopes).toContain("tokens:admin");
+    expect(ops?.scopes).toEqual(["metrics:read", "cache:admin"]);
+  });
+
+  it("resolves minted tokens by hash until they are revoked", async () => {
+    const kv = createMockKV();
+    const env = { CLANKA_STATE: kv as any };
+    const { token, record } = await mintApiToken(env.CLANKA_STATE, "bot", ["tasks:write", "tasks:write"]);
+
+    expect(record.scopes).toEqual(["tasks:write"]);
+    expect(JSON.parse(kv.__store[API_TOKENS_KEY])[0].hash).toBe(await hashToken(token));
+    expect(await authenticate(request({ Authorization: `Bearer ${token}` }), env)).toEqual({
+      id: record.id,
+      name: "bot",
+      scopes: ["tasks:write"],
+    });
+
+    expect(await revokeApiToken(env.CLANKA_STATE, record.id)).toBe(true);
+    expect(await revokeApiToken(env.CLANKA_STATE, record.id)).toBe(false);
+    expect(await authenticate(request({ Authorization: `Bearer ${token}` }), env)).toBeNull();
+  });
+
+  it("ignores unconfigured legacy secrets and corrupt token records", async () => {
+    const env = { CLANKA_STATE: createMockKV({ [API_TOKENS_KEY]: "{oops" }) as any, ADMIN_KEY: "" };
+    expect(await authenticate(request({ Authorization: "Bearer clk_unknown" }), env)).toBeNull();
+  });
+});
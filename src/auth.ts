@@ -0,0 +1,168 @@
+// Token-based auth: named, hashed API tokens with scopes, plus the legacy secrets
+
+export const AUTH_SCOPES = [
+  "presence:write",
+  "history:write",
+  "tasks:read",
+  "tasks:write",
+  "metrics:read",
+  "cache:admin",
+  "tokens:admin",
+  "lockouts:admin",
+  "audit:read",
+  "webhooks:read",
+  "agents:command",
+  "incidents:write",
+] as const;
+
+export type AuthScope = typeof AUTH_SCOPES[number];
+
+export type AuthPrincipal = {
+  id: string;
+  name: string;
+  scopes: AuthScope[];
+};
+
+export type ApiTokenRecord = AuthPrincipal & {
+  hash: string;
+  createdAt: string;
+};
+
+export type AuthEnv = {
+  CLANKA_STATE: KVNamespace;
+  ADMIN_KEY?: string;
+  ADMIN_TOKEN?: string;
+};
+
+export const API_TOKENS_KEY = "auth:tokens:v1";
+const TOKEN_PREFIX = "clk_";
+
+// `ADMIN_KEY` stays a root credential; `ADMIN_TOKEN` keeps the access it had before scopes existed.
+const LEGACY_PRINCIPALS = {
+  ADMIN_KEY: { id: "legacy:admin-key", name: "ADMIN_KEY", scopes: [...AUTH_SCOPES] },
+  ADMIN_TOKEN: { id: "legacy:admin-token", name: "ADMIN_TOKEN", scopes: ["metrics:read", "cache:admin"] },
+} satisfies Record<string, AuthPrincipal>;
+
+export function isAuthScope(value: unknown): value is AuthScope {
+  return typeof value === "string" && (AUTH_SCOPES as readonly string[]).includes(value);
+}
+
+function toHex(bytes: ArrayBuffer): string {
+  return Array.from(new Uint8Array(bytes), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+export async function hashToken(token: string): Promise<string> {
+  return toHex(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(token)));
+}
+
+// Compares every character so the position of the first mismatch does not leak through timing.
+export function constantTimeEqual(a: string, b: string): boolean {
+  let diff = a.length ^ b.length;
+  const length = Math.max(a.length, b.length);
+  for (let i = 0; i < length; i += 1) {
+    diff |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0);
+  }
+  return diff === 0;
+}
+
+// Hashes both sides first so secret length is not observable either.
+export async function timingSafeEqual(a: string, b: string): Promise<boolean> {
+  const [left, right] = await Promise.all([hashToken(a), hashToken(b)]);
+  return constantTimeEqual(left, right);
+}
+
+/**
+ * Reads the presented credential. `Authorization: Bearer <token>` is canonical;
+ * `X-Admin-Token` and `ADMIN_TOKEN` headers are still accepted for older clients.
+ */
+export function readPresentedToken(request: Request): string | null {
+  const authorization = request.headers.get("Authorization");
+  if (authorization !== null) {
+    const match = authorization.match(/^Bearer (\S+)$/);
+    return match ? match[1] : null;
+  }
+  return request.headers.get("X-Admin-Token") ?? request.headers.get("ADMIN_TOKEN");
+}
+
+function parseTokenRecords(raw: string | null): ApiTokenRecord[] {
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter((item): item is ApiTokenRecord => {
+      if (!item || typeof item !== "object" || Array.isArray(item)) return false;
+      const record = item as Partial<ApiTokenRecord>;
+      return typeof record.id === "string"
+        && typeof record.name === "string"
+        && typeof record.hash === "string"
+        && Array.isArray(record.scopes);
+    }).map((record) => ({ ...record, scopes: record.scopes.filter(isAuthScope) }));
+  } catch {
+    return [];
+  }
+}
+
+export async function loadApiTokens(kv: KVNamespace): Promise<ApiTokenRecord[]> {
+  return parseTokenRecords(await kv.get(API_TOKENS_KEY));
+}
+
+export async function authenticate(request: Request, env: AuthEnv): Promise<AuthPrincipal | null> {
+  const token = readPresentedToken(request);
+  if (!token) return null;
+
+  const adminKey = typeof env.ADMIN_KEY === "string" ? env.ADMIN_KEY : "";
+  if (adminKey && await timingSafeEqual(token, adminKey)) return LEGACY_PRINCIPALS.ADMIN_KEY;
+  const adminToken = typeof env.ADMIN_TOKEN === "string" ? env.ADMIN_TOKEN.trim() : "";
+  if (adminToken && await timingSafeEqual(token, adminToken)) return LEGACY_PRINCIPALS.ADMIN_TOKEN;
+
+  if (!token.startsWith(TOKEN_PREFIX)) return null;
+  const hash = await hashToken(token);
+  let record: ApiTokenRecord | undefined;
+  for (const item of await loadApiTokens(env.CLANKA_STATE)) {
+    if (constantTimeEqual(item.hash, hash)) record = item;
+  }
+  if (!record) return null;
+  return { id: record.id, name: record.name, scopes: record.scopes };
+}
+
+export function hasScope(principal: AuthPrincipal, scope: AuthScope): boolean {
+  return principal.scopes.includes(scope);
+}
+
+export async function mintApiToken(
+  kv: KVNamespace,
+  name: string,
+  scopes: AuthScope[],
+): Promise<{ token: string; record: ApiTokenRecord }> {
+  const token = `${TOKEN_PREFIX}${toBase64Url(crypto.getRandomValues(new Uint8Array(32)))}`;
+  const record: ApiTokenRecord = {
+    id: crypto.randomUUID(),
+    name,
+    scopes: Array.from(new Set(scopes)),
+    hash: await hashToken(token),
+    createdAt: new Date().toISOString(),
+  };
+  const records = await loadApiTokens(kv);
+  await kv.put(API_TOKENS_KEY, JSON.stringify([...records, record]));
+  return { token, record };
+}
+
+export async function revokeApiToken(kv: KVNamespace, id: string): Promise<boolean> {
+  const records = await loadApiTokens(kv);
+  const remaining = records.filter((record) => record.id !== id);
+  if (remaining.length === records.length) return false;
+  await kv.put(API_TOKENS_KEY, JSON.stringify(remaining));
+  return true;
+}
+
+// Token records without the hash, safe to return from admin endpoints.
+export function describeApiToken(record: ApiTokenRecord): Omit<ApiTokenRecord, "hash"> {
+  const { hash: _hash, ...rest } = record;
+  return rest;
+}
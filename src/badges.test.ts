@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { renderBadge, scoreColor } from "./badges";
+
+describe("renderBadge", () => {
+  it("renders a flat badge with escaped text and the message color", () => {
+    const svg = renderBadge({ label: "ci <main>", message: "passing", color: "brightgreen" });
+
+    expect(svg).toMatch(/^<svg xmlns="http:\/\/www.w3.org\/2000\/svg" width="\d+" height="20" role="img"/);
+    expect(svg).toContain('aria-label="ci &lt;main&gt;: passing"');
+    expect(svg).toContain('fill="#4c1"');
+    expect(svg).toContain("<linearGradient");
+    expect(svg).not.toContain("<main>");
+  });
+
+  it("widens with longer text and drops the gradient for flat-square", () => {
+    const short = renderBadge({ label: "ci", message: "ok", color: "red" }, "flat-square");
+    const long = renderBadge({ label: "ci", message: "failing badly", color: "red" }, "flat-square");
+    const width = (svg: string) => Number(svg.match(/width="(\d+)"/)?.[1]);
+
+    expect(width(long)).toBeGreaterThan(width(short));
+    expect(short).not.toContain("<linearGradient");
+    expect(short).toContain('rx="0"');
+  });
+
+  it("uppercases for-the-badge text on a 28px badge", () => {
+    const svg = renderBadge({ label: "fleet score", message: "92/100", color: "brightgreen" }, "for-the-badge");
+
+    expect(svg).toContain('height="28"');
+    expect(svg).toContain(">FLEET SCORE</text>");
+    expect(svg).toContain('aria-label="fleet score: 92/100"');
+  });
+});
+
+describe("scoreColor", () => {
+  it("maps scores onto the coverage scale", () => {
+    expect([100, 80, 60, 30, 0].map(scoreColor)).toEqual(["brightgreen", "green", "yellow", "orange", "red"]);
+  });
+});
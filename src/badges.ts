@@ -0,0 +1,110 @@
+// Shields-style SVG badges for embedding fleet state in READMEs
+
+import { escapeXml } from "./feeds";
+
+export const BADGE_STYLES = ["flat", "flat-square", "for-the-badge"] as const;
+export type BadgeStyle = typeof BADGE_STYLES[number];
+
+export const BADGE_COLORS = {
+  brightgreen: "#4c1",
+  green: "#97ca00",
+  yellow: "#dfb317",
+  orange: "#fe7d37",
+  red: "#e05d44",
+  blue: "#007ec6",
+  lightgrey: "#9f9f9f",
+} as const;
+export type BadgeColor = keyof typeof BADGE_COLORS;
+
+export type Badge = { label: string; message: string; color: BadgeColor };
+
+export const BADGE_CONTENT_TYPE = "image/svg+xml; charset=utf-8";
+export const BADGE_LABEL_MAX_LENGTH = 64;
+const LABEL_BACKGROUND = "#555";
+const FONT_FAMILY = "Verdana,Geneva,DejaVu Sans,sans-serif";
+const HORIZONTAL_PADDING = 6;
+
+export function isBadgeStyle(value: string): value is BadgeStyle {
+  return (BADGE_STYLES as readonly string[]).includes(value);
+}
+
+// Approximates Verdana 11px advance widths closely enough that text never overflows its box.
+function textWidth(text: string, charWidth = 1): number {
+  let width = 0;
+  for (const char of text) {
+    if (/[iIjl.,:;!|'`]/.test(char)) width += 3.5;
+    else if (char === " ") width += 3.9;
+    else if (/[mwMW@%]/.test(char)) width += 10.5;
+    else if (/[A-Z]/.test(char)) width += 7.6;
+    else if (/[0-9]/.test(char)) width += 7;
+    else width += 6.6;
+  }
+  return Math.ceil(width * charWidth);
+}
+
+function renderFlat(badge: Badge, rounded: boolean): string {
+  const labelWidth = textWidth(badge.label) + HORIZONTAL_PADDING * 2;
+  const messageWidth = textWidth(badge.message) + HORIZONTAL_PADDING * 2;
+  const width = labelWidth + messageWidth;
+  const label = escapeXml(badge.label);
+  const message = escapeXml(badge.message);
+  const text = (value: string, x: number) => rounded
+    ? `<text x="${x}" y="15" fill="#010101" fill-opacity=".3">${value}</text><text x="${x}" y="14">${value}</text>`
+    : `<text x="${x}" y="14">${value}</text>`;
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="20" role="img" aria-label="${label}: ${message}">`,
+    `<title>${label}: ${message}</title>`,
+    rounded
+      ? `<linearGradient id="s" x2="0" y2="100%"><stop offset="0" stop-color="#bbb" stop-opacity=".1"/><stop offset="1" stop-opacity=".1"/></linearGradient>`
+      : "",
+    `<clipPath id="r"><rect width="${width}" height="20" rx="${rounded ? 3 : 0}" fill="#fff"/></clipPath>`,
+    `<g clip-path="url(#r)">`,
+    `<rect width="${labelWidth}" height="20" fill="${LABEL_BACKGROUND}"/>`,
+    `<rect x="${labelWidth}" width="${messageWidth}" height="20" fill="${BADGE_COLORS[badge.color]}"/>`,
+    rounded ? `<rect width="${width}" height="20" fill="url(#s)"/>` : "",
+    `</g>`,
+    `<g fill="#fff" text-anchor="middle" font-family="${FONT_FAMILY}" font-size="11">`,
+    text(label, labelWidth / 2),
+    text(message, labelWidth + messageWidth / 2),
+    `</g>`,
+    `</svg>`,
+  ].join("");
+}
+
+function renderForTheBadge(badge: Badge): string {
+  const labelText = badge.label.toUpperCase();
+  const messageText = badge.message.toUpperCase();
+  // Uppercase at 10px with letter spacing comes out close to 11px glyphs scaled by 1.1.
+  const labelWidth = textWidth(labelText, 1.1) + 18;
+  const messageWidth = textWidth(messageText, 1.1) + 18;
+  const width = labelWidth + messageWidth;
+  const label = escapeXml(labelText);
+  const message = escapeXml(messageText);
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="28" role="img" aria-label="${escapeXml(badge.label)}: ${escapeXml(badge.message)}">`,
+    `<title>${escapeXml(badge.label)}: ${escapeXml(badge.message)}</title>`,
+    `<g shape-rendering="crispEdges">`,
+    `<rect width="${labelWidth}" height="28" fill="${LABEL_BACKGROUND}"/>`,
+    `<rect x="${labelWidth}" width="${messageWidth}" height="28" fill="${BADGE_COLORS[badge.color]}"/>`,
+    `</g>`,
+    `<g fill="#fff" text-anchor="middle" font-family="${FONT_FAMILY}" font-size="10" letter-spacing="1">`,
+    `<text x="${labelWidth / 2}" y="18">${label}</text>`,
+    `<text x="${labelWidth + messageWidth / 2}" y="18" font-weight="bold">${message}</text>`,
+    `</g>`,
+    `</svg>`,
+  ].join("");
+}
+
+export function renderBadge(badge: Badge, style: BadgeStyle = "flat"): string {
+  if (style === "for-the-badge") return renderForTheBadge(badge);
+  return renderFlat(badge, style === "flat");
+}
+
+// Thresholds follow the usual coverage-badge scale.
+export function scoreColor(score: number): BadgeColor {
+  if (score >= 90) return "brightgreen";
+  if (score >= 75) return "green";
+  if (score >= 50) return "yellow";
+  if (score >= 25) return "orange";
+  return "red";
+}
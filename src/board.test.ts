@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { buildBoard, parseBoardQuery } from "./board";
+import { createTask } from "./tasks";
+
+describe("buildBoard", () => {
+  it("groups repos case-insensitively, sorted by name with unassigned tasks last", () => {
+    const tasks = [
+      createTask({ title: "loose" }),
+      createTask({ title: "api", repo: "ClankaMode/Clanka-API", status: "done" }),
+    ];
+    const repoTasks = [
+      { repo: "clankamode/clanka-api", tasks: [{ priority: "red" as const, text: "fix", done: false }] },
+      { repo: "clankamode/a-tool", tasks: [{ priority: "green" as const, text: "docs", done: false }] },
+    ];
+
+    const board = buildBoard(tasks, repoTasks, { repo: null, priority: null, status: null });
+    expect(board.repos.map((group) => [group.repo, group.counts])).toEqual([
+      ["clankamode/a-tool", { open: 1, done: 0 }],
+      ["clankamode/clanka-api", { open: 1, done: 1 }],
+      [null, { open: 1, done: 0 }],
+    ]);
+  });
+});
+
+describe("parseBoardQuery", () => {
+  it("treats a blank repo as no filter and rejects unknown priorities", () => {
+    const parsed = parseBoardQuery(new URLSearchParams({ repo: "  " }));
+    expect(parsed).toEqual({ ok: true, query: { repo: null, priority: null, status: null } });
+    expect(parseBoardQuery(new URLSearchParams({ priority: "blue" })).ok).toBe(false);
+  });
+});
@@ -0,0 +1,120 @@
+// Public roadmap merging admin tasks from KV with the checkboxes in each repo's TASKS.md
+
+import { isOneOf, TASK_PRIORITIES, TASK_STATUSES, type Task, type TaskPriority, type TaskStatus } from "./tasks";
+
+export type RepoTask = { priority: TaskPriority; text: string; done: boolean };
+export type RepoTasksPayload = { repo: string; tasks: RepoTask[] };
+
+export const BOARD_SOURCES = ["admin", "tasks_md"] as const;
+export type BoardSource = typeof BOARD_SOURCES[number];
+
+export type BoardItem = {
+  source: BoardSource;
+  id: string | null;
+  title: string;
+  status: TaskStatus;
+  priority: TaskPriority;
+  assignee: string | null;
+  dueDate: string | null;
+};
+
+export type BoardCounts = { open: number; done: number };
+
+export type BoardRepo = {
+  repo: string | null;
+  counts: BoardCounts;
+  priorities: Record<TaskPriority, BoardItem[]>;
+};
+
+export type BoardQuery = {
+  repo: string | null;
+  priority: TaskPriority | null;
+  status: TaskStatus | null;
+};
+
+export function parseBoardQuery(params: URLSearchParams): { ok: true; query: BoardQuery } | { ok: false; message: string } {
+  const status = params.get("status");
+  if (status !== null && !isOneOf(TASK_STATUSES, status)) {
+    return { ok: false, message: `status must be one of ${TASK_STATUSES.join(", ")}` };
+  }
+  const priority = params.get("priority");
+  if (priority !== null && !isOneOf(TASK_PRIORITIES, priority)) {
+    return { ok: false, message: `priority must be one of ${TASK_PRIORITIES.join(", ")}` };
+  }
+  return { ok: true, query: { repo: params.get("repo")?.trim() || null, priority, status } };
+}
+
+function fromAdminTask(task: Task): { repo: string | null; item: BoardItem } {
+  return {
+    repo: task.repo,
+    item: {
+      source: "admin",
+      id: task.id,
+      title: task.title,
+      status: task.status,
+      priority: task.priority,
+      assignee: task.assignee,
+      dueDate: task.dueDate,
+    },
+  };
+}
+
+function fromRepoTask(repo: string, task: RepoTask): { repo: string | null; item: BoardItem } {
+  return {
+    repo,
+    item: {
+      source: "tasks_md",
+      id: null,
+      title: task.text,
+      status: task.done ? "done" : "todo",
+      priority: task.priority,
+      assignee: null,
+      dueDate: null,
+    },
+  };
+}
+
+function sameRepo(a: string | null, b: string | null): boolean {
+  return a !== null && b !== null && a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * Groups both sources by repo, then priority. Per-repo counts honour the `repo` and `priority`
+ * filters but not `status`, so a board filtered to open work still reports how much is done.
+ * Admin tasks without a repo land in a trailing `repo: null` group.
+ */
+export function buildBoard(
+  tasks: Task[],
+  repoTasks: RepoTasksPayload[],
+  query: BoardQuery,
+): { repos: BoardRepo[]; counts: BoardCounts } {
+  const entries = [
+    ...repoTasks.flatMap(({ repo, tasks: items }) => items.map((task) => fromRepoTask(repo, task))),
+    ...tasks.map(fromAdminTask),
+  ]
+    .filter((entry) => query.repo === null || sameRepo(entry.repo, query.repo))
+    .filter((entry) => query.priority === null || entry.item.priority === query.priority);
+
+  const groups = new Map<string | null, BoardRepo>();
+  const totals: BoardCounts = { open: 0, done: 0 };
+  for (const { repo, item } of entries) {
+    const key = repo === null ? null : repo.toLowerCase();
+    let group = groups.get(key);
+    if (!group) {
+      group = { repo, counts: { open: 0, done: 0 }, priorities: { red: [], yellow: [], green: [] } };
+      groups.set(key, group);
+    }
+    const bucket = item.status === "done" ? "done" : "open";
+    group.counts[bucket] += 1;
+    totals[bucket] += 1;
+    if (query.status === null || item.status === query.status) {
+      group.priorities[item.priority].push(item);
+    }
+  }
+
+  const repos = Array.from(groups.values()).sort((a, b) => {
+    if (a.repo === null || b.repo === null) return a.repo === null ? 1 : -1;
+    return a.repo.localeCompare(b.repo);
+  });
+  return { repos, counts: totals };
+}
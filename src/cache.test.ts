@@ -0,0 +1,68 @@
+import { describe, expect, it, vi } from "vitest";
+import { cacheResponseHeaders, cachedFetch, createCacheTrace, writeCache, type CacheSpec } from "./cache";
+
+function createMockKV() {
+  const store: Record<string, { value: string; metadata: unknown }> = {};
+  return {
+    get: async (key: string) => store[key]?.value ?? null,
+    getWithMetadata: async (key: string) => ({ value: store[key]?.value ?? null, metadata: store[key]?.metadata ?? null }),
+    put: async (key: string, value: string, opts?: { metadata?: unknown }) => {
+      store[key] = { value, metadata: opts?.metadata ?? null };
+    },
+    __store: store,
+  } as unknown as KVNamespace & { __store: typeof store };
+}
+
+const SPEC: CacheSpec<string[]> = {
+  key: "things:v1",
+  freshSec: 60,
+  staleSec: 3600,
+  parse: (raw) => {
+    const parsed = JSON.parse(raw) as unknown;
+    return Array.isArray(parsed) ? parsed as string[] : null;
+  },
+};
+
+describe("cachedFetch", () => {
+  it("serves a stale value and refreshes it in the background", async () => {
+    const kv = createMockKV();
+    await writeCache(kv, SPEC, ["old"], Date.now() - 120_000);
+    const waits: Promise<unknown>[] = [];
+    const trace = createCacheTrace((promise) => waits.push(promise));
+    const load = vi.fn(async () => ["new"]);
+
+    const result = await cachedFetch(kv, SPEC, load, trace);
+    expect(result).toEqual({ value: ["old"], status: "STALE", ageSec: 120 });
+    await Promise.all(waits);
+    expect(load).toHaveBeenCalledTimes(1);
+    expect((await cachedFetch(kv, SPEC, load)).value).toEqual(["new"]);
+    expect(cacheResponseHeaders(trace)).toEqual({ "X-Cache": "STALE", "Age": "120" });
+  });
+
+  it("shares one load between concurrent misses and remembers a failure", async () => {
+    const kv = createMockKV();
+    const load = vi.fn(async () => {
+      throw new Error("GitHub returned 502");
+    });
+
+    const results = await Promise.allSettled([cachedFetch(kv, SPEC, load), cachedFetch(kv, SPEC, load)]);
+    expect(results.map((result) => result.status)).toEqual(["rejected", "rejected"]);
+    expect(load).toHaveBeenCalledTimes(1);
+
+    await expect(cachedFetch(kv, SPEC, load)).rejects.toThrow("negatively cached");
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("cacheResponseHeaders", () => {
+  it("reports the least fresh status and the oldest age", () => {
+    const trace = createCacheTrace();
+    expect(cacheResponseHeaders(trace)).toBeNull();
+    trace.lookups.push(
+      { key: "a", status: "STALE", ageSec: 900 },
+      { key: "b", status: "MISS", ageSec: 0 },
+      { key: "c", status: "HIT", ageSec: 30 },
+    );
+    expect(cacheResponseHeaders(trace)).toEqual({ "X-Cache": "MISS", "Age": "900" });
+  });
+});
@@ -0,0 +1,153 @@
+// Stale-while-revalidate KV cache shared by the GitHub-derived loaders
+
+export type CacheStatus = "HIT" | "STALE" | "MISS";
+
+export type CacheSpec<T> = {
+  key: string;
+  // Served as a HIT for this long after it was written.
+  freshSec: number;
+  // Then served as STALE, refreshed in the background, for this long before KV expires it.
+  staleSec: number;
+  parse: (raw: string) => T | null;
+};
+
+export type CacheResult<T> = { value: T; status: CacheStatus; ageSec: number };
+
+export type CacheLookup = { key: string; status: CacheStatus; ageSec: number };
+
+// Per-request record of lookups, plus the hook that keeps a background refresh alive past the response.
+export type CacheTrace = {
+  waitUntil: (promise: Promise<unknown>) => void;
+  lookups: CacheLookup[];
+};
+
+type CacheMetadata = { storedAt: number };
+
+// KV's minimum expirationTtl; also how long a failed load keeps later misses from retrying GitHub.
+const NEGATIVE_CACHE_TTL_SEC = 60;
+const REVALIDATE_LEASE_TTL_SEC = 60;
+const STATUS_SEVERITY: Record<CacheStatus, number> = { HIT: 0, STALE: 1, MISS: 2 };
+
+// Loads in flight in this isolate, per namespace, so concurrent misses share one upstream request.
+const inflight = new WeakMap<KVNamespace, Map<string, Promise<unknown>>>();
+
+export function createCacheTrace(waitUntil?: (promise: Promise<unknown>) => void): CacheTrace {
+  return { waitUntil: waitUntil ?? ((promise) => { void promise; }), lookups: [] };
+}
+
+function negativeKey(key: string): string {
+  return `${key}:negative`;
+}
+
+function leaseKey(key: string): string {
+  return `${key}:revalidating`;
+}
+
+/**
+ * Reads a cached value whatever its age. `storedAt` is null for values written without cache
+ * metadata (seeded by hand or before this layer existed); those count as fresh until KV expires them.
+ */
+export async function readCache<T>(
+  kv: KVNamespace,
+  spec: CacheSpec<T>,
+): Promise<{ value: T; storedAt: number | null } | null> {
+  const { value: raw, metadata } = await kv.getWithMetadata<CacheMetadata>(spec.key);
+  if (raw === null) return null;
+  const value = spec.parse(raw);
+  if (value === null) return null;
+  return { value, storedAt: typeof metadata?.storedAt === "number" ? metadata.storedAt : null };
+}
+
+export async function writeCache<T>(kv: KVNamespace, spec: CacheSpec<T>, value: T, now = Date.now()): Promise<void> {
+  await kv.put(spec.key, JSON.stringify(value), {
+    expirationTtl: spec.freshSec + spec.staleSec,
+    metadata: { storedAt: now } satisfies CacheMetadata,
+  });
+}
+
+function loadOnce<T>(kv: KVNamespace, spec: CacheSpec<T>, load: () => Promise<T>): Promise<T> {
+  let loads = inflight.get(kv);
+  if (!loads) {
+    loads = new Map();
+    inflight.set(kv, loads);
+  }
+  const pending = loads.get(spec.key);
+  if (pending) return pending as Promise<T>;
+
+  const running = (async () => {
+    try {
+      const value = await load();
+      await writeCache(kv, spec, value).catch(() => {
+        // ignore cache write failures and still serve fresh data
+      });
+      return value;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await kv.put(negativeKey(spec.key), message, { expirationTtl: NEGATIVE_CACHE_TTL_SEC }).catch(() => {});
+      throw error;
+    } finally {
+      loads.delete(spec.key);
+    }
+  })();
+  loads.set(spec.key, running);
+  return running;
+}
+
+// Marks `spec.key` as being refreshed, so STALE reads keep serving the old value instead of refreshing it
+// too. A caller that rebuilds the value itself claims it first; the lease expires on its own.
+export async function claimRevalidateLease<T>(kv: KVNamespace, spec: CacheSpec<T>): Promise<void> {
+  await kv.put(leaseKey(spec.key), "1", { expirationTtl: REVALIDATE_LEASE_TTL_SEC });
+}
+
+// The KV lease is best effort (KV is eventually consistent) but stops most isolates refreshing at once.
+async function revalidate<T>(kv: KVNamespace, spec: CacheSpec<T>, load: () => Promise<T>): Promise<void> {
+  if (inflight.get(kv)?.has(spec.key)) return;
+  if (await kv.get(leaseKey(spec.key))) return;
+  await claimRevalidateLease(kv, spec);
+  // A failed refresh keeps serving the stale value; the lease spaces out the retries.
+  await loadOnce(kv, spec, load).catch(() => undefined);
+}
+
+/**
+ * Serves `spec.key` from KV, calling `load` only when needed:
+ * - HIT: younger than `freshSec`, served as is.
+ * - STALE: served as is while `load` refreshes it in the background.
+ * - MISS: `load` runs inline and its result is cached. If it throws, the error propagates and the
+ *   failure is remembered for a minute so further misses fail fast instead of hammering GitHub.
+ */
+export async function cachedFetch<T>(
+  kv: KVNamespace,
+  spec: CacheSpec<T>,
+  load: () => Promise<T>,
+  trace?: CacheTrace,
+): Promise<CacheResult<T>> {
+  const cached = await readCache(kv, spec).catch(() => null);
+  if (cached) {
+    const ageSec = cached.storedAt === null ? 0 : Math.max(0, Math.floor((Date.now() - cached.storedAt) / 1000));
+    const status: CacheStatus = ageSec < spec.freshSec ? "HIT" : "STALE";
+    trace?.lookups.push({ key: spec.key, status, ageSec });
+    if (status === "STALE") {
+      const refresh = revalidate(kv, spec, load).catch(() => {});
+      if (trace) trace.waitUntil(refresh);
+      else void refresh;
+    }
+    return { value: cached.value, status, ageSec };
+  }
+
+  trace?.lookups.push({ key: spec.key, status: "MISS", ageSec: 0 });
+  const failure = await kv.get(negativeKey(spec.key)).catch(() => null);
+  if (failure !== null) throw new Error(`${spec.key} is negatively cached: ${failure}`);
+  return { value: await loadOnce(kv, spec, load), status: "MISS", ageSec: 0 };
+}
+
+// Collapses a request's lookups into `X-Cache` (its least fresh status) and `Age` (its oldest value).
+export function cacheResponseHeaders(trace: CacheTrace): Record<string, string> | null {
+  if (trace.lookups.length === 0) return null;
+  let status: CacheStatus = "HIT";
+  let ageSec = 0;
+  for (const lookup of trace.lookups) {
+    if (STATUS_SEVERITY[lookup.status] > STATUS_SEVERITY[status]) status = lookup.status;
+    ageSec = Math.max(ageSec, lookup.ageSec);
+  }
+  return { "X-Cache": status, "Age": String(ageSec) };
+}
@@ -0,0 +1,110 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  classifyCommit,
+  decodeChangelogCursor,
+  groupChangelog,
+  normalizeChangelogEntry,
+  pageChangelog,
+  refreshRepoChangelog,
+  type ChangelogEntry,
+} from "./changelog";
+
+function createMockKV(store: Record<string, string> = {}): KVNamespace {
+  return {
+    get: async (key: string, type?: string) => {
+      const value = store[key] ?? null;
+      return type === "json" && value !== null ? JSON.parse(value) : value;
+    },
+    getWithMetadata: async (key: string) => ({ value: store[key] ?? null, metadata: null }),
+    put: async (key: string, value: string) => {
+      store[key] = value;
+    },
+  } as unknown as KVNamespace;
+}
+
+function entry(repo: string, sha: string, message: string, minute: number): ChangelogEntry {
+  return normalizeChangelogEntry({
+    sha,
+    message,
+    author: "clanka",
+    date: new Date(Date.UTC(2026, 2, 1, 0, minute)).toISOString(),
+  }, repo) as ChangelogEntry;
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("classifyCommit", () => {
+  it("reads the conventional-commit type and scope", () => {
+    expect(classifyCommit("feat(api): add changelog")).toEqual({ type: "feat", scope: "api" });
+    expect(classifyCommit("Fix!: drop legacy key")).toEqual({ type: "fix", scope: null });
+    expect(classifyCommit("chore: bump deps\n\nbody")).toEqual({ type: "chore", scope: null });
+    expect(classifyCommit("wip: not a known type")).toEqual({ type: "other", scope: null });
+    expect(classifyCommit("Merge pull request #4")).toEqual({ type: "other", scope: null });
+  });
+});
+
+describe("refreshRepoChangelog", () => {
+  it("attaches the tags of published releases to their commits", async () => {
+    vi.spyOn(globalThis, "fetch").mockImplementation(async (input: RequestInfo | URL) => {
+      const url = String(input);
+      if (url.includes("/commits")) {
+        return new Response(JSON.stringify([
+          { sha: "c2", commit: { message: "feat: two", author: { name: "C", date: "2026-03-02T00:00:00Z" } } },
+          { sha: "c1", commit: { message: "fix: one", author: { name: "C", date: "2026-03-01T00:00:00Z" } } },
+        ]), { status: 200 });
+      }
+      if (url.includes("/releases")) {
+        return new Response(JSON.stringify([{ tag_name: "v1.0.0" }, { tag_name: "v1.1.0-rc", draft: true }]), { status: 200 });
+      }
+      return new Response(JSON.stringify([
+        { name: "v1.1.0-rc", commit: { sha: "c2" } },
+        { name: "v1.0.0", commit: { sha: "c1" } },
+      ]), { status: 200 });
+    });
+    const store: Record<string, string> = {};
+
+    const entries = await refreshRepoChangelog({ kv: createMockKV(store), token: null }, "clankamode/clanka-api");
+
+    expect(entries.map(({ sha, type, tags }) => ({ sha, type, tags }))).toEqual([
+      { sha: "c2", type: "feat", tags: [] },
+      { sha: "c1", type: "fix", tags: ["v1.0.0"] },
+    ]);
+    expect(JSON.parse(store["changelog:clankamode/clanka-api:v1"])).toEqual(entries);
+  });
+
+  it("keeps the commits when releases cannot be loaded", async () => {
+    vi.spyOn(globalThis, "fetch").mockImplementation(async (input: RequestInfo | URL) => String(input).includes("/commits")
+      ? new Response(JSON.stringify([{ sha: "c1", message: "docs: readme", author: "C", date: "2026-03-01T00:00:00Z" }]), { status: 200 })
+      : new Response("Forbidden", { status: 403 }));
+
+    const entries = await refreshRepoChangelog({ kv: createMockKV(), token: null }, "clankamode/clanka-api");
+
+    expect(entries).toEqual([expect.objectContaining({ sha: "c1", type: "docs", tags: [] })]);
+  });
+});
+
+describe("pageChangelog", () => {
+  it("merges repos newest first and continues from the cursor", () => {
+    const entries = [
+      entry("clankamode/a", "a1", "feat: a1", 1),
+      entry("clankamode/b", "b3", "fix: b3", 3),
+      entry("clankamode/a", "a2", "chore: a2", 2),
+      entry("clankamode/b", "b0", "feat: b0", 0),
+    ];
+
+    const first = pageChangelog(entries, { since: null, limit: 2, cursor: null });
+    expect(first.commits.map((commit) => commit.sha)).toEqual(["b3", "a2"]);
+    expect(groupChangelog(first.commits).map((group) => [group.type, group.commits.map((commit) => commit.sha)])).toEqual([
+      ["fix", ["b3"]],
+      ["chore", ["a2"]],
+    ]);
+
+    const second = pageChangelog(entries, { since: null, limit: 2, cursor: decodeChangelogCursor(first.nextCursor ?? "") });
+    expect(second).toEqual({ commits: [entries[0], entries[3]], nextCursor: null });
+
+    const recent = pageChangelog(entries, { since: Date.UTC(2026, 2, 1, 0, 2), limit: 10, cursor: null });
+    expect(recent.commits.map((commit) => commit.sha)).toEqual(["b3", "a2"]);
+  });
+});
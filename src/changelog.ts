@@ -0,0 +1,249 @@
+// Per-repo commit changelogs, typed by conventional-commit prefix and tagged with releases
+
+import { cachedFetch, readCache, writeCache, type CacheSpec, type CacheTrace } from "./cache";
+import { githubGet, type GithubClient } from "./github";
+
+// Group order in responses; anything without a recognised prefix is `other`.
+export const CHANGELOG_TYPES = [
+  "feat",
+  "fix",
+  "perf",
+  "refactor",
+  "docs",
+  "test",
+  "ci",
+  "build",
+  "chore",
+  "revert",
+  "style",
+  "other",
+] as const;
+
+export type ChangelogType = typeof CHANGELOG_TYPES[number];
+
+export type ChangelogEntry = {
+  repo: string;
+  sha: string;
+  message: string;
+  author: string;
+  date: string;
+  type: ChangelogType;
+  scope: string | null;
+  // Tags of published releases that point at this commit.
+  tags: string[];
+};
+
+export type ChangelogGroup = { type: ChangelogType; commits: ChangelogEntry[] };
+
+export type ChangelogQuery = {
+  since: number | null;
+  limit: number;
+  cursor: ChangelogCursor | null;
+};
+
+export type ChangelogCursor = { timestamp: number; key: string };
+
+export const CHANGELOG_DEFAULT_LIMIT = 10;
+export const CHANGELOG_MAX_LIMIT = 100;
+// One page of commits per repo; `/changelog` pages never reach further back than this.
+const CHANGELOG_COMMITS_PER_REPO = 100;
+const CHANGELOG_FRESH_SEC = 10 * 60; // 10 minutes
+const CHANGELOG_STALE_SEC = 24 * 60 * 60; // 1 day
+const CONVENTIONAL_PREFIX = /^(\w+)(?:\(([^)]*)\))?!?:\s/;
+
+export function changelogCacheKey(repo: string): string {
+  return `changelog:${repo}:v1`;
+}
+
+export function changelogCache(repo: string): CacheSpec<ChangelogEntry[]> {
+  return {
+    key: changelogCacheKey(repo),
+    freshSec: CHANGELOG_FRESH_SEC,
+    staleSec: CHANGELOG_STALE_SEC,
+    parse: (raw) => parseChangelogEntries(raw, repo),
+  };
+}
+
+function isChangelogType(value: string): value is ChangelogType {
+  return (CHANGELOG_TYPES as readonly string[]).includes(value);
+}
+
+export function classifyCommit(message: string): { type: ChangelogType; scope: string | null } {
+  const match = message.match(CONVENTIONAL_PREFIX);
+  const type = match?.[1].toLowerCase() ?? "";
+  if (!match || !isChangelogType(type)) return { type: "other", scope: null };
+  return { type, scope: match[2]?.trim() || null };
+}
+
+// Accepts both the cached shape and a GitHub commit object.
+export function normalizeChangelogEntry(entry: unknown, repo: string): ChangelogEntry | null {
+  if (!entry || typeof entry !== "object" || Array.isArray(entry)) return null;
+
+  const item = entry as {
+    sha?: unknown;
+    message?: unknown;
+    author?: unknown;
+    date?: unknown;
+    tags?: unknown;
+    commit?: {
+      message?: unknown;
+      author?: { name?: unknown; date?: unknown };
+      committer?: { date?: unknown };
+    };
+  };
+
+  const sha = typeof item.sha === "string" ? item.sha.trim() : "";
+  if (!sha) return null;
+  const tags = Array.isArray(item.tags) ? item.tags.filter((tag): tag is string => typeof tag === "string") : [];
+  const withType = (message: string, author: string, date: string): ChangelogEntry => ({
+    repo,
+    sha,
+    message,
+    author,
+    date,
+    ...classifyCommit(message),
+    tags,
+  });
+
+  const directMessage = typeof item.message === "string" ? item.message : "";
+  const directAuthor = typeof item.author === "string" ? item.author : "";
+  const directDate = typeof item.date === "string" ? item.date : "";
+  if (directMessage && directAuthor && directDate) {
+    return withType(directMessage, directAuthor, directDate);
+  }
+
+  const commit = item.commit && typeof item.commit === "object" && !Array.isArray(item.commit)
+    ? item.commit
+    : undefined;
+  const message = typeof commit?.message === "string" ? commit.message : "";
+  const author = item.author && typeof item.author === "object" && !Array.isArray(item.author)
+    && typeof (item.author as { login?: unknown }).login === "string"
+    ? (item.author as { login: string }).login
+    : typeof commit?.author?.name === "string"
+      ? commit.author.name
+      : "unknown";
+  const date = typeof commit?.author?.date === "string"
+    ? commit.author.date
+    : typeof commit?.committer?.date === "string"
+      ? commit.committer.date
+      : new Date().toISOString();
+  return withType(message, author, date);
+}
+
+function parseChangelogEntries(raw: string, repo: string): ChangelogEntry[] | null {
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    if (!Array.isArray(parsed)) return null;
+    return parsed
+      .map((entry) => normalizeChangelogEntry(entry, repo))
+      .filter((entry): entry is ChangelogEntry => Boolean(entry));
+  } catch {
+    return null;
+  }
+}
+
+// Throws when the repo has no cached changelog and GitHub cannot be reached.
+export async function loadRepoChangelog(client: GithubClient, repo: string, trace?: CacheTrace): Promise<ChangelogEntry[]> {
+  return (await cachedFetch(client.kv, changelogCache(repo), () => fetchRepoChangelog(client, repo), trace)).value;
+}
+
+export async function refreshRepoChangelog(client: GithubClient, repo: string): Promise<ChangelogEntry[]> {
+  const entries = await fetchRepoChangelog(client, repo);
+  await writeCache(client.kv, changelogCache(repo), entries);
+  return entries;
+}
+
+async function fetchRepoChangelog(client: GithubClient, repo: string): Promise<ChangelogEntry[]> {
+  const res = await githubGet(client, `/repos/${repo}/commits?per_page=${CHANGELOG_COMMITS_PER_REPO}`);
+  if (!res.ok) throw new Error(`${repo} commits returned ${res.status}`);
+  if (!Array.isArray(res.data)) throw new Error(`${repo} commits is not an array`);
+
+  // Tags only decorate commits, so the changelog is still served when they cannot be loaded.
+  const tagsBySha = await fetchReleaseTags(client, repo).catch(() => new Map<string, string[]>());
+  return res.data
+    .map((entry) => normalizeChangelogEntry(entry, repo))
+    .filter((entry): entry is ChangelogEntry => Boolean(entry))
+    .map((entry) => ({ ...entry, tags: tagsBySha.get(entry.sha) ?? [] }));
+}
+
+// Releases name their tag but not its commit; the tags listing supplies the commit.
+async function fetchReleaseTags(client: GithubClient, repo: string): Promise<Map<string, string[]>> {
+  const [releases, tags] = await Promise.all([
+    githubGet(client, `/repos/${repo}/releases?per_page=100`),
+    githubGet(client, `/repos/${repo}/tags?per_page=100`),
+  ]);
+  if (!releases.ok || !tags.ok) throw new Error(`${repo} releases returned ${releases.ok ? tags.status : releases.status}`);
+
+  const released = new Set<string>();
+  for (const release of Array.isArray(releases.data) ? releases.data as Array<Record<string, unknown>> : []) {
+    if (typeof release?.tag_name === "string" && release.draft !== true) released.add(release.tag_name);
+  }
+  const bySha = new Map<string, string[]>();
+  for (const tag of Array.isArray(tags.data) ? tags.data as Array<{ name?: unknown; commit?: { sha?: unknown } }> : []) {
+    const sha = tag?.commit?.sha;
+    if (typeof tag?.name !== "string" || typeof sha !== "string" || !released.has(tag.name)) continue;
+    bySha.set(sha, [...bySha.get(sha) ?? [], tag.name]);
+  }
+  return bySha;
+}
+
+/**
+ * Prepends pushed commits (newest first) to a repo's cached changelog. Like the events feed, a cold
+ * cache is left for the next poll rather than seeded with a partial history.
+ */
+export async function recordChangelogPush(kv: KVNamespace, repo: string, pushed: ChangelogEntry[]): Promise<boolean> {
+  const spec = changelogCache(repo);
+  const cached = await readCache(kv, spec);
+  if (cached === null) return false;
+  const seen = new Set(pushed.map((entry) => entry.sha));
+  const entries = [...pushed, ...cached.value.filter((entry) => !seen.has(entry.sha))].slice(0, CHANGELOG_COMMITS_PER_REPO);
+  await writeCache(kv, spec, entries);
+  return true;
+}
+
+function isBeforeCursor(entry: ChangelogCursor, cursor: ChangelogCursor | null): boolean {
+  if (!cursor) return true;
+  if (entry.timestamp !== cursor.timestamp) return entry.timestamp < cursor.timestamp;
+  return entry.key < cursor.key;
+}
+
+// Newest first across repos; ties on the commit date fall back to `<repo>@<sha>`.
+export function pageChangelog(
+  entries: ChangelogEntry[],
+  query: ChangelogQuery,
+): { commits: ChangelogEntry[]; nextCursor: string | null } {
+  const ordered = entries
+    .map((entry) => ({ entry, timestamp: Date.parse(entry.date), key: `${entry.repo}@${entry.sha}` }))
+    .filter((item) => Number.isFinite(item.timestamp))
+    .filter((item) => query.since === null || item.timestamp >= query.since)
+    .filter((item) => isBeforeCursor(item, query.cursor))
+    .sort((a, b) => b.timestamp - a.timestamp || (a.key < b.key ? 1 : a.key > b.key ? -1 : 0));
+
+  const page = ordered.slice(0, query.limit);
+  const last = page[page.length - 1];
+  const nextCursor = ordered.length > query.limit && last
+    ? encodeChangelogCursor({ timestamp: last.timestamp, key: last.key })
+    : null;
+  return { commits: page.map((item) => item.entry), nextCursor };
+}
+
+export function groupChangelog(commits: ChangelogEntry[]): ChangelogGroup[] {
+  return CHANGELOG_TYPES
+    .map((type) => ({ type, commits: commits.filter((commit) => commit.type === type) }))
+    .filter((group) => group.commits.length > 0);
+}
+
+export function encodeChangelogCursor(cursor: ChangelogCursor): string {
+  return btoa(JSON.stringify([cursor.timestamp, cursor.key]))
+    .replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+export function decodeChangelogCursor(value: string): ChangelogCursor | null {
+  try {
+    const parsed = JSON.parse(atob(value.replace(/-/g, "+").replace(/_/g, "/"))) as unknown;
+    if (!Array.isArray(parsed) || typeof parsed[0] !== "number" || typeof parsed[1] !== "string") return null;
+    return { timestamp: parsed[0], key: parsed[1] };
+  } catch {
+    return null;
+  }
+}
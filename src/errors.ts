@@ -0,0 +1,68 @@
+// Error envelope and code catalogue shared by every route
+
+export const ERROR_CATALOGUE = {
+  invalid_body: { status: 400, message: "Invalid body" },
+  invalid_query: { status: 400, message: "Invalid query parameters" },
+  invalid_path: { status: 400, message: "Invalid path parameter" },
+  invalid_webhook: { status: 400, message: "Malformed webhook delivery" },
+  unauthorized: { status: 401, message: "Unauthorized" },
+  invalid_signature: { status: 401, message: "Invalid request signature" },
+  request_replayed: { status: 401, message: "Signed request was already used" },
+  forbidden: { status: 403, message: "Token is missing the required scope" },
+  not_found: { status: 404, message: "Not Found" },
+  tool_not_found: { status: 404, message: "Tool Not Found" },
+  task_not_found: { status: 404, message: "Task Not Found" },
+  token_not_found: { status: 404, message: "Token Not Found" },
+  lockout_not_found: { status: 404, message: "No lockout for this IP" },
+  repo_not_found: { status: 404, message: "Repo is not in the registry" },
+  feed_not_found: { status: 404, message: "Feed Not Found" },
+  agent_not_found: { status: 404, message: "Agent Not Found" },
+  incident_not_found: { status: 404, message: "Incident Not Found" },
+  method_not_allowed: { status: 405, message: "Method Not Allowed" },
+  invalid_transition: { status: 409, message: "Presence cannot change to that state from its current one" },
+  precondition_failed: { status: 412, message: "If-Match does not match the current ETag" },
+  upgrade_required: { status: 426, message: "Expected a WebSocket upgrade" },
+  rate_limited: { status: 429, message: "Too Many Requests" },
+  auth_locked: { status: 429, message: "Too many failed authentication attempts" },
+  internal_error: { status: 500, message: "Internal Server Error" },
+  github_unconfigured: { status: 503, message: "GitHub credentials are not configured" },
+  webhooks_unconfigured: { status: 503, message: "GITHUB_WEBHOOK_SECRET is not configured" },
+  stream_unconfigured: { status: 503, message: "STREAM_HUB is not configured" },
+  agents_unconfigured: { status: 503, message: "AGENT_HUB is not configured" },
+  upstream_unavailable: { status: 503, message: "Upstream service unavailable and no cached data" },
+} as const satisfies Record<string, { status: number; message: string }>;
+
+export type ErrorCode = keyof typeof ERROR_CATALOGUE;
+
+export type ErrorEnvelope = {
+  error: {
+    code: ErrorCode;
+    message: string;
+    details: unknown;
+    requestId: string;
+  };
+};
+
+export function errorEnvelope(
+  code: ErrorCode,
+  requestId: string,
+  options: { message?: string; details?: unknown } = {},
+): ErrorEnvelope {
+  return {
+    error: {
+      code,
+      message: options.message ?? ERROR_CATALOGUE[code].message,
+      details: options.details ?? null,
+      requestId,
+    },
+  };
+}
+
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._:-]{1,128}$/;
+
+// Reuses a caller-supplied `X-Request-Id` when it is safe to echo back, otherwise mints one.
+export function resolveRequestId(request: Request): string {
+  const provided = request.headers.get("X-Request-Id")?.trim();
+  if (provided && REQUEST_ID_PATTERN.test(provided)) return provided;
+  return crypto.randomUUID();
+}
@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+import {
+  changelogFeedItem,
+  escapeXml,
+  feedEtag,
+  feedNotModified,
+  githubEventFeedItem,
+  historyFeedItem,
+  parseFeedName,
+  renderFeed,
+  type Feed,
+} from "./feeds";
+
+function feed(): Feed {
+  return {
+    title: "clanka <feed>",
+    description: "Tom & Jerry",
+    homeUrl: "https://api.example/history",
+    feedUrl: "https://api.example/feeds/history.xml",
+    items: [
+      changelogFeedItem({
+        repo: "clankamode/clanka-api",
+        sha: "abc123",
+        message: "feat: add <feeds> & \"badges\"\n\nbody\u0000",
+        author: "clanka",
+        date: "2026-03-02T10:00:00.000Z",
+        type: "feat",
+        scope: null,
+        tags: ["v1.0.0"],
+      }),
+      historyFeedItem({ timestamp: Date.parse("2026-03-01T00:00:00.000Z"), desc: "shipped it", type: "deploy", hash: "deadbeef" }),
+    ],
+  };
+}
+
+describe("parseFeedName", () => {
+  it("maps extensions to formats and rejects unknown sources", () => {
+    expect(parseFeedName("history.xml")).toEqual({ source: "history", format: "rss" });
+    expect(parseFeedName("events.atom")).toEqual({ source: "events", format: "atom" });
+    expect(parseFeedName("changelog.json")).toEqual({ source: "changelog", format: "json" });
+    expect(parseFeedName("tasks.xml")).toBeNull();
+    expect(parseFeedName("history.html")).toBeNull();
+  });
+});
+
+describe("escapeXml", () => {
+  it("escapes markup and drops characters XML cannot carry", () => {
+    expect(escapeXml(`<a href="x">'&'</a>\u0007\uD800`)).toBe("&lt;a href=&quot;x&quot;&gt;&apos;&amp;&apos;&lt;/a&gt;");
+  });
+});
+
+describe("feed items", () => {
+  it("derives GUIDs from the commit sha, history hash, and GitHub event id", () => {
+    const [commit, history] = feed().items;
+    expect(commit.id).toBe("https://github.com/clankamode/clanka-api/commit/abc123");
+    expect(history.id).toBe(`urn:clanka:history:deadbeef:${Date.parse("2026-03-01T00:00:00.000Z")}`);
+    expect(githubEventFeedItem({
+      id: "9001",
+      type: "PUSH",
+      repo: "clankamode/clanka-api",
+      message: "pushed 2 commits",
+      timestamp: "2026-03-01T00:00:00Z",
+      commits: { count: 2, messages: ["one", "two"] },
+    })).toMatchObject({ id: "urn:clanka:github-event:9001", content: "pushed 2 commits\none\ntwo", categories: ["PUSH"] });
+    expect(githubEventFeedItem({ type: "RELEASE", repo: "clankamode/clanka-api", message: "v1", timestamp: "2026-03-01T00:00:00Z" }).id)
+      .toBe(`urn:clanka:github-event:clankamode/clanka-api:RELEASE:${Date.parse("2026-03-01T00:00:00Z")}`);
+  });
+});
+
+describe("renderFeed", () => {
+  it("renders RSS with escaped text and permalink GUIDs only for URLs", () => {
+    const rss = renderFeed("rss", feed());
+    expect(rss).toContain("<title>clanka &lt;feed&gt;</title>");
+    expect(rss).toContain("<lastBuildDate>Mon, 02 Mar 2026 10:00:00 GMT</lastBuildDate>");
+    expect(rss).toContain('<guid isPermaLink="true">https://github.com/clankamode/clanka-api/commit/abc123</guid>');
+    expect(rss).toContain("<description>feat: add &lt;feeds&gt; &amp; &quot;badges&quot;\n\nbody</description>");
+    expect(rss).toContain('<guid isPermaLink="false">urn:clanka:history:deadbeef:');
+    expect(rss).toContain("<category>v1.0.0</category>");
+  });
+
+  it("renders Atom entries with ids, authors, and RFC 3339 dates", () => {
+    const atom = renderFeed("atom", feed());
+    expect(atom).toContain('<feed xmlns="http://www.w3.org/2005/Atom">');
+    expect(atom).toContain("<updated>2026-03-02T10:00:00.000Z</updated>");
+    expect(atom).toContain("<title>clankamode/clanka-api: feat: add &lt;feeds&gt; &amp; &quot;badges&quot;</title>");
+    expect(atom).toContain("<author><name>clanka</name></author>");
+  });
+
+  it("renders JSON Feed 1.1", () => {
+    const json = JSON.parse(renderFeed("json", feed()));
+    expect(json.version).toBe("https://jsonfeed.org/version/1.1");
+    expect(json.items[0]).toEqual({
+      id: "https://github.com/clankamode/clanka-api/commit/abc123",
+      url: "https://github.com/clankamode/clanka-api/commit/abc123",
+      title: "clankamode/clanka-api: feat: add <feeds> & \"badges\"",
+      content_text: "feat: add <feeds> & \"badges\"\n\nbody\u0000",
+      date_published: "2026-03-02T10:00:00.000Z",
+      authors: [{ name: "clanka" }],
+      tags: ["feat", "v1.0.0"],
+    });
+    expect(json.items[1]).not.toHaveProperty("url");
+  });
+});
+
+describe("feedNotModified", () => {
+  it("prefers If-None-Match and otherwise compares If-Modified-Since to the second", async () => {
+    const etag = await feedEtag("body");
+    const lastModified = Date.parse("2026-03-02T10:00:00.500Z");
+    const request = (headers: Record<string, string>) => new Request("https://api.example/feeds/history.xml", { headers });
+
+    expect(etag).toMatch(/^"[0-9a-f]{32}"$/);
+    expect(feedNotModified(request({ "If-None-Match": `"other", W/${etag}` }), etag, lastModified)).toBe(true);
+    expect(feedNotModified(request({
+      "If-None-Match": '"other"',
+      "If-Modified-Since": "Tue, 03 Mar 2026 00:00:00 GMT",
+    }), etag, lastModified)).toBe(false);
+    expect(feedNotModified(request({ "If-Modified-Since": "Mon, 02 Mar 2026 10:00:00 GMT" }), etag, lastModified)).toBe(true);
+    expect(feedNotModified(request({ "If-Modified-Since": "Mon, 02 Mar 2026 09:59:59 GMT" }), etag, lastModified)).toBe(false);
+    expect(feedNotModified(request({}), etag, lastModified)).toBe(false);
+  });
+});
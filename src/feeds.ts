@@ -0,0 +1,211 @@
+// RSS 2.0, Atom 1.0 and JSON Feed 1.1 renderings of history, GitHub events and changelogs
+
+import type { ChangelogEntry } from "./changelog";
+import type { GithubEvent } from "./github-events";
+
+export const FEED_SOURCES = ["history", "events", "changelog"] as const;
+export const FEED_FORMATS = ["rss", "atom", "json"] as const;
+
+export type FeedSource = typeof FEED_SOURCES[number];
+export type FeedFormat = typeof FEED_FORMATS[number];
+
+export type FeedItem = {
+  // Stable across renders, so readers can tell new items from ones already seen.
+  id: string;
+  title: string;
+  content: string;
+  // Epoch milliseconds.
+  date: number;
+  url: string | null;
+  author: string | null;
+  categories: string[];
+};
+
+export type Feed = {
+  title: string;
+  description: string;
+  homeUrl: string;
+  feedUrl: string;
+  items: FeedItem[];
+};
+
+export const FEED_ITEM_LIMIT = 50;
+export const FEED_CONTENT_TYPES: Record<FeedFormat, string> = {
+  rss: "application/rss+xml; charset=utf-8",
+  atom: "application/atom+xml; charset=utf-8",
+  json: "application/feed+json; charset=utf-8",
+};
+// `.xml` is the conventional RSS extension; `.rss` is accepted too.
+const FEED_EXTENSIONS: Record<string, FeedFormat> = { xml: "rss", rss: "rss", atom: "atom", json: "json" };
+const FEED_AUTHOR = "clanka";
+// Characters XML 1.0 cannot represent at all, even escaped.
+const XML_INVALID_CHARS = /[^\t\n\r\u0020-\uD7FF\uE000-\uFFFD\u{10000}-\u{10FFFF}]/gu;
+
+// `history.xml` → `{ source: "history", format: "rss" }`; null for anything else.
+export function parseFeedName(name: string): { source: FeedSource; format: FeedFormat } | null {
+  const match = name.match(/^([a-z]+)\.([a-z]+)$/);
+  const source = match?.[1] ?? "";
+  const format = FEED_EXTENSIONS[match?.[2] ?? ""];
+  if (!format || !(FEED_SOURCES as readonly string[]).includes(source)) return null;
+  return { source: source as FeedSource, format };
+}
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(XML_INVALID_CHARS, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function firstLine(message: string): string {
+  return message.split("\n")[0].trim();
+}
+
+export function historyFeedItem(entry: { timestamp: number; desc: string; type: string; hash: string }): FeedItem {
+  return {
+    id: `urn:clanka:history:${entry.hash}:${entry.timestamp}`,
+    title: firstLine(entry.desc) || entry.type,
+    content: entry.desc,
+    date: entry.timestamp,
+    url: null,
+    author: null,
+    categories: [entry.type],
+  };
+}
+
+// Webhook-delivered events have no GitHub id yet, so theirs is built from what identifies the event.
+export function githubEventFeedItem(event: GithubEvent): FeedItem {
+  const date = Date.parse(event.timestamp);
+  return {
+    id: event.id
+      ? `urn:clanka:github-event:${event.id}`
+      : `urn:clanka:github-event:${event.repo}:${event.type}:${date}`,
+    title: `${event.repo}: ${event.message}`,
+    content: event.commits ? [event.message, ...event.commits.messages].join("\n") : event.message,
+    date,
+    url: `https://github.com/${event.repo}`,
+    author: null,
+    categories: [event.type],
+  };
+}
+
+export function changelogFeedItem(entry: ChangelogEntry): FeedItem {
+  const url = `https://github.com/${entry.repo}/commit/${entry.sha}`;
+  return {
+    id: url,
+    title: `${entry.repo}: ${firstLine(entry.message)}`,
+    content: entry.message,
+    date: Date.parse(entry.date),
+    url,
+    author: entry.author,
+    categories: [entry.type, ...entry.tags],
+  };
+}
+
+// Newest item date; null for an empty feed.
+export function feedLastModified(feed: Feed): number | null {
+  const dates = feed.items.map((item) => item.date).filter(Number.isFinite);
+  return dates.length > 0 ? Math.max(...dates) : null;
+}
+
+function renderRss(feed: Feed, updated: Date): string {
+  const items = feed.items.map((item) => [
+    "<item>",
+    `<title>${escapeXml(item.title)}</title>`,
+    item.url ? `<link>${escapeXml(item.url)}</link>` : "",
+    `<guid isPermaLink="${item.id === item.url}">${escapeXml(item.id)}</guid>`,
+    `<pubDate>${new Date(item.date).toUTCString()}</pubDate>`,
+    `<description>${escapeXml(item.content)}</description>`,
+    ...item.categories.map((category) => `<category>${escapeXml(category)}</category>`),
+    "</item>",
+  ].filter(Boolean).join(""));
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom"><channel>`,
+    `<title>${escapeXml(feed.title)}</title>`,
+    `<link>${escapeXml(feed.homeUrl)}</link>`,
+    `<description>${escapeXml(feed.description)}</description>`,
+    `<atom:link href="${escapeXml(feed.feedUrl)}" rel="self" type="application/rss+xml"/>`,
+    `<lastBuildDate>${updated.toUTCString()}</lastBuildDate>`,
+    ...items,
+    "</channel></rss>",
+    "",
+  ].join("\n");
+}
+
+function renderAtom(feed: Feed, updated: Date): string {
+  const entries = feed.items.map((item) => [
+    "<entry>",
+    `<id>${escapeXml(item.id)}</id>`,
+    `<title>${escapeXml(item.title)}</title>`,
+    `<updated>${new Date(item.date).toISOString()}</updated>`,
+    item.url ? `<link rel="alternate" href="${escapeXml(item.url)}"/>` : "",
+    item.author ? `<author><name>${escapeXml(item.author)}</name></author>` : "",
+    ...item.categories.map((category) => `<category term="${escapeXml(category)}"/>`),
+    `<content type="text">${escapeXml(item.content)}</content>`,
+    "</entry>",
+  ].filter(Boolean).join(""));
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<feed xmlns="http://www.w3.org/2005/Atom">`,
+    `<id>${escapeXml(feed.feedUrl)}</id>`,
+    `<title>${escapeXml(feed.title)}</title>`,
+    `<subtitle>${escapeXml(feed.description)}</subtitle>`,
+    `<updated>${updated.toISOString()}</updated>`,
+    `<link rel="self" href="${escapeXml(feed.feedUrl)}"/>`,
+    `<link rel="alternate" href="${escapeXml(feed.homeUrl)}"/>`,
+    `<author><name>${FEED_AUTHOR}</name></author>`,
+    ...entries,
+    "</feed>",
+    "",
+  ].join("\n");
+}
+
+function renderJsonFeed(feed: Feed): string {
+  return JSON.stringify({
+    version: "https://jsonfeed.org/version/1.1",
+    title: feed.title,
+    description: feed.description,
+    home_page_url: feed.homeUrl,
+    feed_url: feed.feedUrl,
+    authors: [{ name: FEED_AUTHOR }],
+    items: feed.items.map((item) => ({
+      id: item.id,
+      ...(item.url ? { url: item.url } : {}),
+      title: item.title,
+      content_text: item.content,
+      date_published: new Date(item.date).toISOString(),
+      ...(item.author ? { authors: [{ name: item.author }] } : {}),
+      tags: item.categories,
+    })),
+  });
+}
+
+// An empty feed reports the Unix epoch as its update time, so the output stays deterministic.
+export function renderFeed(format: FeedFormat, feed: Feed): string {
+  const updated = new Date(feedLastModified(feed) ?? 0);
+  if (format === "rss") return renderRss(feed, updated);
+  if (format === "atom") return renderAtom(feed, updated);
+  return renderJsonFeed(feed);
+}
+
+export async function feedEtag(body: string): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(body)));
+  return `"${Array.from(digest.slice(0, 16), (byte) => byte.toString(16).padStart(2, "0")).join("")}"`;
+}
+
+/**
+ * True when the client's copy is current. `If-None-Match` takes precedence; `If-Modified-Since` is
+ * only consulted without it, at the one-second resolution of HTTP dates.
+ */
+export function feedNotModified(request: Request, etag: string, lastModified: number | null): boolean {
+  const ifNoneMatch = request.headers.get("If-None-Match");
+  if (ifNoneMatch !== null) {
+    return ifNoneMatch.split(",").map((value) => value.trim().replace(/^W\//, "")).some((value) => value === "*" || value === etag);
+  }
+  const since = Date.parse(request.headers.get("If-Modified-Since") ?? "");
+  return lastModified !== null && Number.isFinite(since) && Math.floor(lastModified / 1000) * 1000 <= since;
+}
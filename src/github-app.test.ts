@@ -0,0 +1,118 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createAppJwt, installationToken, type GithubAppCredentials } from "./github-app";
+
+function createMockKV(store: Record<string, string> = {}) {
+  const puts: Array<{ key: string; opts?: unknown }> = [];
+  return {
+    get: async (key: string, type?: string) => {
+      const value = store[key] ?? null;
+      return type === "json" && value !== null ? JSON.parse(value) : value;
+    },
+    put: async (key: string, value: string, opts?: unknown) => {
+      puts.push({ key, opts });
+      store[key] = value;
+    },
+    __puts: puts,
+  } as unknown as KVNamespace & { __puts: typeof puts };
+}
+
+function toPem(label: string, der: Uint8Array): string {
+  const base64 = btoa(String.fromCharCode(...der));
+  return `-----BEGIN ${label}-----\n${base64.match(/.{1,64}/g)?.join("\n")}\n-----END ${label}-----\n`;
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const binary = atob(value.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+async function createKeyPair() {
+  const pair = await crypto.subtle.generateKey(
+    { name: "RSASSA-PKCS1-v1_5", modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: "SHA-256" },
+    true,
+    ["sign", "verify"],
+  ) as CryptoKeyPair;
+  const pkcs8 = new Uint8Array(await crypto.subtle.exportKey("pkcs8", pair.privateKey) as ArrayBuffer);
+  return { publicKey: pair.publicKey, pkcs8 };
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("createAppJwt", () => {
+  it("signs a backdated RS256 JWT with either PEM flavour", async () => {
+    const { publicKey, pkcs8 } = await createKeyPair();
+    const now = Date.parse("2026-03-01T00:00:00.000Z");
+    // A 2048-bit PKCS#8 key is the PKCS#1 key behind a 26-byte header.
+    const pems = [toPem("PRIVATE KEY", pkcs8), toPem("RSA PRIVATE KEY", pkcs8.slice(26)).replace(/\n/g, "\\n")];
+
+    for (const privateKey of pems) {
+      const jwt = await createAppJwt({ appId: "12345", privateKey, installationId: "42" }, now);
+      const [header, payload, signature] = jwt.split(".");
+      const verified = await crypto.subtle.verify(
+        "RSASSA-PKCS1-v1_5",
+        publicKey,
+        fromBase64Url(signature),
+        new TextEncoder().encode(`${header}.${payload}`),
+      );
+
+      expect(verified).toBe(true);
+      expect(JSON.parse(new TextDecoder().decode(fromBase64Url(header)))).toEqual({ alg: "RS256", typ: "JWT" });
+      expect(JSON.parse(new TextDecoder().decode(fromBase64Url(payload)))).toEqual({
+        iat: now / 1000 - 60,
+        exp: now / 1000 + 540,
+        iss: "12345",
+      });
+    }
+  });
+});
+
+describe("installationToken", () => {
+  it("exchanges once and reuses the token from memory and KV until it nears expiry", async () => {
+    const { pkcs8 } = await createKeyPair();
+    const app: GithubAppCredentials = { appId: "12345", privateKey: toPem("PRIVATE KEY", pkcs8), installationId: "42" };
+    const expiresAt = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+    const fetchSpy = vi.spyOn(globalThis, "fetch").mockImplementation(async () => new Response(
+      JSON.stringify({ token: "ghs_installation", expires_at: expiresAt }),
+      { status: 201 },
+    ));
+    const store: Record<string, string> = {};
+    const kv = createMockKV(store);
+
+    const tokens = await Promise.all([installationToken(kv, app), installationToken(kv, app)]);
+    expect(tokens).toEqual(["ghs_installation", "ghs_installation"]);
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+    const [url, init] = fetchSpy.mock.calls[0];
+    expect(String(url)).toBe("https://api.github.com/app/installations/42/access_tokens");
+    expect((init as RequestInit).method).toBe("POST");
+    expect(((init as RequestInit).headers as Record<string, string>).Authorization).toMatch(/^Bearer [\w-]+\.[\w-]+\.[\w-]+$/);
+    expect(kv.__puts).toEqual([{ key: "github:app-token:42", opts: { expirationTtl: expect.any(Number) } }]);
+
+    // Another isolate sharing the namespace reads the token back from KV.
+    expect(await installationToken(createMockKV(store), app)).toBe("ghs_installation");
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it("exchanges again once the cached token is within five minutes of expiry", async () => {
+    const { pkcs8 } = await createKeyPair();
+    const app: GithubAppCredentials = { appId: "12345", privateKey: toPem("PRIVATE KEY", pkcs8), installationId: "42" };
+    const kv = createMockKV({
+      "github:app-token:42": JSON.stringify({ token: "ghs_old", expiresAt: new Date(Date.now() + 60 * 1000).toISOString() }),
+    });
+    vi.spyOn(globalThis, "fetch").mockResolvedValue(new Response(
+      JSON.stringify({ token: "ghs_new", expires_at: new Date(Date.now() + 60 * 60 * 1000).toISOString() }),
+      { status: 201 },
+    ));
+
+    expect(await installationToken(kv, app)).toBe("ghs_new");
+  });
+
+  it("surfaces a failed exchange", async () => {
+    const { pkcs8 } = await createKeyPair();
+    const app: GithubAppCredentials = { appId: "12345", privateKey: toPem("PRIVATE KEY", pkcs8), installationId: "42" };
+    vi.spyOn(globalThis, "fetch").mockResolvedValue(new Response("{}", { status: 401 }));
+
+    await expect(installationToken(createMockKV(), app)).rejects.toThrow("GitHub App token exchange returned 401");
+  });
+});
@@ -0,0 +1,128 @@
+// GitHub App authentication: RS256 app JWTs and installation tokens cached until they expire
+
+export type GithubAppCredentials = {
+  appId: string;
+  // PEM as downloaded from GitHub (PKCS#1 `RSA PRIVATE KEY`) or converted to PKCS#8 `PRIVATE KEY`.
+  privateKey: string;
+  installationId: string;
+};
+
+type InstallationToken = { token: string; expiresAt: string };
+
+const GITHUB_API = "https://api.github.com";
+const APP_TOKEN_KEY_PREFIX = "github:app-token:";
+// GitHub rejects app JWTs that live longer than 10 minutes; backdating covers clock drift.
+const APP_JWT_BACKDATE_SEC = 60;
+const APP_JWT_TTL_SEC = 9 * 60;
+// Installation tokens last an hour; stop using one this close to expiry so in-flight requests don't fail.
+const TOKEN_EXPIRY_MARGIN_MS = 5 * 60 * 1000;
+// rsaEncryption AlgorithmIdentifier, used to wrap a PKCS#1 key as PKCS#8 for Web Crypto.
+const RSA_ALGORITHM_IDENTIFIER = [0x30, 0x0d, 0x06, 0x09, 0x2a, 0x86, 0x48, 0x86, 0xf7, 0x0d, 0x01, 0x01, 0x01, 0x05, 0x00];
+
+// Exchanges in flight or done in this isolate, per namespace and installation.
+const exchanges = new WeakMap<KVNamespace, Map<string, Promise<InstallationToken>>>();
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function derLength(length: number): number[] {
+  if (length < 0x80) return [length];
+  const bytes: number[] = [];
+  for (let rest = length; rest > 0; rest >>= 8) bytes.unshift(rest & 0xff);
+  return [0x80 | bytes.length, ...bytes];
+}
+
+function der(tag: number, content: number[]): number[] {
+  return [tag, ...derLength(content.length), ...content];
+}
+
+function pemToPkcs8(pem: string): Uint8Array {
+  // Secrets pasted through dashboards often arrive with literal `\n` escapes.
+  const text = pem.replace(/\\n/g, "\n");
+  const match = text.match(/-----BEGIN ((?:RSA )?PRIVATE KEY)-----([\s\S]+?)-----END \1-----/);
+  if (!match) throw new Error("GITHUB_APP_PRIVATE_KEY is not a PEM private key");
+  const binary = atob(match[2].replace(/\s+/g, ""));
+  const body = Array.from(binary, (char) => char.charCodeAt(0));
+  if (match[1] === "PRIVATE KEY") return Uint8Array.from(body);
+  return Uint8Array.from(der(0x30, [0x02, 0x01, 0x00, ...RSA_ALGORITHM_IDENTIFIER, ...der(0x04, body)]));
+}
+
+export async function createAppJwt(app: GithubAppCredentials, now = Date.now()): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "pkcs8",
+    pemToPkcs8(app.privateKey),
+    { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const issuedAt = Math.floor(now / 1000) - APP_JWT_BACKDATE_SEC;
+  const encode = (value: unknown) => toBase64Url(new TextEncoder().encode(JSON.stringify(value)));
+  const unsigned = `${encode({ alg: "RS256", typ: "JWT" })}.${encode({
+    iat: issuedAt,
+    exp: issuedAt + APP_JWT_BACKDATE_SEC + APP_JWT_TTL_SEC,
+    iss: app.appId,
+  })}`;
+  const signature = await crypto.subtle.sign("RSASSA-PKCS1-v1_5", key, new TextEncoder().encode(unsigned));
+  return `${unsigned}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+function usable(token: InstallationToken | null, now: number): token is InstallationToken {
+  return token !== null && Date.parse(token.expiresAt) - TOKEN_EXPIRY_MARGIN_MS > now;
+}
+
+async function exchangeInstallationToken(kv: KVNamespace, app: GithubAppCredentials): Promise<InstallationToken> {
+  const key = `${APP_TOKEN_KEY_PREFIX}${app.installationId}`;
+  const stored = await kv.get<InstallationToken>(key, "json").catch(() => null);
+  if (stored && typeof stored === "object" && usable(stored, Date.now())) return stored;
+
+  const res = await fetch(`${GITHUB_API}/app/installations/${app.installationId}/access_tokens`, {
+    method: "POST",
+    headers: {
+      "User-Agent": "clanka-api/1.0",
+      "Accept": "application/vnd.github.v3+json",
+      "Authorization": `Bearer ${await createAppJwt(app)}`,
+    },
+  });
+  if (!res.ok) throw new Error(`GitHub App token exchange returned ${res.status}`);
+  const body = await res.json() as { token?: unknown; expires_at?: unknown };
+  if (typeof body.token !== "string" || typeof body.expires_at !== "string") {
+    throw new Error("GitHub App token exchange returned no token");
+  }
+
+  const token: InstallationToken = { token: body.token, expiresAt: body.expires_at };
+  const ttlSec = Math.floor((Date.parse(token.expiresAt) - TOKEN_EXPIRY_MARGIN_MS - Date.now()) / 1000);
+  if (ttlSec >= 60) {
+    await kv.put(key, JSON.stringify(token), { expirationTtl: ttlSec }).catch(() => {
+      // ignore token cache write failures; the next isolate exchanges again
+    });
+  }
+  return token;
+}
+
+/**
+ * Returns an installation access token, exchanging a fresh app JWT for one only when neither this
+ * isolate nor KV holds a token that is still good for five minutes.
+ */
+export async function installationToken(kv: KVNamespace, app: GithubAppCredentials): Promise<string> {
+  const tokens = exchanges.get(kv) ?? new Map<string, Promise<InstallationToken>>();
+  exchanges.set(kv, tokens);
+  const id = `${app.appId}:${app.installationId}`;
+  const pending = tokens.get(id);
+  if (pending) {
+    const current = await pending.catch(() => null);
+    if (usable(current, Date.now())) return current.token;
+  }
+  // Another caller may have started a new exchange while this one waited.
+  const latest = tokens.get(id);
+  if (latest && latest !== pending) return (await latest).token;
+
+  const exchange = exchangeInstallationToken(kv, app);
+  tokens.set(id, exchange);
+  exchange.catch(() => {
+    if (tokens.get(id) === exchange) tokens.delete(id);
+  });
+  return (await exchange).token;
+}
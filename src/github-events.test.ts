@@ -1,15 +1,55 @@
 import { afterEach, describe, expect, it, vi } from "vitest";
-import { loadGithubEvents } from "./github-events";
+import { writeCache } from "./cache";
+import {
+  GITHUB_EVENTS_CACHE,
+  archiveGithubEvents,
+  decodeGithubEventsCursor,
+  loadGithubEvents,
+  queryGithubEvents,
+  refreshGithubEvents,
+  type GithubEvent,
+  type GithubEventsQuery,
+} from "./github-events";
+import type { GithubClient } from "./github";
 
 function createMockKV(store: Record<string, string> = {}): KVNamespace {
   return {
     get: async (key: string) => store[key] ?? null,
+    getWithMetadata: async (key: string) => ({ value: store[key] ?? null, metadata: null }),
     put: async (key: string, value: string, _opts?: any) => {
       store[key] = value;
     },
   } as KVNamespace;
 }
 
+function createClient(store: Record<string, string> = {}): GithubClient {
+  return { kv: createMockKV(store), token: null };
+}
+
+function createArchiveKV(): KVNamespace {
+  const store: Record<string, { value: string; metadata: unknown }> = {};
+  return {
+    get: async (key: string, type?: string) => {
+      const value = store[key]?.value ?? null;
+      return type === "json" && value !== null ? JSON.parse(value) : value;
+    },
+    getWithMetadata: async (key: string) => ({ value: store[key]?.value ?? null, metadata: store[key]?.metadata ?? null }),
+    put: async (key: string, value: string, opts?: { metadata?: unknown }) => {
+      store[key] = { value, metadata: opts?.metadata ?? null };
+    },
+    list: async ({ prefix = "" }: { prefix?: string } = {}) => ({
+      keys: Object.keys(store).filter((name) => name.startsWith(prefix)).map((name) => ({ name, metadata: store[name].metadata })),
+      list_complete: true,
+    }),
+  } as unknown as KVNamespace;
+}
+
+function feedEvent(id: string, type: GithubEvent["type"], repo: string, minute: number): GithubEvent {
+  return { id, type, repo, message: `event ${id}`, timestamp: new Date(Date.UTC(2026, 2, 1, 0, minute)).toISOString() };
+}
+
+const ALL_EVENTS: GithubEventsQuery = { repo: null, types: null, since: null, until: null, limit: 15, cursor: null };
+
 afterEach(() => {
   vi.restoreAllMocks();
 });
@@ -26,7 +66,7 @@ describe("loadGithubEvents", () => {
       },
     ];
 
-    const events = await loadGithubEvents(createMockKV({
+    const events = await loadGithubEvents(createClient({
       "github:events:v1": JSON.stringify(cached),
     }));
 
@@ -44,7 +84,7 @@ describe("loadGithubEvents", () => {
       },
     ]), { status: 200 }));
 
-    const events = await loadGithubEvents(createMockKV({
+    const events = await loadGithubEvents(createClient({
       "github:events:v1": "{invalid-json",
     }));
 
@@ -56,7 +96,7 @@ describe("loadGithubEvents", () => {
   it("returns [] when GitHub response is non-ok", async () => {
     vi.spyOn(globalThis, "fetch").mockResolvedValue(new Response("Bad Gateway", { status: 502 }));
 
-    const events = await loadGithubEvents(createMockKV());
+    const events = await loadGithubEvents(createClient());
 
     expect(events).toEqual([]);
   });
@@ -64,7 +104,7 @@ describe("loadGithubEvents", () => {
   it("returns [] when the GitHub request throws", async () => {
     vi.spyOn(globalThis, "fetch").mockRejectedValue(new Error("network down"));
 
-    const events = await loadGithubEvents(createMockKV());
+    const events = await loadGithubEvents(createClient());
 
     expect(events).toEqual([]);
   });
@@ -81,10 +121,11 @@ describe("loadGithubEvents", () => {
 
     const kv = {
       get: async () => null,
+      getWithMetadata: async () => ({ value: null, metadata: null }),
       put: async () => { throw new Error("kv unavailable"); },
     } as KVNamespace;
 
-    const events = await loadGithubEvents(kv);
+    const events = await loadGithubEvents({ kv, token: null });
 
     expect(events).toEqual([
       {
@@ -92,6 +133,7 @@ describe("loadGithubEvents", () => {
         repo: "clanka-api",
         message: "fresh message",
         timestamp: "2026-03-01T00:00:00.000Z",
+        commits: { count: 1, messages: ["fresh message"] },
       },
     ]);
   });
@@ -108,7 +150,7 @@ describe("loadGithubEvents", () => {
       },
     ]), { status: 200 }));
 
-    const events = await loadGithubEvents(createMockKV());
+    const events = await loadGithubEvents(createClient());
 
     expect(events).toHaveLength(1);
     expect(events[0].repo).toBe("clanka-api");
@@ -126,7 +168,7 @@ describe("loadGithubEvents", () => {
       },
     ]), { status: 200 }));
 
-    const events = await loadGithubEvents(createMockKV());
+    const events = await loadGithubEvents(createClient());
 
     expect(events).toHaveLength(1);
     expect(events[0].message.length).toBeLessThanOrEqual(100);
@@ -145,13 +187,14 @@ describe("loadGithubEvents", () => {
       },
     ]), { status: 200 }));
 
-    const events = await loadGithubEvents(createMockKV());
+    const events = await loadGithubEvents(createClient());
 
     expect(events[0]).toEqual({
       type: "PUSH",
       repo: "clanka-api",
       message: "feat: ship worker",
       timestamp: "2026-03-01T00:00:00.000Z",
+      commits: { count: 1, messages: ["feat: ship worker"] },
     });
   });
 
@@ -168,7 +211,7 @@ describe("loadGithubEvents", () => {
       },
     ]), { status: 200 }));
 
-    const events = await loadGithubEvents(createMockKV());
+    const events = await loadGithubEvents(createClient());
 
     expect(events[0]).toEqual(expect.objectContaining({
       type: "PR",
@@ -189,7 +232,7 @@ describe("loadGithubEvents", () => {
       },
     ]), { status: 200 }));
 
-    const events = await loadGithubEvents(createMockKV());
+    const events = await loadGithubEvents(createClient());
 
     expect(events[0]).toEqual(expect.objectContaining({
       type: "ISSUE",
@@ -210,7 +253,7 @@ describe("loadGithubEvents", () => {
       },
     ]), { status: 200 }));
 
-    const events = await loadGithubEvents(createMockKV());
+    const events = await loadGithubEvents(createClient());
 
     expect(events[0]).toEqual(expect.objectContaining({
       type: "CREATE",
@@ -221,7 +264,7 @@ describe("loadGithubEvents", () => {
   it("filters unsupported event types", async () => {
     vi.spyOn(globalThis, "fetch").mockResolvedValue(new Response(JSON.stringify([
       {
-        type: "WatchEvent",
+        type: "GollumEvent",
         repo: { name: "clankamode/clanka-api" },
         created_at: "2026-03-01T00:00:00.000Z",
         payload: {},
@@ -234,26 +277,26 @@ describe("loadGithubEvents", () => {
       },
     ]), { status: 200 }));
 
-    const events = await loadGithubEvents(createMockKV());
+    const events = await loadGithubEvents(createClient());
 
     expect(events).toHaveLength(1);
     expect(events[0].type).toBe("PUSH");
   });
 
-  it("limits output to the first 15 allowed events", async () => {
-    const raw = Array.from({ length: 20 }, (_, i) => ({
+  it("limits the feed to the first 100 supported events", async () => {
+    const raw = Array.from({ length: 120 }, (_, i) => ({
       type: "PushEvent",
       repo: { name: "clankamode/clanka-api" },
-      created_at: `2026-03-01T00:${String(i).padStart(2, "0")}:00.000Z`,
+      created_at: new Date(Date.UTC(2026, 2, 1, 0, i)).toISOString(),
       payload: { commits: [{ message: `commit-${i}` }] },
     }));
     vi.spyOn(globalThis, "fetch").mockResolvedValue(new Response(JSON.stringify(raw), { status: 200 }));
 
-    const events = await loadGithubEvents(createMockKV());
+    const events = await loadGithubEvents(createClient());
 
-    expect(events).toHaveLength(15);
+    expect(events).toHaveLength(100);
     expect(events[0].message).toBe("commit-0");
-    expect(events[14].message).toBe("commit-14");
+    expect(events[99].message).toBe("commit-99");
   });
 
   it("uses fallback push message when commit payload is missing", async () => {
@@ -266,7 +309,7 @@ describe("loadGithubEvents", () => {
       },
     ]), { status: 200 }));
 
-    const events = await loadGithubEvents(createMockKV());
+    const events = await loadGithubEvents(createClient());
 
     expect(events).toHaveLength(1);
     expect(events[0].message).toBe("push");
@@ -282,7 +325,7 @@ describe("loadGithubEvents", () => {
       },
     ]), { status: 200 }));
 
-    const events = await loadGithubEvents(createMockKV());
+    const events = await loadGithubEvents(createClient());
 
     expect(events).toHaveLength(1);
     expect(events[0].repo).toBe("otherorg/external-repo");
@@ -301,7 +344,7 @@ describe("loadGithubEvents", () => {
       },
     ]), { status: 200 }));
 
-    const events = await loadGithubEvents(createMockKV());
+    const events = await loadGithubEvents(createClient());
 
     expect(events[0].message.length).toBeLessThanOrEqual(100);
     expect(events[0].message.endsWith("...")).toBe(true);
@@ -321,7 +364,7 @@ describe("loadGithubEvents", () => {
       },
     ]), { status: 200 }));
 
-    const events = await loadGithubEvents(createMockKV());
+    const events = await loadGithubEvents(createClient());
 
     expect(events[0].message.length).toBeLessThanOrEqual(100);
     expect(events[0].message.endsWith("...")).toBe(true);
@@ -341,16 +384,17 @@ describe("loadGithubEvents", () => {
       },
     ]), { status: 200 }));
 
-    const events = await loadGithubEvents(createMockKV());
+    const events = await loadGithubEvents(createClient());
 
     expect(events[0].message.length).toBeLessThanOrEqual(100);
     expect(events[0].message.endsWith("...")).toBe(true);
   });
 
-  it("writes normalized events to KV with 900s TTL", async () => {
+  it("writes normalized events to KV fresh for 900s and stale for a day", async () => {
     const putSpy = vi.fn(async () => {});
     const kv = {
       get: async () => null,
+      getWithMetadata: async () => ({ value: null, metadata: null }),
       put: putSpy,
     } as unknown as KVNamespace;
     vi.spyOn(globalThis, "fetch").mockResolvedValue(new Response(JSON.stringify([
@@ -362,13 +406,124 @@ describe("loadGithubEvents", () => {
       },
     ]), { status: 200 }));
 
-    const events = await loadGithubEvents(kv);
+    const events = await loadGithubEvents({ kv, token: null });
 
     expect(events).toHaveLength(1);
     expect(putSpy).toHaveBeenCalledWith(
       "github:events:v1",
       JSON.stringify(events),
-      { expirationTtl: 900 },
+      { expirationTtl: 900 + 86400, metadata: { storedAt: expect.any(Number) } },
     );
   });
 });
+
+describe("GitHub event types", () => {
+  it("formats pushes with every commit and the newer event types", async () => {
+    const repo = { name: "clankamode/clanka-api" };
+    const created_at = "2026-03-01T00:00:00.000Z";
+    vi.spyOn(globalThis, "fetch").mockResolvedValue(new Response(JSON.stringify([
+      { id: "1", type: "PushEvent", repo, created_at, payload: { size: 2, commits: [{ message: "one\nbody" }, { message: "two" }] } },
+      { id: "2", type: "ReleaseEvent", repo, created_at, payload: { action: "published", release: { tag_name: "v1.2.0" } } },
+      { id: "3", type: "ForkEvent", repo, created_at, payload: { forkee: { full_name: "someone/clanka-api" } } },
+      { id: "4", type: "WatchEvent", repo: { name: "otherorg/tool" }, created_at, payload: { action: "started" } },
+      { id: "5", type: "IssueCommentEvent", repo, created_at, payload: { issue: { number: 3, title: "Flaky", pull_request: {} } } },
+      { id: "6", type: "PullRequestReviewEvent", repo, created_at, payload: { review: { state: "changes_requested" }, pull_request: { number: 4, title: "Feed" } } },
+      { id: "7", type: "DeleteEvent", repo, created_at, payload: { ref_type: "branch", ref: "feat/old" } },
+    ]), { status: 200 }));
+
+    const events = await loadGithubEvents(createClient());
+
+    expect(events[0]).toEqual(expect.objectContaining({
+      id: "1",
+      message: "one",
+      commits: { count: 2, messages: ["one", "two"] },
+    }));
+    expect(events.slice(1).map(({ type, repo, message }) => ({ type, repo, message }))).toEqual([
+      { type: "RELEASE", repo: "clanka-api", message: "published release v1.2.0" },
+      { type: "FORK", repo: "clanka-api", message: "forked to someone/clanka-api" },
+      { type: "STAR", repo: "otherorg/tool", message: "starred otherorg/tool" },
+      { type: "COMMENT", repo: "clanka-api", message: "commented on PR #3: Flaky" },
+      { type: "REVIEW", repo: "clanka-api", message: "changes requested PR #4: Feed" },
+      { type: "DELETE", repo: "clanka-api", message: "deleted branch feat/old" },
+    ]);
+  });
+});
+
+describe("queryGithubEvents", () => {
+  it("pages from the cached feed into the archive and applies filters", async () => {
+    vi.spyOn(globalThis, "fetch").mockRejectedValue(new Error("should not be called"));
+    const kv = createArchiveKV();
+    await archiveGithubEvents(kv, [
+      feedEvent("1", "PUSH", "clanka-api", 1),
+      feedEvent("2", "STAR", "otherorg/tool", 2),
+      feedEvent("3", "PR", "clanka-api", 3),
+    ]);
+    await writeCache(kv, GITHUB_EVENTS_CACHE, [feedEvent("4", "PUSH", "clanka-api", 4), feedEvent("3", "PR", "clanka-api", 3)]);
+    const client: GithubClient = { kv, token: null };
+
+    const first = await queryGithubEvents(client, { ...ALL_EVENTS, limit: 2 });
+    expect(first.events.map((event) => event.id)).toEqual(["4", "3"]);
+    const second = await queryGithubEvents(client, {
+      ...ALL_EVENTS,
+      limit: 2,
+      cursor: decodeGithubEventsCursor(first.nextCursor ?? ""),
+    });
+    expect(second).toEqual({ events: [feedEvent("2", "STAR", "otherorg/tool", 2), feedEvent("1", "PUSH", "clanka-api", 1)], nextCursor: null });
+
+    const pushes = await queryGithubEvents(client, { ...ALL_EVENTS, repo: "clankamode/clanka-api", types: ["PUSH"] });
+    expect(pushes.events.map((event) => event.id)).toEqual(["4", "1"]);
+    const window = await queryGithubEvents(client, {
+      ...ALL_EVENTS,
+      since: Date.UTC(2026, 2, 1, 0, 2),
+      until: Date.UTC(2026, 2, 1, 0, 3),
+    });
+    expect(window.events.map((event) => event.id)).toEqual(["3", "2"]);
+  });
+
+  it("measures metadata in bytes and writes each archived event on its own", async () => {
+    const kv = createArchiveKV();
+    const put = kv.put.bind(kv);
+    vi.spyOn(kv, "put").mockImplementation(async (key, value, opts) => {
+      const metadata = (opts as { metadata?: unknown } | undefined)?.metadata;
+      if (metadata !== undefined && new TextEncoder().encode(JSON.stringify(metadata)).length > 1024) {
+        throw new Error("metadata too large");
+      }
+      if (key.endsWith(":broken")) throw new Error("KV unavailable");
+      await put(key, value as string, opts);
+    });
+    // 500 characters, but 1000 bytes in UTF-8.
+    const accented = { ...feedEvent("1", "PUSH", "clanka-api", 1), message: "é".repeat(500) };
+
+    await archiveGithubEvents(kv, [accented, feedEvent("broken", "STAR", "clanka-api", 2), feedEvent("3", "PR", "clanka-api", 3)]);
+
+    const archived = await kv.list({ prefix: "github:events:archive:" });
+    expect(archived.keys.map((key) => key.name.split(":").pop()).sort()).toEqual(["1", "3"]);
+    expect(archived.keys.find((key) => key.name.endsWith(":1"))?.metadata).toBeNull();
+  });
+
+  it("archives only polled events that the previous feed did not hold", async () => {
+    const kv = createArchiveKV();
+    await writeCache(kv, GITHUB_EVENTS_CACHE, [feedEvent("1", "PUSH", "clanka-api", 1)]);
+    vi.spyOn(globalThis, "fetch").mockResolvedValue(new Response(JSON.stringify([
+      { id: "2", type: "CreateEvent", repo: { name: "clankamode/clanka-api" }, created_at: "2026-03-01T00:02:00.000Z", payload: { ref_type: "tag", ref: "v1" } },
+      { id: "1", type: "PushEvent", repo: { name: "clankamode/clanka-api" }, created_at: "2026-03-01T00:01:00.000Z", payload: {} },
+    ]), { status: 200 }));
+
+    await refreshGithubEvents({ kv, token: null });
+
+    const archived = await kv.list({ prefix: "github:events:archive:" });
+    expect(archived.keys.map((key) => key.name)).toEqual([`github:events:archive:${9_999_999_999_999 - Date.UTC(2026, 2, 1, 0, 2)}:2`]);
+  });
+
+  it("keys the archive newest first", async () => {
+    vi.spyOn(globalThis, "fetch").mockRejectedValue(new Error("should not be called"));
+    const kv = createArchiveKV();
+    await archiveGithubEvents(kv, [1, 2, 3].map((minute) => feedEvent(String(minute), "PUSH", "clanka-api", minute)));
+    await writeCache(kv, GITHUB_EVENTS_CACHE, []);
+
+    const names = (await kv.list({ prefix: "github:events:archive:" })).keys.map((key) => key.name).sort();
+    expect(names.map((name) => name.split(":").pop())).toEqual(["3", "2", "1"]);
+    const { events } = await queryGithubEvents({ kv, token: null }, ALL_EVENTS);
+    expect(events.map((event) => event.id)).toEqual(["3", "2", "1"]);
+  });
+});
@@ -1,86 +1,324 @@
-// GitHub events fetcher
+// GitHub events fetcher, plus a rolling KV archive that outlives the feed cache
+
+import { cachedFetch, readCache, writeCache, type CacheSpec, type CacheTrace } from "./cache";
+import { githubGetAll, type GithubClient } from "./github";
+import { parseReverseTimestamp, reverseTimestampKey } from "./reverse-timestamp";
+
+export const GITHUB_EVENT_TYPES = [
+  "PUSH",
+  "CREATE",
+  "DELETE",
+  "PR",
+  "REVIEW",
+  "ISSUE",
+  "COMMENT",
+  "RELEASE",
+  "FORK",
+  "STAR",
+] as const;
+
+export type GithubEventType = typeof GITHUB_EVENT_TYPES[number];
 
 export type GithubEvent = {
-  type: string;
+  // GitHub's event id; webhook-delivered events have none until the next poll replaces them.
+  id?: string;
+  type: GithubEventType;
   repo: string;
   message: string;
   timestamp: string;
+  // Pushes only: how many commits were pushed and the first line of each, oldest first.
+  commits?: { count: number; messages: string[] };
 };
 
+export type GithubEventsQuery = {
+  repo: string | null;
+  types: GithubEventType[] | null;
+  since: number | null;
+  until: number | null;
+  limit: number;
+  cursor: GithubEventsCursor | null;
+};
+
+export type GithubEventsCursor = { timestamp: number; key: string };
+
 type GhEvent = {
+  id?: string;
   type: string;
   repo: { name: string };
   created_at: string;
   payload: {
+    size?: number;
     commits?: { message: string }[];
     action?: string;
     pull_request?: { number: number; title: string };
-    issue?: { number: number; title: string };
+    issue?: { number: number; title: string; pull_request?: unknown };
+    review?: { state?: string };
+    release?: { tag_name?: string; name?: string | null };
+    forkee?: { full_name?: string };
     ref_type?: string;
     ref?: string;
   };
 };
 
-const GITHUB_EVENTS_CACHE_KEY = "github:events:v1";
-const GITHUB_EVENTS_TTL_SEC = 900;
+// Candidate for a page: feed events carry their value, archive keys are read only if they make the page.
+type EventCandidate = { timestamp: number; key: string; event: GithubEvent | null; name: string | null };
+
+const GITHUB_EVENTS_LIMIT = 100;
+// GitHub serves at most 300 events per user, 100 per page.
+const GITHUB_EVENTS_URL = "/users/clankamode/events?per_page=100";
+const GITHUB_EVENTS_MAX_PAGES = 3;
 const MESSAGE_MAX_LEN = 100;
+export const GITHUB_EVENTS_DEFAULT_LIMIT = 15;
+export const GITHUB_EVENTS_MAX_LIMIT = 100;
+const ARCHIVE_KEY_PREFIX = "github:events:archive:";
+export const GITHUB_EVENTS_ARCHIVE_TTL_SEC = 180 * 24 * 60 * 60;
+// KV rejects larger metadata; long pushes are stored without it and read back by value.
+const ARCHIVE_METADATA_MAX_BYTES = 1024;
+// Keys listed per scan. Keys are `<reverse timestamp>:<id>`, so the scan starts at the newest event
+// and the limit drops the oldest.
+const ARCHIVE_SCAN_LIMIT = 10_000;
 
-function truncateMessage(message: string, maxLen = MESSAGE_MAX_LEN): string {
+export function truncateMessage(message: string, maxLen = MESSAGE_MAX_LEN): string {
   if (message.length <= maxLen) return message;
   if (maxLen <= 3) return ".".repeat(maxLen);
   return `${message.slice(0, maxLen - 3)}...`;
 }
 
-export async function loadGithubEvents(kv: KVNamespace): Promise<GithubEvent[]> {
-  const cached = await kv.get(GITHUB_EVENTS_CACHE_KEY);
-  if (cached) {
-    try { return JSON.parse(cached) as GithubEvent[]; } catch { /* fall through */ }
+function parseGithubEvents(raw: string): GithubEvent[] | null {
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    return Array.isArray(parsed) ? parsed as GithubEvent[] : null;
+  } catch {
+    return null;
   }
+}
+
+export const GITHUB_EVENTS_CACHE: CacheSpec<GithubEvent[]> = {
+  key: "github:events:v1",
+  freshSec: 15 * 60,
+  staleSec: 24 * 60 * 60,
+  parse: parseGithubEvents,
+};
 
+export async function loadGithubEvents(client: GithubClient, trace?: CacheTrace): Promise<GithubEvent[]> {
   try {
-    const res = await fetch("https://api.github.com/users/clankamode/events?per_page=30", {
-      headers: { "User-Agent": "clanka-api/1.0", "Accept": "application/vnd.github.v3+json" },
-    });
-    if (!res.ok) return [];
-
-    const raw = (await res.json()) as GhEvent[];
-    const allowed = new Set(["PushEvent", "CreateEvent", "PullRequestEvent", "IssuesEvent"]);
-    const events: GithubEvent[] = [];
-
-    for (const e of raw) {
-      if (!allowed.has(e.type)) continue;
-      const repo = e.repo.name.replace("clankamode/", "");
-      let type = "EVENT";
-      let message = "";
-
-      if (e.type === "PushEvent") {
-        type = "PUSH";
-        const msg = e.payload.commits?.[0]?.message ?? "push";
-        message = truncateMessage(msg.split("\n")[0]);
-      } else if (e.type === "PullRequestEvent") {
-        type = "PR";
-        const pr = e.payload.pull_request;
-        message = truncateMessage(`${e.payload.action} PR #${pr?.number}: ${pr?.title ?? ""}`);
-      } else if (e.type === "IssuesEvent") {
-        type = "ISSUE";
-        const issue = e.payload.issue;
-        message = truncateMessage(`${e.payload.action} issue #${issue?.number}: ${issue?.title ?? ""}`);
-      } else if (e.type === "CreateEvent") {
-        type = "CREATE";
-        message = truncateMessage(`created ${e.payload.ref_type} ${e.payload.ref ?? ""}`.trim());
-      }
-
-      events.push({ type, repo, message, timestamp: e.created_at });
-      if (events.length >= 15) break;
+    return (await cachedFetch(client.kv, GITHUB_EVENTS_CACHE, () => pollGithubEvents(client), trace)).value;
+  } catch {
+    return [];
+  }
+}
+
+// Polls GitHub and rewrites the cached feed; throws when GitHub does not answer with events.
+export async function refreshGithubEvents(client: GithubClient): Promise<GithubEvent[]> {
+  const events = await pollGithubEvents(client);
+  await writeCache(client.kv, GITHUB_EVENTS_CACHE, events);
+  return events;
+}
+
+// Events already in the cached feed were archived by the poll that cached them, so only newer ones are written.
+async function pollGithubEvents(client: GithubClient): Promise<GithubEvent[]> {
+  const events = await fetchGithubEvents(client);
+  const previous = await readCache(client.kv, GITHUB_EVENTS_CACHE).catch(() => null);
+  const archived = new Set((previous?.value ?? []).map((event) => event.id).filter(Boolean));
+  await archiveGithubEvents(client.kv, events.filter((event) => event.id && !archived.has(event.id))).catch(() => {
+    // ignore archive write failures; the feed itself is still fresh
+  });
+  return events;
+}
+
+function firstLine(message: string): string {
+  return message.split("\n")[0];
+}
+
+function toGithubFeedEvent(e: GhEvent): GithubEvent | null {
+  const repo = e.repo.name.replace("clankamode/", "");
+  const { payload } = e;
+  const event = (type: GithubEventType, message: string): GithubEvent => ({
+    id: e.id,
+    type,
+    repo,
+    message: truncateMessage(message.trim()),
+    timestamp: e.created_at,
+  });
+
+  switch (e.type) {
+    case "PushEvent": {
+      const messages = (payload.commits ?? []).map((commit) => firstLine(commit.message));
+      return {
+        ...event("PUSH", messages[0] ?? "push"),
+        commits: { count: payload.size ?? messages.length, messages },
+      };
+    }
+    case "PullRequestEvent":
+      return event("PR", `${payload.action} PR #${payload.pull_request?.number}: ${payload.pull_request?.title ?? ""}`);
+    case "PullRequestReviewEvent": {
+      const state = (payload.review?.state ?? "reviewed").toLowerCase().replace(/_/g, " ");
+      return event("REVIEW", `${state} PR #${payload.pull_request?.number}: ${payload.pull_request?.title ?? ""}`);
+    }
+    case "IssuesEvent":
+      return event("ISSUE", `${payload.action} issue #${payload.issue?.number}: ${payload.issue?.title ?? ""}`);
+    case "IssueCommentEvent": {
+      const target = payload.issue?.pull_request ? "PR" : "issue";
+      return event("COMMENT", `commented on ${target} #${payload.issue?.number}: ${payload.issue?.title ?? ""}`);
     }
+    case "CreateEvent":
+      return event("CREATE", `created ${payload.ref_type} ${payload.ref ?? ""}`);
+    case "DeleteEvent":
+      return event("DELETE", `deleted ${payload.ref_type} ${payload.ref ?? ""}`);
+    case "ReleaseEvent":
+      if (payload.action !== "published") return null;
+      return event("RELEASE", `published release ${payload.release?.name || payload.release?.tag_name || ""}`);
+    case "ForkEvent":
+      return event("FORK", `forked to ${payload.forkee?.full_name ?? ""}`);
+    case "WatchEvent":
+      return event("STAR", `starred ${e.repo.name}`);
+    default:
+      return null;
+  }
+}
+
+async function fetchGithubEvents(client: GithubClient): Promise<GithubEvent[]> {
+  const raw = await githubGetAll(client, GITHUB_EVENTS_URL, GITHUB_EVENTS_MAX_PAGES) as GhEvent[];
+  const events: GithubEvent[] = [];
+  for (const e of raw) {
+    const event = toGithubFeedEvent(e);
+    if (event) events.push(event);
+    if (events.length >= GITHUB_EVENTS_LIMIT) break;
+  }
+  return events;
+}
+
+/**
+ * Prepends a webhook-delivered event to the cached feed. A cold cache is left alone: the next read
+ * polls GitHub, which already includes the event, whereas seeding it would hide everything older.
+ * The archive only takes polled events, which carry GitHub's id, so the two never double up.
+ */
+export async function recordGithubEvent(kv: KVNamespace, event: GithubEvent): Promise<boolean> {
+  const cached = await readCache(kv, GITHUB_EVENTS_CACHE);
+  if (!cached) return false;
+  await writeCache(kv, GITHUB_EVENTS_CACHE, [event, ...cached.value].slice(0, GITHUB_EVENTS_LIMIT));
+  return true;
+}
+
+function archiveKey(event: GithubEvent & { id: string }): string {
+  return `${ARCHIVE_KEY_PREFIX}${reverseTimestampKey(Date.parse(event.timestamp))}:${event.id}`;
+}
+
+function archiveCandidate(name: string, event: GithubEvent | null): EventCandidate {
+  const [timestamp, ...id] = name.slice(ARCHIVE_KEY_PREFIX.length).split(":");
+  return {
+    timestamp: parseReverseTimestamp(timestamp),
+    key: id.join(":"),
+    event,
+    name,
+  };
+}
+
+// Each event is written on its own, so one rejected put does not take the rest of the batch with it.
+export async function archiveGithubEvents(kv: KVNamespace, events: GithubEvent[]): Promise<void> {
+  await Promise.allSettled(events.map(async (event) => {
+    if (!event.id || !Number.isFinite(Date.parse(event.timestamp))) return;
+    const value = JSON.stringify(event);
+    await kv.put(archiveKey({ ...event, id: event.id }), value, {
+      expirationTtl: GITHUB_EVENTS_ARCHIVE_TTL_SEC,
+      ...(new TextEncoder().encode(value).length <= ARCHIVE_METADATA_MAX_BYTES ? { metadata: event } : {}),
+    });
+  }));
+}
+
+// Keys list newest first, so the scan also stops at the first page reaching back past `since`.
+async function listArchiveCandidates(kv: KVNamespace, since: number | null): Promise<EventCandidate[]> {
+  const candidates: EventCandidate[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await kv.list<GithubEvent>({ prefix: ARCHIVE_KEY_PREFIX, cursor });
+    candidates.push(...page.keys.map((key) => archiveCandidate(key.name, key.metadata ?? null)));
+    const oldest = candidates[candidates.length - 1];
+    const pastSince = since !== null && oldest !== undefined && oldest.timestamp < since;
+    cursor = page.list_complete || pastSince ? undefined : page.cursor;
+  } while (cursor && candidates.length < ARCHIVE_SCAN_LIMIT);
+  return candidates.filter((candidate) => Number.isFinite(candidate.timestamp) && candidate.key);
+}
+
+// Webhook-delivered events have no id yet; their content is unique enough within one feed.
+function eventKey(event: GithubEvent): string {
+  return event.id ?? `${event.type}:${event.repo}:${event.message}`;
+}
 
-    try {
-      await kv.put(GITHUB_EVENTS_CACHE_KEY, JSON.stringify(events), { expirationTtl: GITHUB_EVENTS_TTL_SEC });
-    } catch {
-      // ignore cache write failures and still serve fresh data
+function isBeforeCursor(entry: GithubEventsCursor, cursor: GithubEventsCursor | null): boolean {
+  if (!cursor) return true;
+  if (entry.timestamp !== cursor.timestamp) return entry.timestamp < cursor.timestamp;
+  return entry.key < cursor.key;
+}
+
+function matchesQuery(event: GithubEvent, query: GithubEventsQuery): boolean {
+  if (query.repo && event.repo !== query.repo.replace("clankamode/", "")) return false;
+  return !query.types || query.types.includes(event.type);
+}
+
+async function selectPage(
+  kv: KVNamespace,
+  candidates: EventCandidate[],
+  query: GithubEventsQuery,
+): Promise<{ events: GithubEvent[]; nextCursor: string | null; exhausted: boolean }> {
+  const ordered = candidates
+    .filter((candidate) => query.since === null || candidate.timestamp >= query.since)
+    .filter((candidate) => query.until === null || candidate.timestamp <= query.until)
+    .filter((candidate) => isBeforeCursor(candidate, query.cursor))
+    .sort((a, b) => b.timestamp - a.timestamp || (a.key < b.key ? 1 : a.key > b.key ? -1 : 0));
+
+  const events: GithubEvent[] = [];
+  let last: GithubEventsCursor | null = null;
+  for (const candidate of ordered) {
+    const event = candidate.event
+      ?? (candidate.name ? await kv.get<GithubEvent>(candidate.name, "json").catch(() => null) : null);
+    if (!event || !matchesQuery(event, query)) continue;
+    if (events.length === query.limit) {
+      return { events, nextCursor: last ? encodeGithubEventsCursor(last) : null, exhausted: false };
     }
-    return events;
+    events.push(event);
+    last = { timestamp: candidate.timestamp, key: candidate.key };
+  }
+  return { events, nextCursor: null, exhausted: true };
+}
+
+/**
+ * Returns matching events newest first from the cached feed, continuing into the archive once the
+ * feed runs out. The archive is only listed when the feed alone cannot fill the page.
+ */
+export async function queryGithubEvents(
+  client: GithubClient,
+  query: GithubEventsQuery,
+  trace?: CacheTrace,
+): Promise<{ events: GithubEvent[]; nextCursor: string | null }> {
+  const recent = (await loadGithubEvents(client, trace))
+    .map((event) => ({ timestamp: Date.parse(event.timestamp), key: eventKey(event), event, name: null }))
+    .filter((candidate) => Number.isFinite(candidate.timestamp));
+  const fromFeed = await selectPage(client.kv, recent, query);
+  if (!fromFeed.exhausted) return { events: fromFeed.events, nextCursor: fromFeed.nextCursor };
+
+  const inFeed = new Set(recent.map((candidate) => candidate.key));
+  const archived = (await listArchiveCandidates(client.kv, query.since).catch(() => []))
+    .filter((candidate) => !inFeed.has(candidate.key));
+  const { events, nextCursor } = await selectPage(client.kv, [...recent, ...archived], query);
+  return { events, nextCursor };
+}
+
+// Keys of webhook-delivered events embed the message, so the cursor is UTF-8 before base64.
+export function encodeGithubEventsCursor(cursor: GithubEventsCursor): string {
+  const bytes = new TextEncoder().encode(JSON.stringify([cursor.timestamp, cursor.key]));
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+export function decodeGithubEventsCursor(value: string): GithubEventsCursor | null {
+  try {
+    const binary = atob(value.replace(/-/g, "+").replace(/_/g, "/"));
+    const json = new TextDecoder().decode(Uint8Array.from(binary, (char) => char.charCodeAt(0)));
+    const parsed = JSON.parse(json) as unknown;
+    if (!Array.isArray(parsed) || typeof parsed[0] !== "number" || typeof parsed[1] !== "string") return null;
+    return { timestamp: parsed[0], key: parsed[1] };
   } catch {
-    return [];
+    return null;
   }
 }
@@ -0,0 +1,102 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { githubAuthMode, githubGet, githubGetAll, loadGithubQuota, type GithubClient } from "./github";
+
+function createClient(token: string | null = "gh-token"): GithubClient {
+  const store: Record<string, string> = {};
+  const kv = {
+    get: async (key: string, type?: string) => {
+      const value = store[key] ?? null;
+      return type === "json" && value !== null ? JSON.parse(value) : value;
+    },
+    put: async (key: string, value: string) => {
+      store[key] = value;
+    },
+  } as unknown as KVNamespace;
+  return { kv, token };
+}
+
+function requestHeaders(spy: { mock: { calls: unknown[][] } }, call: number): Record<string, string> {
+  return (spy.mock.calls[call][1] as RequestInit).headers as Record<string, string>;
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("githubGet", () => {
+  it("revalidates with the stored ETag and replays the body on 304", async () => {
+    const fetchSpy = vi.spyOn(globalThis, "fetch")
+      .mockResolvedValueOnce(new Response(JSON.stringify({ login: "clankamode" }), {
+        status: 200,
+        headers: { ETag: "W/\"abc\"" },
+      }))
+      .mockResolvedValueOnce(new Response(null, { status: 304 }));
+    const client = createClient();
+
+    await githubGet(client, "/users/clankamode");
+    const replayed = await githubGet(client, "/users/clankamode");
+
+    expect(requestHeaders(fetchSpy, 0)).toEqual({
+      "User-Agent": "clanka-api/1.0",
+      "Accept": "application/vnd.github.v3+json",
+      "Authorization": "Bearer gh-token",
+    });
+    expect(requestHeaders(fetchSpy, 1)["If-None-Match"]).toBe("W/\"abc\"");
+    expect(replayed).toEqual({ ok: true, status: 304, data: { login: "clankamode" }, next: null });
+  });
+
+  it("stops calling GitHub once the remaining quota reaches the reserve", async () => {
+    const reset = Math.floor(Date.now() / 1000) + 600;
+    const fetchSpy = vi.spyOn(globalThis, "fetch").mockResolvedValue(new Response("[]", {
+      status: 200,
+      headers: { "X-RateLimit-Limit": "5000", "X-RateLimit-Remaining": "250", "X-RateLimit-Reset": String(reset) },
+    }));
+    const client = createClient();
+
+    await githubGet(client, "/users/clankamode/events");
+    await expect(githubGet(client, "/users/clankamode/events")).rejects.toThrow("GitHub quota low (250/5000)");
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+    expect(await loadGithubQuota(client.kv)).toEqual(expect.objectContaining({
+      limit: 5000,
+      remaining: 250,
+      resetAt: new Date(reset * 1000).toISOString(),
+    }));
+  });
+});
+
+describe("githubGetAll", () => {
+  it("follows Link rel=next across pages", async () => {
+    const fetchSpy = vi.spyOn(globalThis, "fetch")
+      .mockResolvedValueOnce(new Response(JSON.stringify([{ name: "a" }]), {
+        status: 200,
+        headers: { Link: "<https://api.github.com/repos?page=2>; rel=\"next\", <https://api.github.com/repos?page=2>; rel=\"last\"" },
+      }))
+      .mockResolvedValueOnce(new Response(JSON.stringify([{ name: "b" }]), { status: 200 }));
+
+    const items = await githubGetAll(createClient(null), "/repos?page=1");
+
+    expect(items).toEqual([{ name: "a" }, { name: "b" }]);
+    expect(fetchSpy.mock.calls.map(([input]) => String(input))).toEqual([
+      "https://api.github.com/repos?page=1",
+      "https://api.github.com/repos?page=2",
+    ]);
+    expect(requestHeaders(fetchSpy, 0).Authorization).toBeUndefined();
+  });
+});
+
+describe("githubAuthMode", () => {
+  const kv = {} as KVNamespace;
+  const app = { GITHUB_APP_ID: "12345", GITHUB_APP_PRIVATE_KEY: "pem", GITHUB_APP_INSTALLATION_ID: "42" };
+
+  it("prefers the App when GITHUB_AUTH is unset and all its secrets are present", () => {
+    expect(githubAuthMode({ CLANKA_STATE: kv, GITHUB_TOKEN: "gh-token", ...app })).toBe("app");
+    expect(githubAuthMode({ CLANKA_STATE: kv, GITHUB_TOKEN: "gh-token", GITHUB_APP_ID: "12345" })).toBe("token");
+    expect(githubAuthMode({ CLANKA_STATE: kv })).toBeNull();
+  });
+
+  it("honours GITHUB_AUTH without falling back to the other credentials", () => {
+    expect(githubAuthMode({ CLANKA_STATE: kv, GITHUB_AUTH: "token", GITHUB_TOKEN: "gh-token", ...app })).toBe("token");
+    expect(githubAuthMode({ CLANKA_STATE: kv, GITHUB_AUTH: "app", GITHUB_TOKEN: "gh-token" })).toBeNull();
+    expect(githubAuthMode({ CLANKA_STATE: kv, GITHUB_AUTH: "token", ...app })).toBeNull();
+  });
+});
@@ -0,0 +1,210 @@
+// GitHub REST client: shared auth headers, ETag revalidation, quota tracking and Link pagination
+
+import { installationToken, type GithubAppCredentials } from "./github-app";
+
+export const GITHUB_API = "https://api.github.com";
+
+// Requests authenticate as the App installation when `app` is set, else with `token`, else anonymously.
+export type GithubClient = { kv: KVNamespace; token: string | null; app?: GithubAppCredentials };
+
+export type GithubAuthMode = "app" | "token";
+
+export type GithubAuthEnv = {
+  CLANKA_STATE: KVNamespace;
+  GITHUB_AUTH?: string;
+  GITHUB_TOKEN?: string;
+  GITHUB_APP_ID?: string;
+  GITHUB_APP_PRIVATE_KEY?: string;
+  GITHUB_APP_INSTALLATION_ID?: string;
+};
+
+export type GithubQuota = {
+  limit: number;
+  remaining: number;
+  resetAt: string;
+  updatedAt: string;
+};
+
+export type GithubResult = {
+  ok: boolean;
+  // 304 when the stored copy was replayed after an `If-None-Match` revalidation.
+  status: number;
+  data: unknown;
+  next: string | null;
+};
+
+type EtagEntry = { etag: string; body: string; next: string | null };
+
+export const GITHUB_QUOTA_KEY = "github:quota:v1";
+const ETAG_KEY_PREFIX = "github:etag:";
+const ETAG_TTL_SEC = 24 * 60 * 60; // 1 day
+// Requests stop once the quota left in the window falls to this share of the limit (at least 5),
+// leaving headroom for the next window's first refresh; cached loaders keep serving stale data meanwhile.
+const QUOTA_RESERVE_RATIO = 0.05;
+const QUOTA_RESERVE_MIN = 5;
+// Quota changes on every response; KV allows one write per key per second, so persist it sparingly.
+const QUOTA_PERSIST_INTERVAL_MS = 10 * 1000;
+export const GITHUB_MAX_PAGES = 10;
+
+// Latest quota seen by this isolate, per namespace; `undefined` until read back from KV.
+const quotas = new WeakMap<KVNamespace, { quota: GithubQuota | null; persistedAt: number }>();
+
+function githubAppCredentials(env: GithubAuthEnv): GithubAppCredentials | null {
+  const appId = env.GITHUB_APP_ID?.trim();
+  const privateKey = env.GITHUB_APP_PRIVATE_KEY?.trim();
+  const installationId = env.GITHUB_APP_INSTALLATION_ID?.trim();
+  return appId && privateKey && installationId ? { appId, privateKey, installationId } : null;
+}
+
+/**
+ * `GITHUB_AUTH` (`app` or `token`) picks the credentials; unset, the App wins when all three of its
+ * secrets are present. Null when the selected credentials are missing: there is no silent fallback.
+ */
+export function githubAuthMode(env: GithubAuthEnv): GithubAuthMode | null {
+  const requested = env.GITHUB_AUTH?.trim().toLowerCase();
+  const hasApp = githubAppCredentials(env) !== null;
+  const hasToken = Boolean(env.GITHUB_TOKEN?.trim());
+  if (requested === "app") return hasApp ? "app" : null;
+  if (requested === "token") return hasToken ? "token" : null;
+  if (hasApp) return "app";
+  return hasToken ? "token" : null;
+}
+
+export function githubClient(env: GithubAuthEnv): GithubClient {
+  const mode = githubAuthMode(env);
+  const app = mode === "app" ? githubAppCredentials(env) : null;
+  if (app) return { kv: env.CLANKA_STATE, token: null, app };
+  return { kv: env.CLANKA_STATE, token: mode === "token" ? env.GITHUB_TOKEN?.trim() || null : null };
+}
+
+export async function githubHeaders(client: GithubClient): Promise<Record<string, string>> {
+  const headers: Record<string, string> = {
+    "User-Agent": "clanka-api/1.0",
+    "Accept": "application/vnd.github.v3+json",
+  };
+  const token = client.app ? await installationToken(client.kv, client.app) : client.token;
+  if (token) headers["Authorization"] = `Bearer ${token}`;
+  return headers;
+}
+
+function reserveFor(quota: GithubQuota): number {
+  return Math.max(QUOTA_RESERVE_MIN, Math.ceil(quota.limit * QUOTA_RESERVE_RATIO));
+}
+
+// A quota whose window has already reset says nothing about the current one.
+export function isQuotaLow(quota: GithubQuota | null, now = Date.now()): boolean {
+  if (!quota || Date.parse(quota.resetAt) <= now) return false;
+  return quota.remaining <= reserveFor(quota);
+}
+
+export async function loadGithubQuota(kv: KVNamespace): Promise<GithubQuota | null> {
+  const known = quotas.get(kv);
+  if (known) return known.quota;
+  const stored = await kv.get<GithubQuota>(GITHUB_QUOTA_KEY, "json").catch(() => null);
+  const quota = stored && typeof stored === "object" && typeof stored.remaining === "number" ? stored : null;
+  quotas.set(kv, { quota, persistedAt: 0 });
+  return quota;
+}
+
+function quotaFromResponse(res: Response, now: number): GithubQuota | null {
+  const limit = Number(res.headers.get("X-RateLimit-Limit"));
+  const remaining = Number(res.headers.get("X-RateLimit-Remaining"));
+  const reset = Number(res.headers.get("X-RateLimit-Reset"));
+  const retryAfter = Number(res.headers.get("Retry-After"));
+  // Secondary limits answer 403/429 with Retry-After instead of an exhausted primary quota.
+  if ((res.status === 403 || res.status === 429) && Number.isFinite(retryAfter) && retryAfter > 0) {
+    return {
+      limit: Number.isFinite(limit) && limit > 0 ? limit : 0,
+      remaining: 0,
+      resetAt: new Date(now + retryAfter * 1000).toISOString(),
+      updatedAt: new Date(now).toISOString(),
+    };
+  }
+  if (!res.headers.has("X-RateLimit-Remaining") || !Number.isFinite(remaining) || !Number.isFinite(reset)) return null;
+  return {
+    limit: Number.isFinite(limit) ? limit : 0,
+    remaining,
+    resetAt: new Date(reset * 1000).toISOString(),
+    updatedAt: new Date(now).toISOString(),
+  };
+}
+
+async function recordQuota(kv: KVNamespace, quota: GithubQuota, now: number): Promise<void> {
+  const previous = quotas.get(kv);
+  const persistedAt = previous?.persistedAt ?? 0;
+  const due = now - persistedAt >= QUOTA_PERSIST_INTERVAL_MS || isQuotaLow(quota, now);
+  quotas.set(kv, { quota, persistedAt: due ? now : persistedAt });
+  if (!due) return;
+  const ttl = Math.max(60, Math.ceil((Date.parse(quota.resetAt) - now) / 1000) + 60);
+  await kv.put(GITHUB_QUOTA_KEY, JSON.stringify(quota), { expirationTtl: ttl }).catch(() => {
+    // ignore quota write failures; the next response carries the headers again
+  });
+}
+
+function nextPageUrl(link: string | null): string | null {
+  if (!link) return null;
+  for (const part of link.split(",")) {
+    const match = part.match(/<([^>]+)>\s*;\s*rel="next"/);
+    if (match) return match[1];
+  }
+  return null;
+}
+
+function parseBody(text: string): unknown {
+  try {
+    return JSON.parse(text) as unknown;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * GETs `url` (absolute, or a path under the API root). A stored ETag is sent as `If-None-Match`,
+ * and a 304 replays the stored body. Throws without calling GitHub while the quota is low.
+ */
+export async function githubGet(client: GithubClient, url: string): Promise<GithubResult> {
+  const target = url.startsWith("https://") ? url : `${GITHUB_API}${url}`;
+  const quota = await loadGithubQuota(client.kv);
+  if (isQuotaLow(quota)) {
+    throw new Error(`GitHub quota low (${quota?.remaining}/${quota?.limit}); resets at ${quota?.resetAt}`);
+  }
+
+  const etagKey = `${ETAG_KEY_PREFIX}${target}`;
+  const stored = await client.kv.get<EtagEntry>(etagKey, "json").catch(() => null);
+  const cached = stored && typeof stored === "object" && typeof stored.etag === "string" ? stored : null;
+  const headers = await githubHeaders(client);
+  if (cached) headers["If-None-Match"] = cached.etag;
+
+  const res = await fetch(target, { headers });
+  const now = Date.now();
+  const seen = quotaFromResponse(res, now);
+  if (seen) await recordQuota(client.kv, seen, now);
+
+  if (res.status === 304 && cached) {
+    return { ok: true, status: 304, data: parseBody(cached.body), next: cached.next };
+  }
+  const body = await res.text();
+  const next = nextPageUrl(res.headers.get("Link"));
+  const etag = res.headers.get("ETag");
+  if (res.ok && etag) {
+    const entry: EtagEntry = { etag, body, next };
+    await client.kv.put(etagKey, JSON.stringify(entry), { expirationTtl: ETAG_TTL_SEC }).catch(() => {
+      // ignore ETag write failures; the next request is just unconditional
+    });
+  }
+  return { ok: res.ok, status: res.status, data: parseBody(body), next };
+}
+
+// Concatenates the array pages of a listing, following `Link: rel="next"` up to `maxPages` pages.
+export async function githubGetAll(client: GithubClient, url: string, maxPages = GITHUB_MAX_PAGES): Promise<unknown[]> {
+  const items: unknown[] = [];
+  let next: string | null = url;
+  for (let page = 0; next && page < maxPages; page += 1) {
+    const result = await githubGet(client, next);
+    if (!result.ok) throw new Error(`${next} returned ${result.status}`);
+    if (!Array.isArray(result.data)) throw new Error(`${next} is not an array`);
+    items.push(...result.data);
+    next = result.next;
+  }
+  return items;
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { applyIncidentPatch, createIncident, fleetIncidents } from "./incidents";
+
+describe("applyIncidentPatch", () => {
+  const incident = createIncident({ title: "API down" }, "manual", 0);
+
+  it("posts an update only for a status or message", () => {
+    const renamed = applyIncidentPatch(incident, { title: "API degraded" }, 1000);
+    expect(renamed.updates).toHaveLength(1);
+    expect(renamed.updatedAt).toBe("1970-01-01T00:00:01.000Z");
+
+    const noted = applyIncidentPatch(renamed, { message: "Rolling back" }, 2000);
+    expect(noted.updates[1]).toEqual({ status: "investigating", message: "Rolling back", at: "1970-01-01T00:00:02.000Z" });
+  });
+
+  it("keeps the first resolution time and clears it on reopen", () => {
+    const resolved = applyIncidentPatch(incident, { status: "resolved" }, 1000);
+    const noted = applyIncidentPatch(resolved, { message: "Postmortem posted" }, 2000);
+    expect(noted.resolvedAt).toBe("1970-01-01T00:00:01.000Z");
+    expect(applyIncidentPatch(noted, { status: "monitoring" }, 3000).resolvedAt).toBeNull();
+  });
+});
+
+describe("fleetIncidents", () => {
+  it("skips repos an unresolved incident already covers", () => {
+    const covering = createIncident({ title: "CI outage", repos: ["clankamode/clanka-api"] }, "manual", 0);
+    const resolved = applyIncidentPatch(
+      createIncident({ title: "Old", repos: ["clankamode/ci-triage"] }, "manual", 0),
+      { status: "resolved" },
+      1000,
+    );
+    const opened = fleetIncidents([covering, resolved], [
+      { repo: "clankamode/clanka-api", conclusion: "failure" },
+      { repo: "clankamode/ci-triage", conclusion: "timed_out" },
+    ], 2000);
+
+    expect(opened).toEqual([expect.objectContaining({
+      title: "CI failing on clankamode/ci-triage",
+      repos: ["clankamode/ci-triage"],
+      source: "fleet-health",
+    })]);
+  });
+});
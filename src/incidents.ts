@@ -0,0 +1,193 @@
+// Incidents stored in KV: declared by admins, or opened by the fleet CI sweep when a critical repo turns RED
+
+import { isOneOf } from "./tasks";
+
+export const INCIDENT_SEVERITIES = ["minor", "major", "critical"] as const;
+export const INCIDENT_STATUSES = ["investigating", "identified", "monitoring", "resolved"] as const;
+export const INCIDENT_SOURCES = ["manual", "fleet-health"] as const;
+
+export type IncidentSeverity = typeof INCIDENT_SEVERITIES[number];
+export type IncidentStatus = typeof INCIDENT_STATUSES[number];
+export type IncidentSource = typeof INCIDENT_SOURCES[number];
+
+export type IncidentUpdate = { status: IncidentStatus; message: string | null; at: string };
+
+export type Incident = {
+  id: string;
+  title: string;
+  severity: IncidentSeverity;
+  status: IncidentStatus;
+  // Registry repos (`owner/name`) and free-form components such as `api` or `ci`.
+  repos: string[];
+  components: string[];
+  source: IncidentSource;
+  // Oldest first; every status change or message adds one.
+  updates: IncidentUpdate[];
+  createdAt: string;
+  updatedAt: string;
+  resolvedAt: string | null;
+};
+
+// What `/status` and `/now` carry for each active incident.
+export type IncidentSummary = Omit<Incident, "updates">;
+
+export type IncidentInput = Partial<Pick<Incident, "severity" | "status" | "repos" | "components">> & {
+  title: string;
+  message?: string;
+};
+
+export type IncidentPatch = Partial<Pick<Incident, "title" | "severity" | "status" | "repos" | "components">> & {
+  message?: string;
+};
+
+export const INCIDENTS_KEY = "incidents:v1";
+// Per repo, the failing run (`<conclusion>@<lastRun>`) already checked for an incident. Kept apart from the
+// fleet health cache, which webhooks clear and reads rebuild, so the sweep sees each failing run once.
+const FLEET_RUNS_KEY = "incidents:fleet-runs:v1";
+
+export type FleetFailure = { repo: string; conclusion: string; lastRun: string | null };
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === "string") : [];
+}
+
+function normalizeUpdate(value: unknown): IncidentUpdate | null {
+  if (!value || typeof value !== "object") return null;
+  const item = value as Record<string, unknown>;
+  if (!isOneOf(INCIDENT_STATUSES, item.status) || typeof item.at !== "string") return null;
+  return { status: item.status, message: typeof item.message === "string" ? item.message : null, at: item.at };
+}
+
+function normalizeIncident(value: unknown): Incident | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+  const item = value as Record<string, unknown>;
+  if (typeof item.id !== "string" || typeof item.title !== "string" || typeof item.createdAt !== "string") return null;
+  const status = isOneOf(INCIDENT_STATUSES, item.status) ? item.status : "investigating";
+  return {
+    id: item.id,
+    title: item.title,
+    severity: isOneOf(INCIDENT_SEVERITIES, item.severity) ? item.severity : "major",
+    status,
+    repos: stringList(item.repos),
+    components: stringList(item.components),
+    source: isOneOf(INCIDENT_SOURCES, item.source) ? item.source : "manual",
+    updates: Array.isArray(item.updates)
+      ? item.updates.map(normalizeUpdate).filter((update): update is IncidentUpdate => update !== null)
+      : [],
+    createdAt: item.createdAt,
+    updatedAt: typeof item.updatedAt === "string" ? item.updatedAt : item.createdAt,
+    resolvedAt: status === "resolved" && typeof item.resolvedAt === "string" ? item.resolvedAt : null,
+  };
+}
+
+// Newest first.
+export async function loadIncidents(kv: KVNamespace): Promise<Incident[]> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await kv.get(INCIDENTS_KEY) || "[]") as unknown;
+  } catch {
+    parsed = [];
+  }
+  return (Array.isArray(parsed) ? parsed : [])
+    .map(normalizeIncident)
+    .filter((incident): incident is Incident => incident !== null)
+    .sort((a, b) => (a.createdAt < b.createdAt ? 1 : a.createdAt > b.createdAt ? -1 : 0));
+}
+
+export async function saveIncidents(kv: KVNamespace, incidents: Incident[]): Promise<void> {
+  await kv.put(INCIDENTS_KEY, JSON.stringify(incidents));
+}
+
+export function isIncidentActive(incident: Incident): boolean {
+  return incident.status !== "resolved";
+}
+
+export function toIncidentSummary(incident: Incident): IncidentSummary {
+  const { updates: _updates, ...summary } = incident;
+  return summary;
+}
+
+export function createIncident(input: IncidentInput, source: IncidentSource, now = Date.now()): Incident {
+  const timestamp = new Date(now).toISOString();
+  const status = input.status ?? "investigating";
+  return {
+    id: crypto.randomUUID(),
+    title: input.title.trim(),
+    severity: input.severity ?? "major",
+    status,
+    repos: Array.from(new Set(input.repos ?? [])),
+    components: Array.from(new Set(input.components ?? [])),
+    source,
+    updates: [{ status, message: input.message?.trim() || null, at: timestamp }],
+    createdAt: timestamp,
+    updatedAt: timestamp,
+    resolvedAt: status === "resolved" ? timestamp : null,
+  };
+}
+
+// A status or message posts an update; resolving stamps `resolvedAt`, and any other status reopens.
+export function applyIncidentPatch(incident: Incident, patch: IncidentPatch, now = Date.now()): Incident {
+  const timestamp = new Date(now).toISOString();
+  const status = patch.status ?? incident.status;
+  const posted = patch.status !== undefined || patch.message !== undefined;
+  return {
+    ...incident,
+    title: patch.title !== undefined ? patch.title.trim() : incident.title,
+    severity: patch.severity ?? incident.severity,
+    status,
+    repos: patch.repos !== undefined ? Array.from(new Set(patch.repos)) : incident.repos,
+    components: patch.components !== undefined ? Array.from(new Set(patch.components)) : incident.components,
+    updates: posted
+      ? [...incident.updates, { status, message: patch.message?.trim() || null, at: timestamp }]
+      : incident.updates,
+    updatedAt: timestamp,
+    resolvedAt: status === "resolved" ? incident.resolvedAt ?? timestamp : null,
+  };
+}
+
+// One incident per failing critical repo, skipping repos an active incident already covers.
+export function fleetIncidents(
+  incidents: Incident[],
+  failing: Array<Pick<FleetFailure, "repo" | "conclusion">>,
+  now = Date.now(),
+): Incident[] {
+  const covered = new Set(incidents.filter(isIncidentActive).flatMap((incident) => incident.repos));
+  return failing
+    .filter(({ repo }) => !covered.has(repo))
+    .map(({ repo, conclusion }) => createIncident({
+      title: `CI failing on ${repo}`,
+      repos: [repo],
+      components: ["ci"],
+      message: `The latest workflow run concluded ${conclusion}.`,
+    }, "fleet-health", now));
+}
+
+function fleetRunId(failure: FleetFailure): string {
+  return `${failure.conclusion}@${failure.lastRun ?? ""}`;
+}
+
+/**
+ * Opens incidents for the failing critical repos whose run has not been checked yet and returns them.
+ * The checked runs are stored only after the incidents are, so a failed write is retried by the next
+ * sweep; resolving an incident while the same run is still red keeps it resolved.
+ */
+export async function openFleetIncidents(kv: KVNamespace, failing: FleetFailure[], now = Date.now()): Promise<Incident[]> {
+  let checked: Record<string, string>;
+  try {
+    const parsed = JSON.parse(await kv.get(FLEET_RUNS_KEY) || "{}") as unknown;
+    checked = parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed as Record<string, string> : {};
+  } catch {
+    checked = {};
+  }
+  const unchecked = failing.filter((failure) => checked[failure.repo] !== fleetRunId(failure));
+  if (unchecked.length === 0) return [];
+
+  const incidents = await loadIncidents(kv);
+  const opened = fleetIncidents(incidents, unchecked, now);
+  if (opened.length > 0) await saveIncidents(kv, [...opened, ...incidents]);
+  await kv.put(FLEET_RUNS_KEY, JSON.stringify({
+    ...checked,
+    ...Object.fromEntries(unchecked.map((failure) => [failure.repo, fleetRunId(failure)])),
+  }));
+  return opened;
+}
@@ -1,5 +1,8 @@
 import { describe, it, expect, vi, afterEach } from "vitest";
-import worker from "./index";
+import worker, { ROUTES, StreamHub } from "./index";
+import { AUTH_FAILURE_LIMIT } from "./lockout";
+import { toOpenApiPath } from "./openapi";
+import { hmacSha256Hex, signRequest } from "./signing";
 
 // Mock registry entries pre-loaded into KV so tests never hit the network
 const MOCK_REGISTRY = [
@@ -12,27 +15,31 @@ const VALID_SET_PRESENCE_PAYLOAD = {
   team: { clanka: { status: "active", task: "ship tests" } },
   activity: { type: "SYNC", desc: "presence updated" },
 };
-const STATUS_ENDPOINTS = [
-  "/",
-  "/fleet/summary",
-  "/fleet/health",
-  "/fleet/score",
-  "/history",
-  "/now",
-  "/status",
-  "/tools/search",
-  "/metrics",
-];
-
 function createMockKV(store: Record<string, string> = {}): any {
   const puts: Array<{ key: string; value: string; opts?: unknown }> = [];
+  const metadata: Record<string, unknown> = {};
   return {
-    get: async (key: string) => store[key] ?? null,
-    put: async (key: string, value: string, opts?: unknown) => {
+    get: async (key: string, type?: string) => {
+      const value = store[key] ?? null;
+      return type === "json" && value !== null ? JSON.parse(value) : value;
+    },
+    getWithMetadata: async (key: string) => ({ value: store[key] ?? null, metadata: metadata[key] ?? null }),
+    put: async (key: string, value: string, opts?: { metadata?: unknown }) => {
       puts.push({ key, value, opts });
       store[key] = value;
+      if (opts?.metadata !== undefined) metadata[key] = opts.metadata;
+      else delete metadata[key];
+    },
+    delete: async (key: string) => {
+      delete store[key];
+      delete metadata[key];
     },
-    delete: async (key: string) => { delete store[key]; },
+    list: async ({ prefix = "" }: { prefix?: string } = {}) => ({
+      keys: Object.keys(store).sort()
+        .filter((name) => name.startsWith(prefix))
+        .map((name) => ({ name, metadata: metadata[name] })),
+      list_complete: true,
+    }),
     __puts: puts,
     __store: store,
   };
@@ -40,7 +47,17 @@ function createMockKV(store: Record<string, string> = {}): any {
 
 function createEnv(
   extraKv: Record<string, string> = {},
-  extraEnv: Partial<{ ADMIN_KEY: string; ADMIN_TOKEN: string; GITHUB_TOKEN: string }> = {},
+  extraEnv: Partial<{
+    ADMIN_KEY: string;
+    ADMIN_TOKEN: string;
+    GITHUB_TOKEN: string;
+    GITHUB_AUTH: string;
+    GITHUB_APP_ID: string;
+    GITHUB_APP_PRIVATE_KEY: string;
+    GITHUB_APP_INSTALLATION_ID: string;
+    SIGNING_SECRET: string;
+    GITHUB_WEBHOOK_SECRET: string;
+  }> = {},
 ) {
   return {
     CLANKA_STATE: createMockKV({
@@ -70,6 +87,37 @@ async function json(res: Response) {
   return res.json();
 }
 
+// A STREAM_HUB namespace whose one object is a real StreamHub over in-memory storage.
+function createStreamHub() {
+  const store = new Map<string, unknown>();
+  const hub = new StreamHub({
+    storage: {
+      get: async (key: string) => store.get(key),
+      put: async (key: string, value: unknown) => {
+        store.set(key, value);
+      },
+    },
+    blockConcurrencyWhile: async (fn: () => Promise<unknown>) => fn(),
+  } as unknown as DurableObjectState);
+  const namespace = {
+    idFromName: (name: string) => name,
+    get: () => ({ fetch: (input: string, init?: RequestInit) => hub.fetch(new Request(input, init)) }),
+  } as unknown as DurableObjectNamespace;
+  const published = () => ((store.get("events") ?? []) as Array<{ id: number; type: string; data: any }>);
+  return { namespace, published };
+}
+
+function apiError(code: string, fields: Record<string, unknown> = {}) {
+  return {
+    error: expect.objectContaining({
+      code,
+      message: expect.any(String),
+      requestId: expect.any(String),
+      ...fields,
+    }),
+  };
+}
+
 function createExecutionContext() {
   const pending: Promise<unknown>[] = [];
   return {
@@ -339,7 +387,7 @@ describe("GET /tools", () => {
     expect(body.tools[0].repo).toBe("clankamode/live-tool");
   });
 
-  it("writes fetched registry to KV with 5-minute TTL", async () => {
+  it("writes fetched registry to KV fresh for an hour and stale for 7 days", async () => {
     const putCalls: Array<{ key: string; opts?: any }> = [];
     const kvStore: Record<string, string> = {};
     const env = {
@@ -365,7 +413,7 @@ describe("GET /tools", () => {
     expect(putCalls).toEqual(expect.arrayContaining([
       expect.objectContaining({
         key: "registry:v1",
-        opts: expect.objectContaining({ expirationTtl: 300 }),
+        opts: { expirationTtl: 3600 + 7 * 86400, metadata: { storedAt: expect.any(Number) } },
       }),
     ]));
   });
@@ -433,7 +481,7 @@ describe("GET /tools/:repo", () => {
     const body = await json(res);
 
     expect(res.status).toBe(404);
-    expect(body).toEqual({ error: "Tool Not Found" });
+    expect(body).toEqual(apiError("tool_not_found"));
   });
 
   it("returns 400 for invalid URL-encoding in repo path", async () => {
@@ -441,7 +489,7 @@ describe("GET /tools/:repo", () => {
     const body = await json(res);
 
     expect(res.status).toBe(400);
-    expect(body).toEqual({ error: "Invalid repo path" });
+    expect(body).toEqual(apiError("invalid_path", { message: "Invalid repo path" }));
   });
 
   it("returns 405 for non-GET methods", async () => {
@@ -519,7 +567,7 @@ describe("GET /tools/search", () => {
     const body = await json(res);
 
     expect(res.status).toBe(400);
-    expect(body).toEqual({ error: "Missing query parameter: q" });
+    expect(body).toEqual(apiError("invalid_query", { message: "Missing query parameter: q" }));
   });
 
   it("rejects non-GET with 405", async () => {
@@ -575,7 +623,7 @@ describe("Malformed cache fallbacks", () => {
     const body = await json(res);
 
     expect(res.status).toBe(200);
-    expect(body).toEqual({ events: [] });
+    expect(body).toEqual({ events: [], nextCursor: null });
   });
 });
 
@@ -643,7 +691,7 @@ describe("GET /github/stats", () => {
     expect(putCalls).toEqual(expect.arrayContaining([
       expect.objectContaining({
         key: "github:stats:v1",
-        opts: expect.objectContaining({ expirationTtl: 3600 }),
+        opts: expect.objectContaining({ expirationTtl: 3600 + 86400 }),
       }),
     ]));
   });
@@ -720,7 +768,7 @@ describe("GET /github/events", () => {
     const body = await json(res);
 
     expect(res.status).toBe(200);
-    expect(body).toEqual({ events: cached });
+    expect(body).toEqual({ events: cached, nextCursor: null });
     expect(fetchSpy).not.toHaveBeenCalled();
   });
 
@@ -731,7 +779,44 @@ describe("GET /github/events", () => {
     const body = await json(res);
 
     expect(res.status).toBe(200);
-    expect(body).toEqual({ events: [] });
+    expect(body).toEqual({ events: [], nextCursor: null });
+  });
+
+  it("filters by repo and type and pages with nextCursor", async () => {
+    const event = (id: string, type: string, repo: string, minute: number) => ({
+      id, type, repo, message: `event ${id}`, timestamp: new Date(Date.UTC(2026, 2, 1, 0, minute)).toISOString(),
+    });
+    const env = createEnv({
+      "github:events:v1": JSON.stringify([
+        event("3", "PUSH", "clanka-api", 3),
+        event("2", "STAR", "otherorg/tool", 2),
+        event("1", "PUSH", "clanka-api", 1),
+      ]),
+    });
+
+    const first = await json(await worker.fetch(req("/github/events?repo=clanka-api&type=push&limit=1"), env));
+    expect(first.events.map((item: { id: string }) => item.id)).toEqual(["3"]);
+    expect(first.nextCursor).toEqual(expect.any(String));
+
+    const second = await json(await worker.fetch(
+      req(`/github/events?repo=clanka-api&type=push&limit=1&cursor=${first.nextCursor}`),
+      env,
+    ));
+    expect(second).toEqual({ events: [event("1", "PUSH", "clanka-api", 1)], nextCursor: null });
+  });
+
+  it.each([
+    ["type=GOLLUM", "type must be one of"],
+    ["limit=0", "limit must be an integer"],
+    ["since=yesterday", "since and until"],
+    ["cursor=%%%", "cursor is not valid"],
+  ])("returns 400 invalid_query for %s", async (query, message) => {
+    const res = await worker.fetch(req(`/github/events?${query}`), createEnv());
+    const body = await json(res);
+
+    expect(res.status).toBe(400);
+    expect(body.error.code).toBe("invalid_query");
+    expect(body.error.message).toContain(message);
   });
 
   it("rejects non-GET with 405", async () => {
@@ -802,6 +887,82 @@ describe("GET /tasks", () => {
   });
 });
 
+// /board
+describe("GET /board", () => {
+  function mockTasksMarkdown() {
+    return vi.spyOn(globalThis, "fetch").mockImplementation(async (input: RequestInfo | URL) => {
+      const url = input instanceof Request ? input.url : String(input);
+      if (url.includes("/repos/clankamode/clanka-api/contents/TASKS.md")) {
+        const content = Buffer.from(
+          [
+            "## 🔴 Critical",
+            "- [ ] **Fix auth edge case**",
+            "## 🟢 Nice to have",
+            "- [x] **Closed item**",
+          ].join("\n"),
+          "utf8",
+        ).toString("base64");
+        return new Response(JSON.stringify({ content }), { status: 200 });
+      }
+      return new Response("Not Found", { status: 404 });
+    });
+  }
+
+  const ADMIN_TASKS = [
+    { id: "a1", title: "Roll out tokens", status: "in_progress", priority: "red", repo: "clankamode/clanka-api" },
+    { id: "a2", title: "Write runbook", status: "todo", priority: "yellow", repo: null },
+  ];
+
+  it("merges admin tasks and TASKS.md items grouped by repo and priority", async () => {
+    mockTasksMarkdown();
+    const env = createEnv({ "tasks:v2": JSON.stringify(ADMIN_TASKS) });
+    const res = await worker.fetch(req("/board"), env);
+    expect(res.status).toBe(200);
+    const body = await json(res) as any;
+
+    expect(body.counts).toEqual({ open: 3, done: 1 });
+    expect(body.repos.map((group: any) => group.repo)).toEqual(["clankamode/clanka-api", null]);
+    const [api, unassigned] = body.repos;
+    expect(api.counts).toEqual({ open: 2, done: 1 });
+    expect(api.priorities.red.map((item: any) => [item.source, item.title, item.status])).toEqual([
+      ["tasks_md", "Fix auth edge case", "todo"],
+      ["admin", "Roll out tokens", "in_progress"],
+    ]);
+    expect(api.priorities.green).toEqual([{
+      source: "tasks_md",
+      id: null,
+      title: "Closed item",
+      status: "done",
+      priority: "green",
+      assignee: null,
+      dueDate: null,
+    }]);
+    expect(unassigned.priorities.yellow[0]).toMatchObject({ source: "admin", id: "a2" });
+  });
+
+  it("filters by repo, priority, and status while counts ignore status", async () => {
+    const fetchSpy = mockTasksMarkdown();
+    const env = createEnv({ "tasks:v2": JSON.stringify(ADMIN_TASKS) });
+    const res = await worker.fetch(req("/board?repo=ClankaMode/Clanka-API&status=done"), env);
+    const body = await json(res) as any;
+
+    expect(body.repos).toHaveLength(1);
+    expect(body.repos[0].counts).toEqual({ open: 2, done: 1 });
+    expect(body.repos[0].priorities.red).toEqual([]);
+    expect(body.repos[0].priorities.green.map((item: any) => item.title)).toEqual(["Closed item"]);
+    expect(fetchSpy.mock.calls.filter(([input]) => String(input).includes("TASKS.md"))).toHaveLength(1);
+
+    const red = await json(await worker.fetch(req("/board?priority=red"), env)) as any;
+    expect(red.counts).toEqual({ open: 2, done: 0 });
+  });
+
+  it("rejects unknown filter values", async () => {
+    const res = await worker.fetch(req("/board?status=blocked"), createEnv());
+    expect(res.status).toBe(400);
+    expect(await json(res)).toEqual(apiError("invalid_query", { message: "status must be one of todo, in_progress, done" }));
+  });
+});
+
 describe("Registry alignment and fallback", () => {
   it("hydrates /tools from live registry.json when primary cache is invalid", async () => {
     const liveRegistry = {
@@ -905,6 +1066,20 @@ describe("GET /changelog", () => {
     expect(headers.Authorization).toBe("Bearer gh-token");
   });
 
+  it("uses the cached GitHub App installation token when the App is configured", async () => {
+    const fetchSpy = vi.spyOn(globalThis, "fetch").mockResolvedValue(new Response(JSON.stringify([]), { status: 200 }));
+    const installationToken = { token: "ghs_installation", expiresAt: new Date(Date.now() + 60 * 60 * 1000).toISOString() };
+    const res = await worker.fetch(req("/changelog"), createEnv(
+      { "github:app-token:42": JSON.stringify(installationToken) },
+      { GITHUB_TOKEN: "gh-token", GITHUB_APP_ID: "12345", GITHUB_APP_PRIVATE_KEY: "unused", GITHUB_APP_INSTALLATION_ID: "42" },
+    ));
+    expect(res.status).toBe(200);
+    expect(fetchSpy).toHaveBeenCalled();
+    for (const [, init] of fetchSpy.mock.calls) {
+      expect(((init as RequestInit)?.headers as Record<string, string>).Authorization).toBe("Bearer ghs_installation");
+    }
+  });
+
   it("serves from KV cache when changelog cache key is populated", async () => {
     const fetchSpy = vi.spyOn(globalThis, "fetch").mockRejectedValue(new Error("should not be called"));
     const cachedCommits = [
@@ -918,22 +1093,26 @@ describe("GET /changelog", () => {
     const res = await worker.fetch(
       req("/changelog"),
       createEnv({
-        "changelog:meta-runner:v1": JSON.stringify(cachedCommits),
+        "changelog:clankamode/clanka-api:v1": JSON.stringify(cachedCommits),
+        "changelog:clankamode/ci-triage:v1": JSON.stringify([]),
       }, { GITHUB_TOKEN: "gh-token" }),
     );
     const body = await json(res);
 
     expect(res.status).toBe(200);
-    expect(body.commits).toEqual(cachedCommits);
+    expect(body.commits).toEqual([
+      { ...cachedCommits[0], repo: "clankamode/clanka-api", type: "other", scope: null, tags: [] },
+    ]);
     expect(fetchSpy).not.toHaveBeenCalled();
   });
 
-  it("writes changelog to KV with 10-minute TTL after GitHub fetch", async () => {
+  it("writes changelog to KV fresh for 10 minutes after GitHub fetch", async () => {
     const putCalls: Array<{ key: string; opts?: any }> = [];
-    const kvStore: Record<string, string> = {};
+    const kvStore: Record<string, string> = { "registry:v1": JSON.stringify(MOCK_REGISTRY) };
     const env = {
       CLANKA_STATE: {
         get: async (key: string) => kvStore[key] ?? null,
+        getWithMetadata: async (key: string) => ({ value: kvStore[key] ?? null, metadata: null }),
         put: async (key: string, value: string, opts?: any) => {
           kvStore[key] = value;
           putCalls.push({ key, opts });
@@ -942,7 +1121,7 @@ describe("GET /changelog", () => {
       ADMIN_KEY: "test-secret",
       GITHUB_TOKEN: "gh-token",
     };
-    vi.spyOn(globalThis, "fetch").mockResolvedValue(new Response(JSON.stringify([
+    vi.spyOn(globalThis, "fetch").mockImplementation(async () => new Response(JSON.stringify([
       {
         sha: "abc123",
         commit: {
@@ -957,23 +1136,19 @@ describe("GET /changelog", () => {
     expect(res.status).toBe(200);
     expect(putCalls).toEqual(expect.arrayContaining([
       expect.objectContaining({
-        key: "changelog:meta-runner:v1",
-        opts: expect.objectContaining({ expirationTtl: 600 }),
+        key: "changelog:clankamode/clanka-api:v1",
+        opts: expect.objectContaining({ expirationTtl: 600 + 86400 }),
       }),
     ]));
   });
 
-  it("returns empty array and no token error when GITHUB_TOKEN is missing", async () => {
+  it("returns 503 github_unconfigured when GITHUB_TOKEN is missing", async () => {
     const fetchSpy = vi.spyOn(globalThis, "fetch").mockRejectedValue(new Error("should not be called"));
     const res = await worker.fetch(req("/changelog"), createEnv());
     const body = await json(res);
 
-    expect(res.status).toBe(200);
-    expect(body).toEqual(expect.objectContaining({
-      commits: [],
-      error: "no token",
-      timestamp: expect.any(String),
-    }));
+    expect(res.status).toBe(503);
+    expect(body).toEqual(apiError("github_unconfigured"));
     expect(fetchSpy).not.toHaveBeenCalled();
   });
 
@@ -1009,11 +1184,16 @@ describe("GET /changelog", () => {
     const res = await worker.fetch(
       req("/changelog"),
       createEnv({
-        "changelog:meta-runner:v1": "{invalid-json",
+        "changelog:clankamode/clanka-api:v1": "{invalid-json",
+        "changelog:clankamode/ci-triage:v1": JSON.stringify([]),
       }, { GITHUB_TOKEN: "gh-token" }),
     );
     expect(res.status).toBe(200);
-    expect(fetchSpy).toHaveBeenCalledTimes(1);
+    expect(fetchSpy.mock.calls.map(([input]) => String(input))).toEqual([
+      "https://api.github.com/repos/clankamode/clanka-api/commits?per_page=100",
+      "https://api.github.com/repos/clankamode/clanka-api/releases?per_page=100",
+      "https://api.github.com/repos/clankamode/clanka-api/tags?per_page=100",
+    ]);
   });
 
   it("rejects non-GET with 405", async () => {
@@ -1022,6 +1202,69 @@ describe("GET /changelog", () => {
   });
 });
 
+describe("GET /changelog/:repo", () => {
+  const commit = (sha: string, message: string, date: string) => ({ sha, message, author: "clanka", date });
+
+  it("returns one registry repo's commits grouped by type", async () => {
+    const fetchSpy = vi.spyOn(globalThis, "fetch").mockRejectedValue(new Error("should not be called"));
+    const env = createEnv({
+      "changelog:clankamode/ci-triage:v1": JSON.stringify([
+        commit("t2", "fix(parser): handle empty logs", "2026-03-02T00:00:00.000Z"),
+        commit("t1", "feat: triage labels", "2026-03-01T00:00:00.000Z"),
+      ]),
+    }, { GITHUB_TOKEN: "gh-token" });
+
+    const res = await worker.fetch(req("/changelog/ci-triage?since=2026-03-01T12:00:00Z"), env);
+    const body = await json(res);
+
+    expect(res.status).toBe(200);
+    expect(body).toEqual({
+      repo: "clankamode/ci-triage",
+      commits: [expect.objectContaining({ sha: "t2", repo: "clankamode/ci-triage", type: "fix", scope: "parser", tags: [] })],
+      groups: [{ type: "fix", commits: [expect.objectContaining({ sha: "t2" })] }],
+      nextCursor: null,
+      timestamp: expect.any(String),
+    });
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it("merges repos on the fleet changelog and pages with nextCursor", async () => {
+    const env = createEnv({
+      "changelog:clankamode/clanka-api:v1": JSON.stringify([commit("a1", "feat: api", "2026-03-03T00:00:00.000Z")]),
+      "changelog:clankamode/ci-triage:v1": JSON.stringify([
+        commit("t2", "fix: triage", "2026-03-02T00:00:00.000Z"),
+        commit("t1", "chore: triage", "2026-03-01T00:00:00.000Z"),
+      ]),
+    }, { GITHUB_TOKEN: "gh-token" });
+
+    const first = await json(await worker.fetch(req("/changelog?limit=2"), env));
+    expect(first.commits.map((item: any) => [item.repo, item.sha])).toEqual([
+      ["clankamode/clanka-api", "a1"],
+      ["clankamode/ci-triage", "t2"],
+    ]);
+    expect(first.groups.map((group: any) => group.type)).toEqual(["feat", "fix"]);
+
+    const second = await json(await worker.fetch(req(`/changelog?limit=2&cursor=${first.nextCursor}`), env));
+    expect(second.commits.map((item: any) => item.sha)).toEqual(["t1"]);
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it("returns 404 repo_not_found for repos outside the registry", async () => {
+    const fetchSpy = vi.spyOn(globalThis, "fetch").mockRejectedValue(new Error("should not be called"));
+    const res = await worker.fetch(req("/changelog/unknown-repo"), createEnv({}, { GITHUB_TOKEN: "gh-token" }));
+
+    expect(res.status).toBe(404);
+    expect(await json(res)).toEqual(apiError("repo_not_found"));
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it("returns 400 invalid_query for a bad limit", async () => {
+    const res = await worker.fetch(req("/changelog/clanka-api?limit=500"), createEnv({}, { GITHUB_TOKEN: "gh-token" }));
+    expect(res.status).toBe(400);
+    expect((await json(res)).error.code).toBe("invalid_query");
+  });
+});
+
 describe("GET /fleet/summary", () => {
   it("returns grouped metadata with deterministic ordering", async () => {
     const res = await worker.fetch(
@@ -1333,7 +1576,7 @@ describe("GET /fleet/health", () => {
     expect(fetchSpy).not.toHaveBeenCalled();
   });
 
-  it("uses token authorization header for GitHub Actions requests", async () => {
+  it("uses the shared Bearer authorization header for GitHub Actions requests", async () => {
     const fetchSpy = vi.spyOn(globalThis, "fetch").mockImplementation(async () => new Response(JSON.stringify({
       workflow_runs: [
         {
@@ -1349,19 +1592,22 @@ describe("GET /fleet/health", () => {
 
     const [, init] = fetchSpy.mock.calls[0];
     const headers = (init as RequestInit)?.headers as Record<string, string>;
-    expect(headers.Authorization).toBe("token gh-token");
+    expect(headers.Authorization).toBe("Bearer gh-token");
   });
 
-  it("caches per-repo CI runs with 10-minute TTL and reuses repo cache", async () => {
+  it("caches per-repo CI runs for 10 minutes and rebuilds stale fleet health from the repo cache", async () => {
     const kvStore: Record<string, string> = {
       "registry:v1": JSON.stringify(MOCK_REGISTRY),
     };
+    const kvMetadata: Record<string, any> = {};
     const putCalls: Array<{ key: string; opts?: any }> = [];
     const env = {
       CLANKA_STATE: {
         get: async (key: string) => kvStore[key] ?? null,
+        getWithMetadata: async (key: string) => ({ value: kvStore[key] ?? null, metadata: kvMetadata[key] ?? null }),
         put: async (key: string, value: string, opts?: any) => {
           kvStore[key] = value;
+          kvMetadata[key] = opts?.metadata;
           putCalls.push({ key, opts });
         },
       },
@@ -1390,19 +1636,19 @@ describe("GET /fleet/health", () => {
       "ci:clankamode/clanka-api:v1",
     ]);
     for (const call of ciWrites) {
-      expect(call.opts?.expirationTtl).toBe(600);
+      expect(call.opts?.expirationTtl).toBe(600 + 3600);
     }
 
-    const freshFleet = JSON.parse(kvStore["fleet:health:v1"]);
-    kvStore["fleet:health:v1"] = JSON.stringify({
-      ...freshFleet,
-      checkedAt: "2000-01-01T00:00:00.000Z",
-    });
+    kvMetadata["fleet:health:v1"] = { storedAt: Date.now() - 10 * 60 * 1000 };
 
     fetchSpy.mockClear();
-    const second = await worker.fetch(req("/fleet/health"), env as any);
+    const waits: Promise<unknown>[] = [];
+    const second = await worker.fetch(req("/fleet/health"), env as any, { waitUntil: (p: Promise<unknown>) => waits.push(p) });
+    await Promise.all(waits);
     expect(second.status).toBe(200);
+    expect(second.headers.get("X-Cache")).toBe("STALE");
     expect(fetchSpy).not.toHaveBeenCalled();
+    expect(kvMetadata["fleet:health:v1"].storedAt).toBeGreaterThan(Date.now() - 60 * 1000);
   });
 
   it("returns stale from KV when GitHub fails", async () => {
@@ -1442,7 +1688,7 @@ describe("GET /fleet/health", () => {
     const body = await json(res);
 
     expect(res.status).toBe(503);
-    expect(body).toEqual({ error: "Service Unavailable" });
+    expect(body).toEqual(apiError("upstream_unavailable"));
   });
 
   it("returns fresh cache without calling GitHub", async () => {
@@ -1480,6 +1726,79 @@ describe("GET /fleet/health", () => {
   });
 });
 
+describe("GET /badges", () => {
+  it("renders the presence badge as short-lived SVG", async () => {
+    const res = await worker.fetch(req("/badges/status.svg"), createEnv({ last_seen: String(Date.now() - 5_000) }));
+    const body = await res.text();
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get("Content-Type")).toBe("image/svg+xml; charset=utf-8");
+    expect(res.headers.get("Cache-Control")).toBe("public, max-age=60");
+    expect(body).toContain('aria-label="status: operational"');
+
+    const offline = await (await worker.fetch(req("/badges/status.svg?label=clanka&style=flat-square"), createEnv())).text();
+    expect(offline).toContain('aria-label="clanka: offline"');
+    expect(offline).toContain('fill="#e05d44"');
+  });
+
+  it("renders fleet health and score from the cached fleet health", async () => {
+    const fetchSpy = vi.spyOn(globalThis, "fetch").mockRejectedValue(new Error("should not be called"));
+    const env = createEnv({
+      "fleet:health:v1": JSON.stringify({
+        status: "RED",
+        repos: [
+          { repo: "clankamode/clanka-api", criticality: "critical", lastRun: null, conclusion: "success" },
+          { repo: "clankamode/ci-triage", criticality: "high", lastRun: null, conclusion: "failure" },
+        ],
+        checkedAt: new Date().toISOString(),
+      }),
+    });
+
+    const health = await (await worker.fetch(req("/badges/fleet-health.svg"), env)).text();
+    const score = await (await worker.fetch(req("/badges/fleet-score.svg?style=for-the-badge"), env)).text();
+
+    expect(health).toContain('aria-label="fleet health: failing"');
+    expect(score).toContain('aria-label="fleet score: 60/100"');
+    expect(score).toContain('height="28"');
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it("renders a registry repo's latest CI run", async () => {
+    const fetchSpy = vi.spyOn(globalThis, "fetch").mockRejectedValue(new Error("should not be called"));
+    const env = createEnv({
+      "ci:clankamode/clanka-api:v1": JSON.stringify({ conclusion: "success", status: "completed" }),
+      "ci:clankamode/ci-triage:v1": JSON.stringify({ conclusion: null, status: "in_progress" }),
+    }, { GITHUB_TOKEN: "gh-token" });
+
+    const passing = await (await worker.fetch(req("/badges/ci/clanka-api.svg"), env)).text();
+    const running = await (await worker.fetch(req("/badges/ci/clankamode/ci-triage.svg"), env)).text();
+
+    expect(passing).toContain('aria-label="ci: passing"');
+    expect(running).toContain('aria-label="ci: running"');
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it("renders unknown CI without GitHub credentials", async () => {
+    const body = await (await worker.fetch(req("/badges/ci/clanka-api.svg"), createEnv())).text();
+    expect(body).toContain('aria-label="ci: unknown"');
+  });
+
+  it("returns 404 for repos outside the registry and paths without .svg", async () => {
+    const unknown = await worker.fetch(req("/badges/ci/unknown-repo.svg"), createEnv());
+    expect(unknown.status).toBe(404);
+    expect(await json(unknown)).toEqual(apiError("repo_not_found"));
+
+    const bare = await worker.fetch(req("/badges/ci/clanka-api"), createEnv());
+    expect(await json(bare)).toEqual(apiError("not_found"));
+  });
+
+  it("returns 400 invalid_query for an unknown style", async () => {
+    const res = await worker.fetch(req("/badges/status.svg?style=plastic"), createEnv());
+    expect(res.status).toBe(400);
+    expect((await json(res)).error.code).toBe("invalid_query");
+  });
+});
+
 describe("GET /fleet/score", () => {
   it("derives score and repo counts from fresh fleet health cache", async () => {
     const fetchSpy = vi.spyOn(globalThis, "fetch").mockRejectedValue(new Error("should not be called"));
@@ -1612,7 +1931,7 @@ describe("GET /fleet/trend", () => {
     expect(fetchSpy).not.toHaveBeenCalled();
   });
 
-  it("caches trend conclusions per repo with 10-minute TTL and reuses cache", async () => {
+  it("caches trend conclusions per repo for 10 minutes and reuses cache", async () => {
     const kvStore: Record<string, string> = {
       "registry:v1": JSON.stringify(MOCK_REGISTRY),
     };
@@ -1620,6 +1939,7 @@ describe("GET /fleet/trend", () => {
     const env = {
       CLANKA_STATE: {
         get: async (key: string) => kvStore[key] ?? null,
+        getWithMetadata: async (key: string) => ({ value: kvStore[key] ?? null, metadata: null }),
         put: async (key: string, value: string, opts?: any) => {
           kvStore[key] = value;
           putCalls.push({ key, opts });
@@ -1642,11 +1962,11 @@ describe("GET /fleet/trend", () => {
     expect(putCalls).toEqual(expect.arrayContaining([
       expect.objectContaining({
         key: "ci:trend:clankamode/clanka-api:v1",
-        opts: expect.objectContaining({ expirationTtl: 600 }),
+        opts: expect.objectContaining({ expirationTtl: 600 + 3600 }),
       }),
       expect.objectContaining({
         key: "ci:trend:clankamode/ci-triage:v1",
-        opts: expect.objectContaining({ expirationTtl: 600 }),
+        opts: expect.objectContaining({ expirationTtl: 600 + 3600 }),
       }),
     ]));
 
@@ -1700,6 +2020,100 @@ describe("GET /fleet/trend", () => {
   });
 });
 
+describe("GET /feeds/:feed", () => {
+  const history = [
+    { timestamp: Date.parse("2026-03-01T00:00:00.000Z"), desc: "deployed <api> & docs", type: "deploy", hash: "aaaa1111" },
+    { timestamp: Date.parse("2026-03-02T00:00:00.000Z"), desc: "shipped feeds", type: "ship", hash: "bbbb2222" },
+  ];
+
+  it("renders history as RSS with ETag and Last-Modified", async () => {
+    const res = await worker.fetch(req("/feeds/history.xml"), createEnv({ history: JSON.stringify(history) }));
+    const body = await res.text();
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get("Content-Type")).toBe("application/rss+xml; charset=utf-8");
+    expect(res.headers.get("ETag")).toMatch(/^"[0-9a-f]{32}"$/);
+    expect(res.headers.get("Last-Modified")).toBe("Mon, 02 Mar 2026 00:00:00 GMT");
+    expect(body.indexOf("shipped feeds")).toBeLessThan(body.indexOf("deployed"));
+    expect(body).toContain("<title>deployed &lt;api&gt; &amp; docs</title>");
+    expect(body).toContain(`<guid isPermaLink="false">urn:clanka:history:bbbb2222:${history[1].timestamp}</guid>`);
+  });
+
+  it("answers If-None-Match and If-Modified-Since with 304", async () => {
+    const env = createEnv({ history: JSON.stringify(history) });
+    const first = await worker.fetch(req("/feeds/history.atom"), env);
+    const etag = first.headers.get("ETag") as string;
+
+    const byEtag = await worker.fetch(req("/feeds/history.atom", "GET", undefined, { "If-None-Match": etag }), env);
+    expect(byEtag.status).toBe(304);
+    expect(byEtag.headers.get("ETag")).toBe(etag);
+    expect(await byEtag.text()).toBe("");
+
+    const byDate = await worker.fetch(
+      req("/feeds/history.atom", "GET", undefined, { "If-Modified-Since": "Mon, 02 Mar 2026 00:00:00 GMT" }),
+      env,
+    );
+    expect(byDate.status).toBe(304);
+
+    const changed = await worker.fetch(req("/feeds/history.json", "GET", undefined, { "If-None-Match": etag }), env);
+    expect(changed.status).toBe(200);
+  });
+
+  it("renders cached GitHub events as Atom", async () => {
+    const fetchSpy = vi.spyOn(globalThis, "fetch").mockRejectedValue(new Error("should not be called"));
+    const env = createEnv({
+      "github:events:v1": JSON.stringify([
+        { id: "42", type: "RELEASE", repo: "clankamode/clanka-api", message: "published release v1", timestamp: "2026-03-01T00:00:00Z" },
+      ]),
+    });
+
+    const res = await worker.fetch(req("/feeds/events.atom"), env);
+    const body = await res.text();
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get("Content-Type")).toBe("application/atom+xml; charset=utf-8");
+    expect(body).toContain("<id>urn:clanka:github-event:42</id>");
+    expect(body).toContain('<category term="RELEASE"/>');
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it("renders the fleet changelog as JSON Feed", async () => {
+    const env = createEnv({
+      "changelog:clankamode/clanka-api:v1": JSON.stringify([
+        { sha: "a1", message: "feat: feeds", author: "clanka", date: "2026-03-03T00:00:00.000Z", tags: ["v2.0.0"] },
+      ]),
+      "changelog:clankamode/ci-triage:v1": "[]",
+    }, { GITHUB_TOKEN: "gh-token" });
+
+    const res = await worker.fetch(req("/feeds/changelog.json"), env);
+    const body = await json(res);
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get("Content-Type")).toBe("application/feed+json; charset=utf-8");
+    expect(body).toEqual(expect.objectContaining({
+      version: "https://jsonfeed.org/version/1.1",
+      feed_url: "https://api.test/feeds/changelog.json",
+      items: [expect.objectContaining({
+        id: "https://github.com/clankamode/clanka-api/commit/a1",
+        title: "clankamode/clanka-api: feat: feeds",
+        tags: ["feat", "v2.0.0"],
+      })],
+    }));
+  });
+
+  it("returns 503 github_unconfigured for the changelog feed without credentials", async () => {
+    const res = await worker.fetch(req("/feeds/changelog.xml"), createEnv());
+    expect(res.status).toBe(503);
+    expect(await json(res)).toEqual(apiError("github_unconfigured"));
+  });
+
+  it("returns 404 feed_not_found for unknown feeds", async () => {
+    const res = await worker.fetch(req("/feeds/tasks.xml"), createEnv());
+    expect(res.status).toBe(404);
+    expect(await json(res)).toEqual(apiError("feed_not_found"));
+  });
+});
+
 describe("GET /history", () => {
   it("uses the default limit and returns at most 20 entries", async () => {
     const history = Array.from({ length: 30 }, (_, index) => ({
@@ -1973,18 +2387,21 @@ describe("GET /now and GET /pulse contracts", () => {
         }),
         team: JSON.stringify({
           clanka: { status: "active" },
-          helper: { status: "idle" },
+          helper: { status: "active" },
         }),
         history: JSON.stringify([
           { timestamp: now - 4_000, type: "SYNC", desc: "sync done", hash: "abc12345" },
         ]),
+        "agent:clanka:v1": JSON.stringify({ state: "focus", message: "shipping agents", lastSeen: now - 5_000 }),
+        "agent:helper:v1": JSON.stringify({ state: "active", lastSeen: now - 11 * 60 * 1000 }),
       }),
     );
     const body = await json(res);
 
     expect(res.status).toBe(200);
     expect(body).toEqual(expect.objectContaining({
-      status: "active",
+      current: "shipping agents",
+      status: "focus",
       signal: "⚡",
       last_seen: new Date(now - 5_000).toISOString(),
       timestamp: now - 5_000,
@@ -1992,6 +2409,26 @@ describe("GET /now and GET /pulse contracts", () => {
     }));
     expect(Array.isArray(body.history)).toBe(true);
     expect(body.team).toEqual(expect.objectContaining({ clanka: { status: "active" } }));
+    expect(body.agents.map((agent: { id: string; online: boolean }) => [agent.id, agent.online])).toEqual([
+      ["clanka", true],
+      ["helper", false],
+    ]);
+  });
+
+  it("reports offline with zero active agents once every agent's heartbeat is stale", async () => {
+    const now = 1_750_000_000_000;
+    vi.spyOn(Date, "now").mockReturnValue(now);
+    const env = createEnv({
+      last_seen: String(now - 5_000),
+      presence: JSON.stringify({ state: "active", timestamp: now - 5_000 }),
+      team: JSON.stringify({ clanka: { status: "active" } }),
+      "agent:clanka:v1": JSON.stringify({ state: "active", lastSeen: now - 400_000, offlineAfterSec: 300 }),
+    });
+
+    const nowBody = await json(await worker.fetch(req("/now"), env));
+    const pulse = await json(await worker.fetch(req("/pulse"), env));
+    expect([nowBody.status, nowBody.agents_active]).toEqual(["offline", 0]);
+    expect([pulse.status, pulse.agents_active]).toEqual(["offline", 0]);
   });
 
   it("returns offline status in /now when heartbeat is stale", async () => {
@@ -2027,6 +2464,7 @@ describe("GET /now and GET /pulse contracts", () => {
         presence: JSON.stringify({ state: "active" }),
         team: JSON.stringify({ clanka: { status: "active" }, helper: { status: "idle" } }),
         history: JSON.stringify([{ type: "SYNC", desc: "deployed", timestamp: 12345, hash: "aaa" }]),
+        "agent:clanka:v1": JSON.stringify({ state: "active", lastSeen: Date.now() }),
       }),
     );
     const body = await json(res);
@@ -2047,7 +2485,7 @@ describe("Unknown paths", () => {
     const res = await worker.fetch(req("/nonexistent"), createEnv());
     const body = await json(res);
     expect(res.status).toBe(404);
-    expect(body).toEqual({ error: "Not Found" });
+    expect(body).toEqual(apiError("not_found", { message: "Not Found", details: null }));
   });
 
   it("returns application/json Content-Type on 404", async () => {
@@ -2056,6 +2494,122 @@ describe("Unknown paths", () => {
   });
 });
 
+describe("Route dispatch", () => {
+  it("returns 405 with an Allow header listing the methods served at the path", async () => {
+    const res = await worker.fetch(req("/history", "DELETE"), createEnv());
+    const body = await json(res);
+
+    expect(res.status).toBe(405);
+    expect(body).toEqual(apiError("method_not_allowed"));
+    expect(res.headers.get("Allow")).toBe("GET, HEAD, OPTIONS");
+  });
+
+  it("lists every method registered for multi-method admin paths", async () => {
+    const res = await worker.fetch(
+      req("/admin/tasks/t1", "PUT", { title: "t1" }, { Authorization: "Bearer test-secret" }),
+      createEnv(),
+    );
+
+    expect(res.status).toBe(405);
+    expect(res.headers.get("Allow")).toBe("GET, HEAD, PATCH, DELETE, OPTIONS");
+  });
+
+  it("answers HEAD requests with GET headers and no body", async () => {
+    const res = await worker.fetch(req("/status", "HEAD"), createEnv());
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get("Cache-Control")).toBe("no-store");
+    expect(res.headers.get("Content-Type")).toContain("application/json");
+    expect(await res.text()).toBe("");
+  });
+
+  it("returns 405 instead of 404 for write-only paths requested with GET", async () => {
+    const res = await worker.fetch(req("/set-presence"), createEnv());
+
+    expect(res.status).toBe(405);
+    expect(res.headers.get("Allow")).toBe("POST, OPTIONS");
+  });
+});
+
+describe("Error envelope", () => {
+  it("returns JSON and CORS headers on bearer 401s", async () => {
+    for (const path of ["/set-presence", "/heartbeat"]) {
+      const res = await worker.fetch(req(path, "POST", {}), createEnv());
+      const body = await json(res);
+
+      expect(res.status, path).toBe(401);
+      expect(res.headers.get("Content-Type")).toContain("application/json");
+      expect(res.headers.get("Access-Control-Allow-Origin")).toBe("*");
+      expect(body).toEqual(apiError("unauthorized", { message: "Unauthorized", details: null }));
+    }
+  });
+
+  it("sets X-Request-Id on every response and echoes it in the error body", async () => {
+    const ok = await worker.fetch(req("/status"), createEnv());
+    expect(ok.headers.get("X-Request-Id")).toMatch(/^[0-9a-f-]{36}$/);
+
+    const missing = await worker.fetch(req("/missing"), createEnv());
+    const body = await json(missing);
+    expect(body.error.requestId).toBe(missing.headers.get("X-Request-Id"));
+  });
+
+  it("reuses a well-formed caller X-Request-Id and records it in request_log", async () => {
+    const env = createEnv();
+    const execution = createExecutionContext();
+    const res = await worker.fetch(
+      req("/status", "GET", undefined, { "X-Request-Id": "client-trace-42" }),
+      env,
+      execution.ctx as any,
+    );
+    await execution.flush();
+
+    expect(res.headers.get("X-Request-Id")).toBe("client-trace-42");
+    const logEntries = JSON.parse(env.CLANKA_STATE.__store.request_log);
+    expect(logEntries[0]).toEqual(expect.objectContaining({ requestId: "client-trace-42" }));
+  });
+
+  it("replaces caller request ids that are not safe to echo", async () => {
+    const res = await worker.fetch(
+      req("/status", "GET", undefined, { "X-Request-Id": "<script>" }),
+      createEnv(),
+    );
+    expect(res.headers.get("X-Request-Id")).not.toBe("<script>");
+  });
+
+  it("wraps unexpected handler failures in an internal_error envelope", async () => {
+    const env = {
+      CLANKA_STATE: {
+        get: async () => { throw new Error("kv unavailable"); },
+        put: async () => { throw new Error("kv unavailable"); },
+      },
+      ADMIN_KEY: "test-secret",
+    };
+    const res = await worker.fetch(
+      req("/admin/tasks", "GET", undefined, { Authorization: "Bearer test-secret" }),
+      env as any,
+    );
+    const body = await json(res);
+
+    expect(res.status).toBe(500);
+    expect(body).toEqual(apiError("internal_error"));
+  });
+
+  it("includes Retry-After details in rate_limited errors", async () => {
+    vi.stubEnv("VITEST", "");
+    vi.stubEnv("NODE_ENV", "production");
+
+    const env = createEnv();
+    const headers = { "X-Forwarded-For": "203.0.113.77" };
+    for (let i = 0; i < 10; i += 1) {
+      await worker.fetch(req("/status", "GET", undefined, headers), env);
+    }
+    const limited = await worker.fetch(req("/status", "GET", undefined, headers), env);
+
+    expect(limited.status).toBe(429);
+    expect(await json(limited)).toEqual(apiError("rate_limited", { details: { retryAfter: 60 } }));
+  });
+});
+
 describe("GET /openapi.json", () => {
   it("returns 200 and valid json", async () => {
     const res = await worker.fetch(req("/openapi.json"), createEnv());
@@ -2082,22 +2636,88 @@ describe("GET /openapi.json", () => {
       ]),
     );
   });
-});
 
-describe("GET /status", () => {
-  it("returns the public status contract shape", async () => {
-    const res = await worker.fetch(req("/status"), createEnv());
+  it("documents every served route and method", async () => {
+    const res = await worker.fetch(req("/openapi.json"), createEnv());
     const body = await json(res);
-    expect(res.status).toBe(200);
-    expect(body).toEqual({
-      ok: true,
-      version: "1.0.0",
+
+    for (const route of ROUTES) {
+      const operation = body.paths[toOpenApiPath(route.path)]?.[route.method.toLowerCase()];
+      expect(operation, `${route.method} ${route.path} is missing from the spec`).toBeDefined();
+      expect(operation.summary).toEqual(expect.any(String));
+      // WebSocket upgrades succeed with 101 rather than a 2xx.
+      expect(Object.keys(operation.responses).some((status) => status.startsWith("2") || status === "101")).toBe(true);
+    }
+  });
+
+  it("documents request bodies for admin write endpoints", async () => {
+    const res = await worker.fetch(req("/openapi.json"), createEnv());
+    const body = await json(res);
+
+    for (const path of ["/set-presence", "/heartbeat", "/admin/activity", "/admin/tasks"]) {
+      const schema = body.paths[path].post.requestBody.content["application/json"].schema;
+      expect(schema.type, path).toBe("object");
+    }
+    expect(body.paths["/admin/activity"].post.requestBody.content["application/json"].schema.required)
+      .toEqual(["desc", "type"]);
+  });
+
+  it("declares Bearer and legacy header security schemes", async () => {
+    const res = await worker.fetch(req("/openapi.json"), createEnv());
+    const body = await json(res);
+
+    expect(body.components.securitySchemes.bearerAuth).toEqual(expect.objectContaining({
+      type: "http",
+      scheme: "bearer",
+    }));
+    expect(body.components.securitySchemes["X-Admin-Token"]).toEqual(expect.objectContaining({
+      type: "apiKey",
+      in: "header",
+      name: "X-Admin-Token",
+    }));
+    expect(body.components.securitySchemes.ADMIN_TOKEN).toEqual(expect.objectContaining({ name: "ADMIN_TOKEN" }));
+    expect(body.paths["/heartbeat"].post.security).toEqual([
+      { bearerAuth: [] },
+      { "X-Admin-Token": [] },
+      { ADMIN_TOKEN: [] },
+      { signedRequest: [] },
+    ]);
+    expect(body.paths["/metrics"].get.security).not.toContainEqual({ signedRequest: [] });
+    expect(body.paths["/metrics"].get["x-required-scope"]).toBe("metrics:read");
+    expect(body.paths["/metrics"].get.responses["403"]).toBeDefined();
+    expect(body.paths["/now"].get.security).toBeUndefined();
+  });
+});
+
+describe("GET /status", () => {
+  it("returns the public status contract shape", async () => {
+    const res = await worker.fetch(req("/status"), createEnv());
+    const body = await json(res);
+    expect(res.status).toBe(200);
+    expect(body).toEqual({
+      ok: true,
+      version: "1.0.0",
       timestamp: expect.any(String),
-      endpoints: STATUS_ENDPOINTS,
+      endpoints: expect.any(Array),
+      incidents: [],
     });
     expect(Number.isNaN(Date.parse(body.timestamp))).toBe(false);
   });
 
+  it("lists every public GET route from the route table", async () => {
+    const body = await json(await worker.fetch(req("/status"), createEnv()));
+    expect(body.endpoints).toEqual(expect.arrayContaining(["/now", "/status", "/incidents", "/incidents/{id}", "/tools/{repo}"]));
+    expect(body.endpoints).not.toContain("/metrics");
+    expect(body.endpoints).not.toContain("/admin/tasks");
+    expect(new Set(body.endpoints).size).toBe(body.endpoints.length);
+
+    const spec = await json(await worker.fetch(req("/openapi.json"), createEnv()));
+    const publicGets = Object.entries(spec.paths)
+      .filter(([, operations]: [string, any]) => operations.get && !operations.get.security)
+      .map(([path]) => path);
+    expect([...body.endpoints].sort()).toEqual(publicGets.sort());
+  });
+
   it("disables caching for status", async () => {
     const res = await worker.fetch(req("/status"), createEnv());
     expect(res.headers.get("Cache-Control")).toBe("no-store");
@@ -2112,14 +2732,7 @@ describe("GET /status", () => {
     const res = await worker.fetch(req("/status", "POST"), createEnv());
     const body = await json(res);
     expect(res.status).toBe(405);
-    expect(body).toEqual({ error: "Method Not Allowed" });
-  });
-
-  it("includes /metrics and /status in endpoint list", async () => {
-    const res = await worker.fetch(req("/status"), createEnv());
-    const body = await json(res);
-    expect(body.endpoints).toContain("/status");
-    expect(body.endpoints).toContain("/metrics");
+    expect(body).toEqual(apiError("method_not_allowed"));
   });
 });
 
@@ -2152,14 +2765,54 @@ describe("GET /status/uptime regression coverage", () => {
     );
     const body = await json(res);
     expect(res.status).toBe(200);
-    expect(body).toEqual({ status: "offline", uptime_ms: 0, last_seen: null });
+    expect(body).toEqual(expect.objectContaining({ status: "offline", uptime_ms: 0, last_seen: null, window: "24h" }));
+  });
+
+  it("reports availability, outages, and MTTR from heartbeat coverage", async () => {
+    const authHeaders = { Authorization: "Bearer test-secret" };
+    const start = Date.parse("2026-03-01T23:00:00Z");
+    const env = createEnv();
+    for (const minutes of [0, 5, 60]) {
+      vi.spyOn(Date, "now").mockReturnValue(start + minutes * 60_000);
+      expect((await worker.fetch(req("/heartbeat", "POST", {}, authHeaders), env)).status).toBe(200);
+    }
+    vi.spyOn(Date, "now").mockReturnValue(start + 65 * 60_000 + 30_000);
+
+    const outage = {
+      start: "2026-03-01T23:15:00.000Z",
+      end: "2026-03-02T00:00:00.000Z",
+      duration_ms: 45 * 60_000,
+      ongoing: false,
+    };
+    expect(await json(await worker.fetch(req("/status/uptime"), env))).toEqual({
+      status: "operational",
+      uptime_ms: 5 * 60_000 + 30_000,
+      last_seen: "2026-03-02T00:00:00.000Z",
+      window: "24h",
+      since: "2026-03-01T23:00:00.000Z",
+      until: "2026-03-02T00:05:00.000Z",
+      availability: 30.769,
+      downtime_ms: 45 * 60_000,
+      outages: [outage],
+      longest_outage: outage,
+      mttr_ms: 45 * 60_000,
+      days: [
+        { date: "2026-03-01", availability: 25, downtime_ms: 45 * 60_000 },
+        { date: "2026-03-02", availability: 100, downtime_ms: 0 },
+      ],
+    });
+    expect((await json(await worker.fetch(req("/now"), env))).uptime).toBe(5 * 60_000 + 30_000);
+
+    const invalid = await worker.fetch(req("/status/uptime?window=1y"), env);
+    expect(invalid.status).toBe(400);
+    expect(await json(invalid)).toEqual(apiError("invalid_query", { message: "window must be one of 24h, 7d, 30d, 90d" }));
   });
 
   it("rejects non-GET with 405", async () => {
     const res = await worker.fetch(req("/status/uptime", "POST"), createEnv());
     const body = await json(res);
     expect(res.status).toBe(405);
-    expect(body).toEqual({ error: "Method Not Allowed" });
+    expect(body).toEqual(apiError("method_not_allowed"));
   });
 });
 
@@ -2196,7 +2849,7 @@ describe("GET /health", () => {
     const res = await worker.fetch(req("/health", "POST"), createEnv());
     const body = await json(res);
     expect(res.status).toBe(405);
-    expect(body).toEqual({ error: "Method Not Allowed" });
+    expect(body).toEqual(apiError("method_not_allowed"));
   });
 });
 
@@ -2208,7 +2861,7 @@ describe("GET /metrics", () => {
     );
     const body = await json(res);
     expect(res.status).toBe(401);
-    expect(body).toEqual({ error: "unauthorized" });
+    expect(body).toEqual(apiError("unauthorized"));
   });
 
   it("returns 401 when token is wrong", async () => {
@@ -2218,7 +2871,7 @@ describe("GET /metrics", () => {
     );
     const body = await json(res);
     expect(res.status).toBe(401);
-    expect(body).toEqual({ error: "unauthorized" });
+    expect(body).toEqual(apiError("unauthorized"));
   });
 
   it("returns 200 with metrics shape when token is correct", async () => {
@@ -2238,11 +2891,37 @@ describe("GET /metrics", () => {
     expect(Number.isNaN(Date.parse(body.timestamp))).toBe(false);
   });
 
-  it("returns 503 when ADMIN_TOKEN is missing", async () => {
+  it("reports the GitHub quota from the last rate-limit headers seen", async () => {
+    const reset = Math.floor(Date.now() / 1000) + 1800;
+    vi.spyOn(globalThis, "fetch").mockResolvedValue(new Response("[]", {
+      status: 200,
+      headers: { "X-RateLimit-Limit": "60", "X-RateLimit-Remaining": "42", "X-RateLimit-Reset": String(reset) },
+    }));
+    const env = createEnv({}, { ADMIN_TOKEN: "metrics-secret" });
+    const before = await json(await worker.fetch(
+      req("/metrics", "GET", undefined, { "X-Admin-Token": "metrics-secret" }),
+      env,
+    ));
+    expect(before.github_quota).toBeNull();
+
+    await worker.fetch(req("/github/events"), env);
+    const res = await worker.fetch(req("/metrics", "GET", undefined, { "X-Admin-Token": "metrics-secret" }), env);
+    const body = await json(res);
+
+    expect(body.github_quota).toEqual({
+      limit: 60,
+      remaining: 42,
+      reset_at: new Date(reset * 1000).toISOString(),
+      updated_at: expect.any(String),
+      low: false,
+    });
+  });
+
+  it("returns 401 when ADMIN_TOKEN is unset and no token is presented", async () => {
     const res = await worker.fetch(req("/metrics"), createEnv());
     const body = await json(res);
-    expect(res.status).toBe(503);
-    expect(body).toEqual({ error: "metrics_unavailable" });
+    expect(res.status).toBe(401);
+    expect(body).toEqual(apiError("unauthorized"));
   });
 
   it("disables caching for authorized metrics responses", async () => {
@@ -2268,7 +2947,7 @@ describe("GET /metrics", () => {
     );
     const body = await json(res);
     expect(res.status).toBe(405);
-    expect(body).toEqual({ error: "Method Not Allowed" });
+    expect(body).toEqual(apiError("method_not_allowed"));
   });
 
   it("returns non-negative numeric counters", async () => {
@@ -2316,16 +2995,16 @@ describe("POST /admin/refresh", () => {
     const body = await json(res);
 
     expect(res.status).toBe(405);
-    expect(body).toEqual({ error: "Method Not Allowed" });
+    expect(body).toEqual(apiError("method_not_allowed"));
     expect(res.headers.get("Cache-Control")).toBe("no-store");
   });
 
-  it("returns 503 when ADMIN_TOKEN is not configured", async () => {
+  it("returns 401 when ADMIN_TOKEN is unset and no token is presented", async () => {
     const res = await worker.fetch(req("/admin/refresh", "POST"), createEnv());
     const body = await json(res);
 
-    expect(res.status).toBe(503);
-    expect(body).toEqual({ error: "refresh_unavailable" });
+    expect(res.status).toBe(401);
+    expect(body).toEqual(apiError("unauthorized"));
   });
 
   it("returns 401 when ADMIN_TOKEN header is missing", async () => {
@@ -2336,7 +3015,7 @@ describe("POST /admin/refresh", () => {
     const body = await json(res);
 
     expect(res.status).toBe(401);
-    expect(body).toEqual({ error: "unauthorized" });
+    expect(body).toEqual(apiError("unauthorized"));
   });
 
   it("returns 401 when ADMIN_TOKEN header is incorrect", async () => {
@@ -2347,7 +3026,7 @@ describe("POST /admin/refresh", () => {
     const body = await json(res);
 
     expect(res.status).toBe(401);
-    expect(body).toEqual({ error: "unauthorized" });
+    expect(body).toEqual(apiError("unauthorized"));
   });
 
   it("sets no-store cache headers for unauthorized refresh requests", async () => {
@@ -2462,65 +3141,199 @@ describe("POST /admin/refresh", () => {
 
 describe("Admin task CRUD", () => {
   const authHeaders = { Authorization: "Bearer test-secret" };
+  const TEAM = JSON.stringify({ clanka: "active", scout: { status: "idle" } });
+
+  async function createTask(env: ReturnType<typeof createEnv>, body: Record<string, unknown>) {
+    const res = await worker.fetch(req("/admin/tasks", "POST", body, authHeaders), env as any);
+    expect(res.status).toBe(201);
+    return { res, task: await json(res) };
+  }
 
   it("returns 401 when auth is missing", async () => {
     const res = await worker.fetch(req("/admin/tasks"), createEnv());
     expect(res.status).toBe(401);
   });
 
-  it("supports GET, POST, PUT, and DELETE against the tasks KV state", async () => {
-    const kvStore = {
-      tasks: JSON.stringify([
-        { id: "t1", text: "ship coverage", done: false },
-      ]),
-    };
-    const env = {
-      CLANKA_STATE: createMockKV(kvStore),
-      ADMIN_KEY: "test-secret",
-    };
+  it("creates typed tasks with server-generated ids, defaults, ETag, and Location", async () => {
+    const env = createEnv({ team: TEAM });
+    const { res, task } = await createTask(env, {
+      title: "  ship coverage ",
+      priority: "red",
+      assignee: "clanka",
+      repo: "clankamode/clanka-api",
+      tags: ["ci", "ci"],
+      dueDate: "2026-03-01",
+    });
+
+    expect(task).toEqual({
+      id: expect.stringMatching(/^[0-9a-f-]{36}$/),
+      title: "ship coverage",
+      status: "todo",
+      priority: "red",
+      assignee: "clanka",
+      repo: "clankamode/clanka-api",
+      tags: ["ci"],
+      dueDate: "2026-03-01",
+      createdAt: expect.any(String),
+      updatedAt: task.createdAt,
+      version: 1,
+    });
+    expect(res.headers.get("ETag")).toBe(`"${task.id}.1"`);
+    expect(res.headers.get("Location")).toBe(`/admin/tasks/${task.id}`);
+    expect(JSON.parse(env.CLANKA_STATE.__store["tasks:v2"])).toEqual([task]);
 
-    const getRes = await worker.fetch(req("/admin/tasks", "GET", undefined, authHeaders), env as any);
-    expect(await json(getRes)).toEqual([{ id: "t1", text: "ship coverage", done: false }]);
+    const fetched = await worker.fetch(req(`/admin/tasks/${task.id}`, "GET", undefined, authHeaders), env as any);
+    expect(await json(fetched)).toEqual(task);
+    expect(fetched.headers.get("ETag")).toBe(`"${task.id}.1"`);
+  });
 
-    const postRes = await worker.fetch(
-      req("/admin/tasks", "POST", { id: "t2", text: "verify branches", done: false }, authHeaders),
+  it("rejects client-supplied ids, unknown fields, and assignees outside the team", async () => {
+    const env = createEnv({ team: TEAM });
+    const res = await worker.fetch(
+      req("/admin/tasks", "POST", { id: "t1", title: "x", owner: "clanka" }, authHeaders),
       env as any,
     );
-    expect(postRes.status).toBe(200);
-    expect(JSON.parse(kvStore.tasks)).toEqual([
-      { id: "t1", text: "ship coverage", done: false },
-      { id: "t2", text: "verify branches", done: false },
+    expect(res.status).toBe(400);
+    expect((await json(res)).error.details).toEqual([
+      { path: "$.id", expected: "no additional properties", received: "string" },
+      { path: "$.owner", expected: "no additional properties", received: "string" },
     ]);
 
-    const putRes = await worker.fetch(
-      req("/admin/tasks", "PUT", { id: "t2", done: true }, authHeaders),
+    const stranger = await worker.fetch(
+      req("/admin/tasks", "POST", { title: "x", assignee: "mallory" }, authHeaders),
       env as any,
     );
-    expect(putRes.status).toBe(200);
-    expect(JSON.parse(kvStore.tasks)).toEqual([
-      { id: "t1", text: "ship coverage", done: false },
-      { id: "t2", text: "verify branches", done: true },
-    ]);
+    expect(stranger.status).toBe(400);
+    expect(await json(stranger)).toEqual(apiError("invalid_body", {
+      details: [{ path: "$.assignee", expected: "one of clanka, scout", received: "\"mallory\"" }],
+    }));
+    expect(env.CLANKA_STATE.__store["tasks:v2"]).toBeUndefined();
+  });
+
+  it("patches with If-Match and rejects stale ETags with 412", async () => {
+    const env = createEnv({ team: TEAM });
+    const { res: created, task } = await createTask(env, { title: "verify branches" });
+    const etag = created.headers.get("ETag")!;
+
+    const patched = await worker.fetch(
+      req(`/admin/tasks/${task.id}`, "PATCH", { status: "in_progress", assignee: "scout" }, {
+        ...authHeaders,
+        "If-Match": etag,
+      }),
+      env as any,
+    );
+    const updated = await json(patched);
+    expect(patched.status).toBe(200);
+    expect(updated).toEqual(expect.objectContaining({ status: "in_progress", assignee: "scout", version: 2 }));
+    expect(patched.headers.get("ETag")).toBe(`"${task.id}.2"`);
+
+    const stale = await worker.fetch(
+      req(`/admin/tasks/${task.id}`, "PATCH", { status: "done" }, { ...authHeaders, "If-Match": etag }),
+      env as any,
+    );
+    expect(stale.status).toBe(412);
+    expect(await json(stale)).toEqual(apiError("precondition_failed", { details: { etag: `"${task.id}.2"` } }));
+
+    const staleDelete = await worker.fetch(
+      req(`/admin/tasks/${task.id}`, "DELETE", undefined, { ...authHeaders, "If-Match": etag }),
+      env as any,
+    );
+    expect(staleDelete.status).toBe(412);
 
-    const deleteRes = await worker.fetch(
-      req("/admin/tasks", "DELETE", { id: "t1" }, authHeaders),
+    const deleted = await worker.fetch(
+      req(`/admin/tasks/${task.id}`, "DELETE", undefined, { ...authHeaders, "If-Match": `"${task.id}.2"` }),
       env as any,
     );
-    expect(deleteRes.status).toBe(200);
-    expect(JSON.parse(kvStore.tasks)).toEqual([
-      { id: "t2", text: "verify branches", done: true },
+    expect(await json(deleted)).toEqual({ success: true, id: task.id });
+    expect(JSON.parse(env.CLANKA_STATE.__store["tasks:v2"])).toEqual([]);
+  });
+
+  it("returns 404 for unknown task ids", async () => {
+    const res = await worker.fetch(req("/admin/tasks/missing", "PATCH", {}, authHeaders), createEnv());
+    expect(res.status).toBe(404);
+    expect(await json(res)).toEqual(apiError("task_not_found"));
+  });
+
+  it("filters and sorts the task list", async () => {
+    const env = createEnv({ team: TEAM });
+    await createTask(env, { title: "b", priority: "green", tags: ["web"], dueDate: "2026-05-01" });
+    await createTask(env, { title: "a", priority: "red", tags: ["web"] });
+    await createTask(env, { title: "c", priority: "yellow", status: "done", dueDate: "2026-04-01" });
+
+    async function titles(query: string) {
+      const res = await worker.fetch(req(`/admin/tasks${query}`, "GET", undefined, authHeaders), env as any);
+      const body = await json(res);
+      expect(body.count).toBe(body.tasks.length);
+      return body.tasks.map((task: { title: string }) => task.title);
+    }
+
+    expect(await titles("?sort=priority")).toEqual(["a", "c", "b"]);
+    expect(await titles("?sort=-title")).toEqual(["c", "b", "a"]);
+    expect(await titles("?sort=dueDate")).toEqual(["c", "b", "a"]);
+    expect(await titles("?tag=web&sort=title")).toEqual(["a", "b"]);
+    expect(await titles("?status=done")).toEqual(["c"]);
+
+    const bad = await worker.fetch(req("/admin/tasks?sort=owner", "GET", undefined, authHeaders), env as any);
+    expect(bad.status).toBe(400);
+    expect(await json(bad)).toEqual(apiError("invalid_query"));
+  });
+
+  it("reads the legacy untyped task blob without writing, and stores it on the first admin write", async () => {
+    const env = createEnv({
+      tasks: JSON.stringify([
+        { id: "t1", text: "ship coverage", done: true },
+        { text: "no id" },
+        "junk",
+      ]),
+    });
+
+    const res = await worker.fetch(req("/admin/tasks?sort=title", "GET", undefined, authHeaders), env as any);
+    const body = await json(res);
+    expect(body.tasks).toEqual([
+      expect.objectContaining({ title: "no id", status: "todo", id: "legacy-1" }),
+      expect.objectContaining({ id: "t1", title: "ship coverage", status: "done", priority: "yellow" }),
+    ]);
+    expect(env.CLANKA_STATE.__store["tasks:v2"]).toBeUndefined();
+
+    const again = await json(await worker.fetch(req("/admin/tasks?sort=title", "GET", undefined, authHeaders), env as any));
+    expect(again.tasks).toEqual(body.tasks);
+    const fetched = await worker.fetch(req("/admin/tasks/legacy-1", "GET", undefined, authHeaders), env as any);
+    expect(fetched.status).toBe(200);
+    expect(await json(fetched)).toEqual(body.tasks[0]);
+    expect(env.CLANKA_STATE.__store["tasks:v2"]).toBeUndefined();
+
+    const patched = await worker.fetch(req("/admin/tasks/legacy-1", "PATCH", { status: "done" }, {
+      ...authHeaders,
+      "If-Match": fetched.headers.get("ETag")!,
+    }), env as any);
+    expect(patched.status).toBe(200);
+    expect(JSON.parse(env.CLANKA_STATE.__store["tasks:v2"])).toEqual([
+      body.tasks[1],
+      expect.objectContaining({ id: "legacy-1", status: "done", version: 2 }),
     ]);
   });
 
   it("falls back to an empty list when stored tasks JSON is malformed", async () => {
     const res = await worker.fetch(
       req("/admin/tasks", "GET", undefined, authHeaders),
-      createEnv({ tasks: "{invalid-json" }),
+      createEnv({ "tasks:v2": "{invalid-json" }),
     );
     const body = await json(res);
 
     expect(res.status).toBe(200);
-    expect(body).toEqual([]);
+    expect(body).toEqual({ tasks: [], count: 0 });
+  });
+
+  it("no longer lets /set-presence overwrite tasks", async () => {
+    const env = createEnv({ "tasks:v2": "[]" });
+    const res = await worker.fetch(
+      req("/set-presence", "POST", { ...VALID_SET_PRESENCE_PAYLOAD, tasks: [{ id: "x" }] }, authHeaders),
+      env as any,
+    );
+
+    expect(res.status).toBe(200);
+    expect(env.CLANKA_STATE.__store["tasks:v2"]).toBe("[]");
+    expect(env.CLANKA_STATE.__store.tasks).toBeUndefined();
   });
 
   it("returns 405 for unsupported methods", async () => {
@@ -2531,7 +3344,7 @@ describe("Admin task CRUD", () => {
     const body = await json(res);
 
     expect(res.status).toBe(405);
-    expect(body).toEqual({ error: "Method Not Allowed" });
+    expect(body).toEqual(apiError("method_not_allowed"));
   });
 
   it("returns 405 for unsupported methods even when KV is unavailable", async () => {
@@ -2549,7 +3362,7 @@ describe("Admin task CRUD", () => {
     const body = await json(res);
 
     expect(res.status).toBe(405);
-    expect(body).toEqual({ error: "Method Not Allowed" });
+    expect(body).toEqual(apiError("method_not_allowed"));
   });
 });
 
@@ -2652,7 +3465,8 @@ describe("Rate limiting", () => {
     const env = createEnv({}, { ADMIN_TOKEN: "metrics-secret" });
     for (let i = 0; i < 20; i += 1) {
       const res = await worker.fetch(req("/metrics"), env);
-      expect(res.status).toBe(401);
+      // Repeated failures trip the auth lockout, never the public rate limit.
+      expect((await json(res)).error.code).toBe(i < AUTH_FAILURE_LIMIT ? "unauthorized" : "auth_locked");
     }
   });
 
@@ -2663,7 +3477,8 @@ describe("Rate limiting", () => {
     const env = createEnv();
     for (let i = 0; i < 20; i += 1) {
       const res = await worker.fetch(req("/set-presence", "POST", {}), env);
-      expect(res.status).toBe(401);
+      // Repeated failures trip the auth lockout, never the public rate limit.
+      expect((await json(res)).error.code).toBe(i < AUTH_FAILURE_LIMIT ? "unauthorized" : "auth_locked");
     }
   });
 
@@ -2746,7 +3561,7 @@ describe("Auth middleware", () => {
     );
 
     expect(res.status).toBe(401);
-    const authFailCall = putCalls.find((call) => /^auth_fail:\d+:\d+$/.test(call.key));
+    const authFailCall = putCalls.find((call) => /^auth_fail:r:\d{13}:\d+$/.test(call.key));
 
     expect(authFailCall).toBeDefined();
     expect(JSON.parse(authFailCall!.value as string)).toEqual(
@@ -2759,109 +3574,560 @@ describe("Auth middleware", () => {
   });
 });
 
-describe("POST /set-presence", () => {
-  const authHeaders = { Authorization: "Bearer test-secret" };
-  const validationError = { error: "Invalid body: presence, team, and activity are required" };
+describe("Auth lockout", () => {
+  const rootHeaders = { Authorization: "Bearer test-secret" };
 
-  it("returns 400 for empty payload", async () => {
-    const res = await worker.fetch(req("/set-presence", "POST", {}, authHeaders), createEnv());
-    const body = await json(res);
-    expect(res.status).toBe(400);
-    expect(body).toEqual(validationError);
-  });
+  async function failAuth(env: ReturnType<typeof createEnv>, ip: string, times = AUTH_FAILURE_LIMIT) {
+    for (let i = 0; i < times; i += 1) {
+      await worker.fetch(
+        req("/admin/tasks", "GET", undefined, { Authorization: "Bearer wrong", "CF-Connecting-IP": ip }),
+        env as any,
+      );
+    }
+  }
 
-  it("returns 400 for null payload", async () => {
-    const res = await worker.fetch(req("/set-presence", "POST", null, authHeaders), createEnv());
-    const body = await json(res);
-    expect(res.status).toBe(400);
-    expect(body).toEqual(validationError);
+  it("records auth failures on every protected route", async () => {
+    const env = createEnv();
+    await worker.fetch(req("/metrics", "GET", undefined, { "X-Admin-Token": "nope" }), env as any);
+
+    const key = Object.keys(env.CLANKA_STATE.__store).find((item) => item.startsWith("auth_fail:"));
+    expect(key).toBeDefined();
+    expect(JSON.parse(env.CLANKA_STATE.__store[key!])).toEqual(expect.objectContaining({ path: "/metrics" }));
   });
 
-  for (const missingField of ["presence", "team", "activity"] as const) {
-    it(`returns 400 when ${missingField} is missing`, async () => {
-      const payload = { ...VALID_SET_PRESENCE_PAYLOAD };
-      delete payload[missingField];
-      const res = await worker.fetch(req("/set-presence", "POST", payload, authHeaders), createEnv());
-      const body = await json(res);
-      expect(res.status).toBe(400);
-      expect(body).toEqual(validationError);
-    });
-  }
+  it("locks an IP out after repeated failures, even with valid credentials", async () => {
+    const env = createEnv();
+    await failAuth(env, "203.0.113.7");
 
-  it("returns 200 for valid payload", async () => {
-    const res = await worker.fetch(req("/set-presence", "POST", VALID_SET_PRESENCE_PAYLOAD, authHeaders), createEnv());
+    const res = await worker.fetch(
+      req("/admin/tasks", "GET", undefined, { ...rootHeaders, "CF-Connecting-IP": "203.0.113.7" }),
+      env as any,
+    );
     const body = await json(res);
-    expect(res.status).toBe(200);
-    expect(body).toEqual({ success: true });
-  });
-});
 
-describe("POST /heartbeat", () => {
-  const authHeaders = { Authorization: "Bearer test-secret" };
+    expect(res.status).toBe(429);
+    expect(Number(res.headers.get("Retry-After"))).toBeGreaterThan(0);
+    expect(body).toEqual(apiError("auth_locked", { details: { retryAfter: expect.any(Number) } }));
 
-  it("returns 401 when auth is missing", async () => {
-    const res = await worker.fetch(req("/heartbeat", "POST", {}), createEnv());
-    expect(res.status).toBe(401);
+    const otherIp = await worker.fetch(
+      req("/admin/tasks", "GET", undefined, { ...rootHeaders, "CF-Connecting-IP": "203.0.113.8" }),
+      env as any,
+    );
+    expect(otherIp.status).toBe(200);
+    expect(env.CLANKA_STATE.__store["auth:lockout:203.0.113.7"]).toBeDefined();
+    expect(env.CLANKA_STATE.__puts.some((put: { key: string }) => put.key.startsWith("auth:lockout:203.0.113.8"))).toBe(false);
   });
 
-  it("returns 401 when token is invalid", async () => {
+  it("resets the failure count after a successful authentication", async () => {
+    const env = createEnv();
+    const ip = "203.0.113.9";
+    await failAuth(env, ip, AUTH_FAILURE_LIMIT - 1);
+    await worker.fetch(req("/admin/tasks", "GET", undefined, { ...rootHeaders, "CF-Connecting-IP": ip }), env as any);
+    await failAuth(env, ip, AUTH_FAILURE_LIMIT - 1);
+
     const res = await worker.fetch(
-      req("/heartbeat", "POST", {}, { Authorization: "Bearer wrong-token" }),
-      createEnv(),
+      req("/admin/tasks", "GET", undefined, { ...rootHeaders, "CF-Connecting-IP": ip }),
+      env as any,
     );
-    expect(res.status).toBe(401);
+    expect(res.status).toBe(200);
   });
 
-  it("returns 400 for non-array history payload", async () => {
-    const res = await worker.fetch(
-      req("/heartbeat", "POST", { history: { desc: "bad" } }, authHeaders),
-      createEnv(),
+  it("lists and clears lockouts through the admin endpoints", async () => {
+    const env = createEnv();
+    await failAuth(env, "198.51.100.1");
+    await failAuth(env, "198.51.100.2", 1);
+
+    const list = await worker.fetch(req("/admin/lockouts", "GET", undefined, rootHeaders), env as any);
+    const listed = await json(list);
+    expect(list.status).toBe(200);
+    expect(listed.lockouts).toEqual([
+      {
+        ip: "198.51.100.1",
+        failures: AUTH_FAILURE_LIMIT,
+        firstFailureAt: expect.any(String),
+        lockedUntil: expect.any(String),
+      },
+      { ip: "198.51.100.2", failures: 1, firstFailureAt: expect.any(String), lockedUntil: null },
+    ]);
+
+    const clearOne = await worker.fetch(
+      req("/admin/lockouts/198.51.100.1", "DELETE", undefined, rootHeaders),
+      env as any,
     );
-    const body = await json(res);
-    expect(res.status).toBe(400);
-    expect(body).toEqual({ error: "Invalid body: history must be an array" });
+    expect(await json(clearOne)).toEqual({ success: true, cleared: ["198.51.100.1"] });
+
+    const unlocked = await worker.fetch(
+      req("/admin/tasks", "GET", undefined, { ...rootHeaders, "CF-Connecting-IP": "198.51.100.1" }),
+      env as any,
+    );
+    expect(unlocked.status).toBe(200);
+
+    const missing = await worker.fetch(
+      req("/admin/lockouts/198.51.100.1", "DELETE", undefined, rootHeaders),
+      env as any,
+    );
+    expect(missing.status).toBe(404);
+    expect(await json(missing)).toEqual(apiError("lockout_not_found"));
+
+    const clearAll = await worker.fetch(req("/admin/lockouts", "DELETE", undefined, rootHeaders), env as any);
+    expect(await json(clearAll)).toEqual({ success: true, cleared: ["198.51.100.2"] });
   });
+});
 
-  it("returns 200 for a valid heartbeat payload", async () => {
-    const res = await worker.fetch(
-      req("/heartbeat", "POST", { history: [{ type: "heartbeat", desc: "ping" }] }, authHeaders),
-      createEnv(),
+describe("Audit log", () => {
+  const rootHeaders = { Authorization: "Bearer test-secret" };
+
+  async function audit(env: ReturnType<typeof createEnv>, query = "") {
+    const res = await worker.fetch(req(`/admin/audit${query}`, "GET", undefined, rootHeaders), env as any);
+    return { res, body: res.headers.get("Content-Type") === "application/json" ? await json(res) : await res.text() };
+  }
+
+  it("records successful admin actions with the acting token", async () => {
+    const env = createEnv();
+    const created = await json(await worker.fetch(req("/admin/tasks", "POST", { title: "ship" }, rootHeaders), env as any));
+    await worker.fetch(
+      req("/admin/tasks", "POST", { title: "" }, rootHeaders),
+      env as any,
     );
-    const body = await json(res);
+
+    const { res, body } = await audit(env);
     expect(res.status).toBe(200);
-    expect(body).toEqual(expect.objectContaining({ success: true, status: "operational" }));
+    expect(res.headers.get("Cache-Control")).toBe("no-store");
+    expect(body).toEqual({
+      events: [{
+        timestamp: expect.any(String),
+        action: "tasks.create",
+        actor: "ADMIN_KEY",
+        actorId: "legacy:admin-key",
+        target: created.id,
+        ip: "unknown",
+        method: "POST",
+        path: "/admin/tasks",
+        status: 201,
+        requestId: expect.any(String),
+      }],
+      nextCursor: null,
+    });
+  });
+
+  it("includes auth failures, including records written before the audit log existed", async () => {
+    const env = createEnv({
+      "auth_fail:1700000000000:42": JSON.stringify({ path: "/set-presence", ip: "10.0.0.1", timestamp: 1700000000000 }),
+    });
+    await worker.fetch(req("/metrics", "GET", undefined, { "X-Admin-Token": "nope", "CF-Connecting-IP": "10.0.0.2" }), env as any);
+
+    const { body } = await audit(env, "?action=auth.failure");
+    expect(body.events).toEqual([
+      expect.objectContaining({ action: "auth.failure", actor: "anonymous", ip: "10.0.0.2", path: "/metrics", status: 401 }),
+      expect.objectContaining({
+        action: "auth.failure",
+        ip: "10.0.0.1",
+        path: "/set-presence",
+        timestamp: new Date(1700000000000).toISOString(),
+      }),
+    ]);
+  });
+
+  it("filters by actor and since, and paginates with a cursor", async () => {
+    const env = createEnv();
+    const minted = await json(await worker.fetch(
+      req("/admin/tokens", "POST", { name: "night-bot", scopes: ["history:write"] }, rootHeaders),
+      env as any,
+    ));
+    for (const desc of ["one", "two", "three"]) {
+      await worker.fetch(
+        req("/admin/activity", "POST", { desc, type: "SYNC" }, { Authorization: `Bearer ${minted.token}` }),
+        env as any,
+      );
+    }
+
+    const first = await audit(env, "?actor=night-bot&limit=2");
+    expect(first.body.events).toHaveLength(2);
+    expect(first.body.events.every((event: { actor: string }) => event.actor === "night-bot")).toBe(true);
+    expect(first.body.nextCursor).toEqual(expect.any(String));
+
+    const second = await audit(env, `?actor=${minted.record.id}&limit=2&cursor=${first.body.nextCursor}`);
+    expect(second.body.events).toHaveLength(1);
+    expect(second.body.nextCursor).toBeNull();
+
+    const future = await audit(env, `?since=${encodeURIComponent(new Date(Date.now() + 60_000).toISOString())}`);
+    expect(future.body.events).toEqual([]);
+  });
+
+  it("exports CSV and NDJSON", async () => {
+    const env = createEnv();
+    await worker.fetch(req("/admin/refresh", "POST", undefined, rootHeaders), env as any);
+
+    const csv = await audit(env, "?format=csv");
+    expect(csv.res.headers.get("Content-Type")).toBe("text/csv; charset=utf-8");
+    const [header, row] = (csv.body as string).trim().split("\r\n");
+    expect(header).toBe("timestamp,action,actor,actorId,target,ip,method,path,status,requestId");
+    expect(row).toContain(",cache.refresh,ADMIN_KEY,legacy:admin-key,,unknown,POST,/admin/refresh,200,");
+
+    const ndjson = await audit(env, "?format=ndjson");
+    expect(ndjson.res.headers.get("Content-Type")).toBe("application/x-ndjson");
+    expect(JSON.parse((ndjson.body as string).trim())).toEqual(expect.objectContaining({ action: "cache.refresh" }));
+  });
+
+  it("rejects malformed query parameters", async () => {
+    for (const query of ["?limit=0", "?since=yesterday", "?cursor=%%%", "?format=xml"]) {
+      const { res, body } = await audit(createEnv(), query);
+      expect(res.status, query).toBe(400);
+      expect(body).toEqual(apiError("invalid_query"));
+    }
   });
 });
 
-describe("POST /admin/activity", () => {
-  const authHeaders = { Authorization: "Bearer test-secret" };
+describe("Signed requests", () => {
+  const secret = "agent-signing-secret";
+
+  async function signedHeartbeat(body: unknown, overrides: { timestamp?: string; signature?: string } = {}) {
+    const raw = JSON.stringify(body);
+    const timestamp = overrides.timestamp ?? String(Math.floor(Date.now() / 1000));
+    const signature = overrides.signature ?? await signRequest(secret, "POST", "/heartbeat", timestamp, raw);
+    return new Request("https://api.test/heartbeat", {
+      method: "POST",
+      body: raw,
+      headers: { "Content-Type": "application/json", "X-Clanka-Timestamp": timestamp, "X-Clanka-Signature": signature },
+    });
+  }
 
-  it("returns 401 when auth is missing", async () => {
-    const res = await worker.fetch(req("/admin/activity", "POST", { desc: "ok", type: "SYNC" }), createEnv());
+  it("accepts a correctly signed write without a bearer token", async () => {
+    const env = createEnv({}, { SIGNING_SECRET: secret });
+    const res = await worker.fetch(await signedHeartbeat({}), env as any);
+    expect(res.status).toBe(200);
+  });
+
+  it("rejects a replay of the same signed request", async () => {
+    const env = createEnv({}, { SIGNING_SECRET: secret });
+    const request = await signedHeartbeat({});
+    const replay = request.clone();
+
+    expect((await worker.fetch(request, env as any)).status).toBe(200);
+    const res = await worker.fetch(replay, env as any);
     expect(res.status).toBe(401);
+    expect(await json(res)).toEqual(apiError("request_replayed"));
+  });
+
+  it("rejects tampered bodies, stale timestamps, and disabled signing", async () => {
+    const env = createEnv({}, { SIGNING_SECRET: secret });
+    const signed = await signedHeartbeat({});
+    const tampered = new Request(signed.url, { method: "POST", headers: signed.headers, body: "{\"history\":[]}" });
+    const stale = await signedHeartbeat({}, { timestamp: String(Math.floor(Date.now() / 1000) - 3600) });
+
+    for (const [request, reason, target] of [
+      [tampered, "bad_signature", env],
+      [stale, "stale_timestamp", env],
+      [await signedHeartbeat({}), "signing_disabled", createEnv()],
+    ] as const) {
+      const res = await worker.fetch(request, target as any);
+      expect(res.status, reason).toBe(401);
+      expect(await json(res)).toEqual(apiError("invalid_signature", { details: { reason } }));
+    }
   });
 
-  it("returns 401 when token is invalid", async () => {
+  it("limits signed requests to presence and history scopes", async () => {
+    const env = createEnv({}, { SIGNING_SECRET: secret });
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const signature = await signRequest(secret, "GET", "/admin/tasks", timestamp, "");
     const res = await worker.fetch(
-      req("/admin/activity", "POST", { desc: "ok", type: "SYNC" }, { Authorization: "Bearer wrong-token" }),
-      createEnv(),
+      req("/admin/tasks", "GET", undefined, { "X-Clanka-Timestamp": timestamp, "X-Clanka-Signature": signature }),
+      env as any,
     );
-    expect(res.status).toBe(401);
+    expect(res.status).toBe(403);
   });
+});
 
-  it("returns 400 for malformed payload", async () => {
-    const res = await worker.fetch(req("/admin/activity", "POST", { desc: "missing type" }, authHeaders), createEnv());
-    const body = await json(res);
-    expect(res.status).toBe(400);
-    expect(body).toEqual({ error: "Invalid body" });
+describe("API tokens", () => {
+  const rootHeaders = { Authorization: "Bearer test-secret" };
+
+  async function mint(env: ReturnType<typeof createEnv>, scopes: string[], name = "ci-bot") {
+    const res = await worker.fetch(req("/admin/tokens", "POST", { name, scopes }, rootHeaders), env as any);
+    expect(res.status).toBe(201);
+    return json(res);
+  }
+
+  it("mints a token whose hash, not plaintext, is stored in KV", async () => {
+    const env = createEnv();
+    const body = await mint(env, ["presence:write"]);
+
+    expect(body.token).toMatch(/^clk_[A-Za-z0-9_-]{43}$/);
+    expect(body.record).toEqual({
+      id: expect.any(String),
+      name: "ci-bot",
+      scopes: ["presence:write"],
+      createdAt: expect.any(String),
+    });
+    const stored = env.CLANKA_STATE.__store["auth:tokens:v1"];
+    expect(stored).not.toContain(body.token);
+    expect(JSON.parse(stored)[0].hash).toMatch(/^[0-9a-f]{64}$/);
   });
 
-  it("returns 200 for a valid payload", async () => {
-    const res = await worker.fetch(
-      req("/admin/activity", "POST", { desc: "deployed", type: "SYNC" }, authHeaders),
-      createEnv(),
-    );
-    const body = await json(res);
+  it("authorizes routes covered by the token's scopes", async () => {
+    const env = createEnv();
+    const { token } = await mint(env, ["presence:write"]);
+
+    const res = await worker.fetch(req("/heartbeat", "POST", {}, { Authorization: `Bearer ${token}` }), env as any);
+    expect(res.status).toBe(200);
+  });
+
+  it("accepts minted tokens through the legacy X-Admin-Token header", async () => {
+    const env = createEnv();
+    const { token } = await mint(env, ["metrics:read"]);
+
+    const res = await worker.fetch(req("/metrics", "GET", undefined, { "X-Admin-Token": token }), env as any);
+    expect(res.status).toBe(200);
+  });
+
+  it("returns 403 when the token lacks the route's scope", async () => {
+    const env = createEnv();
+    const { token } = await mint(env, ["metrics:read"]);
+
+    const res = await worker.fetch(
+      req("/admin/activity", "POST", { desc: "ok", type: "SYNC" }, { Authorization: `Bearer ${token}` }),
+      env as any,
+    );
+    expect(res.status).toBe(403);
+    expect(await json(res)).toEqual(apiError("forbidden", { details: { required: "history:write" } }));
+  });
+
+  it("limits ADMIN_TOKEN to metrics and cache administration", async () => {
+    const env = createEnv({}, { ADMIN_TOKEN: "ops-secret" });
+    const headers = { Authorization: "Bearer ops-secret" };
+
+    const metrics = await worker.fetch(req("/metrics", "GET", undefined, headers), env as any);
+    const tokens = await worker.fetch(req("/admin/tokens", "GET", undefined, headers), env as any);
+
+    expect(metrics.status).toBe(200);
+    expect(tokens.status).toBe(403);
+  });
+
+  it("lists tokens without hashes", async () => {
+    const env = createEnv();
+    const { record } = await mint(env, ["tasks:read", "tasks:write"]);
+
+    const res = await worker.fetch(req("/admin/tokens", "GET", undefined, rootHeaders), env as any);
+    const body = await json(res);
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get("Cache-Control")).toBe("no-store");
+    expect(body).toEqual({ tokens: [record] });
+  });
+
+  it("revokes a token so it no longer authenticates", async () => {
+    const env = createEnv();
+    const { token, record } = await mint(env, ["presence:write"]);
+
+    const revoked = await worker.fetch(
+      req(`/admin/tokens/${record.id}`, "DELETE", undefined, rootHeaders),
+      env as any,
+    );
+    expect(revoked.status).toBe(200);
+    expect(await json(revoked)).toEqual({ success: true, id: record.id });
+
+    const res = await worker.fetch(req("/heartbeat", "POST", {}, { Authorization: `Bearer ${token}` }), env as any);
+    expect(res.status).toBe(401);
+  });
+
+  it("returns 404 when revoking an unknown token", async () => {
+    const res = await worker.fetch(req("/admin/tokens/missing", "DELETE", undefined, rootHeaders), createEnv());
+    expect(res.status).toBe(404);
+    expect(await json(res)).toEqual(apiError("token_not_found"));
+  });
+
+  it("rejects unknown scopes when minting", async () => {
+    const res = await worker.fetch(
+      req("/admin/tokens", "POST", { name: "bad", scopes: ["everything"] }, rootHeaders),
+      createEnv(),
+    );
+    expect(res.status).toBe(400);
+    expect(await json(res)).toEqual(apiError("invalid_body", {
+      details: [expect.objectContaining({ path: "$.scopes[0]" })],
+    }));
+  });
+});
+
+describe("POST /set-presence", () => {
+  const authHeaders = { Authorization: "Bearer test-secret" };
+  const missingField = (field: string) => ({ path: `$.${field}`, expected: "object", received: "undefined" });
+
+  it("returns 400 for empty payload", async () => {
+    const res = await worker.fetch(req("/set-presence", "POST", {}, authHeaders), createEnv());
+    const body = await json(res);
+    expect(res.status).toBe(400);
+    expect(body).toEqual(apiError("invalid_body", {
+      details: [missingField("presence"), missingField("team"), missingField("activity")],
+    }));
+  });
+
+  it("returns 400 for null payload", async () => {
+    const res = await worker.fetch(req("/set-presence", "POST", null, authHeaders), createEnv());
+    const body = await json(res);
+    expect(res.status).toBe(400);
+    expect(body).toEqual(apiError("invalid_body", {
+      details: [{ path: "$", expected: "object", received: "null" }],
+    }));
+  });
+
+  for (const field of ["presence", "team", "activity"] as const) {
+    it(`returns 400 when ${field} is missing`, async () => {
+      const payload = { ...VALID_SET_PRESENCE_PAYLOAD };
+      delete payload[field];
+      const res = await worker.fetch(req("/set-presence", "POST", payload, authHeaders), createEnv());
+      const body = await json(res);
+      expect(res.status).toBe(400);
+      expect(body).toEqual(apiError("invalid_body", { details: [missingField(field)] }));
+    });
+  }
+
+  it("returns 400 with field paths for nested type errors", async () => {
+    const res = await worker.fetch(
+      req("/set-presence", "POST", {
+        ...VALID_SET_PRESENCE_PAYLOAD,
+        presence: { state: 42 },
+        ttl: "soon",
+      }, authHeaders),
+      createEnv(),
+    );
+    const body = await json(res);
+    expect(res.status).toBe(400);
+    expect(body.error.details).toEqual([
+      { path: "$.presence.state", expected: "string", received: "integer" },
+      { path: "$.ttl", expected: "number", received: "string" },
+    ]);
+  });
+
+  it("returns 400 for malformed JSON", async () => {
+    const res = await worker.fetch(
+      new Request("https://api.test/set-presence", {
+        method: "POST",
+        headers: { ...authHeaders, "Content-Type": "application/json" },
+        body: "{not-json",
+      }),
+      createEnv(),
+    );
+    const body = await json(res);
+    expect(res.status).toBe(400);
+    expect(body).toEqual(apiError("invalid_body", {
+      details: [{ path: "$", expected: "valid JSON", received: "malformed JSON" }],
+    }));
+  });
+
+  it("returns 200 for valid payload", async () => {
+    const res = await worker.fetch(req("/set-presence", "POST", VALID_SET_PRESENCE_PAYLOAD, authHeaders), createEnv());
+    const body = await json(res);
+    expect(res.status).toBe(200);
+    expect(body).toEqual({ success: true });
+  });
+});
+
+describe("POST /heartbeat", () => {
+  const authHeaders = { Authorization: "Bearer test-secret" };
+
+  it("returns 401 when auth is missing", async () => {
+    const res = await worker.fetch(req("/heartbeat", "POST", {}), createEnv());
+    expect(res.status).toBe(401);
+  });
+
+  it("returns 401 when token is invalid", async () => {
+    const res = await worker.fetch(
+      req("/heartbeat", "POST", {}, { Authorization: "Bearer wrong-token" }),
+      createEnv(),
+    );
+    expect(res.status).toBe(401);
+  });
+
+  it("returns 400 for non-array history payload", async () => {
+    const res = await worker.fetch(
+      req("/heartbeat", "POST", { history: { desc: "bad" } }, authHeaders),
+      createEnv(),
+    );
+    const body = await json(res);
+    expect(res.status).toBe(400);
+    expect(body).toEqual(apiError("invalid_body", {
+      details: [{ path: "$.history", expected: "array", received: "object" }],
+    }));
+  });
+
+  it("returns 400 for non-object history entries", async () => {
+    const res = await worker.fetch(
+      req("/heartbeat", "POST", { history: [{ desc: "ok" }, "bad"] }, authHeaders),
+      createEnv(),
+    );
+    const body = await json(res);
+    expect(res.status).toBe(400);
+    expect(body.error.details).toEqual([{ path: "$.history[1]", expected: "object", received: "string" }]);
+  });
+
+  it("accepts an empty body as a heartbeat-only ping", async () => {
+    const res = await worker.fetch(
+      new Request("https://api.test/heartbeat", { method: "POST", headers: authHeaders }),
+      createEnv(),
+    );
+    expect(res.status).toBe(200);
+  });
+
+  it("returns 200 for a valid heartbeat payload", async () => {
+    const res = await worker.fetch(
+      req("/heartbeat", "POST", { history: [{ type: "heartbeat", desc: "ping" }] }, authHeaders),
+      createEnv(),
+    );
+    const body = await json(res);
+    expect(res.status).toBe(200);
+    expect(body).toEqual(expect.objectContaining({ success: true, status: "operational" }));
+  });
+});
+
+describe("POST /admin/activity", () => {
+  const authHeaders = { Authorization: "Bearer test-secret" };
+
+  it("returns 401 when auth is missing", async () => {
+    const res = await worker.fetch(req("/admin/activity", "POST", { desc: "ok", type: "SYNC" }), createEnv());
+    expect(res.status).toBe(401);
+  });
+
+  it("returns 401 when token is invalid", async () => {
+    const res = await worker.fetch(
+      req("/admin/activity", "POST", { desc: "ok", type: "SYNC" }, { Authorization: "Bearer wrong-token" }),
+      createEnv(),
+    );
+    expect(res.status).toBe(401);
+  });
+
+  it("returns 400 for malformed payload", async () => {
+    const res = await worker.fetch(req("/admin/activity", "POST", { desc: "missing type" }, authHeaders), createEnv());
+    const body = await json(res);
+    expect(res.status).toBe(400);
+    expect(body).toEqual(apiError("invalid_body", {
+      details: [{ path: "$.type", expected: "string", received: "undefined" }],
+    }));
+  });
+
+  it("returns 400 instead of 500 for invalid JSON", async () => {
+    const res = await worker.fetch(
+      new Request("https://api.test/admin/activity", {
+        method: "POST",
+        headers: { ...authHeaders, "Content-Type": "application/json" },
+        body: "not json",
+      }),
+      createEnv(),
+    );
+    expect(res.status).toBe(400);
+  });
+
+  it("rejects blank desc and type", async () => {
+    const res = await worker.fetch(req("/admin/activity", "POST", { desc: "  ", type: "SYNC" }, authHeaders), createEnv());
+    const body = await json(res);
+    expect(res.status).toBe(400);
+    expect(body.error.details).toEqual([{ path: "$.desc", expected: "string matching \\S", received: "\"  \"" }]);
+  });
+
+  it("returns 200 for a valid payload", async () => {
+    const res = await worker.fetch(
+      req("/admin/activity", "POST", { desc: "deployed", type: "SYNC" }, authHeaders),
+      createEnv(),
+    );
+    const body = await json(res);
     expect(res.status).toBe(200);
     expect(body).toEqual(
       expect.objectContaining({
@@ -2871,3 +4137,807 @@ describe("POST /admin/activity", () => {
     );
   });
 });
+
+describe("GitHub webhooks", () => {
+  const secret = "webhook-secret";
+  let deliveryCount = 0;
+
+  async function delivery(event: string, payload: unknown, options: { id?: string; signature?: string } = {}) {
+    const raw = JSON.stringify(payload);
+    deliveryCount += 1;
+    return new Request("https://api.test/webhooks/github", {
+      method: "POST",
+      body: raw,
+      headers: {
+        "Content-Type": "application/json",
+        "X-GitHub-Event": event,
+        "X-GitHub-Delivery": options.id ?? `delivery-${deliveryCount}`,
+        "X-Hub-Signature-256": options.signature ?? `sha256=${await hmacSha256Hex(secret, raw)}`,
+      },
+    });
+  }
+
+  const WORKFLOW_RUN = {
+    action: "completed",
+    repository: { full_name: "clankamode/ci-triage" },
+    workflow_run: { name: "CI", status: "completed", conclusion: "failure", updated_at: "2026-03-01T00:00:00Z" },
+  };
+
+  it("returns 503 when no webhook secret is configured", async () => {
+    const res = await worker.fetch(await delivery("ping", {}), createEnv());
+    expect(res.status).toBe(503);
+    expect(await json(res)).toEqual(apiError("webhooks_unconfigured"));
+  });
+
+  it("rejects missing and invalid signatures and audits them", async () => {
+    const env = createEnv({}, { GITHUB_WEBHOOK_SECRET: secret });
+    for (const [signature, reason] of [["", "missing_signature"], ["sha256=abc", "malformed_signature"], [`sha256=${"0".repeat(64)}`, "bad_signature"]]) {
+      const request = await delivery("push", {}, { signature });
+      if (!signature) request.headers.delete("X-Hub-Signature-256");
+      const res = await worker.fetch(request, env as any);
+      expect(res.status).toBe(401);
+      expect(await json(res)).toEqual(apiError("invalid_signature", { details: { reason } }));
+    }
+    expect(Object.keys(env.CLANKA_STATE.__store).filter((key) => key.startsWith("auth_fail:"))).toHaveLength(3);
+  });
+
+  it("stores workflow runs as the latest CI run and extends a warm trend cache", async () => {
+    const env = createEnv({
+      "ci:trend:clankamode/ci-triage:v1": JSON.stringify(["success", "success"]),
+      "fleet:health:v1": JSON.stringify({ status: "GREEN", repos: [], checkedAt: new Date().toISOString() }),
+    }, { GITHUB_WEBHOOK_SECRET: secret });
+
+    const res = await worker.fetch(await delivery("workflow_run", WORKFLOW_RUN), env as any);
+    expect(res.status).toBe(200);
+    expect(await json(res)).toEqual(expect.objectContaining({ event: "workflow_run", outcome: "processed" }));
+
+    const store = env.CLANKA_STATE.__store;
+    expect(JSON.parse(store["ci:clankamode/ci-triage:v1"])).toEqual({
+      conclusion: "failure",
+      status: "completed",
+      name: "CI",
+      updatedAt: "2026-03-01T00:00:00Z",
+    });
+    expect(JSON.parse(store["ci:trend:clankamode/ci-triage:v1"])).toEqual(["failure", "success", "success"]);
+    expect(store["fleet:health:v1"]).toBeUndefined();
+  });
+
+  it("prepends pushes to warm event and changelog caches", async () => {
+    const env = createEnv({
+      "github:events:v1": JSON.stringify([{ type: "PUSH", repo: "old", message: "older", timestamp: "2026-01-01T00:00:00.000Z" }]),
+      "changelog:clankamode/meta-runner:v1": JSON.stringify([{ sha: "a1", message: "first", author: "clanka", date: "2026-01-01T00:00:00Z" }]),
+    }, { GITHUB_WEBHOOK_SECRET: secret });
+
+    const res = await worker.fetch(await delivery("push", {
+      ref: "refs/heads/main",
+      repository: { full_name: "clankamode/meta-runner", default_branch: "main" },
+      head_commit: { message: "third\n\nbody" },
+      commits: [
+        { id: "b2", message: "second", timestamp: "2026-03-01T00:00:00Z", author: { name: "C", username: "clanka" } },
+        { id: "c3", message: "third\n\nbody", timestamp: "2026-03-01T00:01:00Z", author: { name: "C" } },
+      ],
+    }), env as any);
+    expect(await json(res)).toEqual(expect.objectContaining({ outcome: "processed" }));
+
+    const events = JSON.parse(env.CLANKA_STATE.__store["github:events:v1"]);
+    expect(events.map((event: any) => [event.type, event.repo, event.message])).toEqual([
+      ["PUSH", "meta-runner", "third"],
+      ["PUSH", "old", "older"],
+    ]);
+    const commits = JSON.parse(env.CLANKA_STATE.__store["changelog:clankamode/meta-runner:v1"]);
+    expect(commits.map((commit: any) => [commit.sha, commit.author])).toEqual([["c3", "C"], ["b2", "clanka"], ["a1", "clanka"]]);
+  });
+
+  it("acknowledges unhandled events and cold caches without writing", async () => {
+    const env = createEnv({}, { GITHUB_WEBHOOK_SECRET: secret });
+    for (const [event, payload] of [
+      ["star", { action: "created", repository: { full_name: "clankamode/clanka-api" } }],
+      ["issues", { action: "opened", issue: { number: 1, title: "x" }, repository: { full_name: "clankamode/clanka-api" } }],
+    ] as const) {
+      const res = await worker.fetch(await delivery(event, payload), env as any);
+      expect(await json(res)).toEqual(expect.objectContaining({ event, outcome: "ignored" }));
+    }
+    expect(env.CLANKA_STATE.__store["github:events:v1"]).toBeUndefined();
+  });
+
+  it("skips a repeated delivery id and lists deliveries for admins", async () => {
+    const env = createEnv({}, { GITHUB_WEBHOOK_SECRET: secret });
+    const first = await worker.fetch(await delivery("workflow_run", WORKFLOW_RUN, { id: "d-1" }), env as any);
+    expect(await json(first)).toEqual({ delivery: "d-1", event: "workflow_run", outcome: "processed" });
+    const repeat = await worker.fetch(await delivery("workflow_run", WORKFLOW_RUN, { id: "d-1" }), env as any);
+    expect(await json(repeat)).toEqual({ delivery: "d-1", event: "workflow_run", outcome: "duplicate" });
+
+    const denied = await worker.fetch(req("/admin/webhooks/deliveries"), env as any);
+    expect(denied.status).toBe(401);
+    const res = await worker.fetch(
+      req("/admin/webhooks/deliveries?event=workflow_run", "GET", undefined, { Authorization: "Bearer test-secret" }),
+      env as any,
+    );
+    expect(res.status).toBe(200);
+    expect(await json(res)).toEqual({
+      deliveries: [{
+        id: "d-1",
+        event: "workflow_run",
+        action: "completed",
+        repo: "clankamode/ci-triage",
+        outcome: "processed",
+        receivedAt: expect.any(String),
+      }],
+      count: 1,
+    });
+  });
+
+  it("rejects deliveries without GitHub headers or a JSON payload", async () => {
+    const env = createEnv({}, { GITHUB_WEBHOOK_SECRET: secret });
+    const missing = await delivery("push", {});
+    missing.headers.delete("X-GitHub-Delivery");
+    expect(await json(await worker.fetch(missing, env as any))).toEqual(apiError("invalid_webhook"));
+
+    const form = "payload=%7B%7D";
+    const res = await worker.fetch(new Request("https://api.test/webhooks/github", {
+      method: "POST",
+      body: form,
+      headers: {
+        "X-GitHub-Event": "push",
+        "X-GitHub-Delivery": "form-1",
+        "X-Hub-Signature-256": `sha256=${await hmacSha256Hex(secret, form)}`,
+      },
+    }), env as any);
+    expect(res.status).toBe(400);
+    expect(await json(res)).toEqual(apiError("invalid_webhook"));
+  });
+});
+
+describe("GET /stream", () => {
+  const authHeaders = { Authorization: "Bearer test-secret" };
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("returns 503 stream_unconfigured without the STREAM_HUB binding", async () => {
+    const res = await worker.fetch(req("/stream"), createEnv());
+    expect(res.status).toBe(503);
+    expect(await json(res)).toEqual(apiError("stream_unconfigured"));
+  });
+
+  it("returns 503 upstream_unavailable instead of relaying a hub error as the stream", async () => {
+    const namespace = {
+      idFromName: (name: string) => name,
+      get: () => ({ fetch: async () => new Response("Internal Error", { status: 500 }) }),
+    } as unknown as DurableObjectNamespace;
+    const res = await worker.fetch(req("/stream"), { ...createEnv(), STREAM_HUB: namespace });
+    expect(res.status).toBe(503);
+    expect(await json(res)).toEqual(apiError("upstream_unavailable"));
+  });
+
+  it("publishes presence, history, and heartbeat writes to connected clients", async () => {
+    vi.useFakeTimers({ toFake: ["setInterval", "clearInterval"] });
+    const { namespace, published } = createStreamHub();
+    const env = { ...createEnv(), STREAM_HUB: namespace };
+
+    const res = await worker.fetch(req("/stream"), env);
+    expect(res.status).toBe(200);
+    expect(res.headers.get("Content-Type")).toBe("text/event-stream; charset=utf-8");
+    expect(res.headers.get("Cache-Control")).toBe("no-store");
+    const reader = (res.body as ReadableStream<Uint8Array>).getReader();
+    const decoder = new TextDecoder();
+    expect(decoder.decode((await reader.read()).value)).toBe("retry: 3000\n\n");
+
+    await worker.fetch(req("/set-presence", "POST", VALID_SET_PRESENCE_PAYLOAD, authHeaders), env);
+    await worker.fetch(req("/heartbeat", "POST", { history: [{ desc: "newer" }, { desc: "older" }] }, authHeaders), env);
+    await worker.fetch(req("/admin/activity", "POST", { desc: "deployed", type: "SHIP" }, authHeaders), env);
+    await vi.waitFor(() => expect(published()).toHaveLength(6));
+
+    expect(published().map((event) => [event.id, event.type])).toEqual([
+      [1, "presence"],
+      [2, "history"],
+      [3, "heartbeat"],
+      [4, "history"],
+      [5, "history"],
+      [6, "history"],
+    ]);
+    expect(published()[0].data).toMatchObject({ state: "active", message: "monitoring workspace" });
+    expect(published().slice(3).map((event) => event.data.desc)).toEqual(["older", "newer", "deployed"]);
+    expect(decoder.decode((await reader.read()).value)).toMatch(/^id: 1\nevent: presence\ndata: \{"state":"active"/);
+    await reader.cancel();
+  });
+
+  it("forwards Last-Event-ID so reconnecting clients get what they missed", async () => {
+    vi.useFakeTimers({ toFake: ["setInterval", "clearInterval"] });
+    const { namespace, published } = createStreamHub();
+    const env = { ...createEnv(), STREAM_HUB: namespace };
+    await worker.fetch(req("/admin/activity", "POST", { desc: "one", type: "SYNC" }, authHeaders), env);
+    await worker.fetch(req("/admin/activity", "POST", { desc: "two", type: "SYNC" }, authHeaders), env);
+    await vi.waitFor(() => expect(published()).toHaveLength(2));
+
+    const res = await worker.fetch(req("/stream", "GET", undefined, { "Last-Event-ID": "1" }), env);
+    const reader = (res.body as ReadableStream<Uint8Array>).getReader();
+    const text = new TextDecoder().decode((await reader.read()).value);
+
+    expect(text).toContain("id: 2\nevent: history\n");
+    expect(text).not.toContain("id: 1\n");
+    await reader.cancel();
+  });
+});
+
+describe("Agent sockets", () => {
+  const authHeaders = { Authorization: "Bearer test-secret" };
+
+  function createAgentHub() {
+    const commands: unknown[] = [];
+    const namespace = {
+      idFromName: (name: string) => name,
+      get: () => ({
+        fetch: async (input: string, init?: RequestInit) => {
+          commands.push({ url: input, body: JSON.parse(String(init?.body)) });
+          return Response.json({ delivered: ["builder"] });
+        },
+      }),
+    } as unknown as DurableObjectNamespace;
+    return { namespace, commands };
+  }
+
+  it("returns 426 without an upgrade and 503 agents_unconfigured without the AGENT_HUB binding", async () => {
+    const plain = await worker.fetch(req("/agents/connect", "GET", undefined, authHeaders), createEnv());
+    expect(plain.status).toBe(426);
+    expect(await json(plain)).toEqual(apiError("upgrade_required"));
+
+    const upgrade = await worker.fetch(
+      req("/agents/connect", "GET", undefined, { ...authHeaders, Upgrade: "websocket" }),
+      createEnv(),
+    );
+    expect(upgrade.status).toBe(503);
+    expect(await json(upgrade)).toEqual(apiError("agents_unconfigured"));
+
+    const command = await worker.fetch(req("/admin/agents/commands", "POST", { command: "pause" }, authHeaders), createEnv());
+    expect(command.status).toBe(503);
+  });
+
+  it("forwards commands to the hub with a fresh id and audits them", async () => {
+    const { namespace, commands } = createAgentHub();
+    const env = { ...createEnv(), AGENT_HUB: namespace };
+
+    const invalid = await worker.fetch(req("/admin/agents/commands", "POST", { command: "reboot" }, authHeaders), env as any);
+    expect(invalid.status).toBe(400);
+    expect(commands).toEqual([]);
+
+    const res = await worker.fetch(
+      req("/admin/agents/commands", "POST", { command: "refresh_caches", agent: "builder" }, authHeaders),
+      env as any,
+    );
+    const body = await json(res);
+    expect(body).toEqual({ success: true, id: expect.any(String), command: "refresh_caches", delivered: ["builder"] });
+    expect(commands).toEqual([{
+      url: "https://agent-hub/command",
+      body: { id: body.id, command: "refresh_caches", agent: "builder" },
+    }]);
+
+    const audit = await json(await worker.fetch(req("/admin/audit?action=agents.command", "GET", undefined, authHeaders), env as any));
+    expect(audit.events).toEqual([expect.objectContaining({ action: "agents.command", target: "builder", status: 200 })]);
+  });
+});
+
+describe("Agents", () => {
+  const authHeaders = { Authorization: "Bearer test-secret" };
+
+  it("registers an agent from PUT /agents/:id/presence and serves it publicly", async () => {
+    const now = 1_750_000_000_000;
+    vi.spyOn(Date, "now").mockReturnValue(now);
+    const { namespace, published } = createStreamHub();
+    const env = { ...createEnv(), STREAM_HUB: namespace };
+
+    const put = await worker.fetch(req("/agents/builder/presence", "PUT", {
+      state: "focus",
+      message: "wiring agents",
+      task: "user-022",
+      offlineAfterSec: 900,
+    }, authHeaders), env);
+    expect(put.status).toBe(200);
+    const agent = {
+      id: "builder",
+      online: true,
+      state: "focus",
+      message: "wiring agents",
+      task: "user-022",
+      lastSeen: new Date(now).toISOString(),
+      offlineAfterSec: 900,
+      updatedAt: new Date(now).toISOString(),
+    };
+    expect(await json(put)).toEqual(agent);
+    expect(env.CLANKA_STATE.__store.last_seen).toBe(String(now));
+    await vi.waitFor(() => expect(published()).toHaveLength(1));
+    expect(published()[0]).toMatchObject({
+      type: "presence",
+      data: { agent: "builder", state: "focus", message: "wiring agents", task: "user-022", timestamp: now },
+    });
+
+    expect(await json(await worker.fetch(req("/agents/builder"), env))).toEqual(agent);
+    expect(await json(await worker.fetch(req("/agents"), env))).toEqual({ agents: [agent], count: 1, online: 1 });
+
+    vi.spyOn(Date, "now").mockReturnValue(now + 901_000);
+    expect(await json(await worker.fetch(req("/agents"), env))).toMatchObject({ count: 1, online: 0, agents: [{ online: false }] });
+  });
+
+  it("validates ids and bodies, and 404s agents that never reported in", async () => {
+    const env = createEnv();
+    const missing = await worker.fetch(req("/agents/ghost"), env);
+    expect(missing.status).toBe(404);
+    expect(await json(missing)).toEqual(apiError("agent_not_found"));
+
+    const reserved = await worker.fetch(req("/agents/connect/presence", "PUT", {}, authHeaders), env);
+    expect(reserved.status).toBe(400);
+    expect(await json(reserved)).toEqual(apiError("invalid_path"));
+
+    const tooEager = await worker.fetch(req("/agents/builder/presence", "PUT", { offlineAfterSec: 30 }, authHeaders), env);
+    expect(tooEager.status).toBe(400);
+
+    const anonymous = await worker.fetch(req("/agents/builder/presence", "PUT", {}), env);
+    expect(anonymous.status).toBe(401);
+  });
+
+  it("counts a heartbeat naming an agent toward that agent's liveness", async () => {
+    const now = 1_750_000_000_000;
+    vi.spyOn(Date, "now").mockReturnValue(now);
+    const env = createEnv({
+      "agent:builder:v1": JSON.stringify({ state: "away", lastSeen: now - 3_600_000, updatedAt: now - 3_600_000 }),
+    });
+
+    const res = await worker.fetch(req("/heartbeat", "POST", { agent: "builder" }, authHeaders), env);
+    expect(res.status).toBe(200);
+    expect(await json(await worker.fetch(req("/agents/builder"), env))).toMatchObject({
+      online: true,
+      state: "away",
+      lastSeen: new Date(now).toISOString(),
+      updatedAt: new Date(now - 3_600_000).toISOString(),
+    });
+    expect(await json(await worker.fetch(req("/pulse"), env))).toMatchObject({ status: "away", agents_active: 1 });
+
+    const invalid = await worker.fetch(req("/heartbeat", "POST", { agent: "connect" }, authHeaders), env);
+    expect(invalid.status).toBe(400);
+    expect(await json(invalid)).toEqual(apiError("invalid_body", { details: [expect.objectContaining({ path: "$.agent" })] }));
+  });
+});
+
+describe("Presence states", () => {
+  const authHeaders = { Authorization: "Bearer test-secret" };
+  const setPresence = (state: string) => req("/set-presence", "POST", {
+    ...VALID_SET_PRESENCE_PAYLOAD,
+    presence: { state },
+  }, authHeaders);
+
+  it("rejects unknown states and transitions the current state does not allow", async () => {
+    const now = 1_750_000_000_000;
+    vi.spyOn(Date, "now").mockReturnValue(now);
+    const env = createEnv();
+
+    const unknown = await worker.fetch(setPresence("busy"), env);
+    expect(unknown.status).toBe(400);
+    expect(await json(unknown)).toEqual(apiError("invalid_body", {
+      details: [expect.objectContaining({ path: "$.presence.state" })],
+    }));
+
+    expect((await worker.fetch(setPresence("maintenance"), env)).status).toBe(200);
+    const blocked = await worker.fetch(setPresence("focus"), env);
+    expect(blocked.status).toBe(409);
+    expect(await json(blocked)).toEqual(apiError("invalid_transition", {
+      message: "Presence cannot change from maintenance to focus",
+      details: { from: "maintenance", to: "focus", allowed: ["active", "offline"] },
+    }));
+    expect(env.CLANKA_STATE.__store.presence).toContain("maintenance");
+
+    expect((await worker.fetch(setPresence("active"), env)).status).toBe(200);
+    const agent = await worker.fetch(req("/agents/builder/presence", "PUT", { state: "maintenance" }, authHeaders), env);
+    expect(agent.status).toBe(200);
+    const agentBlocked = await worker.fetch(req("/agents/builder/presence", "PUT", { state: "idle" }, authHeaders), env);
+    expect(agentBlocked.status).toBe(409);
+    expect(await json(agentBlocked)).toEqual(apiError("invalid_transition", {
+      message: "Presence cannot change from maintenance to idle",
+      details: { from: "maintenance", to: "idle", allowed: ["active", "offline"] },
+    }));
+  });
+
+  it("decays /now and /pulse through idle and away as the heartbeat ages", async () => {
+    const now = 1_750_000_000_000;
+    const env = createEnv({
+      last_seen: String(now),
+      presence: JSON.stringify({ state: "focus", timestamp: now }),
+    });
+    const status = async (path: string, at: number) => {
+      vi.spyOn(Date, "now").mockReturnValue(at);
+      return (await json(await worker.fetch(req(path), env))).status;
+    };
+
+    expect(await status("/now", now + 5 * 60_000)).toBe("focus");
+    expect(await status("/now", now + 6 * 60_000)).toBe("idle");
+    expect(await status("/pulse", now + 8 * 60_000)).toBe("away");
+    expect(await status("/now", now + 11 * 60_000)).toBe("offline");
+
+    const stale = await worker.fetch(setPresence("focus"), env);
+    expect(stale.status).toBe(409);
+    expect(await json(stale)).toMatchObject({ error: { details: { from: "offline", to: "focus" } } });
+  });
+
+  it("serves seconds per state per UTC day from GET /presence/history", async () => {
+    const midnight = Date.parse("2026-03-01T00:00:00Z");
+    const env = createEnv();
+    vi.spyOn(Date, "now").mockReturnValue(midnight + 60 * 60_000);
+    expect((await worker.fetch(setPresence("focus"), env)).status).toBe(200);
+    vi.spyOn(Date, "now").mockReturnValue(midnight + 2 * 60 * 60_000);
+    expect((await worker.fetch(setPresence("maintenance"), env)).status).toBe(200);
+    vi.spyOn(Date, "now").mockReturnValue(midnight + 26 * 60 * 60_000);
+
+    const res = await worker.fetch(req("/presence/history?since=2026-03-01T12:00:00Z"), env);
+    expect(res.status).toBe(200);
+    expect(await json(res)).toEqual({
+      since: "2026-03-01T00:00:00.000Z",
+      until: "2026-03-02T02:00:00.000Z",
+      state: "maintenance",
+      days: [
+        {
+          date: "2026-03-01",
+          // No heartbeats in between, so focus decays on the way to the maintenance window.
+          seconds: { active: 0, idle: 150, focus: 300, away: 150, maintenance: 22 * 3600, offline: 3000 },
+        },
+        {
+          date: "2026-03-02",
+          seconds: { active: 0, idle: 0, focus: 0, away: 0, maintenance: 2 * 3600, offline: 0 },
+        },
+      ],
+    });
+
+    const defaulted = await json(await worker.fetch(req("/presence/history"), env));
+    expect(defaulted.days).toHaveLength(30);
+    expect(defaulted.since).toBe("2026-02-01T00:00:00.000Z");
+
+    for (const since of ["yesterday", "2024-01-01", String(midnight + 27 * 60 * 60_000)]) {
+      const invalid = await worker.fetch(req(`/presence/history?since=${since}`), env);
+      expect(invalid.status).toBe(400);
+      expect(await json(invalid)).toEqual(apiError("invalid_query"));
+    }
+  });
+});
+
+describe("Incidents", () => {
+  const authHeaders = { Authorization: "Bearer test-secret" };
+
+  async function openIncident(env: ReturnType<typeof createEnv>, body: Record<string, unknown>) {
+    const res = await worker.fetch(req("/admin/incidents", "POST", body, authHeaders), env as any);
+    expect(res.status).toBe(201);
+    return { res, incident: await json(res) };
+  }
+
+  it("requires incidents:write to open or update incidents", async () => {
+    const res = await worker.fetch(req("/admin/incidents", "POST", { title: "API down" }), createEnv());
+    expect(res.status).toBe(401);
+  });
+
+  it("opens incidents with defaults, posts updates, and resolves them", async () => {
+    const now = Date.parse("2026-03-01T12:00:00Z");
+    const clock = vi.spyOn(Date, "now").mockReturnValue(now);
+    const { namespace, published } = createStreamHub();
+    const env = { ...createEnv(), STREAM_HUB: namespace };
+    const { res, incident } = await openIncident(env, {
+      title: " Elevated error rates ",
+      repos: ["clankamode/clanka-api", "clankamode/clanka-api"],
+      components: ["api"],
+      message: "Looking into 5xx responses",
+    });
+
+    expect(incident).toEqual({
+      id: expect.stringMatching(/^[0-9a-f-]{36}$/),
+      title: "Elevated error rates",
+      severity: "major",
+      status: "investigating",
+      repos: ["clankamode/clanka-api"],
+      components: ["api"],
+      source: "manual",
+      updates: [{ status: "investigating", message: "Looking into 5xx responses", at: "2026-03-01T12:00:00.000Z" }],
+      createdAt: "2026-03-01T12:00:00.000Z",
+      updatedAt: "2026-03-01T12:00:00.000Z",
+      resolvedAt: null,
+    });
+    expect(res.headers.get("Location")).toBe(`/incidents/${incident.id}`);
+
+    clock.mockReturnValue(now + 60_000);
+    const identified = await worker.fetch(req(`/admin/incidents/${incident.id}`, "PATCH", {
+      status: "identified",
+      severity: "critical",
+      message: "Bad deploy",
+    }, authHeaders), env as any);
+    expect(await json(identified)).toMatchObject({ status: "identified", severity: "critical", resolvedAt: null });
+
+    clock.mockReturnValue(now + 120_000);
+    const resolved = await json(await worker.fetch(req(`/admin/incidents/${incident.id}`, "PATCH", {
+      status: "resolved",
+    }, authHeaders), env as any));
+    expect(resolved).toMatchObject({ status: "resolved", resolvedAt: "2026-03-01T12:02:00.000Z" });
+    expect(resolved.updates.map((update: any) => [update.status, update.message])).toEqual([
+      ["investigating", "Looking into 5xx responses"],
+      ["identified", "Bad deploy"],
+      ["resolved", null],
+    ]);
+    expect(published().map((event) => [event.type, event.data.status])).toEqual([
+      ["incident", "investigating"],
+      ["incident", "identified"],
+      ["incident", "resolved"],
+    ]);
+
+    const fetched = await worker.fetch(req(`/incidents/${incident.id}`), env as any);
+    expect(await json(fetched)).toEqual(resolved);
+  });
+
+  it("rejects unknown fields and reports unknown incidents", async () => {
+    const env = createEnv();
+    const invalid = await worker.fetch(req("/admin/incidents", "POST", {
+      title: "x",
+      severity: "sev1",
+      repos: ["clanka-api"],
+    }, authHeaders), env as any);
+    expect(invalid.status).toBe(400);
+    expect(await json(invalid)).toEqual(apiError("invalid_body", {
+      details: expect.arrayContaining([
+        expect.objectContaining({ path: "$.severity" }),
+        expect.objectContaining({ path: "$.repos[0]" }),
+      ]),
+    }));
+
+    const missing = await worker.fetch(req("/admin/incidents/nope", "PATCH", { status: "resolved" }, authHeaders), env as any);
+    expect(missing.status).toBe(404);
+    expect(await json(missing)).toEqual(apiError("incident_not_found"));
+    expect(await json(await worker.fetch(req("/incidents/nope"), env as any))).toEqual(apiError("incident_not_found"));
+  });
+
+  it("lists incidents newest first, filters by status, and shows active ones on /status and /now", async () => {
+    const now = Date.parse("2026-03-01T12:00:00Z");
+    const clock = vi.spyOn(Date, "now").mockReturnValue(now);
+    const env = createEnv();
+    const { incident: older } = await openIncident(env, { title: "Old outage" });
+    clock.mockReturnValue(now + 1000);
+    const { incident: newer } = await openIncident(env, { title: "Slow builds", severity: "minor" });
+    await worker.fetch(req(`/admin/incidents/${older.id}`, "PATCH", { status: "resolved" }, authHeaders), env as any);
+
+    const all = await json(await worker.fetch(req("/incidents"), env as any));
+    expect(all.incidents.map((incident: any) => incident.title)).toEqual(["Slow builds", "Old outage"]);
+    expect(all).toMatchObject({ count: 2, active: 1 });
+    const active = await json(await worker.fetch(req("/incidents?status=active"), env as any));
+    expect(active.incidents.map((incident: any) => incident.id)).toEqual([newer.id]);
+    const resolved = await json(await worker.fetch(req("/incidents?status=resolved"), env as any));
+    expect(resolved).toMatchObject({ count: 1, active: 1 });
+
+    const bad = await worker.fetch(req("/incidents?status=open"), env as any);
+    expect(bad.status).toBe(400);
+    expect(await json(bad)).toEqual(apiError("invalid_query"));
+
+    const { updates: _updates, ...summary } = newer;
+    expect((await json(await worker.fetch(req("/status"), env as any))).incidents).toEqual([summary]);
+    expect((await json(await worker.fetch(req("/now"), env as any))).incidents).toEqual([summary]);
+  });
+
+  function mockFailingCi() {
+    return vi.spyOn(globalThis, "fetch").mockImplementation(async (input: RequestInfo | URL) => {
+      const url = input instanceof Request ? input.url : String(input);
+      if (url.includes("/contents/registry.json")) {
+        const content = Buffer.from(JSON.stringify({ tools: MOCK_REGISTRY }), "utf8").toString("base64");
+        return new Response(JSON.stringify({ content }), { status: 200 });
+      }
+      if (url.includes("/actions/runs")) {
+        return new Response(JSON.stringify({
+          workflow_runs: [{ name: "CI", status: "completed", conclusion: "failure", updated_at: "2026-03-01T00:00:00Z" }],
+        }), { status: 200 });
+      }
+      return new Response("Not Found", { status: 404 });
+    });
+  }
+
+  it("opens one incident per critical repo whose CI turns RED", async () => {
+    mockFailingCi();
+    const { namespace, published } = createStreamHub();
+    const env = { ...createEnv({}, { GITHUB_TOKEN: "gh-token" }), STREAM_HUB: namespace };
+    const sweep = () => worker.scheduled({ cron: "*/5 * * * *", scheduledTime: Date.now() }, env as any);
+    await sweep();
+
+    // ci-triage is only `high` criticality.
+    const incidents = JSON.parse(env.CLANKA_STATE.__store["incidents:v1"]);
+    expect(incidents).toEqual([expect.objectContaining({
+      title: "CI failing on clankamode/clanka-api",
+      status: "investigating",
+      repos: ["clankamode/clanka-api"],
+      components: ["ci"],
+      source: "fleet-health",
+      updates: [expect.objectContaining({ message: "The latest workflow run concluded failure." })],
+    })]);
+    expect(published().map((event) => event.type)).toEqual(["fleet-health", "incident"]);
+
+    // The same failing run does not open another, nor reopen one resolved while CI is still red.
+    await worker.fetch(req(`/admin/incidents/${incidents[0].id}`, "PATCH", { status: "resolved" }, authHeaders), env as any);
+    vi.spyOn(Date, "now").mockReturnValue(Date.now() + 60 * 60_000);
+    await sweep();
+    expect(JSON.parse(env.CLANKA_STATE.__store["incidents:v1"])).toHaveLength(1);
+  });
+
+  it("opens the incident on the next sweep when a public read rebuilt fleet health first", async () => {
+    mockFailingCi();
+    const { namespace, published } = createStreamHub();
+    const env = { ...createEnv({}, { GITHUB_TOKEN: "gh-token" }), STREAM_HUB: namespace };
+    const res = await worker.fetch(req("/fleet/health"), env as any);
+    expect(res.status).toBe(200);
+    expect(env.CLANKA_STATE.__store["incidents:v1"]).toBeUndefined();
+
+    await worker.scheduled({ cron: "*/5 * * * *", scheduledTime: Date.now() }, env as any);
+    expect(JSON.parse(env.CLANKA_STATE.__store["incidents:v1"])).toEqual([
+      expect.objectContaining({ title: "CI failing on clankamode/clanka-api", source: "fleet-health" }),
+    ]);
+    expect(published().map((event) => event.type)).toEqual(["incident"]);
+    expect(env.CLANKA_STATE.__store["fleet:health:v1:revalidating"]).toBe("1");
+  });
+
+  it("reports a failed incident write in the ci job and retries it on the next sweep", async () => {
+    mockFailingCi();
+    const env = createEnv({}, { GITHUB_TOKEN: "gh-token" });
+    const put = env.CLANKA_STATE.put;
+    env.CLANKA_STATE.put = async (key: string, ...rest: any[]) => {
+      if (key === "incidents:v1") throw new Error("KV put failed");
+      return (put as any)(key, ...rest);
+    };
+    const sweep = () => worker.scheduled({ cron: "*/5 * * * *", scheduledTime: Date.now() }, env as any);
+    await sweep();
+
+    const body = await json(await worker.fetch(req("/admin/jobs", "GET", undefined, authHeaders), env as any)) as any;
+    const ci = body.jobs.find((job: any) => job.name === "ci");
+    expect(ci.last).toMatchObject({ status: "failure", detail: "fleet health rebuild failed: KV put failed" });
+
+    env.CLANKA_STATE.put = put;
+    vi.spyOn(Date, "now").mockReturnValue(Date.now() + 60 * 60_000);
+    await sweep();
+    expect(JSON.parse(env.CLANKA_STATE.__store["incidents:v1"])).toHaveLength(1);
+  });
+});
+
+describe("Scheduled cache refresh", () => {
+  const authHeaders = { Authorization: "Bearer test-secret" };
+
+  function mockGithub() {
+    return vi.spyOn(globalThis, "fetch").mockImplementation(async (input: RequestInfo | URL) => {
+      const url = input instanceof Request ? input.url : String(input);
+      if (url.includes("/contents/registry.json")) {
+        const content = Buffer.from(JSON.stringify({ tools: MOCK_REGISTRY }), "utf8").toString("base64");
+        return new Response(JSON.stringify({ content }), { status: 200 });
+      }
+      if (url.includes("/repos/clankamode/ci-triage/actions/runs")) {
+        return new Response("rate limited", { status: 403 });
+      }
+      if (url.includes("/actions/runs")) {
+        return new Response(JSON.stringify({
+          workflow_runs: [
+            { name: "CI", status: "completed", conclusion: "success", updated_at: "2026-03-01T00:00:00Z" },
+            { name: "CI", status: "completed", conclusion: "failure", updated_at: "2026-02-28T00:00:00Z" },
+          ],
+        }), { status: 200 });
+      }
+      if (url.endsWith("/users/clankamode")) {
+        return new Response(JSON.stringify({ public_repos: 3 }), { status: 200 });
+      }
+      if (url.includes("/users/clankamode/repos")) {
+        return new Response(JSON.stringify([{ name: "clanka-api", stargazers_count: 4, pushed_at: "2026-03-01T00:00:00Z" }]), { status: 200 });
+      }
+      if (url.includes("/users/clankamode/events")) {
+        return new Response(JSON.stringify([]), { status: 200 });
+      }
+      if (/\/(commits|releases|tags)\?/.test(url)) {
+        return new Response(JSON.stringify([]), { status: 200 });
+      }
+      return new Response("Not Found", { status: 404 });
+    });
+  }
+
+  it("refreshes every GitHub-derived cache and reports per-job outcomes", async () => {
+    mockGithub();
+    const env = createEnv({}, { GITHUB_TOKEN: "gh-token" });
+    await worker.scheduled({ cron: "*/5 * * * *", scheduledTime: Date.now() }, env as any);
+
+    const store = env.CLANKA_STATE.__store;
+    expect(JSON.parse(store["ci:clankamode/clanka-api:v1"])).toMatchObject({ conclusion: "success" });
+    expect(JSON.parse(store["ci:trend:clankamode/clanka-api:v1"])).toEqual(["success", "failure"]);
+    expect(store["ci:clankamode/ci-triage:v1"]).toBeUndefined();
+    expect(JSON.parse(store["github:stats:v1"])).toMatchObject({ repoCount: 3, totalStars: 4 });
+    expect(store["github:events:v1"]).toBe("[]");
+    expect(store["changelog:clankamode/clanka-api:v1"]).toBe("[]");
+    expect(store["changelog:clankamode/ci-triage:v1"]).toBe("[]");
+
+    const res = await worker.fetch(req("/admin/jobs", "GET", undefined, authHeaders), env as any);
+    expect(res.status).toBe(200);
+    const body = await json(res) as any;
+    expect(body.lastRun).toMatchObject({ cron: "*/5 * * * *", durationMs: expect.any(Number) });
+    const byName = Object.fromEntries(body.jobs.map((job: any) => [job.name, job]));
+    expect(Object.keys(byName)).toEqual(["registry", "ci", "github_stats", "github_events", "changelog"]);
+    expect(byName.registry.last).toMatchObject({ status: "success", detail: "2 entries" });
+    expect(byName.ci.last).toMatchObject({
+      status: "failure",
+      detail: "1 of 2 repos failed; first: clankamode/ci-triage workflow runs returned 403",
+      lastSuccessAt: null,
+    });
+    expect(byName.github_stats.everySec).toBe(1800);
+  });
+
+  it("publishes fleet-health to the stream when the rebuilt health changes", async () => {
+    vi.spyOn(globalThis, "fetch").mockImplementation(async (input: RequestInfo | URL) => {
+      const url = input instanceof Request ? input.url : String(input);
+      if (url.includes("/actions/runs")) {
+        return new Response(JSON.stringify({
+          workflow_runs: [{ name: "CI", status: "completed", conclusion: "success", updated_at: "2026-03-01T00:00:00Z" }],
+        }), { status: 200 });
+      }
+      return new Response("Not Found", { status: 404 });
+    });
+    const { namespace, published } = createStreamHub();
+    const env = { ...createEnv({}, { GITHUB_TOKEN: "gh-token" }), STREAM_HUB: namespace };
+    await worker.scheduled({ cron: "*/5 * * * *", scheduledTime: Date.now() }, env as any);
+
+    expect(published()).toEqual([{
+      id: 1,
+      type: "fleet-health",
+      data: expect.objectContaining({ status: "GREEN", repos: expect.any(Array) }),
+    }]);
+
+    // Same runs, only a newer checkedAt: nothing to publish.
+    const unchanged = createStreamHub();
+    const cached = JSON.parse(env.CLANKA_STATE.__store["fleet:health:v1"]);
+    const next = {
+      ...createEnv({ "fleet:health:v1": JSON.stringify({ ...cached, checkedAt: "2026-01-01T00:00:00.000Z" }) }, { GITHUB_TOKEN: "gh-token" }),
+      STREAM_HUB: unchanged.namespace,
+    };
+    await worker.scheduled({ cron: "*/5 * * * *", scheduledTime: Date.now() }, next as any);
+    expect(unchanged.published()).toEqual([]);
+  });
+
+  it("skips token-only jobs without GITHUB_TOKEN and lists jobs before the first run", async () => {
+    const env = createEnv();
+    const before = await json(await worker.fetch(req("/admin/jobs", "GET", undefined, authHeaders), env as any)) as any;
+    expect(before.lastRun).toBeNull();
+    expect(before.jobs.every((job: any) => job.last === null)).toBe(true);
+
+    mockGithub();
+    await worker.scheduled({ cron: "*/5 * * * *", scheduledTime: Date.now() }, env as any);
+    const after = await json(await worker.fetch(req("/admin/jobs", "GET", undefined, authHeaders), env as any)) as any;
+    const statuses = Object.fromEntries(after.jobs.map((job: any) => [job.name, job.last.status]));
+    expect(statuses).toEqual({
+      registry: "success",
+      ci: "skipped",
+      github_stats: "success",
+      github_events: "success",
+      changelog: "skipped",
+    });
+  });
+});
+
+describe("Cache headers", () => {
+  it("serves the last events feed as STALE with its age when GitHub is down", async () => {
+    vi.spyOn(globalThis, "fetch").mockRejectedValue(new Error("GitHub unavailable"));
+    const env = createEnv();
+    const events = [{ type: "PUSH", repo: "clanka-api", message: "cached", timestamp: "2026-03-01T00:00:00.000Z" }];
+    await env.CLANKA_STATE.put("github:events:v1", JSON.stringify(events), {
+      metadata: { storedAt: Date.now() - 2 * 60 * 60 * 1000 },
+    });
+
+    const res = await worker.fetch(req("/github/events"), env as any);
+    const body = await json(res);
+
+    expect(res.status).toBe(200);
+    expect(body.events).toEqual(events);
+    expect(res.headers.get("X-Cache")).toBe("STALE");
+    expect(Number(res.headers.get("Age"))).toBeGreaterThanOrEqual(7200);
+  });
+
+  it("reports MISS when any lookup had to load inline and omits the headers on uncached routes", async () => {
+    vi.spyOn(globalThis, "fetch").mockResolvedValue(new Response("Bad Gateway", { status: 502 }));
+
+    const health = await worker.fetch(req("/fleet/health"), createEnv({}, { GITHUB_TOKEN: "gh-token" }));
+    expect(health.status).toBe(503);
+    expect(health.headers.get("X-Cache")).toBe("MISS");
+    expect(health.headers.get("Age")).toBe("0");
+
+    const status = await worker.fetch(req("/status"), createEnv());
+    expect(status.headers.get("X-Cache")).toBeNull();
+  });
+});
@@ -1,12 +1,283 @@
-import { loadGithubEvents } from "./github-events";
+import {
+  GITHUB_EVENTS_CACHE,
+  GITHUB_EVENTS_DEFAULT_LIMIT,
+  GITHUB_EVENTS_MAX_LIMIT,
+  GITHUB_EVENT_TYPES,
+  decodeGithubEventsCursor,
+  queryGithubEvents,
+  recordGithubEvent,
+  refreshGithubEvents,
+  type GithubEventType,
+} from "./github-events";
+import { buildBoard, parseBoardQuery, type RepoTask, type RepoTasksPayload } from "./board";
+import {
+  authenticate,
+  describeApiToken,
+  hasScope,
+  loadApiTokens,
+  mintApiToken,
+  revokeApiToken,
+  type AuthPrincipal,
+  type AuthScope,
+} from "./auth";
+import {
+  AUDIT_DEFAULT_LIMIT,
+  AUDIT_MAX_LIMIT,
+  decodeAuditCursor,
+  queryAuditLog,
+  recordAuditEvent,
+  recordAuthFailure,
+  toAuditCsv,
+  toAuditNdjson,
+  toAuditRecord,
+} from "./audit";
+import {
+  isSignedRequest,
+  SIGNED_REQUEST_PRINCIPAL,
+  verifySignedRequest,
+} from "./signing";
+import {
+  applyTaskPatch,
+  createTask,
+  ifMatchSatisfied,
+  isOneOf,
+  loadTasks,
+  parseTaskQuery,
+  queryTasks,
+  saveTasks,
+  TASK_PRIORITIES,
+  TASK_SORT_FIELDS,
+  TASK_STATUSES,
+  taskEtag,
+  type Task,
+  type TaskInput,
+  type TaskPriority,
+} from "./tasks";
+import {
+  applyIncidentPatch,
+  createIncident,
+  openFleetIncidents as openIncidentsForFailures,
+  INCIDENT_STATUSES,
+  isIncidentActive,
+  loadIncidents,
+  saveIncidents,
+  toIncidentSummary,
+  type Incident,
+  type IncidentInput,
+  type IncidentPatch,
+} from "./incidents";
+import {
+  clearLockout,
+  listLockouts,
+  loadLockout,
+  lockoutRetryAfter,
+  recordLockoutFailure,
+} from "./lockout";
+import {
+  compileRoutes,
+  matchRoute,
+  type AuthPolicy,
+  type CachePolicy,
+  type RateLimitPolicy,
+} from "./router";
+import {
+  CHANGELOG_DEFAULT_LIMIT,
+  CHANGELOG_MAX_LIMIT,
+  changelogCacheKey,
+  decodeChangelogCursor,
+  groupChangelog,
+  loadRepoChangelog,
+  normalizeChangelogEntry,
+  pageChangelog,
+  recordChangelogPush,
+  refreshRepoChangelog,
+  type ChangelogEntry,
+  type ChangelogQuery,
+} from "./changelog";
+import {
+  BADGE_CONTENT_TYPE,
+  BADGE_LABEL_MAX_LENGTH,
+  BADGE_STYLES,
+  isBadgeStyle,
+  renderBadge,
+  scoreColor,
+  type Badge,
+  type BadgeStyle,
+} from "./badges";
+import {
+  FEED_CONTENT_TYPES,
+  FEED_ITEM_LIMIT,
+  FEED_SOURCES,
+  changelogFeedItem,
+  feedEtag,
+  feedLastModified,
+  feedNotModified,
+  githubEventFeedItem,
+  historyFeedItem,
+  parseFeedName,
+  renderFeed,
+  type Feed,
+  type FeedSource,
+} from "./feeds";
+import {
+  STREAM_EVENT_TYPES,
+  STREAM_HUB_CONNECT_URL,
+  STREAM_HUB_NAME,
+  publishStreamEvents,
+  type StreamPublish,
+} from "./stream";
+import {
+  AGENT_COMMANDS,
+  AGENT_HUB_COMMAND_URL,
+  AGENT_HUB_CONNECT_URL,
+  AGENT_HUB_NAME,
+  AGENT_LIVENESS_INTERVAL_MS,
+  AGENT_MESSAGE_TYPES,
+  AGENT_NAME_HEADER,
+  type AgentCommand,
+} from "./agents";
+import {
+  AGENT_ID_PATTERN,
+  HISTORY_LIMIT,
+  LAST_SEEN_KEY,
+  PRESENCE_DEFAULT_TTL_SEC,
+  STATUS_OFFLINE_THRESHOLD_MS,
+  agentPresenceEvent,
+  agentState,
+  isAgentId,
+  isAgentOnline,
+  loadAgent,
+  loadAgents,
+  loadPresenceLog,
+  loadStarted,
+  loadSystemPresence,
+  normalizeHistory,
+  pendingPresenceDecay,
+  prependHistory,
+  recordAgentPresence,
+  toAgentView,
+  toHistoryBatch,
+  toHistoryEntry,
+  touchAgent,
+  touchLastSeen,
+  writePresence,
+  type AgentRecord,
+  type HistoryEntry,
+} from "./presence";
+import { canTransition, presenceDays, PRESENCE_TRANSITIONS, type PresenceState } from "./presence-states";
+import { isUptimeWindow, loadUptimeReport, UPTIME_WINDOWS } from "./uptime";
+import { githubAuthMode, githubClient, githubGet, githubGetAll, isQuotaLow, loadGithubQuota } from "./github";
+import {
+  cacheResponseHeaders,
+  cachedFetch,
+  claimRevalidateLease,
+  createCacheTrace,
+  readCache,
+  writeCache,
+  type CacheSpec,
+  type CacheTrace,
+} from "./cache";
+import { inJitteredBatches, loadJobsState, runJobs, type JobDefinition, type JobOutcome } from "./jobs";
+import {
+  DELIVERIES_DEFAULT_LIMIT,
+  DELIVERIES_MAX_LIMIT,
+  findDelivery,
+  GITHUB_DELIVERY_HEADER,
+  GITHUB_EVENT_HEADER,
+  GITHUB_SIGNATURE_HEADER,
+  GITHUB_WEBHOOK_EVENTS,
+  isGithubWebhookEvent,
+  listDeliveries,
+  recordDelivery,
+  toGithubEvent,
+  verifyGithubSignature,
+  webhookRepo,
+  type GithubWebhookPayload,
+  type WebhookOutcome,
+} from "./webhooks";
+import { ERROR_CATALOGUE, errorEnvelope, resolveRequestId, type ErrorCode } from "./errors";
+import { buildOpenApiSpec, toOpenApiPath } from "./openapi";
+import { parseJsonBody } from "./validation";
+import {
+  ADMIN_ACTIVITY_BODY_SCHEMA,
+  ADMIN_ACTIVITY_RESPONSE_SCHEMA,
+  ADMIN_AGENT_COMMAND_BODY_SCHEMA,
+  ADMIN_AGENT_COMMAND_RESPONSE_SCHEMA,
+  AGENT_PRESENCE_BODY_SCHEMA,
+  AGENT_SCHEMA,
+  AGENTS_RESPONSE_SCHEMA,
+  ADMIN_AUDIT_RESPONSE_SCHEMA,
+  ADMIN_INCIDENT_CREATE_BODY_SCHEMA,
+  ADMIN_INCIDENT_PATCH_BODY_SCHEMA,
+  ADMIN_JOBS_RESPONSE_SCHEMA,
+  ADMIN_LOCKOUTS_CLEARED_RESPONSE_SCHEMA,
+  ADMIN_LOCKOUTS_RESPONSE_SCHEMA,
+  ADMIN_REFRESH_RESPONSE_SCHEMA,
+  ADMIN_TOKEN_CREATE_BODY_SCHEMA,
+  ADMIN_TOKEN_CREATED_RESPONSE_SCHEMA,
+  ADMIN_TOKEN_REVOKED_RESPONSE_SCHEMA,
+  ADMIN_TOKENS_RESPONSE_SCHEMA,
+  ADMIN_TASK_CREATE_BODY_SCHEMA,
+  ADMIN_TASK_DELETED_RESPONSE_SCHEMA,
+  ADMIN_TASK_PATCH_BODY_SCHEMA,
+  ADMIN_TASKS_RESPONSE_SCHEMA,
+  ADMIN_WEBHOOK_DELIVERIES_RESPONSE_SCHEMA,
+  BOARD_RESPONSE_SCHEMA,
+  CHANGELOG_RESPONSE_SCHEMA,
+  REPO_CHANGELOG_RESPONSE_SCHEMA,
+  ERROR_SCHEMA,
+  FLEET_HEALTH_RESPONSE_SCHEMA,
+  FLEET_SCORE_RESPONSE_SCHEMA,
+  FLEET_SUMMARY_RESPONSE_SCHEMA,
+  FLEET_TREND_RESPONSE_SCHEMA,
+  GITHUB_EVENTS_RESPONSE_SCHEMA,
+  GITHUB_STATS_RESPONSE_SCHEMA,
+  HEALTH_RESPONSE_SCHEMA,
+  HEARTBEAT_BODY_SCHEMA,
+  HEARTBEAT_RESPONSE_SCHEMA,
+  HISTORY_RESPONSE_SCHEMA,
+  INCIDENT_SCHEMA,
+  INCIDENTS_RESPONSE_SCHEMA,
+  METRICS_RESPONSE_SCHEMA,
+  NOW_RESPONSE_SCHEMA,
+  OPENAPI_RESPONSE_SCHEMA,
+  POSTS_COUNT_RESPONSE_SCHEMA,
+  PRESENCE_HISTORY_RESPONSE_SCHEMA,
+  PROJECTS_RESPONSE_SCHEMA,
+  PULSE_RESPONSE_SCHEMA,
+  REPO_TASKS_RESPONSE_SCHEMA,
+  SET_PRESENCE_BODY_SCHEMA,
+  STATUS_RESPONSE_SCHEMA,
+  STATUS_UPTIME_RESPONSE_SCHEMA,
+  SUCCESS_SCHEMA,
+  TASK_SCHEMA,
+  TOOL_RESPONSE_SCHEMA,
+  TOOLS_RESPONSE_SCHEMA,
+  TOOLS_SEARCH_RESPONSE_SCHEMA,
+  WEBHOOK_DELIVERY_RESPONSE_SCHEMA,
+} from "./schemas";
 
 export interface Env {
   CLANKA_STATE: KVNamespace;
   ADMIN_KEY: string;
   ADMIN_TOKEN?: string;
   GITHUB_TOKEN?: string;
+  // "app" or "token"; unset picks the GitHub App when its three secrets are present.
+  GITHUB_AUTH?: string;
+  GITHUB_APP_ID?: string;
+  GITHUB_APP_PRIVATE_KEY?: string;
+  GITHUB_APP_INSTALLATION_ID?: string;
+  SIGNING_SECRET?: string;
+  GITHUB_WEBHOOK_SECRET?: string;
+  // Durable Object namespace of `StreamHub`; `/stream` is unavailable without it.
+  STREAM_HUB?: DurableObjectNamespace;
+  // Durable Object namespace of `AgentHub`; `/agents/connect` is unavailable without it.
+  AGENT_HUB?: DurableObjectNamespace;
 }
 
+export { AgentHub } from "./agents";
+export { StreamHub } from "./stream";
+
 type FleetTier = "ops" | "infra" | "core" | "quality" | "policy" | "template";
 type FleetCriticality = "critical" | "high" | "medium";
 type FleetHealthStatus = "GREEN" | "YELLOW" | "RED" | "UNKNOWN";
@@ -43,7 +314,6 @@ type FleetScorePayload = {
   unknownRepos: number;
   timestamp: string;
 };
-type HistoryEntry = { timestamp: number; desc: string; type: string; hash: string };
 
 type Project = { name: string; description: string; url: string; status: string; last_updated: string };
 type RequestLogEntry = {
@@ -53,48 +323,54 @@ type RequestLogEntry = {
   status: number;
   ip: string;
   ua?: string;
-};
-type ChangelogEntry = {
-  sha: string;
-  message: string;
-  author: string;
-  date: string;
+  requestId: string;
 };
 
-const HISTORY_LIMIT = 20;
-const REGISTRY_URL = "https://api.github.com/repos/clankamode/assistant-tool-registry/contents/registry.json";
-const REGISTRY_CACHE_KEY = "registry:v1";
-const REGISTRY_STALE_CACHE_KEY = `${REGISTRY_CACHE_KEY}:stale`;
-const REGISTRY_TTL_SEC = 3600; // 1 hour
-const REGISTRY_STALE_TTL_SEC = 7 * 24 * 60 * 60; // 7 days
-const TOOLS_REGISTRY_TTL_SEC = 5 * 60; // 5 minutes
+const BADGE_MAX_AGE_SEC = 60;
+const REGISTRY_PATH = "/repos/clankamode/assistant-tool-registry/contents/registry.json";
+const REGISTRY_CACHE: CacheSpec<RegistryEntry[]> = {
+  key: "registry:v1",
+  freshSec: 3600, // 1 hour
+  staleSec: 7 * 24 * 60 * 60, // 7 days
+  parse: parseRegistryEntries,
+};
+// Separate stale copy written before the shared cache layer; cleared on refresh until it expires.
+const LEGACY_REGISTRY_STALE_CACHE_KEY = `${REGISTRY_CACHE.key}:stale`;
 
 const REQUEST_LOG_KEY = "request_log";
 const REQUEST_LOG_TTL_SEC = 7 * 24 * 60 * 60; // 7 days
 const REQUEST_LOG_LIMIT = 100;
 
-const LAST_SEEN_KEY = "last_seen";
-const STATUS_OFFLINE_THRESHOLD_MS = 10 * 60 * 1000; // 10 minutes
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PRESENCE_HISTORY_DEFAULT_DAYS = 30;
+// About as far back as the presence transition log reaches.
+const PRESENCE_HISTORY_MAX_DAYS = 366;
 
-const GITHUB_STATS_CACHE_KEY = "github:stats:v1";
-const GITHUB_STATS_TTL_SEC = 3600; // 1 hour
+const GITHUB_STATS_CACHE: CacheSpec<GithubStatsPayload> = {
+  key: "github:stats:v1",
+  freshSec: 3600, // 1 hour
+  staleSec: 24 * 60 * 60, // 1 day
+  parse: (raw) => safeParseJSON<GithubStatsPayload | null>(raw, null),
+};
 
-const CHANGELOG_CACHE_KEY = "changelog:meta-runner:v1";
-const CHANGELOG_TTL_SEC = 10 * 60; // 10 minutes
-const CHANGELOG_URL = "https://api.github.com/repos/clankamode/meta-runner/commits?per_page=10";
+// Single-repo changelog written before per-repo changelogs; cleared on refresh until it expires.
+const LEGACY_CHANGELOG_CACHE_KEY = "changelog:meta-runner:v1";
 
-const FLEET_HEALTH_CACHE_KEY = "fleet:health:v1";
-const FLEET_HEALTH_TTL_SEC = 5 * 60; // 5 minutes
-const FLEET_HEALTH_TTL_MS = FLEET_HEALTH_TTL_SEC * 1000;
-const FLEET_CI_TTL_SEC = 10 * 60; // 10 minutes
-const GITHUB_EVENTS_CACHE_KEY = "github:events:v1";
+const FLEET_HEALTH_CACHE: CacheSpec<FleetHealthPayload> = {
+  key: "fleet:health:v1",
+  freshSec: 5 * 60, // 5 minutes
+  staleSec: 24 * 60 * 60, // 1 day
+  parse: parseFleetHealthPayload,
+};
+const FLEET_CI_FRESH_SEC = 10 * 60; // 10 minutes
+const FLEET_CI_STALE_SEC = 60 * 60; // 1 hour
 const CACHE_KEYS_TO_INVALIDATE = [
-  REGISTRY_CACHE_KEY,
-  REGISTRY_STALE_CACHE_KEY,
-  FLEET_HEALTH_CACHE_KEY,
-  GITHUB_STATS_CACHE_KEY,
-  CHANGELOG_CACHE_KEY,
-  GITHUB_EVENTS_CACHE_KEY,
+  REGISTRY_CACHE.key,
+  LEGACY_REGISTRY_STALE_CACHE_KEY,
+  FLEET_HEALTH_CACHE.key,
+  GITHUB_STATS_CACHE.key,
+  LEGACY_CHANGELOG_CACHE_KEY,
+  GITHUB_EVENTS_CACHE.key,
 ];
 
 const RATE_LIMIT_KEY_PREFIX = "rate_limit:ip:";
@@ -103,388 +379,8 @@ const RATE_LIMIT_WINDOW_MS = RATE_LIMIT_WINDOW_SEC * 1000;
 const RATE_LIMIT_MAX_REQUESTS = 10;
 const METRICS_KEY = "metrics:v1";
 const API_VERSION = "1.0.0";
-const STATUS_ENDPOINTS = [
-  "/",
-  "/fleet/summary",
-  "/fleet/health",
-  "/fleet/score",
-  "/history",
-  "/now",
-  "/status",
-  "/tools/search",
-  "/metrics",
-];
 const startTime = Date.now();
 
-const OPENAPI_SPEC = {
-  openapi: "3.0.3",
-  info: {
-    title: "clanka-api",
-    version: API_VERSION,
-    description: "Edge API for Clanka public endpoints",
-  },
-  paths: {
-    "/status": {
-      get: {
-        summary: "Get service status",
-        responses: {
-          "200": {
-            description: "Current status payload",
-            content: {
-              "application/json": {
-                schema: {
-                  type: "object",
-                  properties: {
-                    status: { type: "string" },
-                    timestamp: { type: "string" },
-                    signal: { type: "string" },
-                    last_seen: { type: "string" },
-                  },
-                  additionalProperties: true,
-                },
-              },
-            },
-          },
-          "429": {
-            description: "Too Many Requests",
-            content: {
-              "application/json": {
-                schema: {
-                  type: "object",
-                  properties: {
-                    error: { type: "string" },
-                  },
-                  required: ["error"],
-                },
-              },
-            },
-          },
-        },
-      },
-    },
-    "/health": {
-      get: {
-        summary: "Health check",
-        responses: {
-          "200": {
-            description: "Health payload",
-            content: {
-              "application/json": {
-                schema: {
-                  type: "object",
-                  properties: {
-                    status: { type: "string" },
-                    timestamp: { type: "string" },
-                    signal: { type: "string" },
-                    last_seen: { type: "string" },
-                  },
-                  additionalProperties: true,
-                },
-              },
-            },
-          },
-          "429": {
-            description: "Too Many Requests",
-          },
-        },
-      },
-    },
-    "/projects": {
-      get: {
-        summary: "Get active projects from registry",
-        responses: {
-          "200": {
-            description: "Projects payload",
-            content: {
-              "application/json": {
-                schema: {
-                  type: "object",
-                  properties: {
-                    projects: {
-                      type: "array",
-                      items: {
-                        type: "object",
-                        properties: {
-                          name: { type: "string" },
-                          description: { type: "string" },
-                          url: { type: "string" },
-                          status: { type: "string" },
-                          last_updated: { type: "string" },
-                        },
-                        required: ["name", "description", "url", "status", "last_updated"],
-                      },
-                    },
-                    source: { type: "string" },
-                    cached: { type: "boolean" },
-                  },
-                  required: ["projects", "source", "cached"],
-                },
-              },
-            },
-          },
-          "429": {
-            description: "Too Many Requests",
-          },
-        },
-      },
-    },
-    "/tools": {
-      get: {
-        summary: "Get registered tools",
-        responses: {
-          "200": {
-            description: "Tools payload",
-            content: {
-              "application/json": {
-                schema: {
-                  type: "object",
-                  properties: {
-                    tools: {
-                      type: "array",
-                      items: {
-                        type: "object",
-                        properties: {
-                          repo: { type: "string" },
-                          description: { type: "string" },
-                          tier: { type: "string" },
-                          criticality: { type: "string" },
-                        },
-                        required: ["repo", "description", "tier", "criticality"],
-                      },
-                    },
-                    count: { type: "number" },
-                    cached: { type: "boolean" },
-                    timestamp: { type: "string" },
-                  },
-                  required: ["tools", "count", "cached", "timestamp"],
-                },
-              },
-            },
-          },
-          "429": {
-            description: "Too Many Requests",
-          },
-        },
-      },
-    },
-    "/tools/{repo}": {
-      get: {
-        summary: "Get a registered tool by repo",
-        parameters: [
-          {
-            name: "repo",
-            in: "path",
-            required: true,
-            schema: { type: "string" },
-          },
-        ],
-        responses: {
-          "200": {
-            description: "Tool payload",
-            content: {
-              "application/json": {
-                schema: {
-                  type: "object",
-                  properties: {
-                    tool: {
-                      type: "object",
-                      properties: {
-                        repo: { type: "string" },
-                        description: { type: "string" },
-                        tier: { type: "string" },
-                        criticality: { type: "string" },
-                      },
-                      required: ["repo", "description", "tier", "criticality"],
-                    },
-                    cached: { type: "boolean" },
-                    timestamp: { type: "string" },
-                  },
-                  required: ["tool", "cached", "timestamp"],
-                },
-              },
-            },
-          },
-          "404": {
-            description: "Tool not found",
-          },
-          "429": {
-            description: "Too Many Requests",
-          },
-        },
-      },
-    },
-    "/tasks": {
-      get: {
-        summary: "Get parsed open tasks per repo",
-        responses: {
-          "200": {
-            description: "Task payload",
-            content: {
-              "application/json": {
-                schema: {
-                  type: "array",
-                  items: {
-                    type: "object",
-                    properties: {
-                      repo: { type: "string" },
-                      tasks: {
-                        type: "array",
-                        items: {
-                          type: "object",
-                          properties: {
-                            priority: { type: "string" },
-                            text: { type: "string" },
-                            done: { type: "boolean" },
-                          },
-                          required: ["priority", "text", "done"],
-                        },
-                      },
-                    },
-                    required: ["repo", "tasks"],
-                  },
-                },
-              },
-            },
-          },
-          "429": {
-            description: "Too Many Requests",
-          },
-        },
-      },
-    },
-    "/fleet/health": {
-      get: {
-        summary: "Get workflow health across registered fleet repos",
-        responses: {
-          "200": {
-            description: "Fleet health payload",
-            content: {
-              "application/json": {
-                schema: {
-                  type: "object",
-                  properties: {
-                    status: { type: "string", enum: ["GREEN", "YELLOW", "RED", "UNKNOWN"] },
-                    repos: {
-                      type: "array",
-                      items: {
-                        type: "object",
-                        properties: {
-                          repo: { type: "string" },
-                          criticality: { type: "string" },
-                          lastRun: { type: "string", nullable: true },
-                          conclusion: { type: "string" },
-                        },
-                        required: ["repo", "criticality", "lastRun", "conclusion"],
-                      },
-                    },
-                    checkedAt: { type: "string" },
-                  },
-                  required: ["status", "repos", "checkedAt"],
-                },
-              },
-            },
-          },
-          "503": {
-            description: "GitHub unavailable and no cache available",
-          },
-          "429": {
-            description: "Too Many Requests",
-          },
-        },
-      },
-    },
-    "/fleet/trend": {
-      get: {
-        summary: "Get CI trend data across registered fleet repos",
-        responses: {
-          "200": {
-            description: "Fleet trend payload",
-            content: {
-              "application/json": {
-                schema: {
-                  type: "object",
-                  properties: {
-                    generatedAt: { type: "string" },
-                    totalRepos: { type: "number" },
-                    repos: {
-                      type: "array",
-                      items: {
-                        type: "object",
-                        properties: {
-                          repo: { type: "string" },
-                          criticality: { type: "string" },
-                          last5: {
-                            type: "array",
-                            items: { type: "string" },
-                          },
-                          direction: { type: "string", enum: ["up", "down", "flat", "unknown"] },
-                        },
-                        required: ["repo", "criticality", "last5", "direction"],
-                      },
-                    },
-                  },
-                  required: ["generatedAt", "totalRepos", "repos"],
-                },
-              },
-            },
-          },
-          "429": {
-            description: "Too Many Requests",
-          },
-        },
-      },
-    },
-    "/changelog": {
-      get: {
-        summary: "Get recent commit changelog",
-        responses: {
-          "200": {
-            description: "Changelog payload",
-            content: {
-              "application/json": {
-                schema: {
-                  type: "object",
-                  properties: {
-                    commits: {
-                      type: "array",
-                      items: {
-                        type: "object",
-                        properties: {
-                          sha: { type: "string" },
-                          message: { type: "string" },
-                          author: { type: "string" },
-                          date: { type: "string" },
-                        },
-                        required: ["sha", "message", "author", "date"],
-                      },
-                    },
-                    timestamp: { type: "string" },
-                    error: { type: "string" },
-                  },
-                  required: ["commits", "timestamp"],
-                },
-              },
-            },
-          },
-          "429": {
-            description: "Too Many Requests",
-          },
-        },
-      },
-    },
-    "/openapi.json": {
-      get: {
-        summary: "Get OpenAPI 3 specification",
-        responses: {
-          "200": {
-            description: "OpenAPI document",
-          },
-        },
-      },
-    },
-  },
-};
-
 type RegistryEntry = {
   repo: string;
   criticality: FleetCriticality;
@@ -492,9 +388,6 @@ type RegistryEntry = {
   description: string;
 };
 
-type TaskPriority = "red" | "yellow" | "green";
-type RepoTask = { priority: TaskPriority; text: string; done: boolean };
-type RepoTasksPayload = { repo: string; tasks: RepoTask[] };
 type RateLimitState = {
   count: number;
   resetAt: number;
@@ -507,6 +400,10 @@ type MetricsState = {
 type WorkerExecutionContext = {
   waitUntil(promise: Promise<unknown>): void;
 };
+type WorkerScheduledEvent = {
+  cron: string;
+  scheduledTime: number;
+};
 
 const inMemoryMetrics: MetricsState = {
   requests_total: 0,
@@ -534,10 +431,6 @@ function getClientIp(request: Request): string {
   return request.headers.get("X-Real-IP") || "unknown";
 }
 
-function isPublicGetEndpoint(pathname: string): boolean {
-  return pathname !== "/set-presence" && pathname !== "/metrics" && !pathname.startsWith("/admin");
-}
-
 function isTestEnvironment(): boolean {
   const proc = (globalThis as { process?: { env?: Record<string, string | undefined> } }).process;
   const env = proc?.env;
@@ -656,9 +549,15 @@ function getStatusPayload(lastSeenRaw: string | null) {
   };
 }
 
-function getStatusUptimePayload(lastSeenRaw: string | null) {
+// Time since uptime last restarted after an outage, or 0 while offline. Falls back to `last_seen`
+// when `started` predates uptime tracking.
+function currentUptimeMs(lastSeen: number | null, started: number | null, now: number): number {
+  if (lastSeen === null || now - lastSeen > STATUS_OFFLINE_THRESHOLD_MS) return 0;
+  return Math.max(0, now - (started ?? lastSeen));
+}
+
+function getStatusUptimePayload(lastSeenRaw: string | null, started: number | null, now: number) {
   const lastSeen = typeof lastSeenRaw === "string" ? Number(lastSeenRaw) : NaN;
-  const now = Date.now();
   if (!Number.isFinite(lastSeen) || now - lastSeen > STATUS_OFFLINE_THRESHOLD_MS) {
     return {
       status: "offline",
@@ -669,12 +568,12 @@ function getStatusUptimePayload(lastSeenRaw: string | null) {
 
   return {
     status: "operational",
-    uptime_ms: Math.max(0, now - lastSeen),
+    uptime_ms: currentUptimeMs(lastSeen, started, now),
     last_seen: new Date(lastSeen).toISOString(),
   };
 }
 
-async function logRequest(env: Env, request: Request, response: Response): Promise<void> {
+async function logRequest(env: Env, request: Request, response: Response, requestId: string): Promise<void> {
   const url = new URL(request.url);
   const rawLog = await env.CLANKA_STATE.get(REQUEST_LOG_KEY);
   let requestLog = safeParseJSON<unknown[]>(rawLog, []);
@@ -689,6 +588,7 @@ async function logRequest(env: Env, request: Request, response: Response): Promi
     status: response.status,
     ip: getClientIp(request),
     ua: request.headers.get("User-Agent") || undefined,
+    requestId,
   }];
   const trimmedLog = nextLog.length > REQUEST_LOG_LIMIT ? nextLog.slice(-REQUEST_LOG_LIMIT) : nextLog;
 
@@ -697,103 +597,28 @@ async function logRequest(env: Env, request: Request, response: Response): Promi
   });
 }
 
-function isAuthorized(request: Request, env: Env): boolean {
-  const auth = request.headers.get("Authorization");
-  const expected = `Bearer ${env.ADMIN_KEY}`;
-  return auth === expected;
-}
-
-function normalizeChangelogEntry(entry: unknown): ChangelogEntry | null {
-  if (!entry || typeof entry !== "object" || Array.isArray(entry)) return null;
-
-  const item = entry as {
-    sha?: unknown;
-    message?: unknown;
-    author?: unknown;
-    date?: unknown;
-    commit?: {
-      message?: unknown;
-      author?: { name?: unknown; date?: unknown };
-      committer?: { date?: unknown };
-    };
-  };
-
-  const directSha = typeof item.sha === "string" ? item.sha.trim() : "";
-  const directMessage = typeof item.message === "string" ? item.message : "";
-  const directAuthor = typeof item.author === "string" ? item.author : "";
-  const directDate = typeof item.date === "string" ? item.date : "";
-  if (directSha && directMessage && directAuthor && directDate) {
-    return {
-      sha: directSha,
-      message: directMessage,
-      author: directAuthor,
-      date: directDate,
-    };
-  }
-
-  const commit = item.commit && typeof item.commit === "object" && !Array.isArray(item.commit)
-    ? item.commit
-    : undefined;
-  const message = typeof commit?.message === "string" ? commit.message : "";
-  const author = item.author && typeof item.author === "object" && !Array.isArray(item.author)
-    && typeof (item.author as { login?: unknown }).login === "string"
-    ? (item.author as { login: string }).login
-    : typeof commit?.author?.name === "string"
-      ? commit.author.name
-      : "unknown";
-  const date = typeof commit?.author?.date === "string"
-    ? commit.author.date
-    : typeof commit?.committer?.date === "string"
-      ? commit.committer.date
-      : new Date().toISOString();
-  if (!directSha) return null;
-  return {
-    sha: directSha,
-    message,
-    author,
-    date,
-  };
-}
-
-function parseChangelogEntries(raw: string | null): ChangelogEntry[] | null {
-  if (raw === null) return null;
-  try {
-    const parsed = JSON.parse(raw) as unknown;
-    if (!Array.isArray(parsed)) return null;
-    return parsed
-      .slice(0, 10)
-      .map((entry) => normalizeChangelogEntry(entry))
-      .filter((entry): entry is ChangelogEntry => Boolean(entry));
-  } catch {
-    return null;
-  }
+// Repos whose changelog could not be loaded are left out rather than failing the fleet view.
+async function loadFleetChangelog(env: Env, trace?: CacheTrace): Promise<ChangelogEntry[]> {
+  const client = githubClient(env);
+  const repos = (await loadRegistryEntries(env, trace)).map((entry) => entry.repo);
+  const changelogs = await Promise.all(repos.map((repo) => loadRepoChangelog(client, repo, trace).catch(() => [])));
+  return changelogs.flat();
 }
 
-async function loadChangelog(env: Env): Promise<ChangelogEntry[]> {
-  const cached = parseChangelogEntries(await env.CLANKA_STATE.get(CHANGELOG_CACHE_KEY));
-  if (cached !== null) return cached;
-
-  const headers: Record<string, string> = {
-    "User-Agent": "clanka-api/1.0",
-    "Accept": "application/vnd.github.v3+json",
-  };
-  if (env.GITHUB_TOKEN) headers["Authorization"] = `Bearer ${env.GITHUB_TOKEN}`;
-
-  const res = await fetch(CHANGELOG_URL, { headers });
-  if (!res.ok) return [];
-
-  const body = await res.json() as unknown;
-  if (!Array.isArray(body)) return [];
-
-  const payload = body
-    .slice(0, 10)
-    .map((entry) => normalizeChangelogEntry(entry))
-    .filter((entry): entry is ChangelogEntry => Boolean(entry));
-
-  await env.CLANKA_STATE.put(CHANGELOG_CACHE_KEY, JSON.stringify(payload), {
-    expirationTtl: CHANGELOG_TTL_SEC,
-  });
-  return payload;
+async function applyPushToChangelog(env: Env, repo: string, payload: GithubWebhookPayload): Promise<boolean> {
+  if (payload.ref !== `refs/heads/${payload.repository?.default_branch ?? "main"}`) return false;
+
+  // Push payloads list commits oldest first; the changelog is newest first.
+  const pushed = (payload.commits ?? [])
+    .map((commit) => normalizeChangelogEntry({
+      sha: commit.id,
+      message: commit.message,
+      author: commit.author?.username || commit.author?.name || "unknown",
+      date: commit.timestamp,
+    }, repo))
+    .filter((entry): entry is ChangelogEntry => Boolean(entry))
+    .reverse();
+  return recordChangelogPush(env.CLANKA_STATE, repo, pushed);
 }
 
 function isFleetTier(value: unknown): value is FleetTier {
@@ -873,68 +698,35 @@ function parseRegistryEntries(raw: string | null): RegistryEntry[] | null {
   }
 }
 
-async function loadRegistryEntries(env: Env): Promise<RegistryEntry[]> {
-  const cachedEntries = parseRegistryEntries(await env.CLANKA_STATE.get(REGISTRY_CACHE_KEY));
-  if (cachedEntries !== null) return cachedEntries;
-
-  const staleEntries = parseRegistryEntries(await env.CLANKA_STATE.get(REGISTRY_STALE_CACHE_KEY));
-
+// `cached` is false when the registry had to be fetched inline (or could not be fetched at all).
+async function loadRegistry(env: Env, trace?: CacheTrace): Promise<{ entries: RegistryEntry[]; cached: boolean }> {
   try {
-    const headers: Record<string, string> = {
-      "User-Agent": "clanka-api/1.0",
-      "Accept": "application/vnd.github.v3+json",
-    };
-    if (env.GITHUB_TOKEN) headers["Authorization"] = `Bearer ${env.GITHUB_TOKEN}`;
-
-    const res = await fetch(REGISTRY_URL, { headers });
-    if (!res.ok) return staleEntries ?? [];
-    const meta = await res.json() as { content?: string };
-    if (typeof meta.content !== "string" || meta.content.length === 0) return staleEntries ?? [];
-    const json = decodeBase64(meta.content);
-    const entries = extractRegistryEntries(JSON.parse(json) as unknown);
-    await Promise.all([
-      env.CLANKA_STATE.put(REGISTRY_CACHE_KEY, JSON.stringify(entries), {
-        expirationTtl: REGISTRY_TTL_SEC,
-      }),
-      env.CLANKA_STATE.put(REGISTRY_STALE_CACHE_KEY, JSON.stringify(entries), {
-        expirationTtl: REGISTRY_STALE_TTL_SEC,
-      }),
-    ]);
-    return entries;
+    const result = await cachedFetch(env.CLANKA_STATE, REGISTRY_CACHE, () => fetchRegistryEntries(env), trace);
+    return { entries: result.value, cached: result.status !== "MISS" };
   } catch {
-    return staleEntries ?? [];
+    return { entries: [], cached: false };
   }
 }
 
-async function loadToolsRegistryEntries(env: Env): Promise<{ entries: RegistryEntry[]; cached: boolean }> {
-  const cachedEntries = parseRegistryEntries(await env.CLANKA_STATE.get(REGISTRY_CACHE_KEY));
-  if (cachedEntries !== null) {
-    return { entries: cachedEntries, cached: true };
-  }
-
-  try {
-    const headers: Record<string, string> = {
-      "User-Agent": "clanka-api/1.0",
-      "Accept": "application/vnd.github.v3+json",
-    };
-    if (env.GITHUB_TOKEN) headers["Authorization"] = `Bearer ${env.GITHUB_TOKEN}`;
+async function loadRegistryEntries(env: Env, trace?: CacheTrace): Promise<RegistryEntry[]> {
+  return (await loadRegistry(env, trace)).entries;
+}
 
-    const res = await fetch(REGISTRY_URL, { headers });
-    if (!res.ok) return { entries: [], cached: false };
-    const meta = await res.json() as { content?: string };
-    if (typeof meta.content !== "string" || meta.content.length === 0) {
-      return { entries: [], cached: false };
-    }
+async function refreshRegistryEntries(env: Env): Promise<RegistryEntry[]> {
+  const entries = await fetchRegistryEntries(env);
+  await writeCache(env.CLANKA_STATE, REGISTRY_CACHE, entries);
+  return entries;
+}
 
-    const decoded = decodeBase64(meta.content);
-    const entries = extractRegistryEntries(JSON.parse(decoded) as unknown);
-    await env.CLANKA_STATE.put(REGISTRY_CACHE_KEY, JSON.stringify(entries), {
-      expirationTtl: TOOLS_REGISTRY_TTL_SEC,
-    });
-    return { entries, cached: false };
-  } catch {
-    return { entries: [], cached: false };
+// Fetches and normalizes registry.json; throws when GitHub fails.
+async function fetchRegistryEntries(env: Env): Promise<RegistryEntry[]> {
+  const res = await githubGet(githubClient(env), REGISTRY_PATH);
+  if (!res.ok) throw new Error(`registry.json returned ${res.status}`);
+  const meta = (res.data ?? {}) as { content?: string };
+  if (typeof meta.content !== "string" || meta.content.length === 0) {
+    throw new Error("registry.json has no content");
   }
+  return extractRegistryEntries(JSON.parse(decodeBase64(meta.content)) as unknown);
 }
 
 function searchRegistryTools(entries: RegistryEntry[], query: string): RegistryEntry[] {
@@ -967,7 +759,8 @@ function searchRegistryTools(entries: RegistryEntry[], query: string): RegistryE
     .map((item) => item.entry);
 }
 
-function parseOpenTasksMarkdown(markdown: string): RepoTask[] {
+// Checked items are kept (as `done`) for `/board`; `/tasks` only lists the open ones.
+function parseTasksMarkdown(markdown: string): RepoTask[] {
   const lines = markdown.split(/\r?\n/);
   const tasks: RepoTask[] = [];
   let currentPriority: TaskPriority | null = null;
@@ -986,12 +779,12 @@ function parseOpenTasksMarkdown(markdown: string): RepoTask[] {
       continue;
     }
 
-    const match = line.match(/^\s*-\s\[\s\]\s\*\*(.+?)\*\*\s*$/);
+    const match = line.match(/^\s*-\s\[([\sxX])\]\s\*\*(.+?)\*\*\s*$/);
     if (match && currentPriority) {
       tasks.push({
         priority: currentPriority,
-        text: match[1].trim(),
-        done: false,
+        text: match[2].trim(),
+        done: match[1] !== " ",
       });
     }
   }
@@ -1001,20 +794,13 @@ function parseOpenTasksMarkdown(markdown: string): RepoTask[] {
 
 async function loadRepoTasks(env: Env, repo: string): Promise<RepoTask[]> {
   const repoName = repo.startsWith("clankamode/") ? repo.slice("clankamode/".length) : repo;
-  const url = `https://api.github.com/repos/clankamode/${repoName}/contents/TASKS.md`;
-  const headers: Record<string, string> = {
-    "User-Agent": "clanka-api/1.0",
-    "Accept": "application/vnd.github.v3+json",
-  };
-  if (env.GITHUB_TOKEN) headers["Authorization"] = `Bearer ${env.GITHUB_TOKEN}`;
-
   try {
-    const res = await fetch(url, { headers });
+    const res = await githubGet(githubClient(env), `/repos/clankamode/${repoName}/contents/TASKS.md`);
     if (!res.ok) return [];
-    const body = await res.json() as { content?: string };
+    const body = (res.data ?? {}) as { content?: string };
     if (!body.content) return [];
     const markdown = decodeBase64(body.content);
-    return parseOpenTasksMarkdown(markdown);
+    return parseTasksMarkdown(markdown);
   } catch {
     return [];
   }
@@ -1069,14 +855,12 @@ function parseFleetHealthPayload(raw: string | null): FleetHealthPayload | null
   };
 }
 
-function isFleetHealthFresh(payload: FleetHealthPayload): boolean {
-  const checkedAtMs = Date.parse(payload.checkedAt);
-  if (!Number.isFinite(checkedAtMs)) return false;
-  return Date.now() - checkedAtMs < FLEET_HEALTH_TTL_MS;
+function deriveRepoHealthStatus(repo: FleetRepoHealth): FleetHealthStatus {
+  return conclusionHealthStatus(repo.conclusion);
 }
 
-function deriveRepoHealthStatus(repo: FleetRepoHealth): FleetHealthStatus {
-  const conclusion = repo.conclusion.toLowerCase();
+function conclusionHealthStatus(value: string): FleetHealthStatus {
+  const conclusion = value.toLowerCase();
   if (conclusion === "success") return "GREEN";
   if (
     conclusion === "failure"
@@ -1118,6 +902,24 @@ function fleetCiTrendCacheKey(repo: string): string {
   return `ci:trend:${repo}:v1`;
 }
 
+function fleetCiCache(repo: string): CacheSpec<GithubWorkflowRun> {
+  return {
+    key: fleetCiCacheKey(repo),
+    freshSec: FLEET_CI_FRESH_SEC,
+    staleSec: FLEET_CI_STALE_SEC,
+    parse: parseWorkflowRunCache,
+  };
+}
+
+function fleetCiTrendCache(repo: string): CacheSpec<string[]> {
+  return {
+    key: fleetCiTrendCacheKey(repo),
+    freshSec: FLEET_CI_FRESH_SEC,
+    staleSec: FLEET_CI_STALE_SEC,
+    parse: parseConclusionsCache,
+  };
+}
+
 function parseWorkflowRun(run: unknown): GithubWorkflowRun | null {
   if (!run || typeof run !== "object" || Array.isArray(run)) return null;
 
@@ -1214,92 +1016,79 @@ function deriveTrendDirection(conclusions: string[]): FleetTrendDirection {
   return "flat";
 }
 
-async function loadRecentWorkflowConclusions(env: Env, repo: string): Promise<string[]> {
-  const cacheKey = fleetCiTrendCacheKey(repo);
-  const cached = parseConclusionsCache(await env.CLANKA_STATE.get(cacheKey));
-  if (cached !== null) return cached;
-  if (!env.GITHUB_TOKEN) return [];
-
-  const headers: Record<string, string> = {
-    "User-Agent": "clanka-api/1.0",
-    "Accept": "application/vnd.github.v3+json",
-    "Authorization": `token ${env.GITHUB_TOKEN}`,
-  };
+async function loadRecentWorkflowConclusions(env: Env, repo: string, trace?: CacheTrace): Promise<string[]> {
+  if (!githubAuthMode(env)) return [];
   try {
-    const runListUrl = `https://api.github.com/repos/${repo}/actions/runs?per_page=5`;
-    const res = await fetch(runListUrl, { headers });
-    if (!res.ok) return [];
-
-    const body = await res.json() as { workflow_runs?: unknown };
-    if (!Array.isArray(body.workflow_runs) || body.workflow_runs.length === 0) {
-      await env.CLANKA_STATE.put(cacheKey, JSON.stringify([]), {
-        expirationTtl: FLEET_CI_TTL_SEC,
-      });
-      return [];
-    }
-
-    const conclusions = body.workflow_runs
-      .slice(0, 5)
-      .map((run) => parseWorkflowRun(run))
-      .filter((run): run is GithubWorkflowRun => Boolean(run))
-      .map((run) => workflowRunToConclusion(run));
-
-    await env.CLANKA_STATE.put(cacheKey, JSON.stringify(conclusions), {
-      expirationTtl: FLEET_CI_TTL_SEC,
-    });
-    return conclusions;
+    const load = () => fetchRecentWorkflowConclusions(env, repo);
+    return (await cachedFetch(env.CLANKA_STATE, fleetCiTrendCache(repo), load, trace)).value;
   } catch {
     return [];
   }
 }
 
-async function loadLatestWorkflowRun(env: Env, repo: string): Promise<GithubWorkflowRun | null> {
-  const cacheKey = fleetCiCacheKey(repo);
-  const cached = parseWorkflowRunCache(await env.CLANKA_STATE.get(cacheKey));
-  if (cached) return cached;
-  if (!env.GITHUB_TOKEN) return null;
+async function fetchRecentWorkflowConclusions(env: Env, repo: string): Promise<string[]> {
+  return (await fetchWorkflowRuns(env, repo, 5)).map((run) => workflowRunToConclusion(run));
+}
 
-  const headers: Record<string, string> = {
-    "User-Agent": "clanka-api/1.0",
-    "Accept": "application/vnd.github.v3+json",
-    "Authorization": `token ${env.GITHUB_TOKEN}`,
-  };
+async function fetchWorkflowRuns(env: Env, repo: string, perPage: number): Promise<GithubWorkflowRun[]> {
+  const res = await githubGet(githubClient(env), `/repos/${repo}/actions/runs?per_page=${perPage}`);
+  if (!res.ok) throw new Error(`${repo} workflow runs returned ${res.status}`);
 
-  const runListUrl = `https://api.github.com/repos/${repo}/actions/runs?per_page=1`;
-  const res = await fetch(runListUrl, { headers });
-  if (!res.ok) {
-    throw new Error(`Failed to load workflow runs for ${repo}`);
-  }
+  const body = (res.data ?? {}) as { workflow_runs?: unknown };
+  return (Array.isArray(body.workflow_runs) ? body.workflow_runs : [])
+    .slice(0, perPage)
+    .map((run) => parseWorkflowRun(run))
+    .filter((run): run is GithubWorkflowRun => Boolean(run));
+}
 
-  const body = await res.json() as { workflow_runs?: unknown };
-  if (!Array.isArray(body.workflow_runs) || body.workflow_runs.length === 0) {
-    const noRun: GithubWorkflowRun = {
-      conclusion: null,
-      status: null,
-      name: null,
-      updatedAt: null,
-    };
-    await env.CLANKA_STATE.put(cacheKey, JSON.stringify(noRun), {
-      expirationTtl: FLEET_CI_TTL_SEC,
-    });
-    return noRun;
-  }
-  const latestRun = parseWorkflowRun(body.workflow_runs[0]);
-  if (!latestRun) {
-    return null;
+async function loadLatestWorkflowRun(env: Env, repo: string, trace?: CacheTrace): Promise<GithubWorkflowRun | null> {
+  if (!githubAuthMode(env)) return null;
+  const load = () => fetchLatestWorkflowRun(env, repo);
+  return (await cachedFetch(env.CLANKA_STATE, fleetCiCache(repo), load, trace)).value;
+}
+
+async function fetchLatestWorkflowRun(env: Env, repo: string): Promise<GithubWorkflowRun> {
+  const [latest] = await fetchWorkflowRuns(env, repo, 1);
+  return latest ?? { conclusion: null, status: null, name: null, updatedAt: null };
+}
+
+// One runs request fills both the latest-run and trend caches that the lazy loaders fetch separately.
+async function refreshRepoCi(env: Env, repo: string): Promise<void> {
+  const runs = await fetchWorkflowRuns(env, repo, 5);
+  const latest: GithubWorkflowRun = runs[0] ?? { conclusion: null, status: null, name: null, updatedAt: null };
+  await Promise.all([
+    writeCache(env.CLANKA_STATE, fleetCiCache(repo), latest),
+    writeCache(env.CLANKA_STATE, fleetCiTrendCache(repo), runs.map(workflowRunToConclusion)),
+  ]);
+}
+
+/**
+ * Stores a `workflow_run` delivery as the repo's latest run and, once completed, prepends its
+ * conclusion to a warm trend cache. The aggregated fleet health is dropped so the next read rebuilds
+ * it from the per-repo keys instead of serving the run it replaced.
+ */
+async function applyWorkflowRunDelivery(env: Env, repo: string, payload: GithubWebhookPayload): Promise<boolean> {
+  const run = parseWorkflowRun(payload.workflow_run);
+  if (!run) return false;
+  await writeCache(env.CLANKA_STATE, fleetCiCache(repo), run);
+
+  if (payload.action === "completed") {
+    const trendCache = fleetCiTrendCache(repo);
+    const conclusions = await readCache(env.CLANKA_STATE, trendCache);
+    if (conclusions !== null) {
+      await writeCache(env.CLANKA_STATE, trendCache, [workflowRunToConclusion(run), ...conclusions.value].slice(0, 5));
+    }
   }
-  await env.CLANKA_STATE.put(cacheKey, JSON.stringify(latestRun), {
-    expirationTtl: FLEET_CI_TTL_SEC,
-  });
-  return latestRun;
+  await env.CLANKA_STATE.delete(FLEET_HEALTH_CACHE.key);
+  return true;
 }
 
 function toFleetRepoHealth(
   entry: RegistryEntry,
   run: GithubWorkflowRun | null,
-  hasGithubToken: boolean,
+  hasGithubAuth: boolean,
 ): FleetRepoHealth {
-  const conclusion = !hasGithubToken
+  const conclusion = !hasGithubAuth
     ? "unknown"
     : run?.conclusion === null
       ? "null"
@@ -1313,33 +1102,35 @@ function toFleetRepoHealth(
   };
 }
 
-async function loadFleetHealthFromGithub(env: Env): Promise<FleetHealthPayload> {
-  const registryEntries = await loadRegistryEntries(env);
-  const hasGithubToken = typeof env.GITHUB_TOKEN === "string" && env.GITHUB_TOKEN.trim().length > 0;
+// Throws when no fleet health is cached and a repo's latest run cannot be loaded.
+async function loadFleetHealth(env: Env, trace?: CacheTrace): Promise<FleetHealthPayload> {
+  const load = () => buildFleetHealth(env, trace);
+  return (await cachedFetch(env.CLANKA_STATE, FLEET_HEALTH_CACHE, load, trace)).value;
+}
+
+async function buildFleetHealth(env: Env, trace?: CacheTrace): Promise<FleetHealthPayload> {
+  const registryEntries = await loadRegistryEntries(env, trace);
+  const hasGithubAuth = githubAuthMode(env) !== null;
   const repos = await Promise.all(
     registryEntries.map(async (entry) => {
-      const latestRun = await loadLatestWorkflowRun(env, entry.repo);
-      return toFleetRepoHealth(entry, latestRun, hasGithubToken);
+      const latestRun = await loadLatestWorkflowRun(env, entry.repo, trace);
+      return toFleetRepoHealth(entry, latestRun, hasGithubAuth);
     }),
   );
   repos.sort((a, b) => a.repo.localeCompare(b.repo));
 
-  const payload: FleetHealthPayload = {
+  return {
     status: deriveFleetHealthStatus(repos),
     repos,
     checkedAt: new Date().toISOString(),
   };
-  await env.CLANKA_STATE.put(FLEET_HEALTH_CACHE_KEY, JSON.stringify(payload), {
-    expirationTtl: FLEET_HEALTH_TTL_SEC,
-  });
-  return payload;
 }
 
-async function loadFleetTrendFromGithub(env: Env): Promise<FleetTrendPayload> {
-  const registryEntries = await loadRegistryEntries(env);
+async function loadFleetTrendFromGithub(env: Env, trace?: CacheTrace): Promise<FleetTrendPayload> {
+  const registryEntries = await loadRegistryEntries(env, trace);
   const repos = await Promise.all(
     registryEntries.map(async (entry) => {
-      const last5 = await loadRecentWorkflowConclusions(env, entry.repo);
+      const last5 = await loadRecentWorkflowConclusions(env, entry.repo, trace);
       return {
         repo: entry.repo,
         criticality: entry.criticality,
@@ -1364,22 +1155,12 @@ function fleetScoreValue(status: FleetHealthStatus): number {
   return 40;
 }
 
-async function loadFleetScorePayload(env: Env): Promise<FleetScorePayload> {
-  let health = parseFleetHealthPayload(await env.CLANKA_STATE.get(FLEET_HEALTH_CACHE_KEY));
-
-  if (!health || !isFleetHealthFresh(health)) {
-    try {
-      health = await loadFleetHealthFromGithub(env);
-    } catch {
-      if (!health) {
-        health = {
-          status: "UNKNOWN",
-          repos: [],
-          checkedAt: new Date().toISOString(),
-        };
-      }
-    }
-  }
+async function loadFleetScorePayload(env: Env, trace?: CacheTrace): Promise<FleetScorePayload> {
+  const health = await loadFleetHealth(env, trace).catch((): FleetHealthPayload => ({
+    status: "UNKNOWN",
+    repos: [],
+    checkedAt: new Date().toISOString(),
+  }));
 
   const statuses = health.repos.map((repo) => deriveRepoHealthStatus(repo));
   const healthyRepos = statuses.filter((status) => status === "GREEN").length;
@@ -1403,8 +1184,8 @@ async function loadFleetScorePayload(env: Env): Promise<FleetScorePayload> {
 async function collectCacheKeysToInvalidate(env: Env): Promise<string[]> {
   const keys = new Set<string>(CACHE_KEYS_TO_INVALIDATE);
   const [primaryRaw, staleRaw] = await Promise.all([
-    env.CLANKA_STATE.get(REGISTRY_CACHE_KEY),
-    env.CLANKA_STATE.get(REGISTRY_STALE_CACHE_KEY),
+    env.CLANKA_STATE.get(REGISTRY_CACHE.key),
+    env.CLANKA_STATE.get(LEGACY_REGISTRY_STALE_CACHE_KEY),
   ]);
   const entries = [
     ...(parseRegistryEntries(primaryRaw) ?? []),
@@ -1413,6 +1194,7 @@ async function collectCacheKeysToInvalidate(env: Env): Promise<string[]> {
   for (const entry of entries) {
     keys.add(fleetCiCacheKey(entry.repo));
     keys.add(fleetCiTrendCacheKey(entry.repo));
+    keys.add(changelogCacheKey(entry.repo));
   }
   return Array.from(keys).sort((a, b) => a.localeCompare(b));
 }
@@ -1447,61 +1229,9 @@ type GithubStatsPayload = {
   cachedAt: string;
 };
 
-async function loadGithubStats(env: Env): Promise<GithubStatsPayload> {
-  const cached = await env.CLANKA_STATE.get(GITHUB_STATS_CACHE_KEY);
-  if (cached) {
-    try {
-      return JSON.parse(cached) as GithubStatsPayload;
-    } catch { /* fall through */ }
-  }
-
-  const ghHeaders = {
-    "User-Agent": "clanka-api/1.0",
-    "Accept": "application/vnd.github.v3+json",
-  };
-
+async function loadGithubStats(env: Env, trace?: CacheTrace): Promise<GithubStatsPayload> {
   try {
-    const [userRes, reposRes] = await Promise.all([
-      fetch("https://api.github.com/users/clankamode", { headers: ghHeaders }),
-      fetch("https://api.github.com/users/clankamode/repos?per_page=100&type=owner", { headers: ghHeaders }),
-    ]);
-
-    type GhRepo = { stargazers_count: number; pushed_at: string; name: string };
-    const repos: GhRepo[] = reposRes.ok ? (await reposRes.json() as GhRepo[]) : [];
-
-    let repoCount = 0;
-    if (userRes.ok) {
-      const user = await userRes.json() as { public_repos?: number };
-      repoCount = user.public_repos ?? repos.length;
-    } else {
-      repoCount = repos.length;
-    }
-
-    const totalStars = repos.reduce((sum, r) => sum + (r.stargazers_count ?? 0), 0);
-
-    let lastPushedAt: string | null = null;
-    let lastPushedRepo: string | null = null;
-    for (const r of repos) {
-      if (!lastPushedAt || r.pushed_at > lastPushedAt) {
-        lastPushedAt = r.pushed_at;
-        lastPushedRepo = r.name;
-      }
-    }
-
-    const payload: GithubStatsPayload = {
-      repoCount,
-      totalStars,
-      lastPushedAt,
-      lastPushedRepo,
-      cachedAt: new Date().toISOString(),
-    };
-
-    try {
-      await env.CLANKA_STATE.put(GITHUB_STATS_CACHE_KEY, JSON.stringify(payload), { expirationTtl: GITHUB_STATS_TTL_SEC });
-    } catch {
-      // ignore cache write failures and still serve fresh data
-    }
-    return payload;
+    return (await cachedFetch(env.CLANKA_STATE, GITHUB_STATS_CACHE, () => fetchGithubStats(env), trace)).value;
   } catch {
     return {
       repoCount: 0,
@@ -1513,6 +1243,49 @@ async function loadGithubStats(env: Env): Promise<GithubStatsPayload> {
   }
 }
 
+async function refreshGithubStats(env: Env): Promise<GithubStatsPayload> {
+  const payload = await fetchGithubStats(env);
+  await writeCache(env.CLANKA_STATE, GITHUB_STATS_CACHE, payload);
+  return payload;
+}
+
+// Rebuilds the account stats from GitHub; throws when the repo list cannot be fetched.
+async function fetchGithubStats(env: Env): Promise<GithubStatsPayload> {
+  const client = githubClient(env);
+  type GhRepo = { stargazers_count: number; pushed_at: string; name: string };
+  const [userRes, repos] = await Promise.all([
+    githubGet(client, "/users/clankamode"),
+    githubGetAll(client, "/users/clankamode/repos?per_page=100&type=owner") as Promise<GhRepo[]>,
+  ]);
+
+  let repoCount = 0;
+  if (userRes.ok) {
+    const user = (userRes.data ?? {}) as { public_repos?: number };
+    repoCount = user.public_repos ?? repos.length;
+  } else {
+    repoCount = repos.length;
+  }
+
+  const totalStars = repos.reduce((sum, r) => sum + (r.stargazers_count ?? 0), 0);
+
+  let lastPushedAt: string | null = null;
+  let lastPushedRepo: string | null = null;
+  for (const r of repos) {
+    if (!lastPushedAt || r.pushed_at > lastPushedAt) {
+      lastPushedAt = r.pushed_at;
+      lastPushedRepo = r.name;
+    }
+  }
+
+  return {
+    repoCount,
+    totalStars,
+    lastPushedAt,
+    lastPushedRepo,
+    cachedAt: new Date().toISOString(),
+  };
+}
+
 // Fleet registry is now derived from the live registry — kept for any legacy references
 const FLEET_REGISTRY: FleetRepo[] = [];
 
@@ -1525,846 +1298,2371 @@ function safeParseJSON<T>(value: string | null, fallback: T): T {
   }
 }
 
-function makeHistoryHash(timestamp: number): string {
-  return Math.floor(timestamp).toString(16).slice(-8);
+// Names agents are known by in the stored team map (object keys, or `name`/`id` of array members).
+function teamMemberNames(team: unknown): string[] {
+  if (!team || typeof team !== "object") return [];
+  if (!Array.isArray(team)) return Object.keys(team);
+  return team.flatMap((member) => {
+    if (!member || typeof member !== "object") return [];
+    const { name, id } = member as { name?: unknown; id?: unknown };
+    return typeof name === "string" ? [name] : typeof id === "string" ? [id] : [];
+  });
 }
 
-function toHistoryEntry(value: unknown, fallbackTimestamp: number): HistoryEntry {
-  if (!value || typeof value !== "object") {
-    const ts = fallbackTimestamp;
-    return { timestamp: ts, desc: "activity", type: "event", hash: makeHistoryHash(ts) };
-  }
+const corsHeaders = {
+  "Content-Type": "application/json",
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, PUT, PATCH, DELETE, OPTIONS",
+  "Access-Control-Allow-Headers":
+    "Content-Type, Authorization, X-Admin-Token, ADMIN_TOKEN, X-Request-Id, X-Clanka-Timestamp, X-Clanka-Signature, "
+    + "If-Match, If-None-Match, If-Modified-Since, Last-Event-ID",
+  "Access-Control-Expose-Headers": "X-Request-Id, Retry-After, X-Next-Cursor, ETag, Last-Modified, Location, X-Cache, Age",
+};
+const noCacheHeaders = {
+  ...corsHeaders,
+  "Cache-Control": "no-store",
+};
 
-  const item = value as Record<string, unknown>;
-  const tsRaw = item.timestamp;
-  const timestamp = typeof tsRaw === "number" && Number.isFinite(tsRaw) ? tsRaw : fallbackTimestamp;
-  const desc = typeof item.desc === "string"
-    ? item.desc
-    : typeof item.message === "string"
-      ? item.message
-      : "activity";
-  const type = typeof item.type === "string" ? item.type : "event";
-  const hash = typeof item.hash === "string" && item.hash.length > 0 ? item.hash : makeHistoryHash(timestamp);
+type RouteContext = {
+  request: Request;
+  env: Env;
+  url: URL;
+  params: Record<string, string>;
+  headers: Record<string, string>;
+  requestId: string;
+  // Caller resolved by `enforceAuthPolicy`; null on public routes.
+  principal: AuthPrincipal | null;
+  // Parsed JSON body, already validated against `docs.requestBody` when the route declares one.
+  body: unknown;
+  // Subject of an audited action, for handlers whose target is not in the path or body (e.g. a new id).
+  auditTarget?: string;
+  // Cache lookups made while handling the request, reported as `X-Cache` and `Age`.
+  cache: CacheTrace;
+  // Keeps work running after the response is sent (`ctx.waitUntil`).
+  defer: (promise: Promise<unknown>) => void;
+};
+type RouteHandler = (c: RouteContext) => Promise<Response> | Response;
 
-  return { timestamp, desc, type, hash };
+function headersForCachePolicy(policy: CachePolicy): Record<string, string> {
+  return policy === "no-store" ? noCacheHeaders : corsHeaders;
 }
 
-function normalizeHistory(history: unknown): HistoryEntry[] {
-  if (!Array.isArray(history)) return [];
-  return history
-    .slice(0, HISTORY_LIMIT)
-    .map((entry, index) => toHistoryEntry(entry, Date.now() - index));
+function jsonResponse(payload: unknown, headers: Record<string, string>, status = 200): Response {
+  return new Response(JSON.stringify(payload), { status, headers });
 }
 
-function countActiveAgents(team: unknown): number {
-  if (!team || typeof team !== "object") return 0;
-
-  if (Array.isArray(team)) {
-    return team.reduce((count, member) => {
-      if (member && typeof member === "object" && (member as { status?: unknown }).status === "active") {
-        return count + 1;
-      }
-      return count;
-    }, 0);
-  }
-
-  return Object.values(team as Record<string, unknown>).reduce((count, member) => {
-    if (member === "active") return count + 1;
-    if (member && typeof member === "object" && (member as { status?: unknown }).status === "active") {
-      return count + 1;
-    }
-    return count;
-  }, 0);
+function errorResponse(
+  c: Pick<RouteContext, "headers" | "requestId">,
+  code: ErrorCode,
+  options: { message?: string; details?: unknown; headers?: Record<string, string> } = {},
+): Response {
+  return jsonResponse(
+    errorEnvelope(code, c.requestId, options),
+    { ...c.headers, ...options.headers },
+    ERROR_CATALOGUE[code].status,
+  );
 }
 
-export default {
-  async fetch(request: Request, env: Env, ctx?: WorkerExecutionContext): Promise<Response> {
-    const url = new URL(request.url);
+// Best-effort subject of an audited action: set by the handler, else the `:id`/`:ip` param or the body's `id`.
+function auditTarget(c: RouteContext): string | null {
+  if (c.auditTarget) return c.auditTarget;
+  const param = c.params.id ?? c.params.ip;
+  if (param) return param;
+  const id = c.body && typeof c.body === "object" ? (c.body as { id?: unknown }).id : undefined;
+  return typeof id === "string" ? id : null;
+}
 
-    // Helper for CORS headers
-    const corsHeaders = {
-      "Content-Type": "application/json",
-      "Access-Control-Allow-Origin": "*",
-      "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
-      "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Admin-Token, ADMIN_TOKEN",
-    };
-    const noCacheHeaders = {
-      ...corsHeaders,
-      "Cache-Control": "no-store",
-    };
+async function recordRouteAudit(c: RouteContext, action: string, status: number): Promise<void> {
+  await recordAuditEvent(c.env.CLANKA_STATE, {
+    timestamp: Date.now(),
+    action,
+    actor: c.principal?.name ?? "anonymous",
+    actorId: c.principal?.id ?? null,
+    target: auditTarget(c),
+    ip: getClientIp(c.request),
+    method: c.request.method,
+    path: c.url.pathname,
+    status,
+    requestId: c.requestId,
+  });
+}
 
-    const metricsUpdate = incrementMetrics(env);
-    if (ctx && typeof ctx.waitUntil === "function") {
-      ctx.waitUntil(metricsUpdate);
-    } else {
-      void metricsUpdate;
-    }
+// Returns an error response when the request does not satisfy the route's auth policy.
+// Signed requests authenticate by HMAC instead of a presented token; everything else goes through `authenticate`.
+async function resolvePrincipal(
+  c: RouteContext,
+  now: number,
+): Promise<{ principal: AuthPrincipal } | { error: ErrorCode; details?: unknown }> {
+  if (!isSignedRequest(c.request)) {
+    const principal = await authenticate(c.request, c.env);
+    return principal ? { principal } : { error: "unauthorized" };
+  }
+  const result = await verifySignedRequest(c.request, c.env.SIGNING_SECRET, c.env.CLANKA_STATE, now);
+  if (result.ok) return { principal: SIGNED_REQUEST_PRINCIPAL };
+  if (result.reason === "replayed") return { error: "request_replayed" };
+  return { error: "invalid_signature", details: { reason: result.reason } };
+}
 
-    const respond = (body?: BodyInit | null, init?: ResponseInit): Response => {
-      const response = new Response(body, init);
-      const logging = logRequest(env, request, response).catch(() => {
-        // ignore logging errors
-      });
-      if (ctx && typeof ctx.waitUntil === "function") {
-        ctx.waitUntil(logging);
-      } else {
-        void logging;
-      }
-      return response;
-    };
+async function enforceAuthPolicy(
+  auth: AuthPolicy,
+  c: RouteContext,
+): Promise<Response | null> {
+  if (auth.type === "none") return null;
 
-    if (request.method === "OPTIONS") {
-      return respond(null, { headers: corsHeaders });
-    }
+  const ip = getClientIp(c.request);
+  const now = Date.now();
+  const lockout = await loadLockout(c.env.CLANKA_STATE, ip, now);
+  const retryAfter = lockoutRetryAfter(lockout, now);
+  if (retryAfter > 0) {
+    return errorResponse(c, "auth_locked", {
+      details: { retryAfter },
+      headers: { "Retry-After": String(retryAfter) },
+    });
+  }
 
-    if (request.method === "GET" && isPublicGetEndpoint(url.pathname) && !isTestEnvironment()) {
-      const rateLimit = await checkRateLimit(env, request);
-      if (!rateLimit.allowed) {
-        return respond(JSON.stringify({ error: "Too Many Requests" }), {
-          status: 429,
-          headers: {
-            ...corsHeaders,
-            "Retry-After": String(rateLimit.retryAfter),
-          },
-        });
-      }
-    }
+  const resolved = await resolvePrincipal(c, now);
+  if ("error" in resolved) {
+    await recordAuthFailure(c.env.CLANKA_STATE, {
+      timestamp: now,
+      ip,
+      method: c.request.method,
+      path: c.url.pathname,
+      requestId: c.requestId,
+    });
+    await recordLockoutFailure(c.env.CLANKA_STATE, ip, lockout, now);
+    return errorResponse(c, resolved.error, { details: resolved.details });
+  }
+  const { principal } = resolved;
+  // Only an IP with a live key costs a write, so successful requests stay read-only.
+  if (lockout) {
+    await clearLockout(c.env.CLANKA_STATE, ip).catch(() => undefined);
+  }
+  if (!hasScope(principal, auth.scope)) {
+    return errorResponse(c, "forbidden", { details: { required: auth.scope } });
+  }
+  c.principal = principal;
+  return null;
+}
 
-    // Private endpoint to set state
-    if (url.pathname === "/set-presence" && request.method === "POST") {
-      if (!isAuthorized(request, env)) {
-        // Log failed auth attempt for audit
-        try {
-          const ip = request.headers.get('CF-Connecting-IP') || request.headers.get('X-Forwarded-For') || 'unknown';
-          const key = `auth_fail:${Date.now()}:${Math.floor(Math.random()*100000)}`;
-          const payload = JSON.stringify({ path: url.pathname, ip, timestamp: Date.now() });
-          await env.CLANKA_STATE.put(key, payload, { expirationTtl: 60 * 60 * 24 * 30 });
-        } catch (e) {
-          // ignore logging errors
-        }
-        return respond(`Unauthorized`, { status: 401 });
-      }
+function invalidTransition(c: RouteContext, from: PresenceState, to: PresenceState): Response {
+  return errorResponse(c, "invalid_transition", {
+    message: `Presence cannot change from ${from} to ${to}`,
+    details: { from, to, allowed: PRESENCE_TRANSITIONS[from] },
+  });
+}
 
-      const validationError = JSON.stringify({
-        error: "Invalid body: presence, team, and activity are required",
-      });
+async function handleSetPresence(c: RouteContext): Promise<Response> {
+  const { env, headers, defer } = c;
+  const payload = c.body as {
+    presence: { state?: PresenceState; message?: string };
+    team: Record<string, unknown>;
+    activity: Record<string, unknown>;
+    ttl?: number;
+  };
 
-      let body: unknown;
-      try {
-        body = await request.json();
-      } catch {
-        return respond(validationError, { status: 400, headers: corsHeaders });
-      }
+  const { presence, team, activity } = payload;
+  const state = presence.state ?? "active";
+  const message = presence.message;
+  const ttl = typeof payload.ttl === "number" && payload.ttl > 0
+    ? payload.ttl
+    : PRESENCE_DEFAULT_TTL_SEC;
+  const now = Date.now();
+  // Checked against the state after decay, so a system gone quiet has to come back as `active`.
+  const { effective } = await loadSystemPresence(env.CLANKA_STATE, now);
+  if (!canTransition(effective, state)) {
+    return invalidTransition(c, effective, state);
+  }
 
-      if (!body || typeof body !== "object" || Array.isArray(body)) {
-        return respond(validationError, { status: 400, headers: corsHeaders });
-      }
+  const currentTeamRaw = await env.CLANKA_STATE.get("team") || "{}";
+  const currentTeam = safeParseJSON<Record<string, unknown>>(currentTeamRaw, {});
+  const updatedTeam = { ...currentTeam, ...team };
+  await env.CLANKA_STATE.put("team", JSON.stringify(updatedTeam));
+
+  const entry = toHistoryEntry(activity, now);
+  await prependHistory(env.CLANKA_STATE, [entry]);
+
+  const presenceState = { state, message, timestamp: now };
+  await writePresence(env.CLANKA_STATE, presenceState, ttl);
+  defer(publishStreamEvents(env.STREAM_HUB, [
+    { type: "presence", data: presenceState },
+    { type: "history", data: entry },
+  ]));
+  return jsonResponse({ success: true }, headers);
+}
 
-      const payload = body as {
-        presence?: unknown;
-        team?: unknown;
-        activity?: unknown;
-        tasks?: unknown;
-        ttl?: unknown;
-      };
+async function handleHeartbeat(c: RouteContext): Promise<Response> {
+  const { env, headers, defer } = c;
+  const body = c.body as { history?: unknown[]; agent?: string };
+  if (body.agent !== undefined && !isAgentId(body.agent)) {
+    return errorResponse(c, "invalid_body", {
+      details: [{ path: "$.agent", expected: "an agent id other than `connect`", received: JSON.stringify(body.agent) }],
+    });
+  }
+  const now = Date.now();
+  const added = toHistoryBatch(body.history ?? [], now);
+  await prependHistory(env.CLANKA_STATE, added);
+  if (body.agent !== undefined) await touchAgent(env.CLANKA_STATE, body.agent, now);
+  await touchLastSeen(env.CLANKA_STATE, now);
+
+  const lastSeen = new Date(now).toISOString();
+  // Oldest first, so a client prepending each event ends up with the same order as `/history`.
+  defer(publishStreamEvents(env.STREAM_HUB, [
+    {
+      type: "heartbeat",
+      data: { status: "operational", last_seen: lastSeen, ...(body.agent !== undefined ? { agent: body.agent } : {}) },
+    },
+    ...added.reverse().map((entry): StreamPublish => ({ type: "history", data: entry })),
+  ]));
+  return jsonResponse({
+    success: true,
+    status: "operational",
+    last_seen: lastSeen,
+  }, headers);
+}
 
-      const hasPresence = payload.presence && typeof payload.presence === "object" && !Array.isArray(payload.presence);
-      const hasTeam = payload.team && typeof payload.team === "object" && !Array.isArray(payload.team);
-      const hasActivity = payload.activity && typeof payload.activity === "object" && !Array.isArray(payload.activity);
+async function loadHistory(env: Env, limit: number): Promise<HistoryEntry[]> {
+  const historyRaw = await env.CLANKA_STATE.get("history");
+  const historySource = safeParseJSON<unknown[]>(historyRaw, []);
+  return (Array.isArray(historySource) ? historySource : [])
+    .map((entry, index) => toHistoryEntry(entry, Date.now() - index))
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .slice(0, limit);
+}
 
-      if (!hasPresence || !hasTeam || !hasActivity) {
-        return respond(validationError, { status: 400, headers: corsHeaders });
-      }
+async function handleStream(c: RouteContext): Promise<Response> {
+  const hubs = c.env.STREAM_HUB;
+  if (!hubs) {
+    return errorResponse(c, "stream_unconfigured");
+  }
+  const headers = { ...c.headers, "Content-Type": "text/event-stream; charset=utf-8" };
+  // A HEAD response has no body to stream into, so it never opens a hub connection.
+  if (c.request.method === "HEAD") {
+    return new Response(null, { headers });
+  }
+  const lastEventId = c.request.headers.get("Last-Event-ID");
+  const hub = hubs.get(hubs.idFromName(STREAM_HUB_NAME));
+  const upstream = await hub.fetch(STREAM_HUB_CONNECT_URL, {
+    headers: lastEventId === null ? {} : { "Last-Event-ID": lastEventId },
+  }).catch(() => null);
+  // Relaying a hub error as a 200 event stream would keep `EventSource` clients reconnecting into it.
+  if (!upstream?.ok || !upstream.body) {
+    return errorResponse(c, "upstream_unavailable", { message: "The stream hub did not accept the connection" });
+  }
+  return new Response(upstream.body, { headers });
+}
 
-      const presence = payload.presence as { state?: unknown; message?: unknown };
-      const team = payload.team as Record<string, unknown>;
-      const activity = payload.activity as Record<string, unknown>;
-      const tasks = payload.tasks;
-      const state = typeof presence.state === "string" && presence.state.trim() ? presence.state.trim() : "active";
-      const message = typeof presence.message === "string" ? presence.message : undefined;
-      const ttl = typeof payload.ttl === "number" && Number.isFinite(payload.ttl) && payload.ttl > 0
-        ? payload.ttl
-        : 1800;
-
-      if (tasks !== undefined) {
-        await env.CLANKA_STATE.put("tasks", JSON.stringify(tasks));
-      }
+async function handleAgentConnect(c: RouteContext): Promise<Response> {
+  if (c.request.headers.get("Upgrade")?.toLowerCase() !== "websocket") {
+    return errorResponse(c, "upgrade_required", { headers: { "Upgrade": "websocket" } });
+  }
+  const hubs = c.env.AGENT_HUB;
+  if (!hubs) {
+    return errorResponse(c, "agents_unconfigured");
+  }
+  const agent = c.url.searchParams.get("agent") ?? c.principal?.name ?? "";
+  if (!isAgentId(agent)) {
+    return errorResponse(c, "invalid_query", {
+      message: "agent must be 1-64 letters, digits, `_`, `.` or `-` (defaults to the token name)",
+    });
+  }
+  const hub = hubs.get(hubs.idFromName(AGENT_HUB_NAME));
+  // The 101 carries the client end of the socket, so it goes back to the caller untouched.
+  return hub.fetch(AGENT_HUB_CONNECT_URL, { headers: { "Upgrade": "websocket", [AGENT_NAME_HEADER]: agent } });
+}
 
-      const currentTeamRaw = await env.CLANKA_STATE.get("team") || "{}";
-      const currentTeam = safeParseJSON<Record<string, unknown>>(currentTeamRaw, {});
-      const updatedTeam = { ...currentTeam, ...team };
-      await env.CLANKA_STATE.put("team", JSON.stringify(updatedTeam));
+async function handleAdminAgentCommand(c: RouteContext): Promise<Response> {
+  const hubs = c.env.AGENT_HUB;
+  if (!hubs) {
+    return errorResponse(c, "agents_unconfigured");
+  }
+  const { command, agent } = c.body as { command: AgentCommand; agent?: string };
+  const id = crypto.randomUUID();
+  const hub = hubs.get(hubs.idFromName(AGENT_HUB_NAME));
+  const upstream = await hub.fetch(AGENT_HUB_COMMAND_URL, {
+    method: "POST",
+    body: JSON.stringify({ id, command, agent: agent?.trim() }),
+  });
+  const { delivered } = await upstream.json() as { delivered: string[] };
+  c.auditTarget = agent?.trim() ?? "*";
+  return jsonResponse({ success: true, id, command, delivered }, c.headers);
+}
 
-      const historyRaw = await env.CLANKA_STATE.get("history") || "[]";
-      const history = normalizeHistory(safeParseJSON<unknown[]>(historyRaw, []));
-      const entry = toHistoryEntry(activity, Date.now());
-      history.unshift(entry);
-      await env.CLANKA_STATE.put("history", JSON.stringify(history.slice(0, HISTORY_LIMIT)));
+async function handleAgentsList({ env, headers }: RouteContext): Promise<Response> {
+  const now = Date.now();
+  const agents = (await loadAgents(env.CLANKA_STATE)).map((agent) => toAgentView(agent, now));
+  return jsonResponse({
+    agents,
+    count: agents.length,
+    online: agents.filter((agent) => agent.online).length,
+  }, headers);
+}
 
-      const now = Date.now();
-      await env.CLANKA_STATE.put(LAST_SEEN_KEY, String(now));
+async function handleAgent(c: RouteContext): Promise<Response> {
+  const agent = isAgentId(c.params.id) ? await loadAgent(c.env.CLANKA_STATE, c.params.id) : null;
+  if (!agent) {
+    return errorResponse(c, "agent_not_found");
+  }
+  return jsonResponse(toAgentView(agent, Date.now()), c.headers);
+}
 
-      await env.CLANKA_STATE.put("presence", JSON.stringify({ state, message, timestamp: now }), {
-        expirationTtl: ttl,
-      });
-      return respond(JSON.stringify({ success: true }), { headers: corsHeaders });
-    }
+async function handleAgentPresence(c: RouteContext): Promise<Response> {
+  const { id } = c.params;
+  if (!isAgentId(id)) {
+    return errorResponse(c, "invalid_path", { message: "Agent ids are 1-64 letters, digits, `_`, `.` or `-`, and not `connect`" });
+  }
+  const body = c.body as { state?: PresenceState; message?: string | null; task?: string | null; offlineAfterSec?: number };
+  const now = Date.now();
+  const result = await recordAgentPresence(c.env.CLANKA_STATE, id, {
+    state: body.state ?? "active",
+    message: body.message ?? null,
+    task: body.task ?? null,
+    offlineAfterSec: body.offlineAfterSec,
+  }, now);
+  if (!result.ok) {
+    return invalidTransition(c, result.from, result.to);
+  }
+  const { agent } = result;
+  await touchLastSeen(c.env.CLANKA_STATE, now);
+  c.defer(publishStreamEvents(c.env.STREAM_HUB, [{ type: "presence", data: agentPresenceEvent(agent) }]));
+  return jsonResponse(toAgentView(agent, now), c.headers);
+}
 
-    if (url.pathname === "/heartbeat" && request.method === "POST") {
-      if (!isAuthorized(request, env)) {
-        return respond("Unauthorized", { status: 401 });
-      }
+async function handlePresenceHistory(c: RouteContext): Promise<Response> {
+  const { env, url, headers } = c;
+  const now = Date.now();
+  const since = parseTimeParam(url.searchParams.get("since"));
+  if (since === undefined || (since !== null && (since > now || since < now - PRESENCE_HISTORY_MAX_DAYS * DAY_MS))) {
+    return errorResponse(c, "invalid_query", {
+      message: `since must be an ISO timestamp or epoch milliseconds within the last ${PRESENCE_HISTORY_MAX_DAYS} days`,
+    });
+  }
+  const [system, log] = await Promise.all([loadSystemPresence(env.CLANKA_STATE, now), loadPresenceLog(env.CLANKA_STATE)]);
+  const from = Math.floor((since ?? now - (PRESENCE_HISTORY_DEFAULT_DAYS - 1) * DAY_MS) / DAY_MS) * DAY_MS;
+  return jsonResponse({
+    since: new Date(from).toISOString(),
+    until: new Date(now).toISOString(),
+    state: system.effective,
+    days: presenceDays([...log, ...pendingPresenceDecay(log, system, now)], from, now),
+  }, headers);
+}
 
-      let body: unknown = {};
-      try {
-        body = await request.json();
-      } catch {
-        // allow empty body and treat as heartbeat-only ping
-      }
+async function handleHistory({ env, url, headers }: RouteContext): Promise<Response> {
+  const rawLimit = Number(url.searchParams.get("limit"));
+  const limit = Number.isFinite(rawLimit) && rawLimit > 0
+    ? Math.min(HISTORY_LIMIT, Math.floor(rawLimit))
+    : HISTORY_LIMIT;
 
-      if (body === null || typeof body !== "object" || Array.isArray(body)) {
-        return respond(JSON.stringify({ error: "Invalid body" }), {
-          status: 400,
-          headers: corsHeaders,
-        });
-      }
+  const history = await loadHistory(env, limit);
+  return jsonResponse({ history, count: history.length }, headers);
+}
 
-      const payload = body as { history?: unknown };
-      if (payload.history !== undefined && !Array.isArray(payload.history)) {
-        return respond(JSON.stringify({ error: "Invalid body: history must be an array" }), {
-          status: 400,
-          headers: corsHeaders,
-        });
-      }
+async function activeIncidents(kv: KVNamespace) {
+  return (await loadIncidents(kv)).filter(isIncidentActive).map(toIncidentSummary);
+}
 
-      const heartbeatHistory = payload.history ?? [];
-      if (Array.isArray(heartbeatHistory) && heartbeatHistory.some((entry) => !entry || typeof entry !== "object" || Array.isArray(entry))) {
-        return respond(JSON.stringify({ error: "Invalid body: history entries must be objects" }), {
-          status: 400,
-          headers: corsHeaders,
-        });
-      }
+async function handleStatus({ env, headers }: RouteContext): Promise<Response> {
+  return jsonResponse({
+    ok: true,
+    version: API_VERSION,
+    timestamp: new Date().toISOString(),
+    endpoints: STATUS_ENDPOINTS,
+    incidents: await activeIncidents(env.CLANKA_STATE),
+  }, headers);
+}
 
-      if (Array.isArray(heartbeatHistory) && heartbeatHistory.length > 0) {
-        const historyRaw = await env.CLANKA_STATE.get("history") || "[]";
-        const history = normalizeHistory(safeParseJSON<unknown[]>(historyRaw, []));
-        const now = Date.now();
-        for (let i = heartbeatHistory.length - 1; i >= 0; i -= 1) {
-          history.unshift(toHistoryEntry(heartbeatHistory[i], now - i));
-        }
-        await env.CLANKA_STATE.put("history", JSON.stringify(history.slice(0, HISTORY_LIMIT)));
-      }
+async function handleMetrics({ env, headers }: RouteContext): Promise<Response> {
+  const [metrics, quota] = await Promise.all([loadMetrics(env), loadGithubQuota(env.CLANKA_STATE)]);
+  return jsonResponse({
+    uptime_ms: Math.max(0, Date.now() - startTime),
+    requests_total: metrics.requests_total,
+    kv_hits: metrics.kv_hits,
+    kv_misses: metrics.kv_misses,
+    github_quota: quota && {
+      limit: quota.limit,
+      remaining: quota.remaining,
+      reset_at: quota.resetAt,
+      updated_at: quota.updatedAt,
+      low: isQuotaLow(quota),
+    },
+    timestamp: new Date().toISOString(),
+  }, headers);
+}
 
-      const now = Date.now();
-      await env.CLANKA_STATE.put(LAST_SEEN_KEY, String(now));
-      const startedRaw = await env.CLANKA_STATE.get("started");
-      if (!Number.isFinite(Number(startedRaw))) {
-        await env.CLANKA_STATE.put("started", String(now));
-      }
+const MINUTE_MS = 60 * 1000;
+const CRON_REPO_BATCH_SIZE = 5;
+const CRON_REPO_BATCH_PAUSE = { delayMs: 1000, jitterMs: 2000 };
 
-      return respond(JSON.stringify({
-        success: true,
-        status: "operational",
-        last_seen: new Date(now).toISOString(),
-      }), { headers: corsHeaders });
-    }
+function githubAuthMissing(env: Env): JobOutcome | null {
+  return githubAuthMode(env) ? null : { status: "skipped", detail: "GitHub credentials are not configured" };
+}
 
-    if (url.pathname === "/history") {
-      if (request.method !== "GET") {
-        return respond(JSON.stringify({ error: "Method Not Allowed" }), {
-          status: 405,
-          headers: corsHeaders,
-        });
-      }
+// The fleet sweep costs a request per repo, so it waits for the next quota window instead of failing each one.
+async function githubQuotaLow(env: Env): Promise<JobOutcome | null> {
+  const quota = await loadGithubQuota(env.CLANKA_STATE);
+  if (!quota || !isQuotaLow(quota)) return null;
+  return { status: "skipped", detail: `GitHub quota low (${quota.remaining}/${quota.limit}); resets at ${quota.resetAt}` };
+}
 
-      const rawLimit = Number(url.searchParams.get("limit"));
-      const limit = Number.isFinite(rawLimit) && rawLimit > 0
-        ? Math.min(HISTORY_LIMIT, Math.floor(rawLimit))
-        : HISTORY_LIMIT;
+// `checkedAt` moves on every rebuild, so only the overall status and each repo's run count as a change.
+function fleetHealthChanged(previous: FleetHealthPayload | null, next: FleetHealthPayload): boolean {
+  if (!previous) return true;
+  const fingerprint = (payload: FleetHealthPayload) => JSON.stringify([
+    payload.status,
+    payload.repos.map((repo) => [repo.repo, repo.conclusion, repo.lastRun]),
+  ]);
+  return fingerprint(previous) !== fingerprint(next);
+}
 
-      const historyRaw = await env.CLANKA_STATE.get("history");
-      const historySource = safeParseJSON<unknown[]>(historyRaw, []);
-      const history = (Array.isArray(historySource) ? historySource : [])
-        .map((entry, index) => toHistoryEntry(entry, Date.now() - index))
-        .sort((a, b) => b.timestamp - a.timestamp)
-        .slice(0, limit);
+function assertRepoBatchSucceeded(results: PromiseSettledResult<unknown>[]): void {
+  const failures = results.filter((result): result is PromiseRejectedResult => result.status === "rejected");
+  if (failures.length > 0) {
+    const reason = failures[0].reason instanceof Error ? failures[0].reason.message : String(failures[0].reason);
+    throw new Error(`${failures.length} of ${results.length} repos failed; first: ${reason}`);
+  }
+}
 
-      return respond(JSON.stringify({ history, count: history.length }), {
-        headers: corsHeaders,
-      });
-    }
+// A critical repo turning RED opens an incident, unless an unresolved one already covers it. Only the cron
+// `ci` job calls this, so incident writes never race a rebuild triggered by a read.
+async function openFleetIncidents(env: Env, health: FleetHealthPayload): Promise<void> {
+  const failing = health.repos.filter((repo) => repo.criticality === "critical" && deriveRepoHealthStatus(repo) === "RED");
+  const opened = await openIncidentsForFailures(env.CLANKA_STATE, failing);
+  if (!await publishStreamEvents(env.STREAM_HUB, opened.map((incident) => ({ type: "incident", data: incident })))) {
+    throw new Error(`${opened.length} incident events were not published`);
+  }
+}
 
-    if (url.pathname === "/status") {
-      if (request.method !== "GET") {
-        return respond(JSON.stringify({ error: "Method Not Allowed" }), {
-          status: 405,
-          headers: corsHeaders,
-        });
-      }
+async function refreshFleetCi(env: Env): Promise<JobOutcome> {
+  const missing = githubAuthMissing(env) ?? await githubQuotaLow(env);
+  if (missing) return missing;
+  const repos = (await loadRegistryEntries(env)).map((entry) => entry.repo);
+  const results = await inJitteredBatches(repos, CRON_REPO_BATCH_SIZE, CRON_REPO_BATCH_PAUSE, (repo) => refreshRepoCi(env, repo));
+  const previous = await readCache(env.CLANKA_STATE, FLEET_HEALTH_CACHE).catch(() => null);
+  // Rebuilt from the per-repo keys just written; repos that failed fall back to a lazy fetch. The lease
+  // keeps STALE reads from rebuilding it alongside.
+  const rebuildError = await claimRevalidateLease(env.CLANKA_STATE, FLEET_HEALTH_CACHE)
+    .then(() => buildFleetHealth(env))
+    .then(async (payload) => {
+      await writeCache(env.CLANKA_STATE, FLEET_HEALTH_CACHE, payload);
+      const published = !fleetHealthChanged(previous?.value ?? null, payload)
+        || await publishStreamEvents(env.STREAM_HUB, [{ type: "fleet-health", data: payload }]);
+      await openFleetIncidents(env, payload);
+      if (!published) throw new Error("the fleet-health event was not published");
+      return null;
+    })
+    .catch((error: unknown) => (error instanceof Error ? error.message : String(error)));
 
-      return respond(JSON.stringify({
-        ok: true,
-        version: API_VERSION,
-        timestamp: new Date().toISOString(),
-        endpoints: STATUS_ENDPOINTS,
-      }), { headers: noCacheHeaders });
-    }
+  // A failed repo usually explains a failed rebuild, so it is reported first.
+  assertRepoBatchSucceeded(results);
+  if (rebuildError !== null) throw new Error(`fleet health rebuild failed: ${rebuildError}`);
+  return { status: "success", detail: `refreshed ${repos.length} repos` };
+}
 
-    if (url.pathname === "/metrics") {
-      if (request.method !== "GET") {
-        return respond(JSON.stringify({ error: "Method Not Allowed" }), {
-          status: 405,
-          headers: corsHeaders,
-        });
-      }
+// Three requests per repo (commits, releases, tags), though ETags usually turn them into free 304s.
+async function refreshChangelogs(env: Env): Promise<JobOutcome> {
+  const missing = githubAuthMissing(env) ?? await githubQuotaLow(env);
+  if (missing) return missing;
+  const client = githubClient(env);
+  const repos = (await loadRegistryEntries(env)).map((entry) => entry.repo);
+  const results = await inJitteredBatches(repos, CRON_REPO_BATCH_SIZE, CRON_REPO_BATCH_PAUSE, (repo) => refreshRepoChangelog(client, repo));
+
+  assertRepoBatchSucceeded(results);
+  const commits = results.reduce((total, result) => total + (result.status === "fulfilled" ? result.value.length : 0), 0);
+  return { status: "success", detail: `${commits} commits from ${repos.length} repos` };
+}
 
-      const expectedToken = typeof env.ADMIN_TOKEN === "string" ? env.ADMIN_TOKEN.trim() : "";
-      if (!expectedToken) {
-        return respond(JSON.stringify({ error: "metrics_unavailable" }), {
-          status: 503,
-          headers: noCacheHeaders,
-        });
-      }
+// Ordered so later jobs read the registry the first one just refreshed.
+function backgroundJobs(env: Env): JobDefinition[] {
+  return [
+    {
+      name: "registry",
+      everyMs: 30 * MINUTE_MS,
+      run: async () => ({ status: "success", detail: `${(await refreshRegistryEntries(env)).length} entries` }),
+    },
+    { name: "ci", everyMs: 5 * MINUTE_MS, run: () => refreshFleetCi(env) },
+    {
+      name: "github_stats",
+      everyMs: 30 * MINUTE_MS,
+      run: async () => {
+        await refreshGithubStats(env);
+        return { status: "success" };
+      },
+    },
+    {
+      name: "github_events",
+      everyMs: 5 * MINUTE_MS,
+      run: async () => ({ status: "success", detail: `${(await refreshGithubEvents(githubClient(env))).length} events` }),
+    },
+    {
+      name: "changelog",
+      everyMs: 5 * MINUTE_MS,
+      run: () => refreshChangelogs(env),
+    },
+  ];
+}
 
-      const providedToken = request.headers.get("X-Admin-Token");
-      if (providedToken !== expectedToken) {
-        return respond(JSON.stringify({ error: "unauthorized" }), {
-          status: 401,
-          headers: noCacheHeaders,
-        });
-      }
+async function handleAdminJobs({ env, headers }: RouteContext): Promise<Response> {
+  const state = await loadJobsState(env.CLANKA_STATE);
+  return jsonResponse({
+    lastRun: state.lastRun,
+    jobs: backgroundJobs(env).map((job) => ({
+      name: job.name,
+      everySec: job.everyMs / 1000,
+      last: state.jobs[job.name] ?? null,
+    })),
+  }, headers);
+}
 
-      const metrics = await loadMetrics(env);
-      return respond(JSON.stringify({
-        uptime_ms: Math.max(0, Date.now() - startTime),
-        requests_total: metrics.requests_total,
-        kv_hits: metrics.kv_hits,
-        kv_misses: metrics.kv_misses,
-        timestamp: new Date().toISOString(),
-      }), { headers: noCacheHeaders });
-    }
+async function handleAdminRefresh({ env, headers }: RouteContext): Promise<Response> {
+  const keys = await collectCacheKeysToInvalidate(env);
+  await Promise.all(keys.map(async (key) => invalidateCacheKey(env, key)));
+  return jsonResponse({
+    success: true,
+    invalidated: keys.length,
+    keys,
+    timestamp: new Date().toISOString(),
+  }, headers);
+}
 
-    if (url.pathname === "/admin/refresh") {
-      if (request.method !== "POST") {
-        return respond(JSON.stringify({ error: "Method Not Allowed" }), {
-          status: 405,
-          headers: noCacheHeaders,
-        });
-      }
+async function handleAdminTokensList({ env, headers }: RouteContext): Promise<Response> {
+  const tokens = await loadApiTokens(env.CLANKA_STATE);
+  return jsonResponse({ tokens: tokens.map(describeApiToken) }, headers);
+}
 
-      const expectedToken = typeof env.ADMIN_TOKEN === "string" ? env.ADMIN_TOKEN.trim() : "";
-      if (!expectedToken) {
-        return respond(JSON.stringify({ error: "refresh_unavailable" }), {
-          status: 503,
-          headers: noCacheHeaders,
-        });
-      }
+async function handleAdminTokensCreate({ env, body, headers }: RouteContext): Promise<Response> {
+  const payload = body as { name: string; scopes: AuthScope[] };
+  const { token, record } = await mintApiToken(env.CLANKA_STATE, payload.name.trim(), payload.scopes);
+  return jsonResponse({ token, record: describeApiToken(record) }, headers, 201);
+}
 
-      const providedToken = request.headers.get("ADMIN_TOKEN");
-      if (providedToken !== expectedToken) {
-        return respond(JSON.stringify({ error: "unauthorized" }), {
-          status: 401,
-          headers: noCacheHeaders,
-        });
-      }
+async function handleAdminTokensRevoke(c: RouteContext): Promise<Response> {
+  const id = c.params.id;
+  if (!(await revokeApiToken(c.env.CLANKA_STATE, id))) {
+    return errorResponse(c, "token_not_found");
+  }
+  return jsonResponse({ success: true, id }, c.headers);
+}
 
-      const keys = await collectCacheKeysToInvalidate(env);
-      await Promise.all(keys.map(async (key) => invalidateCacheKey(env, key)));
-      return respond(JSON.stringify({
-        success: true,
-        invalidated: keys.length,
-        keys,
-        timestamp: new Date().toISOString(),
-      }), { headers: noCacheHeaders });
-    }
+async function handleAdminLockoutsList({ env, headers }: RouteContext): Promise<Response> {
+  const lockouts = await listLockouts(env.CLANKA_STATE);
+  return jsonResponse({
+    lockouts: Object.entries(lockouts).map(([ip, entry]) => ({
+      ip,
+      failures: entry.failures,
+      firstFailureAt: new Date(entry.firstFailureAt).toISOString(),
+      lockedUntil: entry.lockedUntil === null ? null : new Date(entry.lockedUntil).toISOString(),
+    })),
+  }, headers);
+}
 
-    if (url.pathname === "/status/uptime") {
-      if (request.method !== "GET") {
-        return respond(JSON.stringify({ error: "Method Not Allowed" }), {
-          status: 405,
-          headers: corsHeaders,
-        });
-      }
+async function handleAdminLockoutsClear({ env, headers }: RouteContext): Promise<Response> {
+  const cleared = Object.keys(await listLockouts(env.CLANKA_STATE));
+  await Promise.all(cleared.map((ip) => clearLockout(env.CLANKA_STATE, ip)));
+  return jsonResponse({ success: true, cleared }, headers);
+}
 
-      const lastSeenRaw = await env.CLANKA_STATE.get(LAST_SEEN_KEY);
-      return respond(JSON.stringify(getStatusUptimePayload(lastSeenRaw)), { headers: corsHeaders });
-    }
+async function handleAdminLockoutClear(c: RouteContext): Promise<Response> {
+  let ip: string;
+  try {
+    ip = decodeURIComponent(c.params.ip);
+  } catch {
+    return errorResponse(c, "invalid_path");
+  }
+  if (!(await loadLockout(c.env.CLANKA_STATE, ip))) {
+    return errorResponse(c, "lockout_not_found");
+  }
+  await clearLockout(c.env.CLANKA_STATE, ip);
+  return jsonResponse({ success: true, cleared: [ip] }, c.headers);
+}
 
-    if (url.pathname === "/health") {
-      if (request.method !== "GET") {
-        return respond(JSON.stringify({ error: "Method Not Allowed" }), {
-          status: 405,
-          headers: corsHeaders,
-        });
-      }
+function parseTimeParam(value: string | null): number | null | undefined {
+  if (value === null || value === "") return null;
+  const parsed = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
 
-      const lastSeenRaw = await env.CLANKA_STATE.get(LAST_SEEN_KEY);
-      return respond(JSON.stringify(getStatusPayload(lastSeenRaw)), { headers: corsHeaders });
-    }
+async function handleAdminAudit(c: RouteContext): Promise<Response> {
+  const { env, url, headers } = c;
+  const params = url.searchParams;
 
-    if (url.pathname === "/openapi.json") {
-      if (request.method !== "GET") {
-        return respond(JSON.stringify({ error: "Method Not Allowed" }), {
-          status: 405,
-          headers: corsHeaders,
-        });
-      }
+  const since = parseTimeParam(params.get("since"));
+  if (since === undefined) {
+    return errorResponse(c, "invalid_query", { message: "since must be an ISO timestamp or epoch milliseconds" });
+  }
+  const rawLimit = params.get("limit");
+  const limit = rawLimit === null ? AUDIT_DEFAULT_LIMIT : Number(rawLimit);
+  if (!Number.isInteger(limit) || limit < 1 || limit > AUDIT_MAX_LIMIT) {
+    return errorResponse(c, "invalid_query", { message: `limit must be an integer from 1 to ${AUDIT_MAX_LIMIT}` });
+  }
+  const rawCursor = params.get("cursor");
+  const cursor = rawCursor ? decodeAuditCursor(rawCursor) : null;
+  if (rawCursor && !cursor) {
+    return errorResponse(c, "invalid_query", { message: "cursor is not valid" });
+  }
+  const format = params.get("format") ?? "json";
+  if (format !== "json" && format !== "csv" && format !== "ndjson") {
+    return errorResponse(c, "invalid_query", { message: "format must be json, csv, or ndjson" });
+  }
 
-      return respond(JSON.stringify(OPENAPI_SPEC), {
-        headers: { ...corsHeaders },
-      });
-    }
+  const { events, nextCursor } = await queryAuditLog(env.CLANKA_STATE, {
+    since,
+    actor: params.get("actor") || null,
+    action: params.get("action") || null,
+    limit,
+    cursor,
+  });
 
-    if (url.pathname === "/fleet/summary") {
-      if (request.method !== "GET") {
-        return respond(JSON.stringify({ error: "Method Not Allowed" }), {
-          status: 405,
-          headers: corsHeaders,
-        });
-      }
+  if (format === "json") {
+    return jsonResponse({ events: events.map(toAuditRecord), nextCursor }, headers);
+  }
+  const exportHeaders: Record<string, string> = {
+    ...headers,
+    "Content-Type": format === "csv" ? "text/csv; charset=utf-8" : "application/x-ndjson",
+    "Content-Disposition": `attachment; filename="audit.${format}"`,
+  };
+  if (nextCursor) exportHeaders["X-Next-Cursor"] = nextCursor;
+  return new Response(format === "csv" ? toAuditCsv(events) : toAuditNdjson(events), { headers: exportHeaders });
+}
 
-      const registryEntries = await loadRegistryEntries(env);
-      const fleetItems: FleetRepo[] = registryEntries
-        .map((e) => ({
-          repo: e.repo,
-          criticality: e.criticality,
-          tier: e.tier,
-        }))
-        .sort((a, b) => a.repo.localeCompare(b.repo));
-
-      const tiers: Record<FleetTier, string[]> = {
-        ops: [],
-        infra: [],
-        core: [],
-        quality: [],
-        policy: [],
-        template: [],
-      };
-      const byCriticality: Record<FleetCriticality, string[]> = {
-        critical: [],
-        high: [],
-        medium: [],
-      };
-
-      for (const item of fleetItems) {
-        tiers[item.tier].push(item.repo);
-        byCriticality[item.criticality].push(item.repo);
-      }
-      for (const tier of Object.keys(tiers) as FleetTier[]) {
-        tiers[tier].sort((a, b) => a.localeCompare(b));
-      }
-      for (const criticality of Object.keys(byCriticality) as FleetCriticality[]) {
-        byCriticality[criticality].sort((a, b) => a.localeCompare(b));
-      }
+async function applyWebhookDelivery(env: Env, event: string, payload: GithubWebhookPayload, receivedAt: string): Promise<WebhookOutcome> {
+  const repo = webhookRepo(payload);
+  if (!isGithubWebhookEvent(event) || !repo) return "ignored";
 
-      return respond(
-        JSON.stringify({
-          generatedAt: new Date().toISOString(),
-          totalRepos: fleetItems.length,
-          repos: fleetItems,
-          tiers,
-          byCriticality,
-          source: "registry",
-        }),
-        { headers: corsHeaders },
-      );
-    }
+  let processed = false;
+  if (event === "workflow_run") {
+    processed = await applyWorkflowRunDelivery(env, repo, payload);
+  }
+  if (event === "push") {
+    processed = await applyPushToChangelog(env, repo, payload);
+  }
+  const feedEvent = toGithubEvent(event, payload, receivedAt);
+  if (feedEvent && await recordGithubEvent(env.CLANKA_STATE, feedEvent)) {
+    processed = true;
+  }
+  return processed ? "processed" : "ignored";
+}
 
-    if (url.pathname === "/fleet/health") {
-      if (request.method !== "GET") {
-        return respond(JSON.stringify({ error: "Method Not Allowed" }), {
-          status: 405,
-          headers: corsHeaders,
-        });
-      }
+/**
+ * Verifies the delivery against `GITHUB_WEBHOOK_SECRET`, skips ids already seen, and writes into
+ * the same caches the pollers fill. Signature failures are audited but do not count toward the IP
+ * lockout, since every delivery comes from GitHub's shared hook addresses.
+ */
+async function handleGithubWebhook(c: RouteContext): Promise<Response> {
+  const { env, request, headers } = c;
+  const secret = env.GITHUB_WEBHOOK_SECRET;
+  if (!secret) {
+    return errorResponse(c, "webhooks_unconfigured");
+  }
 
-      const cachedPayload = parseFleetHealthPayload(await env.CLANKA_STATE.get(FLEET_HEALTH_CACHE_KEY));
-      if (cachedPayload && isFleetHealthFresh(cachedPayload)) {
-        return respond(JSON.stringify(cachedPayload), { headers: corsHeaders });
-      }
+  const body = await request.text();
+  const verified = await verifyGithubSignature(secret, body, request.headers.get(GITHUB_SIGNATURE_HEADER));
+  if (!verified.ok) {
+    await recordAuthFailure(env.CLANKA_STATE, {
+      timestamp: Date.now(),
+      ip: getClientIp(request),
+      method: request.method,
+      path: c.url.pathname,
+      requestId: c.requestId,
+    });
+    return errorResponse(c, "invalid_signature", { details: { reason: verified.reason } });
+  }
 
-      try {
-        const payload = await loadFleetHealthFromGithub(env);
-        return respond(JSON.stringify(payload), { headers: corsHeaders });
-      } catch {
-        if (cachedPayload) {
-          return respond(JSON.stringify(cachedPayload), { headers: corsHeaders });
-        }
-        return respond(JSON.stringify({ error: "Service Unavailable" }), {
-          status: 503,
-          headers: corsHeaders,
-        });
-      }
-    }
+  const event = request.headers.get(GITHUB_EVENT_HEADER)?.trim() ?? "";
+  const delivery = request.headers.get(GITHUB_DELIVERY_HEADER)?.trim() ?? "";
+  if (!event || !delivery) {
+    return errorResponse(c, "invalid_webhook", {
+      message: `${GITHUB_EVENT_HEADER} and ${GITHUB_DELIVERY_HEADER} headers are required`,
+    });
+  }
+  if (await findDelivery(env.CLANKA_STATE, delivery)) {
+    return jsonResponse({ delivery, event, outcome: "duplicate" }, headers);
+  }
 
-    if (url.pathname === "/fleet/score") {
-      if (request.method !== "GET") {
-        return respond(JSON.stringify({ error: "Method Not Allowed" }), {
-          status: 405,
-          headers: corsHeaders,
-        });
-      }
+  const payload = safeParseJSON<unknown>(body, null);
+  if (!payload || typeof payload !== "object" || Array.isArray(payload)) {
+    return errorResponse(c, "invalid_webhook", { message: "Payload must be a JSON object; set the content type to application/json" });
+  }
 
-      const payload = await loadFleetScorePayload(env);
-      return respond(JSON.stringify(payload), { headers: corsHeaders });
-    }
+  const receivedAt = new Date().toISOString();
+  const webhookPayload = payload as GithubWebhookPayload;
+  const outcome = await applyWebhookDelivery(env, event, webhookPayload, receivedAt);
+  // Recorded after the writes, so a delivery that fails midway is retried rather than skipped.
+  await recordDelivery(env.CLANKA_STATE, {
+    id: delivery,
+    event,
+    action: typeof webhookPayload.action === "string" ? webhookPayload.action : null,
+    repo: webhookRepo(webhookPayload),
+    outcome,
+    receivedAt,
+  });
+  return jsonResponse({ delivery, event, outcome }, headers);
+}
 
-    if (url.pathname === "/pulse") {
-      if (request.method !== "GET") {
-        return respond(JSON.stringify({ error: "Method Not Allowed" }), {
-          status: 405,
-          headers: corsHeaders,
-        });
-      }
+async function handleAdminWebhookDeliveries(c: RouteContext): Promise<Response> {
+  const params = c.url.searchParams;
+  const rawLimit = params.get("limit");
+  const limit = rawLimit === null ? DELIVERIES_DEFAULT_LIMIT : Number(rawLimit);
+  if (!Number.isInteger(limit) || limit < 1 || limit > DELIVERIES_MAX_LIMIT) {
+    return errorResponse(c, "invalid_query", { message: `limit must be an integer from 1 to ${DELIVERIES_MAX_LIMIT}` });
+  }
+  const deliveries = await listDeliveries(c.env.CLANKA_STATE, { event: params.get("event") || null, limit });
+  return jsonResponse({ deliveries, count: deliveries.length }, c.headers);
+}
 
-      const [presenceRaw, historyRaw, teamRaw] = await Promise.all([
-        env.CLANKA_STATE.get("presence"),
-        env.CLANKA_STATE.get("history"),
-        env.CLANKA_STATE.get("team"),
-      ]);
-      const presence = safeParseJSON<{ state?: string; timestamp?: number } | null>(presenceRaw, null);
-      const history = normalizeHistory(safeParseJSON<unknown[]>(historyRaw || "[]", []));
-      const team = safeParseJSON<unknown>(teamRaw || "{}", {});
-      const agentsActive = countActiveAgents(team);
-
-      return respond(
-        JSON.stringify({
-          ts: new Date().toISOString(),
-          status: presence?.state || "active",
-          agents_active: agentsActive,
-          last_event_desc: history[0]?.desc || null,
-        }),
-        { headers: corsHeaders },
-      );
-    }
+async function handleStatusUptime(c: RouteContext): Promise<Response> {
+  const { env, url, headers } = c;
+  const window = url.searchParams.get("window") ?? "24h";
+  if (!isUptimeWindow(window)) {
+    return errorResponse(c, "invalid_query", { message: `window must be one of ${Object.keys(UPTIME_WINDOWS).join(", ")}` });
+  }
+  const now = Date.now();
+  const [lastSeenRaw, started, report] = await Promise.all([
+    env.CLANKA_STATE.get(LAST_SEEN_KEY),
+    loadStarted(env.CLANKA_STATE),
+    loadUptimeReport(env.CLANKA_STATE, window, now),
+  ]);
+  return jsonResponse({ ...getStatusUptimePayload(lastSeenRaw, started, now), window, ...report }, headers);
+}
 
-    // Tasks CRUD (admin only)
-    if (url.pathname === "/admin/tasks") {
-      if (!isAuthorized(request, env)) {
-        return respond('Unauthorized', { status: 401 });
-      }
+async function handleHealth({ env, headers }: RouteContext): Promise<Response> {
+  const lastSeenRaw = await env.CLANKA_STATE.get(LAST_SEEN_KEY);
+  return jsonResponse(getStatusPayload(lastSeenRaw), headers);
+}
 
-      if (request.method === 'GET') {
-        const tasksRaw = await env.CLANKA_STATE.get("tasks") || "[]";
-        const tasks = safeParseJSON<unknown[]>(tasksRaw, []);
-        return respond(JSON.stringify(tasks), { headers: corsHeaders });
-      }
+function handleOpenApi({ headers }: RouteContext): Response {
+  return jsonResponse(OPENAPI_SPEC, headers);
+}
 
-      if (request.method === 'POST') {
-        const body = await request.json();
-        const tasksRaw = await env.CLANKA_STATE.get("tasks") || "[]";
-        const tasks = safeParseJSON<unknown[]>(tasksRaw, []);
-        tasks.push(body);
-        await env.CLANKA_STATE.put("tasks", JSON.stringify(tasks));
-        return respond(JSON.stringify({ success: true }), { headers: corsHeaders });
-      }
+async function handleFleetSummary({ env, headers, cache }: RouteContext): Promise<Response> {
+  const registryEntries = await loadRegistryEntries(env, cache);
+  const fleetItems: FleetRepo[] = registryEntries
+    .map((e) => ({
+      repo: e.repo,
+      criticality: e.criticality,
+      tier: e.tier,
+    }))
+    .sort((a, b) => a.repo.localeCompare(b.repo));
+
+  const tiers: Record<FleetTier, string[]> = {
+    ops: [],
+    infra: [],
+    core: [],
+    quality: [],
+    policy: [],
+    template: [],
+  };
+  const byCriticality: Record<FleetCriticality, string[]> = {
+    critical: [],
+    high: [],
+    medium: [],
+  };
 
-      if (request.method === 'PUT') {
-        const body = await request.json();
-        const tasksRaw = await env.CLANKA_STATE.get("tasks") || "[]";
-        const tasks = safeParseJSON<unknown[]>(tasksRaw, []);
-        const nextTasks = tasks.map((task) => {
-          if (!task || typeof task !== "object" || Array.isArray(task)) return task;
-          const item = task as { id?: unknown };
-          return item.id === (body as { id?: unknown }).id
-            ? { ...task, ...body as Record<string, unknown> }
-            : task;
-        });
-        await env.CLANKA_STATE.put("tasks", JSON.stringify(nextTasks));
-        return respond(JSON.stringify({ success: true }), { headers: corsHeaders });
-      }
+  for (const item of fleetItems) {
+    tiers[item.tier].push(item.repo);
+    byCriticality[item.criticality].push(item.repo);
+  }
+  for (const tier of Object.keys(tiers) as FleetTier[]) {
+    tiers[tier].sort((a, b) => a.localeCompare(b));
+  }
+  for (const criticality of Object.keys(byCriticality) as FleetCriticality[]) {
+    byCriticality[criticality].sort((a, b) => a.localeCompare(b));
+  }
 
-      if (request.method === 'DELETE') {
-        const body = await request.json() as { id?: unknown };
-        const tasksRaw = await env.CLANKA_STATE.get("tasks") || "[]";
-        const tasks = safeParseJSON<unknown[]>(tasksRaw, []);
-        const nextTasks = tasks.filter((task) => {
-          if (!task || typeof task !== "object" || Array.isArray(task)) return true;
-          return (task as { id?: unknown }).id !== body.id;
-        });
-        await env.CLANKA_STATE.put("tasks", JSON.stringify(nextTasks));
-        return respond(JSON.stringify({ success: true }), { headers: corsHeaders });
-      }
+  return jsonResponse({
+    generatedAt: new Date().toISOString(),
+    totalRepos: fleetItems.length,
+    repos: fleetItems,
+    tiers,
+    byCriticality,
+    source: "registry",
+  }, headers);
+}
 
-      return respond(JSON.stringify({ error: "Method Not Allowed" }), {
-        status: 405,
-        headers: corsHeaders,
-      });
-    }
+async function handleFleetHealth(c: RouteContext): Promise<Response> {
+  try {
+    const payload = await loadFleetHealth(c.env, c.cache);
+    return jsonResponse(payload, c.headers);
+  } catch {
+    return errorResponse(c, "upstream_unavailable");
+  }
+}
 
-    if (url.pathname === "/admin/activity") {
-      if (!isAuthorized(request, env)) {
-        return respond("Unauthorized", { status: 401 });
-      }
+async function handleFleetScore({ env, headers, cache }: RouteContext): Promise<Response> {
+  const payload = await loadFleetScorePayload(env, cache);
+  return jsonResponse(payload, headers);
+}
 
-      if (request.method !== "POST") {
-        return respond(JSON.stringify({ error: "Method Not Allowed" }), {
-          status: 405,
-          headers: corsHeaders,
-        });
-      }
+// Once any agent has reported in, the most recently seen online agent speaks for the system.
+function onlineAgents(agents: AgentRecord[], now: number): AgentRecord[] {
+  return agents.filter((agent) => isAgentOnline(agent, now)).sort((a, b) => b.lastSeen - a.lastSeen);
+}
 
-      const body = await request.json() as { desc?: unknown; type?: unknown };
-      const desc = typeof body.desc === "string" ? body.desc.trim() : "";
-      const type = typeof body.type === "string" ? body.type.trim() : "";
-      if (!desc || !type) {
-        return respond(JSON.stringify({ error: "Invalid body" }), {
-          status: 400,
-          headers: corsHeaders,
-        });
-      }
+function presenceStatus(agents: AgentRecord[], online: AgentRecord[], system: PresenceState, now: number): PresenceState {
+  if (agents.length === 0) return system;
+  return online[0] ? agentState(online[0], now) : "offline";
+}
 
-      const historyRaw = await env.CLANKA_STATE.get("history") || "[]";
-      const history = normalizeHistory(safeParseJSON<unknown[]>(historyRaw, []));
-      const entry = toHistoryEntry({ desc, type }, Date.now());
-      history.unshift(entry);
-      const nextHistory = history.slice(0, HISTORY_LIMIT);
-      await env.CLANKA_STATE.put("history", JSON.stringify(nextHistory));
+async function handlePulse({ env, headers }: RouteContext): Promise<Response> {
+  const now = Date.now();
+  const [system, historyRaw, agents] = await Promise.all([
+    loadSystemPresence(env.CLANKA_STATE, now),
+    env.CLANKA_STATE.get("history"),
+    loadAgents(env.CLANKA_STATE),
+  ]);
+  const history = normalizeHistory(safeParseJSON<unknown[]>(historyRaw || "[]", []));
+  const online = onlineAgents(agents, now);
+
+  return jsonResponse({
+    ts: new Date(now).toISOString(),
+    status: presenceStatus(agents, online, system.effective, now),
+    agents_active: online.length,
+    last_event_desc: history[0]?.desc || null,
+  }, headers);
+}
 
-      return respond(JSON.stringify({ success: true, entry }), { headers: corsHeaders });
-    }
+// Returns an `invalid_body` response when the assignee is not a known team member.
+async function checkTaskAssignee(c: RouteContext, assignee: string | null | undefined): Promise<Response | null> {
+  if (assignee === undefined || assignee === null) return null;
+  const team = safeParseJSON<unknown>(await c.env.CLANKA_STATE.get("team") || "{}", {});
+  const members = teamMemberNames(team);
+  if (members.includes(assignee)) return null;
+  return errorResponse(c, "invalid_body", {
+    details: [{
+      path: "$.assignee",
+      expected: members.length > 0 ? `one of ${members.join(", ")}` : "a team member",
+      received: JSON.stringify(assignee),
+    }],
+  });
+}
 
-    if (url.pathname === "/projects") {
-      if (request.method !== "GET") {
-        return respond(JSON.stringify({ error: "Method Not Allowed" }), {
-          status: 405,
-          headers: corsHeaders,
-        });
-      }
+function taskResponse(task: Task, headers: Record<string, string>, status = 200): Response {
+  return jsonResponse(task, { ...headers, ETag: taskEtag(task) }, status);
+}
 
-      const entries = await loadRegistryEntries(env);
-      const projects = entries.length > 0
-        ? registryEntriesToProjects(entries)
-        : [];
+// Resolves `:id` against the stored tasks, or returns the error response to send.
+async function findTask(c: RouteContext): Promise<{ tasks: Task[]; task: Task } | Response> {
+  let id: string;
+  try {
+    id = decodeURIComponent(c.params.id);
+  } catch {
+    return errorResponse(c, "invalid_path");
+  }
+  const tasks = await loadTasks(c.env.CLANKA_STATE);
+  const task = tasks.find((item) => item.id === id);
+  if (!task) return errorResponse(c, "task_not_found");
+  return { tasks, task };
+}
 
-      return respond(
-        JSON.stringify({ projects, source: "registry", cached: true }),
-        { headers: corsHeaders },
-      );
-    }
+function preconditionFailed(c: RouteContext, task: Task): Response {
+  return errorResponse(c, "precondition_failed", {
+    details: { etag: taskEtag(task) },
+    headers: { ETag: taskEtag(task) },
+  });
+}
 
-    if (url.pathname === "/tools/search") {
-      if (request.method !== "GET") {
-        return respond(JSON.stringify({ error: "Method Not Allowed" }), {
-          status: 405,
-          headers: corsHeaders,
-        });
-      }
+async function handleAdminTasksList(c: RouteContext): Promise<Response> {
+  const parsed = parseTaskQuery(c.url.searchParams);
+  if (!parsed.ok) {
+    return errorResponse(c, "invalid_query", { message: parsed.message });
+  }
+  const tasks = queryTasks(await loadTasks(c.env.CLANKA_STATE), parsed.query);
+  return jsonResponse({ tasks, count: tasks.length }, c.headers);
+}
 
-      const query = url.searchParams.get("q")?.trim() || "";
-      if (!query) {
-        return respond(JSON.stringify({ error: "Missing query parameter: q" }), {
-          status: 400,
-          headers: corsHeaders,
-        });
-      }
+async function handleAdminTasksCreate(c: RouteContext): Promise<Response> {
+  const input = c.body as TaskInput & { title: string };
+  const invalidAssignee = await checkTaskAssignee(c, input.assignee);
+  if (invalidAssignee) return invalidAssignee;
 
-      const { entries, cached } = await loadToolsRegistryEntries(env);
-      const tools = searchRegistryTools(entries, query);
-      return respond(JSON.stringify({
-        query,
-        count: tools.length,
-        tools,
-        cached,
-        timestamp: new Date().toISOString(),
-      }), { headers: corsHeaders });
-    }
+  const tasks = await loadTasks(c.env.CLANKA_STATE);
+  const task = createTask(input);
+  await saveTasks(c.env.CLANKA_STATE, [...tasks, task]);
+  c.auditTarget = task.id;
+  return taskResponse(task, { ...c.headers, Location: `/admin/tasks/${encodeURIComponent(task.id)}` }, 201);
+}
 
-    if (url.pathname === "/tools") {
-      if (request.method !== "GET") {
-        return respond(JSON.stringify({ error: "Method Not Allowed" }), {
-          status: 405,
-          headers: corsHeaders,
-        });
-      }
+async function handleAdminTaskGet(c: RouteContext): Promise<Response> {
+  const found = await findTask(c);
+  if (found instanceof Response) return found;
+  return taskResponse(found.task, c.headers);
+}
 
-      const { entries, cached } = await loadToolsRegistryEntries(env);
-
-      return respond(
-        JSON.stringify({
-          tools: entries,
-          count: entries.length,
-          cached,
-          timestamp: new Date().toISOString(),
-        }),
-        { headers: corsHeaders },
-      );
-    }
+async function handleAdminTaskPatch(c: RouteContext): Promise<Response> {
+  const found = await findTask(c);
+  if (found instanceof Response) return found;
+  if (!ifMatchSatisfied(c.request.headers.get("If-Match"), found.task)) {
+    return preconditionFailed(c, found.task);
+  }
+  const patch = c.body as TaskInput;
+  const invalidAssignee = await checkTaskAssignee(c, patch.assignee);
+  if (invalidAssignee) return invalidAssignee;
 
-    if (url.pathname.startsWith("/tools/")) {
-      if (request.method !== "GET") {
-        return respond(JSON.stringify({ error: "Method Not Allowed" }), {
-          status: 405,
-          headers: corsHeaders,
-        });
-      }
+  const updated = applyTaskPatch(found.task, patch);
+  await saveTasks(c.env.CLANKA_STATE, found.tasks.map((task) => (task.id === updated.id ? updated : task)));
+  return taskResponse(updated, c.headers);
+}
 
-      let rawRepo = "";
-      try {
-        rawRepo = decodeURIComponent(url.pathname.slice("/tools/".length)).trim();
-      } catch {
-        return respond(JSON.stringify({ error: "Invalid repo path" }), {
-          status: 400,
-          headers: corsHeaders,
-        });
-      }
-      const { entries, cached } = await loadToolsRegistryEntries(env);
-      const match = entries.find((entry) => entry.repo.toLowerCase() === rawRepo.toLowerCase());
-      if (!match) {
-        return respond(JSON.stringify({ error: "Tool Not Found" }), {
-          status: 404,
-          headers: corsHeaders,
-        });
-      }
+async function handleAdminTaskDelete(c: RouteContext): Promise<Response> {
+  const found = await findTask(c);
+  if (found instanceof Response) return found;
+  if (!ifMatchSatisfied(c.request.headers.get("If-Match"), found.task)) {
+    return preconditionFailed(c, found.task);
+  }
+  await saveTasks(c.env.CLANKA_STATE, found.tasks.filter((task) => task.id !== found.task.id));
+  return jsonResponse({ success: true, id: found.task.id }, c.headers);
+}
 
-      return respond(JSON.stringify({
-        tool: match,
-        cached,
-        timestamp: new Date().toISOString(),
-      }), { headers: corsHeaders });
-    }
+// Resolves `:id` against the stored incidents, or returns the error response to send.
+async function findIncident(c: RouteContext): Promise<{ incidents: Incident[]; incident: Incident } | Response> {
+  let id: string;
+  try {
+    id = decodeURIComponent(c.params.id);
+  } catch {
+    return errorResponse(c, "invalid_path");
+  }
+  const incidents = await loadIncidents(c.env.CLANKA_STATE);
+  const incident = incidents.find((item) => item.id === id);
+  if (!incident) return errorResponse(c, "incident_not_found");
+  return { incidents, incident };
+}
 
-    if (url.pathname === "/fleet/trend") {
-      if (request.method !== "GET") {
-        return respond(JSON.stringify({ error: "Method Not Allowed" }), {
-          status: 405,
-          headers: corsHeaders,
-        });
-      }
+async function handleIncidentsList(c: RouteContext): Promise<Response> {
+  const status = c.url.searchParams.get("status");
+  if (status !== null && status !== "active" && !isOneOf(INCIDENT_STATUSES, status)) {
+    return errorResponse(c, "invalid_query", { message: `status must be active or one of ${INCIDENT_STATUSES.join(", ")}` });
+  }
+  const all = await loadIncidents(c.env.CLANKA_STATE);
+  const incidents = all.filter((incident) => status === null
+    || (status === "active" ? isIncidentActive(incident) : incident.status === status));
+  return jsonResponse({ incidents, count: incidents.length, active: all.filter(isIncidentActive).length }, c.headers);
+}
 
-      const payload = await loadFleetTrendFromGithub(env);
-      return respond(JSON.stringify(payload), { headers: corsHeaders });
-    }
+async function handleIncidentGet(c: RouteContext): Promise<Response> {
+  const found = await findIncident(c);
+  if (found instanceof Response) return found;
+  return jsonResponse(found.incident, c.headers);
+}
 
-    if (url.pathname === "/tasks") {
-      if (request.method !== "GET") {
-        return respond(JSON.stringify({ error: "Method Not Allowed" }), {
-          status: 405,
-          headers: corsHeaders,
-        });
-      }
+async function handleAdminIncidentsCreate(c: RouteContext): Promise<Response> {
+  const incidents = await loadIncidents(c.env.CLANKA_STATE);
+  const incident = createIncident(c.body as IncidentInput, "manual");
+  await saveIncidents(c.env.CLANKA_STATE, [incident, ...incidents]);
+  c.auditTarget = incident.id;
+  c.defer(publishStreamEvents(c.env.STREAM_HUB, [{ type: "incident", data: incident }]));
+  return jsonResponse(incident, { ...c.headers, Location: `/incidents/${encodeURIComponent(incident.id)}` }, 201);
+}
 
-      const entries = await loadRegistryEntries(env);
-      const repos = entries.map((entry) => entry.repo);
-      const payload: RepoTasksPayload[] = await Promise.all(
-        repos.map(async (repo) => ({
-          repo,
-          tasks: await loadRepoTasks(env, repo),
-        })),
-      );
+async function handleAdminIncidentPatch(c: RouteContext): Promise<Response> {
+  const found = await findIncident(c);
+  if (found instanceof Response) return found;
+  const updated = applyIncidentPatch(found.incident, c.body as IncidentPatch);
+  await saveIncidents(c.env.CLANKA_STATE, found.incidents.map((incident) => (incident.id === updated.id ? updated : incident)));
+  c.defer(publishStreamEvents(c.env.STREAM_HUB, [{ type: "incident", data: updated }]));
+  return jsonResponse(updated, c.headers);
+}
 
-      return respond(JSON.stringify(payload), { headers: corsHeaders });
-    }
+async function handleAdminActivity({ env, body, headers, defer }: RouteContext): Promise<Response> {
+  const payload = body as { desc: string; type: string };
+  const desc = payload.desc.trim();
+  const type = payload.type.trim();
 
-    if (url.pathname === "/now") {
-      if (request.method !== "GET") {
-        return respond(JSON.stringify({ error: "Method Not Allowed" }), {
-          status: 405,
-          headers: corsHeaders,
-        });
-      }
+  const entry = toHistoryEntry({ desc, type }, Date.now());
+  await prependHistory(env.CLANKA_STATE, [entry]);
 
-      const [presenceRaw, historyRaw, teamRaw, startedRaw, lastSeenRaw] = await Promise.all([
-        env.CLANKA_STATE.get("presence"),
-        env.CLANKA_STATE.get("history"),
-        env.CLANKA_STATE.get("team"),
-        env.CLANKA_STATE.get("started"),
-        env.CLANKA_STATE.get(LAST_SEEN_KEY),
-      ]);
-      const now = Date.now();
-      const presence = safeParseJSON<{ state?: string; message?: string; timestamp?: number } | null>(presenceRaw, null);
-      const history = normalizeHistory(safeParseJSON<unknown[]>(historyRaw || "[]", []));
-      const team = safeParseJSON<unknown>(teamRaw || "{}", {});
-      let started = Number(startedRaw);
-      if (!Number.isFinite(started)) {
-        started = now;
-        await env.CLANKA_STATE.put("started", String(started));
-      }
-      const agentsActive = countActiveAgents(team);
-      const lastSeenFromPresence = typeof presence?.timestamp === "number" ? presence.timestamp : NaN;
-      const lastSeenFromHeartbeat = typeof lastSeenRaw === "string" ? Number(lastSeenRaw) : NaN;
-      const lastSeenMs = Number.isFinite(lastSeenFromHeartbeat)
-        ? lastSeenFromHeartbeat
-        : Number.isFinite(lastSeenFromPresence)
-          ? lastSeenFromPresence
-          : now;
-      const isOffline = now - lastSeenMs > STATUS_OFFLINE_THRESHOLD_MS;
-
-      return respond(JSON.stringify({
-        current: presence?.message || "monitoring workspace and building public signals",
-        status: isOffline ? "offline" : (presence?.state || "active"),
-        signal: "⚡",
-        stack: ["Cloudflare Workers", "TypeScript", "Lit"],
-        timestamp: lastSeenMs,
-        uptime: Math.max(0, now - started),
-        agents_active: agentsActive,
-        last_seen: new Date(lastSeenMs).toISOString(),
-        history,
-        team,
-      }), { headers: corsHeaders });
+  defer(publishStreamEvents(env.STREAM_HUB, [{ type: "history", data: entry }]));
+  return jsonResponse({ success: true, entry }, headers);
+}
+
+async function handleProjects({ env, headers, cache }: RouteContext): Promise<Response> {
+  const entries = await loadRegistryEntries(env, cache);
+  const projects = entries.length > 0
+    ? registryEntriesToProjects(entries)
+    : [];
+
+  return jsonResponse({ projects, source: "registry", cached: true }, headers);
+}
+
+async function handleToolsSearch(c: RouteContext): Promise<Response> {
+  const { env, url, headers } = c;
+  const query = url.searchParams.get("q")?.trim() || "";
+  if (!query) {
+    return errorResponse(c, "invalid_query", { message: "Missing query parameter: q" });
+  }
+
+  const { entries, cached } = await loadRegistry(env, c.cache);
+  const tools = searchRegistryTools(entries, query);
+  return jsonResponse({
+    query,
+    count: tools.length,
+    tools,
+    cached,
+    timestamp: new Date().toISOString(),
+  }, headers);
+}
+
+async function handleTools({ env, headers, cache }: RouteContext): Promise<Response> {
+  const { entries, cached } = await loadRegistry(env, cache);
+
+  return jsonResponse({
+    tools: entries,
+    count: entries.length,
+    cached,
+    timestamp: new Date().toISOString(),
+  }, headers);
+}
+
+async function handleToolByRepo(c: RouteContext): Promise<Response> {
+  const { env, params, headers } = c;
+  let rawRepo = "";
+  try {
+    rawRepo = decodeURIComponent(params.repo).trim();
+  } catch {
+    return errorResponse(c, "invalid_path", { message: "Invalid repo path" });
+  }
+  const { entries, cached } = await loadRegistry(env, c.cache);
+  const match = entries.find((entry) => entry.repo.toLowerCase() === rawRepo.toLowerCase());
+  if (!match) {
+    return errorResponse(c, "tool_not_found");
+  }
+
+  return jsonResponse({
+    tool: match,
+    cached,
+    timestamp: new Date().toISOString(),
+  }, headers);
+}
+
+async function handleFleetTrend({ env, headers, cache }: RouteContext): Promise<Response> {
+  const payload = await loadFleetTrendFromGithub(env, cache);
+  return jsonResponse(payload, headers);
+}
+
+async function handleTasks({ env, headers, cache }: RouteContext): Promise<Response> {
+  const entries = await loadRegistryEntries(env, cache);
+  const repos = entries.map((entry) => entry.repo);
+  const payload: RepoTasksPayload[] = await Promise.all(
+    repos.map(async (repo) => ({
+      repo,
+      tasks: (await loadRepoTasks(env, repo)).filter((task) => !task.done),
+    })),
+  );
+
+  return jsonResponse(payload, headers);
+}
+
+async function handleBoard(c: RouteContext): Promise<Response> {
+  const parsed = parseBoardQuery(c.url.searchParams);
+  if (!parsed.ok) {
+    return errorResponse(c, "invalid_query", { message: parsed.message });
+  }
+  const { repo } = parsed.query;
+  const entries = await loadRegistryEntries(c.env, c.cache);
+  // Only fetch the filtered repo's TASKS.md; unregistered repos can still match admin tasks.
+  const repos = entries
+    .map((entry) => entry.repo)
+    .filter((name) => repo === null || name.toLowerCase() === repo.toLowerCase());
+  const [tasks, repoTasks] = await Promise.all([
+    loadTasks(c.env.CLANKA_STATE),
+    Promise.all(repos.map(async (name): Promise<RepoTasksPayload> => ({
+      repo: name,
+      tasks: await loadRepoTasks(c.env, name),
+    }))),
+  ]);
+
+  return jsonResponse({
+    ...buildBoard(tasks, repoTasks, parsed.query),
+    timestamp: new Date().toISOString(),
+  }, c.headers);
+}
+
+async function handleNow({ env, headers }: RouteContext): Promise<Response> {
+  const now = Date.now();
+  const [system, historyRaw, teamRaw, started, agents, incidents] = await Promise.all([
+    loadSystemPresence(env.CLANKA_STATE, now),
+    env.CLANKA_STATE.get("history"),
+    env.CLANKA_STATE.get("team"),
+    loadStarted(env.CLANKA_STATE),
+    loadAgents(env.CLANKA_STATE),
+    activeIncidents(env.CLANKA_STATE),
+  ]);
+  const history = normalizeHistory(safeParseJSON<unknown[]>(historyRaw || "[]", []));
+  const team = safeParseJSON<unknown>(teamRaw || "{}", {});
+  const online = onlineAgents(agents, now);
+  const lastSeenMs = system.lastSeen ?? now;
+
+  return jsonResponse({
+    current: online[0]?.message || system.message || "monitoring workspace and building public signals",
+    status: presenceStatus(agents, online, system.effective, now),
+    signal: "⚡",
+    stack: ["Cloudflare Workers", "TypeScript", "Lit"],
+    timestamp: lastSeenMs,
+    uptime: currentUptimeMs(system.lastSeen, started, now),
+    agents_active: online.length,
+    last_seen: new Date(lastSeenMs).toISOString(),
+    history,
+    team,
+    agents: agents.map((agent) => toAgentView(agent, now)),
+    incidents,
+  }, headers);
+}
+
+async function handleGithubStats({ env, headers, cache }: RouteContext): Promise<Response> {
+  const stats = await loadGithubStats(env, cache);
+  return jsonResponse(stats, headers);
+}
+
+function isGithubEventType(value: string): value is GithubEventType {
+  return (GITHUB_EVENT_TYPES as readonly string[]).includes(value);
+}
+
+async function handleGithubEvents(c: RouteContext): Promise<Response> {
+  const { env, url, headers, cache } = c;
+  const params = url.searchParams;
+
+  const since = parseTimeParam(params.get("since"));
+  const until = parseTimeParam(params.get("until"));
+  if (since === undefined || until === undefined) {
+    return errorResponse(c, "invalid_query", { message: "since and until must be ISO timestamps or epoch milliseconds" });
+  }
+  const rawLimit = params.get("limit");
+  const limit = rawLimit === null ? GITHUB_EVENTS_DEFAULT_LIMIT : Number(rawLimit);
+  if (!Number.isInteger(limit) || limit < 1 || limit > GITHUB_EVENTS_MAX_LIMIT) {
+    return errorResponse(c, "invalid_query", { message: `limit must be an integer from 1 to ${GITHUB_EVENTS_MAX_LIMIT}` });
+  }
+  const types = (params.get("type") ?? "").split(",").map((type) => type.trim().toUpperCase()).filter(Boolean);
+  if (!types.every(isGithubEventType)) {
+    return errorResponse(c, "invalid_query", { message: `type must be one of ${GITHUB_EVENT_TYPES.join(", ")}` });
+  }
+  const rawCursor = params.get("cursor");
+  const cursor = rawCursor ? decodeGithubEventsCursor(rawCursor) : null;
+  if (rawCursor && !cursor) {
+    return errorResponse(c, "invalid_query", { message: "cursor is not valid" });
+  }
+
+  const { events, nextCursor } = await queryGithubEvents(githubClient(env), {
+    repo: params.get("repo")?.trim() || null,
+    types: types.length > 0 ? types : null,
+    since,
+    until,
+    limit,
+    cursor,
+  }, cache);
+  return jsonResponse({ events, nextCursor }, headers);
+}
+
+function parseChangelogQuery(c: RouteContext): ChangelogQuery | Response {
+  const params = c.url.searchParams;
+  const since = parseTimeParam(params.get("since"));
+  if (since === undefined) {
+    return errorResponse(c, "invalid_query", { message: "since must be an ISO timestamp or epoch milliseconds" });
+  }
+  const rawLimit = params.get("limit");
+  const limit = rawLimit === null ? CHANGELOG_DEFAULT_LIMIT : Number(rawLimit);
+  if (!Number.isInteger(limit) || limit < 1 || limit > CHANGELOG_MAX_LIMIT) {
+    return errorResponse(c, "invalid_query", { message: `limit must be an integer from 1 to ${CHANGELOG_MAX_LIMIT}` });
+  }
+  const rawCursor = params.get("cursor");
+  const cursor = rawCursor ? decodeChangelogCursor(rawCursor) : null;
+  if (rawCursor && !cursor) {
+    return errorResponse(c, "invalid_query", { message: "cursor is not valid" });
+  }
+  return { since, limit, cursor };
+}
+
+function changelogResponse(entries: ChangelogEntry[], query: ChangelogQuery): Record<string, unknown> {
+  const { commits, nextCursor } = pageChangelog(entries, query);
+  return { commits, groups: groupChangelog(commits), nextCursor, timestamp: new Date().toISOString() };
+}
+
+async function handleChangelog(c: RouteContext): Promise<Response> {
+  const { env, headers } = c;
+  if (!githubAuthMode(env)) {
+    return errorResponse(c, "github_unconfigured");
+  }
+  const query = parseChangelogQuery(c);
+  if (query instanceof Response) return query;
+
+  const entries = await loadFleetChangelog(env, c.cache);
+  return jsonResponse(changelogResponse(entries, query), headers);
+}
+
+// `raw` is the repo's name or URL-encoded `owner/name`; unregistered repos get `404 repo_not_found`.
+async function findRegistryRepo(c: RouteContext, raw: string): Promise<string | Response> {
+  let name: string;
+  try {
+    name = decodeURIComponent(raw);
+  } catch {
+    return errorResponse(c, "invalid_path");
+  }
+  const repo = name.includes("/") ? name : `clankamode/${name}`;
+  const registered = (await loadRegistryEntries(c.env, c.cache)).some((entry) => entry.repo === repo);
+  if (!registered) {
+    return errorResponse(c, "repo_not_found");
+  }
+  return repo;
+}
+
+async function handleRepoChangelog(c: RouteContext): Promise<Response> {
+  const { env, headers } = c;
+  const repo = await findRegistryRepo(c, c.params.repo);
+  if (repo instanceof Response) return repo;
+  if (!githubAuthMode(env)) {
+    return errorResponse(c, "github_unconfigured");
+  }
+  const query = parseChangelogQuery(c);
+  if (query instanceof Response) return query;
+
+  let entries: ChangelogEntry[];
+  try {
+    entries = await loadRepoChangelog(githubClient(env), repo, c.cache);
+  } catch {
+    return errorResponse(c, "upstream_unavailable");
+  }
+  return jsonResponse({ repo, ...changelogResponse(entries, query) }, headers);
+}
+
+async function loadFeed(c: RouteContext, source: FeedSource): Promise<Feed | Response> {
+  const { env, url } = c;
+  const feedUrl = `${url.origin}${url.pathname}`;
+  if (source === "history") {
+    const history = await loadHistory(env, HISTORY_LIMIT);
+    return {
+      title: "clanka activity",
+      description: "Recent activity reported by clanka agents",
+      homeUrl: `${url.origin}/history`,
+      feedUrl,
+      items: history.map(historyFeedItem),
+    };
+  }
+  if (source === "events") {
+    const { events } = await queryGithubEvents(githubClient(env), {
+      repo: null,
+      types: null,
+      since: null,
+      until: null,
+      limit: FEED_ITEM_LIMIT,
+      cursor: null,
+    }, c.cache);
+    return {
+      title: "clanka GitHub activity",
+      description: "Pushes, pull requests, issues and releases across clankamode repos",
+      homeUrl: `${url.origin}/github/events`,
+      feedUrl,
+      items: events.map(githubEventFeedItem),
+    };
+  }
+  if (!githubAuthMode(env)) {
+    return errorResponse(c, "github_unconfigured");
+  }
+  const entries = await loadFleetChangelog(env, c.cache);
+  const { commits } = pageChangelog(entries, { since: null, limit: FEED_ITEM_LIMIT, cursor: null });
+  return {
+    title: "clanka changelog",
+    description: "Recent commits across every registry repo",
+    homeUrl: `${url.origin}/changelog`,
+    feedUrl,
+    items: commits.map(changelogFeedItem),
+  };
+}
+
+async function handleFeed(c: RouteContext): Promise<Response> {
+  const name = parseFeedName(c.params.feed);
+  if (!name) {
+    return errorResponse(c, "feed_not_found");
+  }
+  const feed = await loadFeed(c, name.source);
+  if (feed instanceof Response) return feed;
+
+  const body = renderFeed(name.format, feed);
+  const lastModified = feedLastModified(feed);
+  const headers: Record<string, string> = {
+    ...c.headers,
+    "Content-Type": FEED_CONTENT_TYPES[name.format],
+    ETag: await feedEtag(body),
+  };
+  if (lastModified !== null) headers["Last-Modified"] = new Date(lastModified).toUTCString();
+  if (feedNotModified(c.request, headers.ETag, lastModified)) {
+    return new Response(null, { status: 304, headers });
+  }
+  return new Response(body, { headers });
+}
+
+const HEALTH_BADGES: Record<FleetHealthStatus, Pick<Badge, "message" | "color">> = {
+  GREEN: { message: "passing", color: "brightgreen" },
+  YELLOW: { message: "degraded", color: "yellow" },
+  RED: { message: "failing", color: "red" },
+  UNKNOWN: { message: "unknown", color: "lightgrey" },
+};
+
+function parseBadgeQuery(c: RouteContext): { label: string | null; style: BadgeStyle } | Response {
+  const label = c.url.searchParams.get("label")?.trim() || null;
+  if (label !== null && label.length > BADGE_LABEL_MAX_LENGTH) {
+    return errorResponse(c, "invalid_query", { message: `label must be at most ${BADGE_LABEL_MAX_LENGTH} characters` });
+  }
+  const style = c.url.searchParams.get("style") ?? "flat";
+  if (!isBadgeStyle(style)) {
+    return errorResponse(c, "invalid_query", { message: `style must be one of ${BADGE_STYLES.join(", ")}` });
+  }
+  return { label, style };
+}
+
+// Badges are embedded in READMEs that GitHub's image proxy re-fetches, so they are cached briefly.
+async function badgeResponse(
+  c: RouteContext,
+  defaultLabel: string,
+  load: () => Promise<Pick<Badge, "message" | "color">>,
+): Promise<Response> {
+  const query = parseBadgeQuery(c);
+  if (query instanceof Response) return query;
+  const badge = { label: query.label ?? defaultLabel, ...await load() };
+  return new Response(renderBadge(badge, query.style), {
+    headers: {
+      ...c.headers,
+      "Content-Type": BADGE_CONTENT_TYPE,
+      "Cache-Control": `public, max-age=${BADGE_MAX_AGE_SEC}`,
+    },
+  });
+}
+
+function handleStatusBadge(c: RouteContext): Promise<Response> {
+  return badgeResponse(c, "status", async () => {
+    const { status } = getStatusPayload(await c.env.CLANKA_STATE.get(LAST_SEEN_KEY));
+    return { message: status, color: status === "operational" ? "brightgreen" : "red" };
+  });
+}
+
+function handleFleetHealthBadge(c: RouteContext): Promise<Response> {
+  return badgeResponse(c, "fleet health", async () => {
+    const health = await loadFleetHealth(c.env, c.cache).catch(() => null);
+    return HEALTH_BADGES[health?.status ?? "UNKNOWN"];
+  });
+}
+
+function handleFleetScoreBadge(c: RouteContext): Promise<Response> {
+  return badgeResponse(c, "fleet score", async () => {
+    const { score, totalRepos } = await loadFleetScorePayload(c.env, c.cache);
+    return totalRepos === 0 ? HEALTH_BADGES.UNKNOWN : { message: `${score}/100`, color: scoreColor(score) };
+  });
+}
+
+async function handleCiBadge(c: RouteContext): Promise<Response> {
+  const raw = c.params.repo;
+  if (!raw.endsWith(".svg")) {
+    return errorResponse(c, "not_found");
+  }
+  const repo = await findRegistryRepo(c, raw.slice(0, -".svg".length));
+  if (repo instanceof Response) return repo;
+  return badgeResponse(c, "ci", async () => {
+    const run = await loadLatestWorkflowRun(c.env, repo, c.cache).catch(() => null);
+    if (!run) return HEALTH_BADGES.UNKNOWN;
+    if (run.conclusion === null && run.status) {
+      return { message: run.status === "in_progress" ? "running" : run.status.replace(/_/g, " "), color: "blue" };
     }
+    const conclusion = workflowRunToConclusion(run);
+    const status = conclusionHealthStatus(conclusion);
+    return status === "YELLOW" ? { message: conclusion.replace(/_/g, " "), color: "yellow" } : HEALTH_BADGES[status];
+  });
+}
+
+function handlePostsCount({ headers }: RouteContext): Response {
+  return jsonResponse(
+    { count: 11, lastPost: "011", lastPostDate: "2026-02-26", lastPostSlug: "claude-cli-unlock" },
+    headers,
+  );
+}
+
+const PUBLIC = { auth: { type: "none" }, rateLimit: "public", cache: "default" } as const;
+const ADMIN = { rateLimit: "none", cache: "default" } as const;
+
+function requireScope(scope: AuthScope) {
+  return { type: "token", scope } as const;
+}
+
+const BADGE_QUERY_DOCS = {
+  label: {
+    schema: { type: "string", maxLength: BADGE_LABEL_MAX_LENGTH },
+    description: "Text for the left half instead of the badge's default label",
+  },
+  style: { schema: { type: "string", enum: [...BADGE_STYLES] }, description: "Badge style (default `flat`)" },
+} as const;
+
+const BADGE_RESPONSES = {
+  "200": { description: "SVG badge" },
+  "400": { description: "Invalid query parameter", schema: ERROR_SCHEMA },
+} as const;
+
+const CHANGELOG_QUERY_DOCS = {
+  since: { schema: { type: "string" }, description: "ISO timestamp or epoch milliseconds (inclusive)" },
+  limit: {
+    schema: { type: "integer", minimum: 1, maximum: CHANGELOG_MAX_LIMIT },
+    description: `Page size (default ${CHANGELOG_DEFAULT_LIMIT})`,
+  },
+  cursor: { schema: { type: "string" }, description: "`nextCursor` from the previous page" },
+} as const;
+
+export const ROUTES = compileRoutes<RouteHandler>([
+  {
+    method: "POST",
+    path: "/set-presence",
+    ...ADMIN,
+    auth: requireScope("presence:write"),
+    docs: {
+      summary: "Update presence, team, and activity",
+      requestBody: SET_PRESENCE_BODY_SCHEMA,
+      responses: {
+        "200": { description: "Presence updated", schema: SUCCESS_SCHEMA },
+        "409": { description: "The current state cannot change to the requested one", schema: ERROR_SCHEMA },
+      },
+    },
+    audit: "presence.update",
+    handler: handleSetPresence,
+  },
+  {
+    method: "POST",
+    path: "/heartbeat",
+    ...ADMIN,
+    auth: requireScope("presence:write"),
+    docs: {
+      summary: "Refresh last_seen and optionally append history entries",
+      requestBody: HEARTBEAT_BODY_SCHEMA,
+      responses: { "200": { description: "Heartbeat recorded", schema: HEARTBEAT_RESPONSE_SCHEMA } },
+    },
+    handler: handleHeartbeat,
+  },
+  {
+    method: "GET",
+    path: "/history",
+    ...PUBLIC,
+    docs: {
+      summary: "Get recent activity history",
+      query: {
+        limit: { schema: { type: "integer", minimum: 1, maximum: HISTORY_LIMIT }, description: "Maximum entries to return" },
+      },
+      responses: { "200": { description: "History payload", schema: HISTORY_RESPONSE_SCHEMA } },
+    },
+    handler: handleHistory,
+  },
+  {
+    method: "GET",
+    path: "/presence/history",
+    ...PUBLIC,
+    docs: {
+      summary: "Time spent in each presence state per day",
+      description: "Built from the log of presence transitions: `/set-presence` changes, decay as heartbeats "
+        + "age (`idle`, `away`, then `offline`), and heartbeats ending a decay. Days are UTC; time before the "
+        + "first logged transition is not counted.",
+      query: {
+        since: {
+          schema: { type: "string" },
+          description: `ISO timestamp or epoch milliseconds, rounded down to its UTC day; at most ${PRESENCE_HISTORY_MAX_DAYS} days back. Defaults to the last ${PRESENCE_HISTORY_DEFAULT_DAYS} days`,
+        },
+      },
+      responses: {
+        "200": { description: "Seconds per state for each day up to now", schema: PRESENCE_HISTORY_RESPONSE_SCHEMA },
+        "400": { description: "Invalid since", schema: ERROR_SCHEMA },
+      },
+    },
+    handler: handlePresenceHistory,
+  },
+  {
+    method: "GET",
+    path: "/status",
+    ...PUBLIC,
+    cache: "no-store",
+    docs: {
+      summary: "Get service status",
+      description: "`incidents` lists the unresolved incidents, for a status page.",
+      responses: { "200": { description: "Public status contract", schema: STATUS_RESPONSE_SCHEMA } },
+    },
+    handler: handleStatus,
+  },
+  {
+    method: "GET",
+    path: "/incidents",
+    ...PUBLIC,
+    docs: {
+      summary: "List incidents, newest first",
+      query: {
+        status: {
+          schema: { type: "string", enum: ["active", ...INCIDENT_STATUSES] },
+          description: "`active` for every incident not yet resolved",
+        },
+      },
+      responses: {
+        "200": { description: "Matching incidents with their updates", schema: INCIDENTS_RESPONSE_SCHEMA },
+        "400": { description: "Invalid status", schema: ERROR_SCHEMA },
+      },
+    },
+    handler: handleIncidentsList,
+  },
+  {
+    method: "GET",
+    path: "/incidents/:id",
+    ...PUBLIC,
+    docs: {
+      summary: "Get an incident and its updates",
+      responses: {
+        "200": { description: "Incident", schema: INCIDENT_SCHEMA },
+        "404": { description: "No incident with this id", schema: ERROR_SCHEMA },
+      },
+    },
+    handler: handleIncidentGet,
+  },
+  {
+    method: "GET",
+    path: "/metrics",
+    ...ADMIN,
+    auth: requireScope("metrics:read"),
+    cache: "no-store",
+    docs: {
+      summary: "Get internal request and KV counters",
+      responses: { "200": { description: "Metrics payload", schema: METRICS_RESPONSE_SCHEMA } },
+    },
+    handler: handleMetrics,
+  },
+  {
+    method: "POST",
+    path: "/admin/refresh",
+    ...ADMIN,
+    auth: requireScope("cache:admin"),
+    cache: "no-store",
+    docs: {
+      summary: "Invalidate GitHub-derived caches",
+      responses: { "200": { description: "Invalidated cache keys", schema: ADMIN_REFRESH_RESPONSE_SCHEMA } },
+    },
+    audit: "cache.refresh",
+    handler: handleAdminRefresh,
+  },
+  {
+    method: "GET",
+    path: "/admin/jobs",
+    ...ADMIN,
+    auth: requireScope("metrics:read"),
+    cache: "no-store",
+    docs: {
+      summary: "Get the status of the scheduled cache refresh jobs",
+      description: "Each cron tick runs the jobs that are due; `last` is null until a job has run once.",
+      responses: { "200": { description: "Last cron run and per-job outcome", schema: ADMIN_JOBS_RESPONSE_SCHEMA } },
+    },
+    handler: handleAdminJobs,
+  },
+  {
+    method: "GET",
+    path: "/status/uptime",
+    ...PUBLIC,
+    docs: {
+      summary: "Get current uptime and availability over a window",
+      description: "Each heartbeat covers the minutes `/status` reports operational after it, so a minute counts "
+        + "as down once 10 minutes pass without one. Time before coverage was first recorded is not counted.",
+      query: {
+        window: { schema: { type: "string", enum: Object.keys(UPTIME_WINDOWS) }, description: "Defaults to 24h" },
+      },
+      responses: {
+        "200": { description: "Uptime payload", schema: STATUS_UPTIME_RESPONSE_SCHEMA },
+        "400": { description: "Unknown window", schema: ERROR_SCHEMA },
+      },
+    },
+    handler: handleStatusUptime,
+  },
+  {
+    method: "GET",
+    path: "/health",
+    ...PUBLIC,
+    docs: {
+      summary: "Health check",
+      responses: { "200": { description: "Health payload", schema: HEALTH_RESPONSE_SCHEMA } },
+    },
+    handler: handleHealth,
+  },
+  {
+    method: "GET",
+    path: "/openapi.json",
+    ...PUBLIC,
+    docs: {
+      summary: "Get OpenAPI 3 specification",
+      responses: { "200": { description: "OpenAPI document", schema: OPENAPI_RESPONSE_SCHEMA } },
+    },
+    handler: handleOpenApi,
+  },
+  {
+    method: "GET",
+    path: "/fleet/summary",
+    ...PUBLIC,
+    docs: {
+      summary: "Get fleet grouping by tier and criticality",
+      responses: { "200": { description: "Fleet summary payload", schema: FLEET_SUMMARY_RESPONSE_SCHEMA } },
+    },
+    handler: handleFleetSummary,
+  },
+  {
+    method: "GET",
+    path: "/fleet/health",
+    ...PUBLIC,
+    docs: {
+      summary: "Get workflow health across registered fleet repos",
+      responses: {
+        "200": { description: "Fleet health payload", schema: FLEET_HEALTH_RESPONSE_SCHEMA },
+        "503": { description: "GitHub unavailable and no cache available", schema: ERROR_SCHEMA },
+      },
+    },
+    handler: handleFleetHealth,
+  },
+  {
+    method: "GET",
+    path: "/fleet/score",
+    ...PUBLIC,
+    docs: {
+      summary: "Get aggregate fleet health score",
+      responses: { "200": { description: "Fleet score payload", schema: FLEET_SCORE_RESPONSE_SCHEMA } },
+    },
+    handler: handleFleetScore,
+  },
+  {
+    method: "GET",
+    path: "/fleet/trend",
+    ...PUBLIC,
+    docs: {
+      summary: "Get CI trend data across registered fleet repos",
+      responses: { "200": { description: "Fleet trend payload", schema: FLEET_TREND_RESPONSE_SCHEMA } },
+    },
+    handler: handleFleetTrend,
+  },
+  {
+    method: "GET",
+    path: "/pulse",
+    ...PUBLIC,
+    docs: {
+      summary: "Get a compact presence pulse",
+      responses: { "200": { description: "Pulse payload", schema: PULSE_RESPONSE_SCHEMA } },
+    },
+    handler: handlePulse,
+  },
+  {
+    method: "GET",
+    path: "/admin/tasks",
+    ...ADMIN,
+    auth: requireScope("tasks:read"),
+    cache: "no-store",
+    docs: {
+      summary: "List admin tasks",
+      query: {
+        status: { schema: { type: "string", enum: TASK_STATUSES } },
+        priority: { schema: { type: "string", enum: TASK_PRIORITIES } },
+        assignee: { schema: { type: "string" }, description: "Team member name" },
+        tag: { schema: { type: "string" }, description: "Tasks carrying this tag" },
+        sort: {
+          schema: { type: "string", enum: TASK_SORT_FIELDS.flatMap((field) => [field, `-${field}`]) },
+          description: "Sort field; prefix with `-` for descending (default `-createdAt`)",
+        },
+      },
+      responses: { "200": { description: "Matching tasks", schema: ADMIN_TASKS_RESPONSE_SCHEMA } },
+    },
+    handler: handleAdminTasksList,
+  },
+  {
+    method: "POST",
+    path: "/admin/tasks",
+    ...ADMIN,
+    auth: requireScope("tasks:write"),
+    docs: {
+      summary: "Create a task",
+      description: "The id is generated server-side. The response carries the task's `ETag` and `Location`.",
+      requestBody: ADMIN_TASK_CREATE_BODY_SCHEMA,
+      responses: { "201": { description: "Task created", schema: TASK_SCHEMA } },
+    },
+    audit: "tasks.create",
+    handler: handleAdminTasksCreate,
+  },
+  {
+    method: "GET",
+    path: "/admin/tasks/:id",
+    ...ADMIN,
+    auth: requireScope("tasks:read"),
+    cache: "no-store",
+    docs: {
+      summary: "Get a task and its ETag",
+      responses: {
+        "200": { description: "Task", schema: TASK_SCHEMA },
+        "404": { description: "No task with this id", schema: ERROR_SCHEMA },
+      },
+    },
+    handler: handleAdminTaskGet,
+  },
+  {
+    method: "PATCH",
+    path: "/admin/tasks/:id",
+    ...ADMIN,
+    auth: requireScope("tasks:write"),
+    docs: {
+      summary: "Update task fields",
+      description: "Send `If-Match: <ETag>` to reject the update when the task changed since it was read.",
+      requestBody: ADMIN_TASK_PATCH_BODY_SCHEMA,
+      responses: {
+        "200": { description: "Updated task", schema: TASK_SCHEMA },
+        "404": { description: "No task with this id", schema: ERROR_SCHEMA },
+        "412": { description: "If-Match does not match the current ETag", schema: ERROR_SCHEMA },
+      },
+    },
+    audit: "tasks.update",
+    handler: handleAdminTaskPatch,
+  },
+  {
+    method: "DELETE",
+    path: "/admin/tasks/:id",
+    ...ADMIN,
+    auth: requireScope("tasks:write"),
+    docs: {
+      summary: "Delete a task",
+      description: "Honors `If-Match` like PATCH.",
+      responses: {
+        "200": { description: "Task deleted", schema: ADMIN_TASK_DELETED_RESPONSE_SCHEMA },
+        "404": { description: "No task with this id", schema: ERROR_SCHEMA },
+        "412": { description: "If-Match does not match the current ETag", schema: ERROR_SCHEMA },
+      },
+    },
+    audit: "tasks.delete",
+    handler: handleAdminTaskDelete,
+  },
+  {
+    method: "POST",
+    path: "/admin/activity",
+    ...ADMIN,
+    auth: requireScope("history:write"),
+    docs: {
+      summary: "Append an activity entry to history",
+      requestBody: ADMIN_ACTIVITY_BODY_SCHEMA,
+      responses: { "200": { description: "Activity recorded", schema: ADMIN_ACTIVITY_RESPONSE_SCHEMA } },
+    },
+    audit: "activity.create",
+    handler: handleAdminActivity,
+  },
+  {
+    method: "POST",
+    path: "/admin/incidents",
+    ...ADMIN,
+    auth: requireScope("incidents:write"),
+    docs: {
+      summary: "Open an incident",
+      description: "Starts `investigating` with `major` severity unless given; `message` becomes the first update.",
+      requestBody: ADMIN_INCIDENT_CREATE_BODY_SCHEMA,
+      responses: { "201": { description: "Incident opened", schema: INCIDENT_SCHEMA } },
+    },
+    audit: "incidents.create",
+    handler: handleAdminIncidentsCreate,
+  },
+  {
+    method: "PATCH",
+    path: "/admin/incidents/:id",
+    ...ADMIN,
+    auth: requireScope("incidents:write"),
+    docs: {
+      summary: "Post an update to an incident, or resolve it",
+      description: "A `status` or `message` appends an update. `resolved` stamps `resolvedAt`; any other status reopens.",
+      requestBody: ADMIN_INCIDENT_PATCH_BODY_SCHEMA,
+      responses: {
+        "200": { description: "Updated incident", schema: INCIDENT_SCHEMA },
+        "404": { description: "No incident with this id", schema: ERROR_SCHEMA },
+      },
+    },
+    audit: "incidents.update",
+    handler: handleAdminIncidentPatch,
+  },
+  {
+    method: "POST",
+    path: "/admin/agents/commands",
+    ...ADMIN,
+    auth: requireScope("agents:command"),
+    docs: {
+      summary: "Send a command to connected agents",
+      description: `Commands: ${AGENT_COMMANDS.map((command) => `\`${command}\``).join(", ")}. `
+        + "Delivered once to each open `/agents/connect` socket and not queued for agents that are offline.",
+      requestBody: ADMIN_AGENT_COMMAND_BODY_SCHEMA,
+      responses: {
+        "200": { description: "Command sent", schema: ADMIN_AGENT_COMMAND_RESPONSE_SCHEMA },
+        "503": { description: "The agent hub is not configured", schema: ERROR_SCHEMA },
+      },
+    },
+    audit: "agents.command",
+    handler: handleAdminAgentCommand,
+  },
+  {
+    method: "GET",
+    path: "/admin/tokens",
+    ...ADMIN,
+    auth: requireScope("tokens:admin"),
+    cache: "no-store",
+    docs: {
+      summary: "List API tokens",
+      description: "Token hashes are never returned.",
+      responses: { "200": { description: "Token metadata", schema: ADMIN_TOKENS_RESPONSE_SCHEMA } },
+    },
+    handler: handleAdminTokensList,
+  },
+  {
+    method: "POST",
+    path: "/admin/tokens",
+    ...ADMIN,
+    auth: requireScope("tokens:admin"),
+    cache: "no-store",
+    docs: {
+      summary: "Mint a named API token with scopes",
+      description: "The plaintext token is only returned in this response; KV stores its SHA-256 hash.",
+      requestBody: ADMIN_TOKEN_CREATE_BODY_SCHEMA,
+      responses: { "201": { description: "Token minted", schema: ADMIN_TOKEN_CREATED_RESPONSE_SCHEMA } },
+    },
+    audit: "tokens.mint",
+    handler: handleAdminTokensCreate,
+  },
+  {
+    method: "DELETE",
+    path: "/admin/tokens/:id",
+    ...ADMIN,
+    auth: requireScope("tokens:admin"),
+    cache: "no-store",
+    docs: {
+      summary: "Revoke an API token",
+      responses: {
+        "200": { description: "Token revoked", schema: ADMIN_TOKEN_REVOKED_RESPONSE_SCHEMA },
+        "404": { description: "No token with this id", schema: ERROR_SCHEMA },
+      },
+    },
+    audit: "tokens.revoke",
+    handler: handleAdminTokensRevoke,
+  },
+  {
+    method: "GET",
+    path: "/admin/lockouts",
+    ...ADMIN,
+    auth: requireScope("lockouts:admin"),
+    cache: "no-store",
+    docs: {
+      summary: "List IPs with recent auth failures or an active lockout",
+      responses: { "200": { description: "Live lockout entries", schema: ADMIN_LOCKOUTS_RESPONSE_SCHEMA } },
+    },
+    handler: handleAdminLockoutsList,
+  },
+  {
+    method: "DELETE",
+    path: "/admin/lockouts",
+    ...ADMIN,
+    auth: requireScope("lockouts:admin"),
+    cache: "no-store",
+    docs: {
+      summary: "Clear every lockout",
+      responses: { "200": { description: "Cleared IPs", schema: ADMIN_LOCKOUTS_CLEARED_RESPONSE_SCHEMA } },
+    },
+    audit: "lockouts.clear",
+    handler: handleAdminLockoutsClear,
+  },
+  {
+    method: "DELETE",
+    path: "/admin/lockouts/:ip",
+    ...ADMIN,
+    auth: requireScope("lockouts:admin"),
+    cache: "no-store",
+    docs: {
+      summary: "Clear the lockout for one IP",
+      responses: {
+        "200": { description: "Cleared IP", schema: ADMIN_LOCKOUTS_CLEARED_RESPONSE_SCHEMA },
+        "404": { description: "No live entry for this IP", schema: ERROR_SCHEMA },
+      },
+    },
+    audit: "lockouts.clear",
+    handler: handleAdminLockoutClear,
+  },
+  {
+    method: "GET",
+    path: "/admin/audit",
+    ...ADMIN,
+    auth: requireScope("audit:read"),
+    cache: "no-store",
+    docs: {
+      summary: "Query the audit log of admin actions and auth failures",
+      description: "Newest first. `format=csv` or `format=ndjson` exports the same page; "
+        + "the next cursor is then returned in the `X-Next-Cursor` header.",
+      query: {
+        since: { schema: { type: "string" }, description: "ISO timestamp or epoch milliseconds (inclusive)" },
+        actor: { schema: { type: "string" }, description: "Token name or id" },
+        action: { schema: { type: "string" }, description: "Exact action, e.g. `presence.update`" },
+        limit: {
+          schema: { type: "integer", minimum: 1, maximum: AUDIT_MAX_LIMIT },
+          description: `Page size (default ${AUDIT_DEFAULT_LIMIT})`,
+        },
+        cursor: { schema: { type: "string" }, description: "`nextCursor` from the previous page" },
+        format: { schema: { type: "string", enum: ["json", "csv", "ndjson"] } },
+      },
+      responses: { "200": { description: "Audit events", schema: ADMIN_AUDIT_RESPONSE_SCHEMA } },
+    },
+    handler: handleAdminAudit,
+  },
+  {
+    method: "POST",
+    path: "/webhooks/github",
+    ...PUBLIC,
+    cache: "no-store",
+    docs: {
+      summary: "Receive a GitHub webhook delivery",
+      description: "Authenticated by `X-Hub-Signature-256` against `GITHUB_WEBHOOK_SECRET`. Handles "
+        + `${GITHUB_WEBHOOK_EVENTS.map((event) => `\`${event}\``).join(", ")}; `
+        + "other events and repeated `X-GitHub-Delivery` ids are acknowledged without writes.",
+      responses: {
+        "200": { description: "Delivery outcome", schema: WEBHOOK_DELIVERY_RESPONSE_SCHEMA },
+        "400": { description: "Missing GitHub headers or non-JSON payload", schema: ERROR_SCHEMA },
+        "401": { description: "Missing or invalid signature", schema: ERROR_SCHEMA },
+        "503": { description: "GITHUB_WEBHOOK_SECRET is not configured", schema: ERROR_SCHEMA },
+      },
+    },
+    handler: handleGithubWebhook,
+  },
+  {
+    method: "GET",
+    path: "/admin/webhooks/deliveries",
+    ...ADMIN,
+    auth: requireScope("webhooks:read"),
+    cache: "no-store",
+    docs: {
+      summary: "List recent webhook deliveries",
+      description: "Newest first, kept for 7 days. Duplicates are not recorded again.",
+      query: {
+        event: { schema: { type: "string" }, description: "Only this `X-GitHub-Event`, e.g. `push`" },
+        limit: {
+          schema: { type: "integer", minimum: 1, maximum: DELIVERIES_MAX_LIMIT },
+          description: `Page size (default ${DELIVERIES_DEFAULT_LIMIT})`,
+        },
+      },
+      responses: { "200": { description: "Deliveries", schema: ADMIN_WEBHOOK_DELIVERIES_RESPONSE_SCHEMA } },
+    },
+    handler: handleAdminWebhookDeliveries,
+  },
+  {
+    method: "GET",
+    path: "/projects",
+    ...PUBLIC,
+    docs: {
+      summary: "Get active projects from registry",
+      responses: { "200": { description: "Projects payload", schema: PROJECTS_RESPONSE_SCHEMA } },
+    },
+    handler: handleProjects,
+  },
+  {
+    method: "GET",
+    path: "/tools",
+    ...PUBLIC,
+    docs: {
+      summary: "Get registered tools",
+      responses: { "200": { description: "Tools payload", schema: TOOLS_RESPONSE_SCHEMA } },
+    },
+    handler: handleTools,
+  },
+  {
+    method: "GET",
+    path: "/tools/search",
+    ...PUBLIC,
+    docs: {
+      summary: "Search registered tools",
+      query: { q: { schema: { type: "string", minLength: 1 }, required: true, description: "Search terms" } },
+      responses: {
+        "200": { description: "Matching tools", schema: TOOLS_SEARCH_RESPONSE_SCHEMA },
+        "400": { description: "Missing query parameter", schema: ERROR_SCHEMA },
+      },
+    },
+    handler: handleToolsSearch,
+  },
+  {
+    method: "GET",
+    path: "/tools/:repo+",
+    ...PUBLIC,
+    docs: {
+      summary: "Get a registered tool by repo",
+      responses: {
+        "200": { description: "Tool payload", schema: TOOL_RESPONSE_SCHEMA },
+        "400": { description: "Invalid repo path", schema: ERROR_SCHEMA },
+        "404": { description: "Tool not found", schema: ERROR_SCHEMA },
+      },
+    },
+    handler: handleToolByRepo,
+  },
+  {
+    method: "GET",
+    path: "/tasks",
+    ...PUBLIC,
+    docs: {
+      summary: "Get parsed open tasks per repo",
+      responses: { "200": { description: "Task payload", schema: REPO_TASKS_RESPONSE_SCHEMA } },
+    },
+    handler: handleTasks,
+  },
+  {
+    method: "GET",
+    path: "/board",
+    ...PUBLIC,
+    docs: {
+      summary: "Get the public roadmap",
+      description:
+        "Merges admin tasks with every registry repo's TASKS.md, grouped by repo and then priority. "
+        + "Per-repo counts honour `repo` and `priority` but ignore `status`.",
+      query: {
+        repo: { schema: { type: "string" }, description: "Only this `owner/name` repo (case-insensitive)" },
+        priority: { schema: { type: "string", enum: TASK_PRIORITIES } },
+        status: { schema: { type: "string", enum: TASK_STATUSES } },
+      },
+      responses: {
+        "200": { description: "Board payload", schema: BOARD_RESPONSE_SCHEMA },
+        "400": { description: "Invalid filter", schema: ERROR_SCHEMA },
+      },
+    },
+    handler: handleBoard,
+  },
+  {
+    method: "GET",
+    path: "/now",
+    ...PUBLIC,
+    docs: {
+      summary: "Get the full presence sync payload",
+      responses: { "200": { description: "Presence, team, history, and uptime", schema: NOW_RESPONSE_SCHEMA } },
+    },
+    handler: handleNow,
+  },
+  {
+    method: "GET",
+    path: "/github/stats",
+    ...PUBLIC,
+    docs: {
+      summary: "Get GitHub account stats",
+      responses: { "200": { description: "GitHub stats payload", schema: GITHUB_STATS_RESPONSE_SCHEMA } },
+    },
+    handler: handleGithubStats,
+  },
+  {
+    method: "GET",
+    path: "/github/events",
+    ...PUBLIC,
+    docs: {
+      summary: "Get recent GitHub activity",
+      description: "Newest first: the cached feed, then the rolling archive once the feed runs out.",
+      query: {
+        repo: { schema: { type: "string" }, description: "Repo name, with or without the `clankamode/` owner" },
+        type: {
+          schema: { type: "string" },
+          description: `Comma-separated event types: ${GITHUB_EVENT_TYPES.map((type) => `\`${type}\``).join(", ")}`,
+        },
+        since: { schema: { type: "string" }, description: "ISO timestamp or epoch milliseconds (inclusive)" },
+        until: { schema: { type: "string" }, description: "ISO timestamp or epoch milliseconds (inclusive)" },
+        limit: {
+          schema: { type: "integer", minimum: 1, maximum: GITHUB_EVENTS_MAX_LIMIT },
+          description: `Page size (default ${GITHUB_EVENTS_DEFAULT_LIMIT})`,
+        },
+        cursor: { schema: { type: "string" }, description: "`nextCursor` from the previous page" },
+      },
+      responses: {
+        "200": { description: "GitHub events payload", schema: GITHUB_EVENTS_RESPONSE_SCHEMA },
+        "400": { description: "Invalid query parameter", schema: ERROR_SCHEMA },
+      },
+    },
+    handler: handleGithubEvents,
+  },
+  {
+    method: "GET",
+    path: "/changelog",
+    ...PUBLIC,
+    docs: {
+      summary: "Get recent commits across the fleet",
+      description: "Merges the latest commits of every registry repo, newest first, grouped by conventional-commit type.",
+      query: CHANGELOG_QUERY_DOCS,
+      responses: {
+        "200": { description: "Changelog payload", schema: CHANGELOG_RESPONSE_SCHEMA },
+        "400": { description: "Invalid query parameter", schema: ERROR_SCHEMA },
+        "503": { description: "No GitHub credentials are configured", schema: ERROR_SCHEMA },
+      },
+    },
+    handler: handleChangelog,
+  },
+  {
+    method: "GET",
+    path: "/changelog/:repo",
+    ...PUBLIC,
+    docs: {
+      summary: "Get recent commits of one registry repo",
+      description: "`:repo` is the repo name, or the URL-encoded `owner/name`.",
+      query: CHANGELOG_QUERY_DOCS,
+      responses: {
+        "200": { description: "Repo changelog payload", schema: REPO_CHANGELOG_RESPONSE_SCHEMA },
+        "400": { description: "Invalid query parameter", schema: ERROR_SCHEMA },
+        "404": { description: "Repo is not in the registry", schema: ERROR_SCHEMA },
+        "503": { description: "No GitHub credentials, or GitHub unavailable and nothing cached", schema: ERROR_SCHEMA },
+      },
+    },
+    handler: handleRepoChangelog,
+  },
+  {
+    method: "GET",
+    path: "/feeds/:feed",
+    ...PUBLIC,
+    docs: {
+      summary: "Get history, GitHub events, or the changelog as a feed",
+      description: `\`:feed\` is \`<source>.<format>\`: source ${FEED_SOURCES.map((source) => `\`${source}\``).join(", ")}; `
+        + "format `xml` (RSS 2.0), `atom` (Atom 1.0), or `json` (JSON Feed 1.1). "
+        + "Responses carry `ETag` and `Last-Modified` and answer `If-None-Match` / `If-Modified-Since` with `304`.",
+      responses: {
+        "200": { description: "Feed document" },
+        "304": { description: "The client's copy is current" },
+        "404": { description: "Unknown feed", schema: ERROR_SCHEMA },
+        "503": { description: "No GitHub credentials are configured (changelog feeds)", schema: ERROR_SCHEMA },
+      },
+    },
+    handler: handleFeed,
+  },
+  {
+    method: "GET",
+    path: "/badges/status.svg",
+    ...PUBLIC,
+    docs: { summary: "Presence badge: operational or offline", query: BADGE_QUERY_DOCS, responses: BADGE_RESPONSES },
+    handler: handleStatusBadge,
+  },
+  {
+    method: "GET",
+    path: "/badges/fleet-health.svg",
+    ...PUBLIC,
+    docs: { summary: "Fleet CI health badge", query: BADGE_QUERY_DOCS, responses: BADGE_RESPONSES },
+    handler: handleFleetHealthBadge,
+  },
+  {
+    method: "GET",
+    path: "/badges/fleet-score.svg",
+    ...PUBLIC,
+    docs: { summary: "Fleet score badge, out of 100", query: BADGE_QUERY_DOCS, responses: BADGE_RESPONSES },
+    handler: handleFleetScoreBadge,
+  },
+  {
+    method: "GET",
+    path: "/badges/ci/:repo+",
+    ...PUBLIC,
+    docs: {
+      summary: "Latest CI run badge for one registry repo",
+      description: "The path is `/badges/ci/<repo>.svg`, where `<repo>` is the name or `owner/name`.",
+      query: BADGE_QUERY_DOCS,
+      responses: {
+        ...BADGE_RESPONSES,
+        "404": { description: "Repo is not in the registry", schema: ERROR_SCHEMA },
+      },
+    },
+    handler: handleCiBadge,
+  },
+  {
+    method: "GET",
+    path: "/stream",
+    ...PUBLIC,
+    cache: "no-store",
+    docs: {
+      summary: "Stream presence, history, heartbeat, fleet health, and incident changes as Server-Sent Events",
+      description: `Event types: ${STREAM_EVENT_TYPES.map((type) => `\`${type}\``).join(", ")}. `
+        + "Reconnect with `Last-Event-ID` to replay the events missed since (the last 100 are kept). "
+        + "A `: keepalive` comment is sent every 15 seconds.",
+      responses: {
+        "200": { description: "`text/event-stream`" },
+        "503": { description: "The stream hub is not configured or did not accept the connection", schema: ERROR_SCHEMA },
+      },
+    },
+    handler: handleStream,
+  },
+  {
+    method: "GET",
+    path: "/agents/connect",
+    ...ADMIN,
+    auth: requireScope("presence:write"),
+    cache: "no-store",
+    docs: {
+      summary: "Connect an agent over a WebSocket",
+      description: "The agent counts as online while the socket is open. "
+        + `It may send ${AGENT_MESSAGE_TYPES.map((type) => `\`${type}\``).join(", ")} messages `
+        + "(`{ \"type\": \"ping\" }` is answered with a pong) and receives `command` messages from "
+        + `\`POST /admin/agents/commands\`. \`last_seen\` is refreshed every ${AGENT_LIVENESS_INTERVAL_MS / 60_000} minutes while connected.`,
+      query: {
+        agent: {
+          schema: { type: "string", pattern: AGENT_ID_PATTERN.source },
+          description: "Name the socket is addressed by (default: the token name)",
+        },
+      },
+      responses: {
+        "101": { description: "Switching to the WebSocket protocol" },
+        "426": { description: "The request is not a WebSocket upgrade", schema: ERROR_SCHEMA },
+        "503": { description: "The agent hub is not configured", schema: ERROR_SCHEMA },
+      },
+    },
+    handler: handleAgentConnect,
+  },
+  {
+    method: "GET",
+    path: "/agents",
+    ...PUBLIC,
+    docs: {
+      summary: "List agents with their presence and whether they are online",
+      responses: { "200": { description: "Agents, sorted by id", schema: AGENTS_RESPONSE_SCHEMA } },
+    },
+    handler: handleAgentsList,
+  },
+  {
+    method: "GET",
+    path: "/agents/:id",
+    ...PUBLIC,
+    docs: {
+      summary: "Get one agent's presence",
+      responses: {
+        "200": { description: "Agent", schema: AGENT_SCHEMA },
+        "404": { description: "No agent has reported in with this id", schema: ERROR_SCHEMA },
+      },
+    },
+    handler: handleAgent,
+  },
+  {
+    method: "PUT",
+    path: "/agents/:id/presence",
+    ...ADMIN,
+    auth: requireScope("presence:write"),
+    docs: {
+      summary: "Replace an agent's presence and count it as a heartbeat",
+      description: "Registers the agent on first use. `state`, `message`, and `task` are replaced; omitted ones reset.",
+      requestBody: AGENT_PRESENCE_BODY_SCHEMA,
+      responses: {
+        "200": { description: "The updated agent", schema: AGENT_SCHEMA },
+        "409": { description: "The agent's current state cannot change to the requested one", schema: ERROR_SCHEMA },
+      },
+    },
+    audit: "agents.presence",
+    handler: handleAgentPresence,
+  },
+  {
+    method: "GET",
+    path: "/posts/count",
+    ...PUBLIC,
+    docs: {
+      summary: "Get blog post count",
+      responses: { "200": { description: "Post count payload", schema: POSTS_COUNT_RESPONSE_SCHEMA } },
+    },
+    handler: handlePostsCount,
+  },
+]);
 
-    if (url.pathname === "/github/stats") {
-      if (request.method !== "GET") {
-        return respond(JSON.stringify({ error: "Method Not Allowed" }), {
-          status: 405,
-          headers: corsHeaders,
-        });
+// Public GET routes, in table order and in the spec's path form, for `/status` clients to discover.
+const STATUS_ENDPOINTS = Array.from(new Set(ROUTES
+  .filter((route) => route.method === "GET" && route.auth.type === "none")
+  .map((route) => toOpenApiPath(route.path))));
+
+const OPENAPI_SPEC = buildOpenApiSpec(ROUTES, {
+  title: "clanka-api",
+  version: API_VERSION,
+  description: "Edge API for Clanka public endpoints",
+});
+
+export default {
+  // Cron trigger: refreshes GitHub-derived caches ahead of expiry so requests rarely fetch inline.
+  async scheduled(event: WorkerScheduledEvent, env: Env): Promise<void> {
+    await runJobs(env.CLANKA_STATE, backgroundJobs(env), { cron: event.cron });
+  },
+
+  async fetch(request: Request, env: Env, ctx?: WorkerExecutionContext): Promise<Response> {
+    const url = new URL(request.url);
+    const requestId = resolveRequestId(request);
+
+    const defer = (promise: Promise<unknown>): void => {
+      if (ctx && typeof ctx.waitUntil === "function") {
+        ctx.waitUntil(promise);
+      } else {
+        void promise;
       }
+    };
+    defer(incrementMetrics(env));
+
+    const respond = (response: Response): Response => {
+      const tagged = new Response(response.body, response);
+      tagged.headers.set("X-Request-Id", requestId);
+      defer(logRequest(env, request, tagged, requestId).catch(() => {
+        // ignore logging errors
+      }));
+      return tagged;
+    };
 
-      const stats = await loadGithubStats(env);
-      return respond(JSON.stringify(stats), { headers: corsHeaders });
+    if (request.method === "OPTIONS") {
+      return respond(new Response(null, { headers: corsHeaders }));
     }
 
-    if (url.pathname === "/github/events") {
-      if (request.method !== "GET") {
-        return respond(JSON.stringify({ error: "Method Not Allowed" }), { status: 405, headers: corsHeaders });
+    const match = matchRoute(ROUTES, request.method, url.pathname);
+    const rateLimitPolicy: RateLimitPolicy = match.kind === "found"
+      ? match.route.rateLimit
+      : match.kind === "method_not_allowed"
+        ? match.routes[0].rateLimit
+        : "public";
+
+    if (
+      (request.method === "GET" || request.method === "HEAD")
+      && rateLimitPolicy === "public"
+      && !isTestEnvironment()
+    ) {
+      const rateLimit = await checkRateLimit(env, request);
+      if (!rateLimit.allowed) {
+        return respond(errorResponse({ headers: corsHeaders, requestId }, "rate_limited", {
+          details: { retryAfter: rateLimit.retryAfter },
+          headers: { "Retry-After": String(rateLimit.retryAfter) },
+        }));
       }
-      const events = await loadGithubEvents(env.CLANKA_STATE);
-      return respond(JSON.stringify({ events }), { headers: corsHeaders });
     }
 
-    if (url.pathname === "/changelog") {
-      if (request.method !== "GET") {
-        return respond(JSON.stringify({ error: "Method Not Allowed" }), {
-          status: 405,
-          headers: corsHeaders,
-        });
-      }
+    if (match.kind === "not_found") {
+      return respond(errorResponse({ headers: corsHeaders, requestId }, "not_found"));
+    }
 
-      const token = typeof env.GITHUB_TOKEN === "string" ? env.GITHUB_TOKEN.trim() : "";
-      if (!token) {
-        return respond(JSON.stringify({
-          commits: [],
-          error: "no token",
-          timestamp: new Date().toISOString(),
-        }), { headers: corsHeaders });
-      }
+    if (match.kind === "method_not_allowed") {
+      const noStore = match.routes.some((route) => route.cache === "no-store");
+      return respond(errorResponse(
+        { headers: headersForCachePolicy(noStore ? "no-store" : "default"), requestId },
+        "method_not_allowed",
+        { details: { allow: match.allow }, headers: { "Allow": match.allow.join(", ") } },
+      ));
+    }
+
+    const { route, params } = match;
+    const routeContext: RouteContext = {
+      request,
+      env,
+      url,
+      params,
+      headers: headersForCachePolicy(route.cache),
+      requestId,
+      principal: null,
+      body: undefined,
+      cache: createCacheTrace(defer),
+      defer,
+    };
 
-      const commits = await loadChangelog(env);
-      return respond(JSON.stringify({
-        commits,
-        timestamp: new Date().toISOString(),
-      }), { headers: corsHeaders });
+    const denied = await enforceAuthPolicy(route.auth, routeContext);
+    if (denied) {
+      return respond(denied);
     }
 
-    if (url.pathname === "/posts/count") {
-      if (request.method !== "GET") {
-        return respond(JSON.stringify({ error: "Method Not Allowed" }), {
-          status: 405,
-          headers: corsHeaders,
-        });
+    if (route.docs.requestBody) {
+      const parsed = await parseJsonBody(request, route.docs.requestBody);
+      if (!parsed.ok) {
+        return respond(errorResponse(routeContext, "invalid_body", { details: parsed.issues }));
       }
-
-      return respond(
-        JSON.stringify({ count: 11, lastPost: "011", lastPostDate: "2026-02-26", lastPostSlug: "claude-cli-unlock" }),
-        { headers: corsHeaders },
-      );
+      routeContext.body = parsed.value;
     }
 
-    return respond(JSON.stringify({ error: "Not Found" }), {
-      status: 404,
-      headers: corsHeaders,
-    });
+    let response: Response;
+    try {
+      response = await route.handler(routeContext);
+    } catch {
+      response = errorResponse(routeContext, "internal_error");
+    }
+    if (route.audit && response.ok) {
+      await recordRouteAudit(routeContext, route.audit, response.status);
+    }
+    const cacheHeaders = cacheResponseHeaders(routeContext.cache);
+    if (cacheHeaders) {
+      response = new Response(response.body, response);
+      for (const [name, value] of Object.entries(cacheHeaders)) response.headers.set(name, value);
+    }
+    if (match.head) {
+      return respond(new Response(null, { status: response.status, headers: response.headers }));
+    }
+    return respond(response);
   },
 };
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { inJitteredBatches, loadJobsState, runJobs } from "./jobs";
+
+function createMockKV() {
+  const store: Record<string, string> = {};
+  return {
+    get: async (key: string) => (store[key] ? JSON.parse(store[key]) : null),
+    put: async (key: string, value: string) => {
+      store[key] = value;
+    },
+  } as unknown as KVNamespace;
+}
+
+describe("runJobs", () => {
+  it("records each outcome and keeps going after a failure", async () => {
+    const kv = createMockKV();
+    const ran: string[] = [];
+    const state = await runJobs(kv, [
+      { name: "broken", everyMs: 0, run: async () => { ran.push("broken"); throw new Error("boom"); } },
+      { name: "ok", everyMs: 0, run: async () => { ran.push("ok"); return { status: "success", detail: "3 items" }; } },
+    ], { cron: "*/5 * * * *", now: () => 1_000 });
+
+    expect(ran).toEqual(["broken", "ok"]);
+    expect(state.jobs.broken).toMatchObject({ status: "failure", detail: "boom", lastSuccessAt: null });
+    expect(state.jobs.ok).toMatchObject({ status: "success", detail: "3 items", lastSuccessAt: "1970-01-01T00:00:01.000Z" });
+    expect(await loadJobsState(kv)).toEqual(state);
+  });
+
+  it("skips jobs that ran within their interval, allowing for cron drift", async () => {
+    const kv = createMockKV();
+    let runs = 0;
+    const jobs = [{ name: "ci", everyMs: 5 * 60_000, run: async () => { runs += 1; return { status: "success" as const }; } }];
+    const minute = 60_000;
+
+    await runJobs(kv, jobs, { cron: null, now: () => 0 });
+    await runJobs(kv, jobs, { cron: null, now: () => 2 * minute });
+    await runJobs(kv, jobs, { cron: null, now: () => 5 * minute - 2_000 });
+    expect(runs).toBe(2);
+  });
+});
+
+describe("inJitteredBatches", () => {
+  it("settles every item in batch order", async () => {
+    const results = await inJitteredBatches([1, 2, 3], 2, { delayMs: 0, jitterMs: 0 }, async (n) => {
+      if (n === 2) throw new Error("two");
+      return n * 10;
+    });
+    expect(results.map((result) => result.status === "fulfilled" ? result.value : "rejected")).toEqual([10, "rejected", 30]);
+  });
+});
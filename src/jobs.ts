@@ -0,0 +1,130 @@
+// Background refresh jobs run from the cron trigger, with per-job schedules and run history
+
+export type JobStatus = "success" | "failure" | "skipped";
+
+// What a job reports when it returns; throwing records a failure with the error message.
+export type JobOutcome = { status: Exclude<JobStatus, "failure">; detail?: string };
+
+export type JobDefinition = {
+  name: string;
+  // Minimum time between runs; a cron tick inside this window skips the job.
+  everyMs: number;
+  run: () => Promise<JobOutcome>;
+};
+
+export type JobState = {
+  status: JobStatus;
+  startedAt: string;
+  durationMs: number;
+  detail: string | null;
+  lastSuccessAt: string | null;
+};
+
+export type JobRunSummary = {
+  cron: string | null;
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+};
+
+export type JobsState = {
+  lastRun: JobRunSummary | null;
+  jobs: Record<string, JobState>;
+};
+
+export const JOBS_STATE_KEY = "jobs:state:v1";
+// Cron ticks start a little late or early, so a job due "every 5 minutes" must not miss a tick by 1s.
+const JOB_SCHEDULE_SLACK_MS = 60 * 1000;
+
+export async function loadJobsState(kv: KVNamespace): Promise<JobsState> {
+  try {
+    const parsed = await kv.get<JobsState>(JOBS_STATE_KEY, "json");
+    if (parsed && typeof parsed === "object" && parsed.jobs && typeof parsed.jobs === "object") {
+      return { lastRun: parsed.lastRun ?? null, jobs: parsed.jobs };
+    }
+  } catch {
+    // fall through to an empty history
+  }
+  return { lastRun: null, jobs: {} };
+}
+
+export function isJobDue(state: JobState | undefined, everyMs: number, now: number): boolean {
+  if (!state) return true;
+  return now - Date.parse(state.startedAt) >= everyMs - JOB_SCHEDULE_SLACK_MS;
+}
+
+// Runs every due job in order and records each outcome; one job failing does not stop the rest.
+export async function runJobs(
+  kv: KVNamespace,
+  jobs: JobDefinition[],
+  options: { cron: string | null; now?: () => number },
+): Promise<JobsState> {
+  const now = options.now ?? Date.now;
+  const previous = await loadJobsState(kv);
+  const startedAt = now();
+  const states: Record<string, JobState> = { ...previous.jobs };
+
+  for (const job of jobs) {
+    const before = states[job.name];
+    if (!isJobDue(before, job.everyMs, startedAt)) continue;
+
+    const jobStart = now();
+    let status: JobStatus = "success";
+    let detail: string | null = null;
+    try {
+      const outcome = await job.run();
+      status = outcome.status;
+      detail = outcome.detail ?? null;
+    } catch (error) {
+      status = "failure";
+      detail = error instanceof Error ? error.message : String(error);
+    }
+    states[job.name] = {
+      status,
+      startedAt: new Date(jobStart).toISOString(),
+      durationMs: now() - jobStart,
+      detail,
+      lastSuccessAt: status === "success" ? new Date(jobStart).toISOString() : before?.lastSuccessAt ?? null,
+    };
+  }
+
+  const finishedAt = now();
+  const state: JobsState = {
+    lastRun: {
+      cron: options.cron,
+      startedAt: new Date(startedAt).toISOString(),
+      finishedAt: new Date(finishedAt).toISOString(),
+      durationMs: finishedAt - startedAt,
+    },
+    jobs: states,
+  };
+  try {
+    await kv.put(JOBS_STATE_KEY, JSON.stringify(state));
+  } catch {
+    // ignore state write errors; the caches themselves were refreshed
+  }
+  return state;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Runs `task` over `items` in batches of `size`, pausing `delayMs` plus up to `jitterMs` of random
+ * jitter between batches so a fleet-wide refresh does not burst against GitHub's rate limits.
+ * Resolves with each item's outcome instead of rejecting.
+ */
+export async function inJitteredBatches<T, R>(
+  items: T[],
+  size: number,
+  pause: { delayMs: number; jitterMs: number },
+  task: (item: T) => Promise<R>,
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = [];
+  for (let start = 0; start < items.length; start += size) {
+    if (start > 0) await sleep(pause.delayMs + Math.random() * pause.jitterMs);
+    results.push(...await Promise.allSettled(items.slice(start, start + size).map(task)));
+  }
+  return results;
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import {
+  AUTH_FAILURE_LIMIT,
+  AUTH_FAILURE_WINDOW_MS,
+  AUTH_LOCKOUT_MS,
+  listLockouts,
+  loadLockout,
+  lockoutRetryAfter,
+  recordLockoutFailure,
+  withAuthFailure,
+  type LockoutEntry,
+} from "./lockout";
+
+function createMockKV() {
+  const store: Record<string, { value: string; metadata?: unknown; expirationTtl?: number }> = {};
+  const kv = {
+    get: async (key: string) => (store[key] ? JSON.parse(store[key].value) : null),
+    put: async (key: string, value: string, opts?: { metadata?: unknown; expirationTtl?: number }) => {
+      store[key] = { value, ...opts };
+    },
+    list: async ({ prefix = "" }: { prefix?: string }) => ({
+      keys: Object.keys(store).filter((name) => name.startsWith(prefix)).sort()
+        .map((name) => ({ name, metadata: store[name].metadata })),
+      list_complete: true,
+    }),
+  } as unknown as KVNamespace;
+  return { kv, store };
+}
+
+describe("withAuthFailure", () => {
+  it("locks the IP once the failure limit is reached", () => {
+    let entry: LockoutEntry | null = null;
+    for (let i = 0; i < AUTH_FAILURE_LIMIT - 1; i += 1) entry = withAuthFailure(entry, 1000);
+    expect(entry).toEqual({ failures: AUTH_FAILURE_LIMIT - 1, firstFailureAt: 1000, lockedUntil: null });
+    expect(lockoutRetryAfter(entry, 1000)).toBe(0);
+
+    entry = withAuthFailure(entry, 2000);
+    expect(entry.lockedUntil).toBe(2000 + AUTH_LOCKOUT_MS);
+    expect(lockoutRetryAfter(entry, 2000)).toBe(AUTH_LOCKOUT_MS / 1000);
+  });
+});
+
+describe("recordLockoutFailure", () => {
+  it("keeps one key per IP that expires with its window or lockout", async () => {
+    const { kv, store } = createMockKV();
+    await recordLockoutFailure(kv, "1.1.1.1", null, 0);
+    expect(store["auth:lockout:1.1.1.1"].expirationTtl).toBe(AUTH_FAILURE_WINDOW_MS / 1000);
+
+    const locked = { failures: AUTH_FAILURE_LIMIT - 1, firstFailureAt: 0, lockedUntil: null };
+    await recordLockoutFailure(kv, "2.2.2.2", locked, 60_000);
+    expect(store["auth:lockout:2.2.2.2"].expirationTtl).toBe(AUTH_LOCKOUT_MS / 1000);
+
+    expect(Object.keys(await listLockouts(kv, 60_000))).toEqual(["1.1.1.1", "2.2.2.2"]);
+    expect(await loadLockout(kv, "2.2.2.2", 60_000)).toEqual({
+      failures: AUTH_FAILURE_LIMIT,
+      firstFailureAt: 0,
+      lockedUntil: 60_000 + AUTH_LOCKOUT_MS,
+    });
+  });
+});
+
+describe("loadLockout", () => {
+  it("drops expired windows, expired lockouts, and malformed entries", async () => {
+    const now = 10 * AUTH_FAILURE_WINDOW_MS;
+    const { kv } = createMockKV();
+    const entries: Record<string, unknown> = {
+      live: { failures: 2, firstFailureAt: now - 1000, lockedUntil: null },
+      stale: { failures: 2, firstFailureAt: now - AUTH_FAILURE_WINDOW_MS - 1, lockedUntil: null },
+      locked: { failures: 5, firstFailureAt: 0, lockedUntil: now + 1000 },
+      released: { failures: 5, firstFailureAt: 0, lockedUntil: now - 1 },
+      junk: { failures: "x" },
+    };
+    for (const [ip, entry] of Object.entries(entries)) {
+      await kv.put(`auth:lockout:${ip}`, JSON.stringify(entry), { metadata: entry });
+    }
+
+    expect(Object.keys(await listLockouts(kv, now))).toEqual(["live", "locked"]);
+    expect(await loadLockout(kv, "stale", now)).toBeNull();
+    expect(await loadLockout(kv, "locked", now)).not.toBeNull();
+  });
+
+  it("treats unreadable state as no lockout", async () => {
+    const throwing = { get: async () => { throw new Error("kv down"); } } as unknown as KVNamespace;
+    expect(await loadLockout(throwing, "1.1.1.1")).toBeNull();
+  });
+});
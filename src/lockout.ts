@@ -0,0 +1,100 @@
+// Per-IP lockout after repeated auth failures on protected routes, stored as one KV key per IP
+
+export type LockoutEntry = {
+  failures: number;
+  firstFailureAt: number;
+  lockedUntil: number | null;
+};
+
+export type LockoutTable = Record<string, LockoutEntry>;
+
+// Each key holds its entry as the value and as metadata, so listing needs no per-IP reads.
+export const AUTH_LOCKOUT_KEY_PREFIX = "auth:lockout:";
+export const AUTH_FAILURE_LIMIT = 5;
+export const AUTH_FAILURE_WINDOW_MS = 15 * 60 * 1000;
+export const AUTH_LOCKOUT_MS = 15 * 60 * 1000;
+// KV rejects a shorter `expirationTtl`; reads drop entries that outlive their window until then.
+const LOCKOUT_MIN_TTL_SEC = 60;
+
+function lockoutKey(ip: string): string {
+  return `${AUTH_LOCKOUT_KEY_PREFIX}${ip}`;
+}
+
+function isLive(entry: LockoutEntry, now: number): boolean {
+  if (entry.lockedUntil !== null) return entry.lockedUntil > now;
+  return entry.firstFailureAt + AUTH_FAILURE_WINDOW_MS > now;
+}
+
+function parseLockout(value: unknown, now: number): LockoutEntry | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+  const item = value as Partial<LockoutEntry>;
+  if (typeof item.failures !== "number" || typeof item.firstFailureAt !== "number") return null;
+  const entry: LockoutEntry = {
+    failures: item.failures,
+    firstFailureAt: item.firstFailureAt,
+    lockedUntil: typeof item.lockedUntil === "number" ? item.lockedUntil : null,
+  };
+  return isLive(entry, now) ? entry : null;
+}
+
+// Null when `ip` has no live failure window or lockout, or its key cannot be read.
+export async function loadLockout(kv: KVNamespace, ip: string, now = Date.now()): Promise<LockoutEntry | null> {
+  try {
+    return parseLockout(await kv.get(lockoutKey(ip), "json"), now);
+  } catch {
+    return null;
+  }
+}
+
+// Expired windows and lockouts are dropped on read, so the table only holds live entries.
+export async function listLockouts(kv: KVNamespace, now = Date.now()): Promise<LockoutTable> {
+  const table: LockoutTable = {};
+  let cursor: string | undefined;
+  do {
+    const page = await kv.list({ prefix: AUTH_LOCKOUT_KEY_PREFIX, cursor });
+    for (const key of page.keys) {
+      const entry = parseLockout(key.metadata, now);
+      if (entry) table[key.name.slice(AUTH_LOCKOUT_KEY_PREFIX.length)] = entry;
+    }
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+  return table;
+}
+
+// The key expires with the failure window, or with the lockout once the limit is reached.
+export async function recordLockoutFailure(
+  kv: KVNamespace,
+  ip: string,
+  current: LockoutEntry | null,
+  now = Date.now(),
+): Promise<void> {
+  const entry = withAuthFailure(current, now);
+  const expiresAt = entry.lockedUntil ?? entry.firstFailureAt + AUTH_FAILURE_WINDOW_MS;
+  try {
+    await kv.put(lockoutKey(ip), JSON.stringify(entry), {
+      metadata: entry,
+      expirationTtl: Math.max(LOCKOUT_MIN_TTL_SEC, Math.ceil((expiresAt - now) / 1000)),
+    });
+  } catch {
+    // KV takes about one write per second per key, so a burst from one IP can lose some counts; the
+    // writes that land still lock it out within seconds, and auth fails closed for this request.
+  }
+}
+
+export async function clearLockout(kv: KVNamespace, ip: string): Promise<void> {
+  await kv.delete(lockoutKey(ip));
+}
+
+// Seconds until the IP may authenticate again, or 0 when it is not locked out.
+export function lockoutRetryAfter(entry: LockoutEntry | null, now = Date.now()): number {
+  const lockedUntil = entry?.lockedUntil;
+  if (lockedUntil == null || lockedUntil <= now) return 0;
+  return Math.max(1, Math.ceil((lockedUntil - now) / 1000));
+}
+
+export function withAuthFailure(entry: LockoutEntry | null, now = Date.now()): LockoutEntry {
+  const current = entry ?? { failures: 0, firstFailureAt: now, lockedUntil: null };
+  const failures = current.failures + 1;
+  const lockedUntil = failures >= AUTH_FAILURE_LIMIT ? now + AUTH_LOCKOUT_MS : null;
+  return { failures, firstFailureAt: current.firstFailureAt, lockedUntil };
+}
@@ -0,0 +1,164 @@
+// OpenAPI document generated from the route table
+
+import type { AuthPolicy, RouteDefinition } from "./router";
+import { ERROR_SCHEMA, VALIDATION_ERROR_SCHEMA, type JsonSchema } from "./schemas";
+import { SIGNATURE_HEADER, SIGNED_REQUEST_SCOPES, TIMESTAMP_HEADER } from "./signing";
+
+type OpenApiInfo = { title: string; version: string; description: string };
+
+type OpenApiResponse = {
+  description: string;
+  headers?: Record<string, { schema: JsonSchema; description?: string }>;
+  content?: Record<string, { schema: JsonSchema }>;
+};
+
+type OpenApiOperation = {
+  summary: string;
+  description?: string;
+  parameters?: Array<{
+    name: string;
+    in: "path" | "query";
+    required: boolean;
+    description?: string;
+    schema: JsonSchema;
+  }>;
+  requestBody?: { required: boolean; content: Record<string, { schema: JsonSchema }> };
+  security?: Array<Record<string, string[]>>;
+  "x-required-scope"?: string;
+  responses: Record<string, OpenApiResponse>;
+};
+
+export type OpenApiDocument = {
+  openapi: "3.0.3";
+  info: OpenApiInfo;
+  paths: Record<string, Record<string, OpenApiOperation>>;
+  components: {
+    securitySchemes: Record<string, Record<string, string>>;
+  };
+};
+
+const BEARER_SCHEME = "bearerAuth";
+// Header names still accepted in place of `Authorization: Bearer` for older clients.
+const LEGACY_TOKEN_HEADERS = ["X-Admin-Token", "ADMIN_TOKEN"];
+const SIGNED_REQUEST_SCHEME = "signedRequest";
+
+// `/tools/:repo+` -> `/tools/{repo}`
+export function toOpenApiPath(path: string): string {
+  return path.replace(/:([A-Za-z_][A-Za-z0-9_]*)\+?/g, "{$1}");
+}
+
+function pathParamNames(path: string): string[] {
+  return Array.from(path.matchAll(/:([A-Za-z_][A-Za-z0-9_]*)/g), (match) => match[1]);
+}
+
+function jsonContent(schema: JsonSchema): Record<string, { schema: JsonSchema }> {
+  return { "application/json": { schema } };
+}
+
+function securityFor(auth: AuthPolicy): Array<Record<string, string[]>> | undefined {
+  if (auth.type === "none") return undefined;
+  const schemes = [BEARER_SCHEME, ...LEGACY_TOKEN_HEADERS];
+  if (SIGNED_REQUEST_SCOPES.includes(auth.scope)) schemes.push(SIGNED_REQUEST_SCHEME);
+  return schemes.map((scheme) => ({ [scheme]: [] }));
+}
+
+function buildOperation(route: RouteDefinition<unknown>): OpenApiOperation {
+  const { docs } = route;
+  const responses: Record<string, OpenApiResponse> = {};
+  for (const [status, response] of Object.entries(docs.responses)) {
+    responses[status] = response.schema
+      ? { description: response.description, content: jsonContent(response.schema) }
+      : { description: response.description };
+  }
+
+  if (docs.requestBody && !responses["400"]) {
+    responses["400"] = { description: "Invalid request body", content: jsonContent(VALIDATION_ERROR_SCHEMA) };
+  }
+  if (route.auth.type !== "none" && !responses["401"]) {
+    responses["401"] = { description: "Unauthorized", content: jsonContent(ERROR_SCHEMA) };
+  }
+  if (route.auth.type !== "none" && !responses["403"]) {
+    responses["403"] = {
+      description: `Token lacks the ${route.auth.scope} scope`,
+      content: jsonContent(ERROR_SCHEMA),
+    };
+  }
+  if (route.rateLimit === "public" || route.auth.type !== "none") {
+    responses["429"] = {
+      description: route.rateLimit === "public"
+        ? "Too Many Requests"
+        : "IP locked out after repeated authentication failures",
+      headers: { "Retry-After": { schema: { type: "integer" }, description: "Seconds until the window resets" } },
+      content: jsonContent(ERROR_SCHEMA),
+    };
+  }
+
+  const parameters: NonNullable<OpenApiOperation["parameters"]> = [
+    ...pathParamNames(route.path).map((name) => ({
+      name,
+      in: "path" as const,
+      required: true,
+      schema: { type: "string" } as JsonSchema,
+    })),
+    ...Object.entries(docs.query ?? {}).map(([name, param]) => ({
+      name,
+      in: "query" as const,
+      required: param.required ?? false,
+      description: param.description,
+      schema: param.schema,
+    })),
+  ];
+
+  const operation: OpenApiOperation = { summary: docs.summary, responses };
+  if (docs.description) operation.description = docs.description;
+  if (parameters.length > 0) operation.parameters = parameters;
+  if (docs.requestBody) {
+    operation.requestBody = { required: true, content: jsonContent(docs.requestBody) };
+  }
+  const security = securityFor(route.auth);
+  if (security) operation.security = security;
+  if (route.auth.type === "token") operation["x-required-scope"] = route.auth.scope;
+  return operation;
+}
+
+export function buildOpenApiSpec(routes: RouteDefinition<unknown>[], info: OpenApiInfo): OpenApiDocument {
+  const paths: OpenApiDocument["paths"] = {};
+  const securitySchemes: OpenApiDocument["components"]["securitySchemes"] = {};
+
+  for (const route of routes) {
+    const path = toOpenApiPath(route.path);
+    paths[path] = paths[path] ?? {};
+    paths[path][route.method.toLowerCase()] = buildOperation(route);
+
+    if (route.auth.type === "token" && !securitySchemes[BEARER_SCHEME]) {
+      securitySchemes[BEARER_SCHEME] = {
+        type: "http",
+        scheme: "bearer",
+        description: "Scoped API token minted via /admin/tokens, or the ADMIN_KEY secret",
+      };
+      for (const header of LEGACY_TOKEN_HEADERS) {
+        securitySchemes[header] = {
+          type: "apiKey",
+          in: "header",
+          name: header,
+          description: "Legacy header carrying the same token as `Authorization: Bearer`",
+        };
+      }
+    }
+    if (route.auth.type === "token" && SIGNED_REQUEST_SCOPES.includes(route.auth.scope)) {
+      securitySchemes[SIGNED_REQUEST_SCHEME] = {
+        type: "apiKey",
+        in: "header",
+        name: SIGNATURE_HEADER,
+        description: `Hex HMAC-SHA256 with SIGNING_SECRET over "METHOD\\npath?query\\n<${TIMESTAMP_HEADER}>\\nbody"`,
+      };
+    }
+  }
+
+  return {
+    openapi: "3.0.3",
+    info,
+    paths,
+    components: { securitySchemes },
+  };
+}
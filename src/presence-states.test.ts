@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { canTransition, effectivePresenceState, presenceDays, presenceDecay } from "./presence-states";
+
+const MINUTE = 60_000;
+const DAY = 24 * 60 * MINUTE;
+
+describe("canTransition", () => {
+  it("allows staying put and follows the table for changes", () => {
+    expect(canTransition("focus", "focus")).toBe(true);
+    expect(canTransition("active", "maintenance")).toBe(true);
+    expect(canTransition("maintenance", "focus")).toBe(false);
+    expect(canTransition("offline", "idle")).toBe(false);
+    expect(canTransition("offline", "active")).toBe(true);
+  });
+});
+
+describe("presence decay", () => {
+  it("decays idle, then away, then offline as the heartbeat ages", () => {
+    const offlineAfter = 10 * MINUTE;
+    expect(presenceDecay("focus", 0, offlineAfter)).toEqual([
+      { state: "idle", at: 5 * MINUTE },
+      { state: "away", at: 7.5 * MINUTE },
+      { state: "offline", at: 10 * MINUTE },
+    ]);
+    expect(presenceDecay("away", 0, offlineAfter)).toEqual([{ state: "offline", at: 10 * MINUTE }]);
+    expect(effectivePresenceState("active", 0, offlineAfter, 5 * MINUTE)).toBe("active");
+    expect(effectivePresenceState("active", 0, offlineAfter, 5 * MINUTE + 1)).toBe("idle");
+    expect(effectivePresenceState("idle", 0, offlineAfter, 8 * MINUTE)).toBe("away");
+    expect(effectivePresenceState("active", 0, offlineAfter, 10 * MINUTE + 1)).toBe("offline");
+  });
+
+  it("leaves maintenance and offline alone", () => {
+    expect(effectivePresenceState("maintenance", 0, 10 * MINUTE, DAY)).toBe("maintenance");
+    expect(presenceDecay("offline", 0, 10 * MINUTE)).toEqual([]);
+  });
+});
+
+describe("presenceDays", () => {
+  it("splits time in each state across UTC days and skips time before the first transition", () => {
+    const start = Date.parse("2026-03-01T00:00:00Z");
+    const days = presenceDays([
+      { from: null, to: "active", at: start + 6 * 60 * MINUTE, reason: "set" },
+      { from: "active", to: "maintenance", at: start + 12 * 60 * MINUTE, reason: "set" },
+      { from: "maintenance", to: "active", at: start + DAY + 60 * MINUTE, reason: "set" },
+    ], start + 3 * 60 * MINUTE, start + DAY + 2 * 60 * MINUTE);
+
+    expect(days).toEqual([
+      {
+        date: "2026-03-01",
+        seconds: { active: 6 * 3600, idle: 0, focus: 0, away: 0, maintenance: 12 * 3600, offline: 0 },
+      },
+      {
+        date: "2026-03-02",
+        seconds: { active: 3600, idle: 0, focus: 0, away: 0, maintenance: 3600, offline: 0 },
+      },
+    ]);
+  });
+});
@@ -0,0 +1,98 @@
+// Presence state machine: the states, which changes are allowed, decay by heartbeat age, and time spent per day
+
+export const PRESENCE_STATES = ["active", "idle", "focus", "away", "maintenance", "offline"] as const;
+export type PresenceState = typeof PRESENCE_STATES[number];
+
+// Checked for explicit changes only; decay, and the heartbeat that ends it, move between states freely.
+export const PRESENCE_TRANSITIONS: Record<PresenceState, readonly PresenceState[]> = {
+  active: ["idle", "focus", "away", "maintenance", "offline"],
+  idle: ["active", "focus", "away", "maintenance", "offline"],
+  focus: ["active", "idle", "away", "maintenance", "offline"],
+  away: ["active", "idle", "focus", "maintenance", "offline"],
+  // Maintenance is ended on purpose, by coming back or going offline.
+  maintenance: ["active", "offline"],
+  offline: ["active", "maintenance"],
+};
+
+export const PRESENCE_TRANSITION_REASONS = ["set", "decay", "heartbeat"] as const;
+export type PresenceTransitionReason = typeof PRESENCE_TRANSITION_REASONS[number];
+
+// `from` is null for the first transition ever logged.
+export type PresenceTransition = {
+  from: PresenceState | null;
+  to: PresenceState;
+  at: number;
+  reason: PresenceTransitionReason;
+};
+
+export type PresenceDay = { date: string; seconds: Record<PresenceState, number> };
+
+// Each step applies once the heartbeat is older than this fraction of the offline threshold.
+const PRESENCE_DECAY: ReadonlyArray<{ state: PresenceState; after: number }> = [
+  { state: "idle", after: 0.5 },
+  { state: "away", after: 0.75 },
+  { state: "offline", after: 1 },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function isPresenceState(value: unknown): value is PresenceState {
+  return typeof value === "string" && (PRESENCE_STATES as readonly string[]).includes(value);
+}
+
+export function canTransition(from: PresenceState, to: PresenceState): boolean {
+  return from === to || PRESENCE_TRANSITIONS[from].includes(to);
+}
+
+// The decay steps a state goes through after `lastSeen`, with the time each applies. `maintenance`
+// and `offline` never decay; `idle` and `away` pick the chain up part way.
+export function presenceDecay(
+  state: PresenceState,
+  lastSeen: number,
+  offlineAfterMs: number,
+): Array<{ state: PresenceState; at: number }> {
+  if (state === "maintenance" || state === "offline") return [];
+  const start = PRESENCE_DECAY.findIndex((step) => step.state === state) + 1;
+  return PRESENCE_DECAY.slice(start).map((step) => ({ state: step.state, at: lastSeen + step.after * offlineAfterMs }));
+}
+
+export function effectivePresenceState(
+  state: PresenceState,
+  lastSeen: number,
+  offlineAfterMs: number,
+  now: number,
+): PresenceState {
+  const due = presenceDecay(state, lastSeen, offlineAfterMs).filter((step) => step.at < now);
+  return due[due.length - 1]?.state ?? state;
+}
+
+function dayStart(time: number): number {
+  return Math.floor(time / DAY_MS) * DAY_MS;
+}
+
+function emptySeconds(): Record<PresenceState, number> {
+  return Object.fromEntries(PRESENCE_STATES.map((state) => [state, 0])) as Record<PresenceState, number>;
+}
+
+// Seconds spent in each state per UTC day from the day containing `since` up to `until`. `transitions`
+// are oldest first; time before the first one is not counted, since nobody knows what state it was.
+export function presenceDays(transitions: PresenceTransition[], since: number, until: number): PresenceDay[] {
+  const first = dayStart(since);
+  const days: PresenceDay[] = [];
+  for (let start = first; start < until; start += DAY_MS) {
+    days.push({ date: new Date(start).toISOString().slice(0, 10), seconds: emptySeconds() });
+  }
+  transitions.forEach((transition, index) => {
+    const from = Math.max(transition.at, first);
+    const to = Math.min(transitions[index + 1]?.at ?? until, until);
+    for (let cursor = from; cursor < to;) {
+      const end = Math.min(dayStart(cursor) + DAY_MS, to);
+      days[(dayStart(cursor) - first) / DAY_MS].seconds[transition.to] += (end - cursor) / 1000;
+      cursor = end;
+    }
+  });
+  for (const day of days) {
+    for (const state of PRESENCE_STATES) day.seconds[state] = Math.round(day.seconds[state]);
+  }
+  return days;
+}
@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import {
+  isAgentId,
+  isAgentOnline,
+  loadAgents,
+  loadPresenceLog,
+  loadSystemPresence,
+  prependHistory,
+  recordAgentPresence,
+  touchAgent,
+  touchLastSeen,
+  writePresence,
+} from "./presence";
+
+function createKV(store: Record<string, string> = {}) {
+  return {
+    get: async (key: string) => store[key] ?? null,
+    put: async (key: string, value: string) => {
+      store[key] = value;
+    },
+    list: async ({ prefix = "" }: { prefix?: string } = {}) => ({
+      keys: Object.keys(store).filter((name) => name.startsWith(prefix)).map((name) => ({ name })),
+      list_complete: true,
+    }),
+    store,
+  } as unknown as KVNamespace & { store: Record<string, string> };
+}
+
+describe("prependHistory", () => {
+  it("puts new entries first and keeps the newest 20", async () => {
+    const kv = createKV({
+      history: JSON.stringify(Array.from({ length: 20 }, (_, index) => ({ desc: `old ${index}`, timestamp: index }))),
+    });
+    await prependHistory(kv, [{ timestamp: 100, desc: "new", type: "event", hash: "abc" }]);
+    const history = JSON.parse(kv.store.history) as Array<{ desc: string }>;
+    expect(history).toHaveLength(20);
+    expect(history[0].desc).toBe("new");
+    expect(history[19].desc).toBe("old 18");
+  });
+});
+
+describe("presence transition log", () => {
+  it("logs changes, then decay at the time it applied, then the heartbeat that ends it", async () => {
+    const kv = createKV();
+    await writePresence(kv, { state: "focus", timestamp: 0 }, 1800);
+    await writePresence(kv, { state: "focus", timestamp: 60_000 }, 1800);
+    await touchLastSeen(kv, 60_000 + 11 * 60_000);
+
+    expect(await loadPresenceLog(kv)).toEqual([
+      { from: null, to: "focus", at: 0, reason: "set" },
+      { from: "focus", to: "idle", at: 60_000 + 300_000, reason: "decay" },
+      { from: "idle", to: "away", at: 60_000 + 450_000, reason: "decay" },
+      { from: "away", to: "offline", at: 60_000 + 600_000, reason: "decay" },
+      { from: "offline", to: "focus", at: 60_000 + 11 * 60_000, reason: "heartbeat" },
+    ]);
+    expect(await loadSystemPresence(kv, 60_000 + 11 * 60_000)).toMatchObject({ state: "focus", effective: "focus" });
+  });
+
+  it("starts the log on the first heartbeat and leaves it alone while nothing changes", async () => {
+    const kv = createKV();
+    await touchLastSeen(kv, 1_000);
+    await touchLastSeen(kv, 2_000);
+    expect(await loadPresenceLog(kv)).toEqual([{ from: null, to: "active", at: 1_000, reason: "heartbeat" }]);
+  });
+});
+
+describe("agent records", () => {
+  it("keeps the offline threshold across presence updates and the presence across heartbeats", async () => {
+    const kv = createKV();
+    await recordAgentPresence(kv, "builder", { state: "focus", message: "api", task: "t-1", offlineAfterSec: 900 }, 1_000);
+    await recordAgentPresence(kv, "builder", { state: "idle", message: null, task: null }, 2_000);
+    const touched = await touchAgent(kv, "builder", 3_000);
+
+    expect(touched).toEqual({
+      id: "builder",
+      state: "idle",
+      message: null,
+      task: null,
+      lastSeen: 3_000,
+      offlineAfterSec: 900,
+      updatedAt: 2_000,
+    });
+    expect(isAgentOnline(touched, 3_000 + 900_000)).toBe(true);
+    expect(isAgentOnline(touched, 3_000 + 900_001)).toBe(false);
+  });
+
+  it("rejects transitions the agent's current state does not allow, counting decay", async () => {
+    const kv = createKV();
+    await recordAgentPresence(kv, "builder", { state: "maintenance", message: null, task: null }, 0);
+    expect(await recordAgentPresence(kv, "builder", { state: "focus", message: null, task: null }, 1_000))
+      .toEqual({ ok: false, from: "maintenance", to: "focus" });
+
+    await recordAgentPresence(kv, "builder", { state: "active", message: null, task: null }, 2_000);
+    expect(await recordAgentPresence(kv, "builder", { state: "focus", message: null, task: null }, 2_000 + 601_000))
+      .toEqual({ ok: false, from: "offline", to: "focus" });
+  });
+
+  it("registers unknown agents on their first heartbeat and lists agents by id", async () => {
+    const kv = createKV({ "agent:broken:v1": "not json", "agents:index": "[]" });
+    await touchAgent(kv, "zeta", 5_000);
+    await recordAgentPresence(kv, "alpha", { state: "active", message: null, task: null }, 6_000);
+
+    const agents = await loadAgents(kv);
+    expect(agents.map((agent) => agent.id)).toEqual(["alpha", "zeta"]);
+    expect(agents[1]).toMatchObject({ state: "active", offlineAfterSec: 600, lastSeen: 5_000 });
+  });
+
+  it("rejects ids the routes cannot address", () => {
+    expect(isAgentId("builder-1.eu_west")).toBe(true);
+    expect(isAgentId("connect")).toBe(false);
+    expect(isAgentId("two words")).toBe(false);
+    expect(isAgentId("x".repeat(65))).toBe(false);
+  });
+});
@@ -0,0 +1,359 @@
+// System and per-agent presence, liveness and activity history in KV, written by both HTTP routes and agent sockets
+
+import {
+  canTransition,
+  effectivePresenceState,
+  isPresenceState,
+  presenceDecay,
+  PRESENCE_TRANSITION_REASONS,
+  type PresenceState,
+  type PresenceTransition,
+} from "./presence-states";
+import { recordCoverage } from "./uptime";
+
+export type HistoryEntry = { timestamp: number; desc: string; type: string; hash: string };
+export type SystemPresence = { state: PresenceState; message?: string; timestamp: number };
+
+const HISTORY_KEY = "history";
+export const HISTORY_LIMIT = 20;
+const PRESENCE_KEY = "presence";
+export const PRESENCE_DEFAULT_TTL_SEC = 1800;
+export const LAST_SEEN_KEY = "last_seen";
+const STARTED_KEY = "started";
+// Without a heartbeat for this long the system is offline, here and in `/status`.
+export const STATUS_OFFLINE_THRESHOLD_MS = 10 * 60 * 1000;
+const PRESENCE_LOG_KEY = "presence:transitions:v1";
+// A year of a few transitions a day, so `/presence/history` can cover its whole range.
+const PRESENCE_LOG_LIMIT = 5000;
+
+function makeHistoryHash(timestamp: number): string {
+  return Math.floor(timestamp).toString(16).slice(-8);
+}
+
+export function toHistoryEntry(value: unknown, fallbackTimestamp: number): HistoryEntry {
+  if (!value || typeof value !== "object") {
+    const ts = fallbackTimestamp;
+    return { timestamp: ts, desc: "activity", type: "event", hash: makeHistoryHash(ts) };
+  }
+
+  const item = value as Record<string, unknown>;
+  const tsRaw = item.timestamp;
+  const timestamp = typeof tsRaw === "number" && Number.isFinite(tsRaw) ? tsRaw : fallbackTimestamp;
+  const desc = typeof item.desc === "string"
+    ? item.desc
+    : typeof item.message === "string"
+      ? item.message
+      : "activity";
+  const type = typeof item.type === "string" ? item.type : "event";
+  const hash = typeof item.hash === "string" && item.hash.length > 0 ? item.hash : makeHistoryHash(timestamp);
+
+  return { timestamp, desc, type, hash };
+}
+
+export function normalizeHistory(history: unknown): HistoryEntry[] {
+  if (!Array.isArray(history)) return [];
+  return history
+    .slice(0, HISTORY_LIMIT)
+    .map((entry, index) => toHistoryEntry(entry, Date.now() - index));
+}
+
+async function readHistory(kv: KVNamespace): Promise<HistoryEntry[]> {
+  try {
+    return normalizeHistory(JSON.parse(await kv.get(HISTORY_KEY) || "[]") as unknown);
+  } catch {
+    return [];
+  }
+}
+
+// `entries` are newest first, like the stored history they are prepended to.
+export async function prependHistory(kv: KVNamespace, entries: HistoryEntry[]): Promise<void> {
+  if (entries.length === 0) return;
+  const history = [...entries, ...await readHistory(kv)];
+  await kv.put(HISTORY_KEY, JSON.stringify(history.slice(0, HISTORY_LIMIT)));
+}
+
+// Entries batched by an agent (newest first) get distinct fallback timestamps, newest at `now`.
+export function toHistoryBatch(values: unknown[], now: number): HistoryEntry[] {
+  return values.map((value, index) => toHistoryEntry(value, now - index));
+}
+
+export type SystemPresenceSnapshot = {
+  // As last set; `active` when unset or expired.
+  state: PresenceState;
+  message: string | null;
+  // The last heartbeat, falling back to the last presence update; null before either.
+  lastSeen: number | null;
+  // `state` after decay.
+  effective: PresenceState;
+};
+
+function parseJson(raw: string | null): unknown {
+  try {
+    return JSON.parse(raw || "null") as unknown;
+  } catch {
+    return null;
+  }
+}
+
+export async function loadSystemPresence(kv: KVNamespace, now: number): Promise<SystemPresenceSnapshot> {
+  const [presenceRaw, lastSeenRaw] = await Promise.all([kv.get(PRESENCE_KEY), kv.get(LAST_SEEN_KEY)]);
+  const presence = (parseJson(presenceRaw) ?? {}) as Record<string, unknown>;
+  const state = isPresenceState(presence.state) ? presence.state : "active";
+  const fromHeartbeat = typeof lastSeenRaw === "string" ? Number(lastSeenRaw) : NaN;
+  const lastSeen = Number.isFinite(fromHeartbeat)
+    ? fromHeartbeat
+    : typeof presence.timestamp === "number" && Number.isFinite(presence.timestamp)
+      ? presence.timestamp
+      : null;
+  return {
+    state,
+    message: typeof presence.message === "string" ? presence.message : null,
+    lastSeen,
+    effective: lastSeen === null ? state : effectivePresenceState(state, lastSeen, STATUS_OFFLINE_THRESHOLD_MS, now),
+  };
+}
+
+function isPresenceTransition(value: unknown): value is PresenceTransition {
+  if (!value || typeof value !== "object") return false;
+  const item = value as Record<string, unknown>;
+  return (item.from === null || isPresenceState(item.from))
+    && isPresenceState(item.to)
+    && typeof item.at === "number"
+    && Number.isFinite(item.at)
+    && (PRESENCE_TRANSITION_REASONS as readonly unknown[]).includes(item.reason);
+}
+
+// Oldest first.
+export async function loadPresenceLog(kv: KVNamespace): Promise<PresenceTransition[]> {
+  const log = parseJson(await kv.get(PRESENCE_LOG_KEY));
+  return Array.isArray(log) ? log.filter(isPresenceTransition) : [];
+}
+
+// Decay is never written when it happens, only noticed later, so each step that came due since the
+// last logged transition is logged at the time it applied. Reads use this too, without saving.
+export function pendingPresenceDecay(
+  log: PresenceTransition[],
+  snapshot: SystemPresenceSnapshot,
+  now: number,
+): PresenceTransition[] {
+  if (snapshot.lastSeen === null) return [];
+  const last = log[log.length - 1];
+  let current = last?.to ?? snapshot.state;
+  const entries: PresenceTransition[] = [];
+  for (const step of presenceDecay(snapshot.state, snapshot.lastSeen, STATUS_OFFLINE_THRESHOLD_MS)) {
+    if (step.at >= now || (last && step.at <= last.at) || step.state === current) continue;
+    entries.push({ from: current, to: step.state, at: step.at, reason: "decay" });
+    current = step.state;
+  }
+  return entries;
+}
+
+async function appendPresenceLog(kv: KVNamespace, log: PresenceTransition[], entries: PresenceTransition[]): Promise<void> {
+  if (entries.length === 0) return;
+  await kv.put(PRESENCE_LOG_KEY, JSON.stringify([...log, ...entries].slice(-PRESENCE_LOG_LIMIT)));
+}
+
+// When the current stretch of uptime began; null before the first liveness signal.
+export async function loadStarted(kv: KVNamespace): Promise<number | null> {
+  const raw = await kv.get(STARTED_KEY);
+  return raw !== null && Number.isFinite(Number(raw)) ? Number(raw) : null;
+}
+
+// Every liveness signal ends up here. Uptime (`started`) restarts with the first signal after an
+// outage, and each signal keeps the system covered for as long as `/status` will call it operational.
+async function writeLastSeen(kv: KVNamespace, previous: number | null, now: number): Promise<void> {
+  const restarted = previous === null || now - previous > STATUS_OFFLINE_THRESHOLD_MS;
+  if (restarted || await loadStarted(kv) === null) {
+    await kv.put(STARTED_KEY, String(now));
+  }
+  await kv.put(LAST_SEEN_KEY, String(now));
+  await recordCoverage(kv, now, now + STATUS_OFFLINE_THRESHOLD_MS);
+}
+
+// Sets the system presence and refreshes `last_seen`. The caller checks the transition is allowed.
+export async function writePresence(kv: KVNamespace, presence: SystemPresence, ttlSec: number): Promise<void> {
+  const now = presence.timestamp;
+  const [snapshot, log] = await Promise.all([loadSystemPresence(kv, now), loadPresenceLog(kv)]);
+  const entries = pendingPresenceDecay(log, snapshot, now);
+  const from = entries[entries.length - 1]?.to ?? log[log.length - 1]?.to ?? null;
+  if (from !== presence.state) entries.push({ from, to: presence.state, at: now, reason: "set" });
+  await appendPresenceLog(kv, log, entries);
+  await writeLastSeen(kv, snapshot.lastSeen, now);
+  await kv.put(PRESENCE_KEY, JSON.stringify(presence), { expirationTtl: ttlSec });
+}
+
+// A heartbeat: ends any decay, returning the system to the state it was last set to.
+export async function touchLastSeen(kv: KVNamespace, now: number): Promise<void> {
+  const [snapshot, log] = await Promise.all([loadSystemPresence(kv, now), loadPresenceLog(kv)]);
+  const entries = pendingPresenceDecay(log, snapshot, now);
+  const from = entries[entries.length - 1]?.to ?? log[log.length - 1]?.to ?? null;
+  // Also starts the log on the first heartbeat after it was lost.
+  if (from !== snapshot.state) entries.push({ from, to: snapshot.state, at: now, reason: "heartbeat" });
+  await appendPresenceLog(kv, log, entries);
+  await writeLastSeen(kv, snapshot.lastSeen, now);
+}
+
+
+export type AgentRecord = {
+  id: string;
+  // As the agent last reported it; reads apply decay from `lastSeen`.
+  state: PresenceState;
+  message: string | null;
+  // What the agent is working on: free text or an `/admin/tasks` id.
+  task: string | null;
+  // Epoch milliseconds of the agent's last presence update, heartbeat, or socket activity.
+  lastSeen: number;
+  offlineAfterSec: number;
+  updatedAt: number;
+};
+
+export type AgentView = {
+  id: string;
+  online: boolean;
+  state: PresenceState;
+  message: string | null;
+  task: string | null;
+  lastSeen: string;
+  offlineAfterSec: number;
+  updatedAt: string;
+};
+
+export type AgentPresence = Pick<AgentRecord, "state" | "message" | "task"> & { offlineAfterSec?: number };
+
+export type AgentPresenceResult =
+  | { ok: true; agent: AgentRecord }
+  | { ok: false; from: PresenceState; to: PresenceState };
+
+export const AGENT_ID_PATTERN = /^[\w.-]{1,64}$/;
+// `/agents/connect` is a static route, so an agent with that id could never be read back.
+const RESERVED_AGENT_IDS = ["connect"];
+export const AGENT_OFFLINE_AFTER_DEFAULT_SEC = 600;
+// Half of it, when an agent starts to decay, is above the 2-minute liveness refresh of agent sockets.
+export const AGENT_OFFLINE_AFTER_MIN_SEC = 300;
+export const AGENT_OFFLINE_AFTER_MAX_SEC = 24 * 60 * 60;
+export const AGENT_MESSAGE_MAX_LENGTH = 280;
+export const AGENT_TASK_MAX_LENGTH = 200;
+const AGENT_KEY_PREFIX = "agent:";
+
+function agentKey(id: string): string {
+  return `${AGENT_KEY_PREFIX}${id}:v1`;
+}
+
+export function isAgentId(value: string): boolean {
+  return AGENT_ID_PATTERN.test(value) && !RESERVED_AGENT_IDS.includes(value);
+}
+
+function normalizeAgent(id: string, value: unknown): AgentRecord | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+  const item = value as Record<string, unknown>;
+  if (typeof item.lastSeen !== "number" || !Number.isFinite(item.lastSeen)) return null;
+  const offlineAfterSec = typeof item.offlineAfterSec === "number" && Number.isFinite(item.offlineAfterSec)
+    ? item.offlineAfterSec
+    : AGENT_OFFLINE_AFTER_DEFAULT_SEC;
+  return {
+    id,
+    state: isPresenceState(item.state) ? item.state : "active",
+    message: typeof item.message === "string" ? item.message : null,
+    task: typeof item.task === "string" ? item.task : null,
+    lastSeen: item.lastSeen,
+    offlineAfterSec,
+    updatedAt: typeof item.updatedAt === "number" ? item.updatedAt : item.lastSeen,
+  };
+}
+
+export async function loadAgent(kv: KVNamespace, id: string): Promise<AgentRecord | null> {
+  try {
+    return normalizeAgent(id, JSON.parse(await kv.get(agentKey(id)) || "null") as unknown);
+  } catch {
+    return null;
+  }
+}
+
+// Sorted by id. Agents are few, so each record is read individually.
+export async function loadAgents(kv: KVNamespace): Promise<AgentRecord[]> {
+  const ids: string[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await kv.list({ prefix: AGENT_KEY_PREFIX, cursor });
+    for (const key of page.keys) {
+      const id = key.name.slice(AGENT_KEY_PREFIX.length).replace(/:v1$/, "");
+      if (key.name === agentKey(id)) ids.push(id);
+    }
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+  const agents = await Promise.all(ids.map((id) => loadAgent(kv, id)));
+  return agents
+    .filter((agent): agent is AgentRecord => agent !== null)
+    .sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+}
+
+async function saveAgent(kv: KVNamespace, agent: AgentRecord): Promise<AgentRecord> {
+  await kv.put(agentKey(agent.id), JSON.stringify(agent));
+  return agent;
+}
+
+// Replaces the agent's presence, unless the transition from its current state is not allowed. The
+// offline threshold is kept unless given.
+export async function recordAgentPresence(
+  kv: KVNamespace,
+  id: string,
+  presence: AgentPresence,
+  now: number,
+): Promise<AgentPresenceResult> {
+  const current = await loadAgent(kv, id);
+  const from = current ? agentState(current, now) : null;
+  if (from !== null && !canTransition(from, presence.state)) return { ok: false, from, to: presence.state };
+  const agent = await saveAgent(kv, {
+    id,
+    state: presence.state,
+    message: presence.message,
+    task: presence.task,
+    lastSeen: now,
+    offlineAfterSec: presence.offlineAfterSec ?? current?.offlineAfterSec ?? AGENT_OFFLINE_AFTER_DEFAULT_SEC,
+    updatedAt: now,
+  });
+  return { ok: true, agent };
+}
+
+// A heartbeat: refreshes `lastSeen` and leaves the presence as the agent last reported it.
+export async function touchAgent(kv: KVNamespace, id: string, now: number): Promise<AgentRecord> {
+  const current = await loadAgent(kv, id);
+  return saveAgent(kv, current
+    ? { ...current, lastSeen: now }
+    : {
+      id,
+      state: "active",
+      message: null,
+      task: null,
+      lastSeen: now,
+      offlineAfterSec: AGENT_OFFLINE_AFTER_DEFAULT_SEC,
+      updatedAt: now,
+    });
+}
+
+export function agentState(agent: AgentRecord, now: number): PresenceState {
+  return effectivePresenceState(agent.state, agent.lastSeen, agent.offlineAfterSec * 1000, now);
+}
+
+// Offline by decay once `offlineAfterSec` passes without a heartbeat, or by saying so.
+export function isAgentOnline(agent: AgentRecord, now: number): boolean {
+  return agentState(agent, now) !== "offline";
+}
+
+export function toAgentView(agent: AgentRecord, now: number): AgentView {
+  return {
+    id: agent.id,
+    online: isAgentOnline(agent, now),
+    state: agentState(agent, now),
+    message: agent.message,
+    task: agent.task,
+    lastSeen: new Date(agent.lastSeen).toISOString(),
+    offlineAfterSec: agent.offlineAfterSec,
+    updatedAt: new Date(agent.updatedAt).toISOString(),
+  };
+}
+
+// `data` of the `presence` stream event; `agent` tells it apart from the system-wide presence.
+export function agentPresenceEvent(agent: AgentRecord) {
+  return { agent: agent.id, state: agent.state, message: agent.message, task: agent.task, timestamp: agent.lastSeen };
+}
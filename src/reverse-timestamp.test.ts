@@ -0,0 +1,15 @@
+import { describe, expect, it } from "vitest";
+import { parseReverseTimestamp, reverseTimestampKey } from "./reverse-timestamp";
+
+describe("reverseTimestampKey", () => {
+  it("sorts newer timestamps first and parses back", () => {
+    const keys = [0, Date.UTC(2026, 2, 1), Date.UTC(2001, 0, 1)].map(reverseTimestampKey);
+    expect(keys.every((key) => key.length === 13)).toBe(true);
+    expect([...keys].sort().map(parseReverseTimestamp)).toEqual([Date.UTC(2026, 2, 1), Date.UTC(2001, 0, 1), 0]);
+  });
+
+  it("rejects segments it did not write", () => {
+    expect(parseReverseTimestamp("")).toBeNaN();
+    expect(parseReverseTimestamp("1700000000000:7")).toBeNaN();
+  });
+});
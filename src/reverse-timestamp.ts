@@ -0,0 +1,14 @@
+// Reverse-timestamp key segments, so KV's ascending listing returns the newest keys first
+
+// Above every millisecond timestamp until the year 2286, so each segment is exactly 13 digits.
+const REVERSE_TIMESTAMP_MAX = 9_999_999_999_999;
+const REVERSE_TIMESTAMP_PATTERN = /^\d{13}$/;
+
+export function reverseTimestampKey(timestamp: number): string {
+  return String(REVERSE_TIMESTAMP_MAX - timestamp).padStart(String(REVERSE_TIMESTAMP_MAX).length, "0");
+}
+
+// NaN for a segment `reverseTimestampKey` did not write.
+export function parseReverseTimestamp(segment: string): number {
+  return REVERSE_TIMESTAMP_PATTERN.test(segment) ? REVERSE_TIMESTAMP_MAX - Number(segment) : Number.NaN;
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { allowedMethods, compilePath, compileRoutes, matchRoute, type RouteDefinition } from "./router";
+
+function route(method: RouteDefinition<string>["method"], path: string): RouteDefinition<string> {
+  return {
+    method,
+    path,
+    auth: { type: "none" },
+    rateLimit: "public",
+    cache: "default",
+    docs: { summary: path, responses: { "200": { description: "OK" } } },
+    handler: `${method} ${path}`,
+  };
+}
+
+describe("compilePath", () => {
+  it("matches static paths exactly", () => {
+    const pattern = compilePath("/fleet/health");
+    expect(pattern.isStatic).toBe(true);
+    expect(pattern.regex.test("/fleet/health")).toBe(true);
+    expect(pattern.regex.test("/fleet/health/extra")).toBe(false);
+  });
+
+  it("captures single-segment params", () => {
+    const pattern = compilePath("/admin/tasks/:id");
+    expect(pattern.keys).toEqual(["id"]);
+    expect(pattern.regex.exec("/admin/tasks/t1")?.[1]).toBe("t1");
+    expect(pattern.regex.test("/admin/tasks/t1/extra")).toBe(false);
+  });
+
+  it("captures the rest of the path for `+` params", () => {
+    const pattern = compilePath("/tools/:repo+");
+    expect(pattern.regex.exec("/tools/clankamode/clanka-api")?.[1]).toBe("clankamode/clanka-api");
+    expect(pattern.regex.test("/tools/")).toBe(false);
+  });
+
+  it("escapes regex characters in static segments", () => {
+    const pattern = compilePath("/openapi.json");
+    expect(pattern.regex.test("/openapi.json")).toBe(true);
+    expect(pattern.regex.test("/openapiXjson")).toBe(false);
+  });
+});
+
+describe("matchRoute", () => {
+  const routes = compileRoutes([
+    route("GET", "/tools/:repo+"),
+    route("GET", "/tools/search"),
+    route("GET", "/admin/tasks"),
+    route("POST", "/admin/tasks"),
+  ]);
+
+  it("prefers static routes regardless of declaration order", () => {
+    const match = matchRoute(routes, "GET", "/tools/search");
+    expect(match.kind).toBe("found");
+    if (match.kind === "found") expect(match.route.handler).toBe("GET /tools/search");
+  });
+
+  it("returns raw params for parameterized routes", () => {
+    const match = matchRoute(routes, "GET", "/tools/clankamode%2Fclanka-api");
+    expect(match.kind).toBe("found");
+    if (match.kind === "found") expect(match.params).toEqual({ repo: "clankamode%2Fclanka-api" });
+  });
+
+  it("dispatches HEAD to the GET route", () => {
+    const match = matchRoute(routes, "HEAD", "/admin/tasks");
+    expect(match.kind).toBe("found");
+    if (match.kind === "found") {
+      expect(match.route.handler).toBe("GET /admin/tasks");
+      expect(match.head).toBe(true);
+    }
+  });
+
+  it("reports allowed methods when the path exists under another method", () => {
+    const match = matchRoute(routes, "DELETE", "/admin/tasks");
+    expect(match.kind).toBe("method_not_allowed");
+    if (match.kind === "method_not_allowed") {
+      expect(match.allow).toEqual(["GET", "HEAD", "POST", "OPTIONS"]);
+    }
+  });
+
+  it("does not fall through to parameterized routes for a known static path", () => {
+    const match = matchRoute(routes, "POST", "/tools/search");
+    expect(match.kind).toBe("method_not_allowed");
+  });
+
+  it("returns not_found for unknown paths", () => {
+    expect(matchRoute(routes, "GET", "/missing")).toEqual({ kind: "not_found" });
+  });
+});
+
+describe("allowedMethods", () => {
+  it("adds HEAD for GET routes and always includes OPTIONS", () => {
+    expect(allowedMethods(compileRoutes([route("POST", "/heartbeat")]))).toEqual(["POST", "OPTIONS"]);
+    expect(allowedMethods(compileRoutes([route("GET", "/now")]))).toEqual(["GET", "HEAD", "OPTIONS"]);
+  });
+});
@@ -0,0 +1,119 @@
+// Declarative route table and path matcher for the worker
+
+import type { AuthScope } from "./auth";
+import type { JsonSchema } from "./schemas";
+
+export type HttpMethod = "GET" | "HEAD" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+export type AuthPolicy =
+  | { type: "none" }
+  | { type: "token"; scope: AuthScope };
+export type RateLimitPolicy = "public" | "none";
+export type CachePolicy = "default" | "no-store";
+
+export type RouteDocs = {
+  summary: string;
+  description?: string;
+  query?: Record<string, { schema: JsonSchema; description?: string; required?: boolean }>;
+  requestBody?: JsonSchema;
+  responses: Record<string, { description: string; schema?: JsonSchema }>;
+};
+
+export type RouteDefinition<THandler> = {
+  method: Exclude<HttpMethod, "HEAD">;
+  path: string;
+  auth: AuthPolicy;
+  rateLimit: RateLimitPolicy;
+  cache: CachePolicy;
+  docs: RouteDocs;
+  // Audit action recorded after a successful (2xx) response, e.g. `tasks.create`.
+  audit?: string;
+  handler: THandler;
+};
+
+type CompiledPath = {
+  regex: RegExp;
+  keys: string[];
+  isStatic: boolean;
+};
+
+export type CompiledRoute<THandler> = RouteDefinition<THandler> & { pattern: CompiledPath };
+
+export type RouteMatch<THandler> =
+  | { kind: "found"; route: CompiledRoute<THandler>; params: Record<string, string>; head: boolean }
+  | { kind: "method_not_allowed"; allow: string[]; routes: CompiledRoute<THandler>[] }
+  | { kind: "not_found" };
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// `:name` matches a single path segment; `:name+` matches the rest of the path (slashes included).
+export function compilePath(path: string): CompiledPath {
+  const keys: string[] = [];
+  const segments = path.split("/").slice(1).map((segment) => {
+    const param = segment.match(/^:([A-Za-z_][A-Za-z0-9_]*)(\+)?$/);
+    if (!param) return escapeRegex(segment);
+    keys.push(param[1]);
+    return param[2] ? "(.+)" : "([^/]+)";
+  });
+  return {
+    regex: new RegExp(`^/${segments.join("/")}$`),
+    keys,
+    isStatic: keys.length === 0,
+  };
+}
+
+export function compileRoutes<THandler>(routes: RouteDefinition<THandler>[]): CompiledRoute<THandler>[] {
+  const compiled = routes.map((route) => ({ ...route, pattern: compilePath(route.path) }));
+  // Static paths always win over parameterized ones, so `/tools/search` never depends on declaration order.
+  return [
+    ...compiled.filter((route) => route.pattern.isStatic),
+    ...compiled.filter((route) => !route.pattern.isStatic),
+  ];
+}
+
+function matchPath(pattern: CompiledPath, pathname: string): Record<string, string> | null {
+  const match = pattern.regex.exec(pathname);
+  if (!match) return null;
+  const params: Record<string, string> = {};
+  pattern.keys.forEach((key, index) => {
+    params[key] = match[index + 1];
+  });
+  return params;
+}
+
+export function allowedMethods<THandler>(routes: CompiledRoute<THandler>[]): string[] {
+  const methods = new Set<string>();
+  for (const route of routes) {
+    methods.add(route.method);
+    if (route.method === "GET") methods.add("HEAD");
+  }
+  methods.add("OPTIONS");
+  return Array.from(methods);
+}
+
+// Params are returned exactly as they appear in the path; handlers decode them.
+export function matchRoute<THandler>(
+  routes: CompiledRoute<THandler>[],
+  method: string,
+  pathname: string,
+): RouteMatch<THandler> {
+  const lookupMethod = method === "HEAD" ? "GET" : method;
+  let pathPattern: CompiledPath | null = null;
+  const pathRoutes: CompiledRoute<THandler>[] = [];
+
+  for (const route of routes) {
+    if (pathPattern && route.pattern.regex.source !== pathPattern.regex.source) continue;
+    const params = matchPath(route.pattern, pathname);
+    if (!params) continue;
+    pathPattern = route.pattern;
+    pathRoutes.push(route);
+    if (route.method === lookupMethod) {
+      return { kind: "found", route, params, head: method === "HEAD" };
+    }
+  }
+
+  if (pathRoutes.length === 0) return { kind: "not_found" };
+  return { kind: "method_not_allowed", allow: allowedMethods(pathRoutes), routes: pathRoutes };
+}
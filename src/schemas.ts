@@ -0,0 +1,674 @@
+// JSON schemas shared by route docs (OpenAPI) and request validation
+
+import { AGENT_COMMANDS } from "./agents";
+import { AUTH_SCOPES } from "./auth";
+import { BOARD_SOURCES } from "./board";
+import { CHANGELOG_TYPES } from "./changelog";
+import { ERROR_CATALOGUE } from "./errors";
+import { GITHUB_EVENT_TYPES } from "./github-events";
+import { INCIDENT_SEVERITIES, INCIDENT_SOURCES, INCIDENT_STATUSES } from "./incidents";
+import {
+  AGENT_ID_PATTERN,
+  AGENT_MESSAGE_MAX_LENGTH,
+  AGENT_OFFLINE_AFTER_DEFAULT_SEC,
+  AGENT_OFFLINE_AFTER_MAX_SEC,
+  AGENT_OFFLINE_AFTER_MIN_SEC,
+  AGENT_TASK_MAX_LENGTH,
+} from "./presence";
+import { PRESENCE_STATES, PRESENCE_TRANSITIONS } from "./presence-states";
+import { TASK_PRIORITIES, TASK_STATUSES } from "./tasks";
+import { UPTIME_WINDOWS } from "./uptime";
+
+export type JsonSchema = {
+  type?: "object" | "array" | "string" | "number" | "integer" | "boolean";
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  enum?: readonly (string | number | boolean)[];
+  nullable?: boolean;
+  format?: string;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  minItems?: number;
+  maxItems?: number;
+};
+
+const stringSchema: JsonSchema = { type: "string" };
+const numberSchema: JsonSchema = { type: "number" };
+const booleanSchema: JsonSchema = { type: "boolean" };
+const nullableString: JsonSchema = { type: "string", nullable: true };
+const dateTimeSchema: JsonSchema = { type: "string", format: "date-time" };
+const nonBlankString: JsonSchema = { type: "string", pattern: "\\S" };
+
+function objectSchema(
+  properties: Record<string, JsonSchema>,
+  required: string[] = Object.keys(properties),
+  extra: Partial<JsonSchema> = {},
+): JsonSchema {
+  return { type: "object", properties, required, ...extra };
+}
+
+function arrayOf(items: JsonSchema, extra: Partial<JsonSchema> = {}): JsonSchema {
+  return { type: "array", items, ...extra };
+}
+
+function errorEnvelopeSchema(details: JsonSchema): JsonSchema {
+  return objectSchema({
+    error: objectSchema({
+      code: { type: "string", enum: Object.keys(ERROR_CATALOGUE) },
+      message: stringSchema,
+      details,
+      requestId: stringSchema,
+    }),
+  });
+}
+
+export const ERROR_SCHEMA = errorEnvelopeSchema({ nullable: true, description: "Code-specific context, or null" });
+export const VALIDATION_ERROR_SCHEMA = errorEnvelopeSchema(arrayOf(objectSchema({
+  path: stringSchema,
+  expected: stringSchema,
+  received: stringSchema,
+})));
+export const SUCCESS_SCHEMA = objectSchema({ success: booleanSchema });
+
+export const HISTORY_ENTRY_SCHEMA = objectSchema({
+  timestamp: numberSchema,
+  desc: stringSchema,
+  type: stringSchema,
+  hash: stringSchema,
+});
+
+const REGISTRY_ENTRY_SCHEMA = objectSchema({
+  repo: stringSchema,
+  description: stringSchema,
+  tier: { type: "string", enum: ["ops", "infra", "core", "quality", "policy", "template"] },
+  criticality: { type: "string", enum: ["critical", "high", "medium"] },
+});
+
+const AUTH_SCOPE_SCHEMA: JsonSchema = { type: "string", enum: AUTH_SCOPES };
+
+const API_TOKEN_SCHEMA = objectSchema({
+  id: stringSchema,
+  name: stringSchema,
+  scopes: arrayOf(AUTH_SCOPE_SCHEMA),
+  createdAt: dateTimeSchema,
+});
+
+const TASK_STATUS_SCHEMA: JsonSchema = { type: "string", enum: TASK_STATUSES };
+const TASK_PRIORITY_SCHEMA: JsonSchema = { type: "string", enum: TASK_PRIORITIES };
+const TASK_DUE_DATE_SCHEMA: JsonSchema = {
+  type: "string",
+  format: "date",
+  pattern: "^\\d{4}-\\d{2}-\\d{2}$",
+  nullable: true,
+};
+
+export const TASK_SCHEMA = objectSchema({
+  id: stringSchema,
+  title: stringSchema,
+  status: TASK_STATUS_SCHEMA,
+  priority: TASK_PRIORITY_SCHEMA,
+  assignee: nullableString,
+  repo: nullableString,
+  tags: arrayOf(stringSchema),
+  dueDate: TASK_DUE_DATE_SCHEMA,
+  createdAt: dateTimeSchema,
+  updatedAt: dateTimeSchema,
+  version: { type: "integer", description: "Bumped on every change; the ETag is derived from it" },
+});
+
+const INCIDENT_STATUS_SCHEMA: JsonSchema = { type: "string", enum: INCIDENT_STATUSES };
+const INCIDENT_SEVERITY_SCHEMA: JsonSchema = { type: "string", enum: INCIDENT_SEVERITIES };
+
+const INCIDENT_SUMMARY_PROPERTIES: Record<string, JsonSchema> = {
+  id: stringSchema,
+  title: stringSchema,
+  severity: INCIDENT_SEVERITY_SCHEMA,
+  status: INCIDENT_STATUS_SCHEMA,
+  repos: arrayOf(stringSchema),
+  components: arrayOf(stringSchema),
+  source: {
+    type: "string",
+    enum: INCIDENT_SOURCES,
+    description: "`fleet-health` when opened by the CI sweep for a critical repo",
+  },
+  createdAt: dateTimeSchema,
+  updatedAt: dateTimeSchema,
+  resolvedAt: { ...dateTimeSchema, nullable: true },
+};
+
+export const INCIDENT_SUMMARY_SCHEMA = objectSchema(INCIDENT_SUMMARY_PROPERTIES);
+
+export const INCIDENT_SCHEMA = objectSchema({
+  ...INCIDENT_SUMMARY_PROPERTIES,
+  updates: {
+    ...arrayOf(objectSchema({ status: INCIDENT_STATUS_SCHEMA, message: nullableString, at: dateTimeSchema })),
+    description: "Oldest first",
+  },
+});
+
+const PRESENCE_STATE_SCHEMA: JsonSchema = { type: "string", enum: PRESENCE_STATES };
+const PRESENCE_TRANSITIONS_DESCRIPTION = Object.entries(PRESENCE_TRANSITIONS)
+  .map(([from, to]) => `\`${from}\` → ${to.join(", ")}`)
+  .join("; ");
+
+export const AGENT_SCHEMA = objectSchema({
+  id: stringSchema,
+  online: { type: "boolean", description: "Seen within its `offlineAfterSec`, and not reporting `offline`" },
+  state: { ...PRESENCE_STATE_SCHEMA, description: "Reported state after decay" },
+  message: nullableString,
+  task: nullableString,
+  lastSeen: dateTimeSchema,
+  offlineAfterSec: { type: "integer" },
+  updatedAt: { ...dateTimeSchema, description: "Last presence update; heartbeats only move `lastSeen`" },
+});
+
+const FLEET_STATUS_SCHEMA: JsonSchema = { type: "string", enum: ["GREEN", "YELLOW", "RED", "UNKNOWN"] };
+
+// Request bodies
+
+export const SET_PRESENCE_BODY_SCHEMA = objectSchema({
+  presence: objectSchema({
+    state: {
+      ...PRESENCE_STATE_SCHEMA,
+      description: `Defaults to \`active\`. Allowed changes: ${PRESENCE_TRANSITIONS_DESCRIPTION}`,
+    },
+    message: stringSchema,
+  }, []),
+  team: { type: "object", additionalProperties: true, description: "Merged into the stored team map" },
+  activity: objectSchema({
+    desc: stringSchema,
+    message: stringSchema,
+    type: stringSchema,
+    timestamp: numberSchema,
+    hash: stringSchema,
+  }, []),
+  ttl: { type: "number", description: "Presence TTL in seconds; non-positive values fall back to 1800" },
+}, ["presence", "team", "activity"]);
+
+export const HEARTBEAT_BODY_SCHEMA = objectSchema({
+  agent: {
+    type: "string",
+    pattern: AGENT_ID_PATTERN.source,
+    description: "Also refreshes this agent's `lastSeen`, registering it if new",
+  },
+  history: arrayOf(objectSchema({
+    desc: stringSchema,
+    message: stringSchema,
+    type: stringSchema,
+    timestamp: numberSchema,
+    hash: stringSchema,
+  }, [])),
+}, []);
+
+export const AGENT_PRESENCE_BODY_SCHEMA = objectSchema({
+  state: { ...PRESENCE_STATE_SCHEMA, description: "Defaults to `active`; changes follow the same rules as `/set-presence`" },
+  message: { ...nullableString, maxLength: AGENT_MESSAGE_MAX_LENGTH },
+  task: { ...nullableString, maxLength: AGENT_TASK_MAX_LENGTH, description: "What the agent is working on" },
+  offlineAfterSec: {
+    type: "integer",
+    minimum: AGENT_OFFLINE_AFTER_MIN_SEC,
+    maximum: AGENT_OFFLINE_AFTER_MAX_SEC,
+    description: `Seconds without a heartbeat before the agent counts as offline; kept when omitted (default ${AGENT_OFFLINE_AFTER_DEFAULT_SEC})`,
+  },
+}, [], { additionalProperties: false });
+
+export const ADMIN_ACTIVITY_BODY_SCHEMA = objectSchema({
+  desc: nonBlankString,
+  type: nonBlankString,
+});
+
+const TASK_INPUT_PROPERTIES: Record<string, JsonSchema> = {
+  title: { ...nonBlankString, maxLength: 200 },
+  status: TASK_STATUS_SCHEMA,
+  priority: TASK_PRIORITY_SCHEMA,
+  assignee: { ...nullableString, description: "Must be a member of the stored team map" },
+  repo: {
+    ...nullableString,
+    pattern: "^[\\w.-]+/[\\w.-]+$",
+    description: "`owner/name` of the repo this task is grouped under on `/board`",
+  },
+  tags: arrayOf({ ...nonBlankString, maxLength: 40 }, { maxItems: 20 }),
+  dueDate: TASK_DUE_DATE_SCHEMA,
+};
+
+export const ADMIN_TASK_CREATE_BODY_SCHEMA = objectSchema(TASK_INPUT_PROPERTIES, ["title"], {
+  additionalProperties: false,
+});
+
+export const ADMIN_TASK_PATCH_BODY_SCHEMA = objectSchema(TASK_INPUT_PROPERTIES, [], {
+  additionalProperties: false,
+});
+
+const INCIDENT_INPUT_PROPERTIES: Record<string, JsonSchema> = {
+  title: { ...nonBlankString, maxLength: 200 },
+  severity: INCIDENT_SEVERITY_SCHEMA,
+  status: INCIDENT_STATUS_SCHEMA,
+  repos: arrayOf({ type: "string", pattern: "^[\\w.-]+/[\\w.-]+$" }, { maxItems: 20 }),
+  components: arrayOf({ ...nonBlankString, maxLength: 40 }, { maxItems: 20 }),
+  message: { ...nonBlankString, maxLength: 2000, description: "Posted as an update with the status" },
+};
+
+export const ADMIN_INCIDENT_CREATE_BODY_SCHEMA = objectSchema(INCIDENT_INPUT_PROPERTIES, ["title"], {
+  additionalProperties: false,
+});
+
+export const ADMIN_INCIDENT_PATCH_BODY_SCHEMA = objectSchema(INCIDENT_INPUT_PROPERTIES, [], {
+  additionalProperties: false,
+});
+
+export const ADMIN_TOKEN_CREATE_BODY_SCHEMA = objectSchema({
+  name: { ...nonBlankString, maxLength: 64 },
+  scopes: arrayOf(AUTH_SCOPE_SCHEMA, { minItems: 1 }),
+}, ["name", "scopes"], { additionalProperties: false });
+
+export const ADMIN_AGENT_COMMAND_BODY_SCHEMA = objectSchema({
+  command: { type: "string", enum: AGENT_COMMANDS },
+  agent: { ...nonBlankString, description: "Only this agent's sockets; every connected agent when omitted" },
+}, ["command"], { additionalProperties: false });
+
+// Responses
+
+export const STATUS_RESPONSE_SCHEMA = objectSchema({
+  ok: booleanSchema,
+  version: stringSchema,
+  timestamp: dateTimeSchema,
+  endpoints: arrayOf(stringSchema),
+  incidents: { ...arrayOf(INCIDENT_SUMMARY_SCHEMA), description: "Unresolved incidents, newest first" },
+});
+
+export const HEALTH_RESPONSE_SCHEMA = objectSchema({
+  status: { type: "string", enum: ["operational", "offline"] },
+  timestamp: dateTimeSchema,
+  signal: stringSchema,
+  last_seen: dateTimeSchema,
+}, ["status"]);
+
+const UPTIME_OUTAGE_SCHEMA = objectSchema({
+  start: dateTimeSchema,
+  end: dateTimeSchema,
+  duration_ms: numberSchema,
+  ongoing: { type: "boolean", description: "Still down at the end of the window; `end` is the window's end" },
+});
+const UPTIME_PERCENTAGE_SCHEMA: JsonSchema = {
+  type: "number",
+  nullable: true,
+  description: "Percent of minutes covered, rounded down to 3 decimals; null when nothing was measured",
+};
+
+export const STATUS_UPTIME_RESPONSE_SCHEMA = objectSchema({
+  status: { type: "string", enum: ["operational", "offline"] },
+  uptime_ms: { type: "number", description: "Since the first heartbeat after the last outage; 0 while offline" },
+  last_seen: { ...dateTimeSchema, nullable: true },
+  window: { type: "string", enum: Object.keys(UPTIME_WINDOWS) },
+  since: dateTimeSchema,
+  until: dateTimeSchema,
+  availability: UPTIME_PERCENTAGE_SCHEMA,
+  downtime_ms: numberSchema,
+  outages: arrayOf(UPTIME_OUTAGE_SCHEMA),
+  longest_outage: { ...UPTIME_OUTAGE_SCHEMA, nullable: true },
+  mttr_ms: { type: "number", nullable: true, description: "Mean duration of outages that ended in the window" },
+  days: arrayOf(objectSchema({
+    date: { type: "string", format: "date" },
+    availability: UPTIME_PERCENTAGE_SCHEMA,
+    downtime_ms: numberSchema,
+  })),
+});
+
+export const METRICS_RESPONSE_SCHEMA = objectSchema({
+  uptime_ms: numberSchema,
+  requests_total: numberSchema,
+  kv_hits: numberSchema,
+  kv_misses: numberSchema,
+  github_quota: objectSchema({
+    limit: numberSchema,
+    remaining: numberSchema,
+    reset_at: dateTimeSchema,
+    updated_at: dateTimeSchema,
+    low: { ...booleanSchema, description: "True while GitHub requests are held back until `reset_at`" },
+  }, undefined, { nullable: true, description: "Last GitHub rate-limit headers seen, or null before the first request" }),
+  timestamp: dateTimeSchema,
+});
+
+export const ADMIN_REFRESH_RESPONSE_SCHEMA = objectSchema({
+  success: booleanSchema,
+  invalidated: numberSchema,
+  keys: arrayOf(stringSchema),
+  timestamp: dateTimeSchema,
+});
+
+export const ADMIN_JOBS_RESPONSE_SCHEMA = objectSchema({
+  lastRun: objectSchema({
+    cron: nullableString,
+    startedAt: dateTimeSchema,
+    finishedAt: dateTimeSchema,
+    durationMs: numberSchema,
+  }, undefined, { nullable: true }),
+  jobs: arrayOf(objectSchema({
+    name: stringSchema,
+    everySec: numberSchema,
+    last: objectSchema({
+      status: { type: "string", enum: ["success", "failure", "skipped"] },
+      startedAt: dateTimeSchema,
+      durationMs: numberSchema,
+      detail: { ...nullableString, description: "Error message on failure, or a short summary" },
+      lastSuccessAt: { ...dateTimeSchema, nullable: true },
+    }, undefined, { nullable: true }),
+  })),
+});
+
+export const HEARTBEAT_RESPONSE_SCHEMA = objectSchema({
+  success: booleanSchema,
+  status: stringSchema,
+  last_seen: dateTimeSchema,
+});
+
+export const HISTORY_RESPONSE_SCHEMA = objectSchema({
+  history: arrayOf(HISTORY_ENTRY_SCHEMA),
+  count: numberSchema,
+});
+
+export const ADMIN_ACTIVITY_RESPONSE_SCHEMA = objectSchema({
+  success: booleanSchema,
+  entry: HISTORY_ENTRY_SCHEMA,
+});
+
+export const ADMIN_TASKS_RESPONSE_SCHEMA = objectSchema({
+  tasks: arrayOf(TASK_SCHEMA),
+  count: numberSchema,
+});
+
+export const INCIDENTS_RESPONSE_SCHEMA = objectSchema({
+  incidents: arrayOf(INCIDENT_SCHEMA),
+  count: numberSchema,
+  active: { ...numberSchema, description: "Unresolved incidents, whatever the filter" },
+});
+
+export const ADMIN_TASK_DELETED_RESPONSE_SCHEMA = objectSchema({
+  success: booleanSchema,
+  id: stringSchema,
+});
+
+const WEBHOOK_DELIVERY_SCHEMA = objectSchema({
+  id: stringSchema,
+  event: stringSchema,
+  action: nullableString,
+  repo: nullableString,
+  outcome: { type: "string", enum: ["processed", "ignored"] },
+  receivedAt: dateTimeSchema,
+});
+
+export const WEBHOOK_DELIVERY_RESPONSE_SCHEMA = objectSchema({
+  delivery: stringSchema,
+  event: stringSchema,
+  outcome: {
+    type: "string",
+    enum: ["processed", "ignored", "duplicate"],
+    description: "`ignored` when nothing was written, e.g. an unhandled event or a cold cache",
+  },
+});
+
+export const ADMIN_WEBHOOK_DELIVERIES_RESPONSE_SCHEMA = objectSchema({
+  deliveries: arrayOf(WEBHOOK_DELIVERY_SCHEMA),
+  count: numberSchema,
+});
+
+export const ADMIN_TOKENS_RESPONSE_SCHEMA = objectSchema({
+  tokens: arrayOf(API_TOKEN_SCHEMA),
+});
+
+export const ADMIN_TOKEN_CREATED_RESPONSE_SCHEMA = objectSchema({
+  token: { type: "string", description: "Plaintext token; shown only once" },
+  record: API_TOKEN_SCHEMA,
+});
+
+export const ADMIN_TOKEN_REVOKED_RESPONSE_SCHEMA = objectSchema({
+  success: booleanSchema,
+  id: stringSchema,
+});
+
+export const ADMIN_AGENT_COMMAND_RESPONSE_SCHEMA = objectSchema({
+  success: booleanSchema,
+  id: stringSchema,
+  command: { type: "string", enum: AGENT_COMMANDS },
+  delivered: arrayOf(stringSchema, { description: "Agents with at least one socket the command was sent to" }),
+});
+
+export const ADMIN_LOCKOUTS_RESPONSE_SCHEMA = objectSchema({
+  lockouts: arrayOf(objectSchema({
+    ip: stringSchema,
+    failures: numberSchema,
+    firstFailureAt: dateTimeSchema,
+    lockedUntil: { ...dateTimeSchema, nullable: true },
+  })),
+});
+
+export const ADMIN_LOCKOUTS_CLEARED_RESPONSE_SCHEMA = objectSchema({
+  success: booleanSchema,
+  cleared: arrayOf(stringSchema),
+});
+
+export const ADMIN_AUDIT_RESPONSE_SCHEMA = objectSchema({
+  events: arrayOf(objectSchema({
+    timestamp: dateTimeSchema,
+    action: { type: "string", description: "e.g. `tasks.create`, `cache.refresh`, `auth.failure`" },
+    actor: { type: "string", description: "Token name, or `anonymous` for auth failures" },
+    actorId: nullableString,
+    target: nullableString,
+    ip: stringSchema,
+    method: stringSchema,
+    path: stringSchema,
+    status: numberSchema,
+    requestId: nullableString,
+  })),
+  nextCursor: nullableString,
+});
+
+export const NOW_RESPONSE_SCHEMA = objectSchema({
+  current: stringSchema,
+  status: PRESENCE_STATE_SCHEMA,
+  signal: stringSchema,
+  stack: arrayOf(stringSchema),
+  timestamp: numberSchema,
+  uptime: numberSchema,
+  agents_active: numberSchema,
+  last_seen: dateTimeSchema,
+  history: arrayOf(HISTORY_ENTRY_SCHEMA),
+  team: { type: "object", additionalProperties: true },
+  agents: arrayOf(AGENT_SCHEMA),
+  incidents: { ...arrayOf(INCIDENT_SUMMARY_SCHEMA), description: "Unresolved incidents, newest first" },
+});
+
+export const PULSE_RESPONSE_SCHEMA = objectSchema({
+  ts: dateTimeSchema,
+  status: PRESENCE_STATE_SCHEMA,
+  agents_active: numberSchema,
+  last_event_desc: nullableString,
+});
+
+export const PRESENCE_HISTORY_RESPONSE_SCHEMA = objectSchema({
+  since: dateTimeSchema,
+  until: dateTimeSchema,
+  state: PRESENCE_STATE_SCHEMA,
+  days: arrayOf(objectSchema({
+    date: { type: "string", format: "date" },
+    seconds: objectSchema(Object.fromEntries(PRESENCE_STATES.map((state) => [state, numberSchema]))),
+  })),
+});
+
+export const AGENTS_RESPONSE_SCHEMA = objectSchema({
+  agents: arrayOf(AGENT_SCHEMA),
+  count: numberSchema,
+  online: numberSchema,
+});
+
+export const PROJECTS_RESPONSE_SCHEMA = objectSchema({
+  projects: arrayOf(objectSchema({
+    name: stringSchema,
+    description: stringSchema,
+    url: stringSchema,
+    status: stringSchema,
+    last_updated: stringSchema,
+  })),
+  source: stringSchema,
+  cached: booleanSchema,
+});
+
+export const TOOLS_RESPONSE_SCHEMA = objectSchema({
+  tools: arrayOf(REGISTRY_ENTRY_SCHEMA),
+  count: numberSchema,
+  cached: booleanSchema,
+  timestamp: dateTimeSchema,
+});
+
+export const TOOLS_SEARCH_RESPONSE_SCHEMA = objectSchema({
+  query: stringSchema,
+  count: numberSchema,
+  tools: arrayOf(REGISTRY_ENTRY_SCHEMA),
+  cached: booleanSchema,
+  timestamp: dateTimeSchema,
+});
+
+export const TOOL_RESPONSE_SCHEMA = objectSchema({
+  tool: REGISTRY_ENTRY_SCHEMA,
+  cached: booleanSchema,
+  timestamp: dateTimeSchema,
+});
+
+export const REPO_TASKS_RESPONSE_SCHEMA = arrayOf(objectSchema({
+  repo: stringSchema,
+  tasks: arrayOf(objectSchema({
+    priority: { type: "string", enum: ["red", "yellow", "green"] },
+    text: stringSchema,
+    done: booleanSchema,
+  })),
+}));
+
+const BOARD_COUNTS_SCHEMA = objectSchema({ open: numberSchema, done: numberSchema });
+
+const BOARD_ITEM_SCHEMA = objectSchema({
+  source: { type: "string", enum: BOARD_SOURCES, description: "`admin` for `/admin/tasks`, `tasks_md` for a repo's TASKS.md" },
+  id: { ...nullableString, description: "Admin task id; null for TASKS.md items" },
+  title: stringSchema,
+  status: TASK_STATUS_SCHEMA,
+  priority: TASK_PRIORITY_SCHEMA,
+  assignee: nullableString,
+  dueDate: TASK_DUE_DATE_SCHEMA,
+});
+
+export const BOARD_RESPONSE_SCHEMA = objectSchema({
+  repos: arrayOf(objectSchema({
+    repo: { ...nullableString, description: "Null for admin tasks without a repo" },
+    counts: BOARD_COUNTS_SCHEMA,
+    priorities: objectSchema(Object.fromEntries(TASK_PRIORITIES.map((priority) => [priority, arrayOf(BOARD_ITEM_SCHEMA)]))),
+  })),
+  counts: BOARD_COUNTS_SCHEMA,
+  timestamp: dateTimeSchema,
+});
+
+export const FLEET_SUMMARY_RESPONSE_SCHEMA = objectSchema({
+  generatedAt: dateTimeSchema,
+  totalRepos: numberSchema,
+  repos: arrayOf(objectSchema({
+    repo: stringSchema,
+    criticality: stringSchema,
+    tier: stringSchema,
+  })),
+  tiers: { type: "object", additionalProperties: arrayOf(stringSchema) },
+  byCriticality: { type: "object", additionalProperties: arrayOf(stringSchema) },
+  source: stringSchema,
+});
+
+export const FLEET_HEALTH_RESPONSE_SCHEMA = objectSchema({
+  status: FLEET_STATUS_SCHEMA,
+  repos: arrayOf(objectSchema({
+    repo: stringSchema,
+    criticality: stringSchema,
+    lastRun: nullableString,
+    conclusion: stringSchema,
+  })),
+  checkedAt: dateTimeSchema,
+});
+
+export const FLEET_SCORE_RESPONSE_SCHEMA = objectSchema({
+  score: numberSchema,
+  status: FLEET_STATUS_SCHEMA,
+  totalRepos: numberSchema,
+  healthyRepos: numberSchema,
+  degradedRepos: numberSchema,
+  unknownRepos: numberSchema,
+  timestamp: dateTimeSchema,
+});
+
+export const FLEET_TREND_RESPONSE_SCHEMA = objectSchema({
+  generatedAt: dateTimeSchema,
+  totalRepos: numberSchema,
+  repos: arrayOf(objectSchema({
+    repo: stringSchema,
+    criticality: stringSchema,
+    last5: arrayOf(stringSchema),
+    direction: { type: "string", enum: ["up", "down", "flat", "unknown"] },
+  })),
+});
+
+export const GITHUB_STATS_RESPONSE_SCHEMA = objectSchema({
+  repoCount: numberSchema,
+  totalStars: numberSchema,
+  lastPushedAt: nullableString,
+  lastPushedRepo: nullableString,
+  cachedAt: dateTimeSchema,
+});
+
+export const GITHUB_EVENTS_RESPONSE_SCHEMA = objectSchema({
+  events: arrayOf(objectSchema({
+    id: { ...stringSchema, description: "GitHub event id; absent on webhook-delivered events until the next poll" },
+    type: { type: "string", enum: GITHUB_EVENT_TYPES },
+    repo: stringSchema,
+    message: stringSchema,
+    timestamp: dateTimeSchema,
+    commits: objectSchema({
+      count: numberSchema,
+      messages: arrayOf(stringSchema, { description: "First line of each commit, oldest first" }),
+    }, undefined, { description: "Pushes only" }),
+  }, ["type", "repo", "message", "timestamp"])),
+  nextCursor: nullableString,
+});
+
+const CHANGELOG_COMMIT_SCHEMA = objectSchema({
+  repo: stringSchema,
+  sha: stringSchema,
+  message: stringSchema,
+  author: stringSchema,
+  date: stringSchema,
+  type: { type: "string", enum: CHANGELOG_TYPES, description: "Conventional-commit type, or `other`" },
+  scope: nullableString,
+  tags: arrayOf(stringSchema, { description: "Tags of published releases pointing at this commit" }),
+});
+
+const CHANGELOG_PAGE_PROPERTIES = {
+  commits: arrayOf(CHANGELOG_COMMIT_SCHEMA),
+  groups: arrayOf(objectSchema({
+    type: { type: "string", enum: CHANGELOG_TYPES },
+    commits: arrayOf(CHANGELOG_COMMIT_SCHEMA),
+  }), { description: `This page's commits by type, ordered ${CHANGELOG_TYPES.join(", ")}` }),
+  nextCursor: nullableString,
+  timestamp: dateTimeSchema,
+};
+
+export const CHANGELOG_RESPONSE_SCHEMA = objectSchema(CHANGELOG_PAGE_PROPERTIES);
+
+export const REPO_CHANGELOG_RESPONSE_SCHEMA = objectSchema({ repo: stringSchema, ...CHANGELOG_PAGE_PROPERTIES });
+
+export const POSTS_COUNT_RESPONSE_SCHEMA = objectSchema({
+  count: numberSchema,
+  lastPost: stringSchema,
+  lastPostDate: stringSchema,
+  lastPostSlug: stringSchema,
+});
+
+export const OPENAPI_RESPONSE_SCHEMA: JsonSchema = { type: "object", additionalProperties: true };
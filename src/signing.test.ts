@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { canonicalRequest, signRequest, verifySignedRequest } from "./signing";
+
+function createMockKV() {
+  const store: Record<string, string> = {};
+  return {
+    get: async (key: string) => store[key] ?? null,
+    put: async (key: string, value: string) => { store[key] = value; },
+    __store: store,
+  };
+}
+
+const NOW = 1_700_000_000_000;
+const TIMESTAMP = String(NOW / 1000);
+
+async function signed(path: string, body: string, secret = "s3cret") {
+  const signature = await signRequest(secret, "POST", path, TIMESTAMP, body);
+  return new Request(`https://api.test${path}`, {
+    method: "POST",
+    body,
+    headers: { "X-Clanka-Timestamp": TIMESTAMP, "X-Clanka-Signature": signature },
+  });
+}
+
+describe("canonicalRequest", () => {
+  it("joins method, path, timestamp, and body with newlines", () => {
+    expect(canonicalRequest("post", "/heartbeat?x=1", "1700000000", "{}")).toBe("POST\n/heartbeat?x=1\n1700000000\n{}");
+  });
+});
+
+describe("verifySignedRequest", () => {
+  it("accepts a valid signature once and records its nonce", async () => {
+    const kv = createMockKV();
+    const request = await signed("/heartbeat", "{}");
+
+    expect(await verifySignedRequest(request.clone(), "s3cret", kv as any, NOW)).toEqual({ ok: true });
+    expect(Object.keys(kv.__store)).toEqual([expect.stringMatching(/^sig_nonce:[0-9a-f]{64}$/)]);
+    expect(await verifySignedRequest(request, "s3cret", kv as any, NOW)).toEqual({ ok: false, reason: "replayed" });
+  });
+
+  it("binds the signature to the path and the secret", async () => {
+    const kv = createMockKV();
+    const request = await signed("/heartbeat", "{}", "other-secret");
+    expect(await verifySignedRequest(request, "s3cret", kv as any, NOW)).toEqual({ ok: false, reason: "bad_signature" });
+  });
+
+  it("rejects timestamps outside the window and malformed signatures", async () => {
+    const kv = createMockKV();
+    expect(await verifySignedRequest(await signed("/heartbeat", "{}"), "s3cret", kv as any, NOW + 301_000))
+      .toEqual({ ok: false, reason: "stale_timestamp" });
+
+    const malformed = new Request("https://api.test/heartbeat", {
+      method: "POST",
+      headers: { "X-Clanka-Timestamp": TIMESTAMP, "X-Clanka-Signature": "zz" },
+    });
+    expect(await verifySignedRequest(malformed, "s3cret", kv as any, NOW))
+      .toEqual({ ok: false, reason: "malformed_signature" });
+  });
+});
@@ -0,0 +1,107 @@
+// HMAC-signed requests for agent writes, with timestamp window and nonce replay protection
+
+import type { AuthPrincipal, AuthScope } from "./auth";
+
+export const TIMESTAMP_HEADER = "X-Clanka-Timestamp";
+export const SIGNATURE_HEADER = "X-Clanka-Signature";
+export const SIGNATURE_WINDOW_SEC = 300;
+const NONCE_KEY_PREFIX = "sig_nonce:";
+
+export const SIGNED_REQUEST_SCOPES: AuthScope[] = ["presence:write", "history:write"];
+export const SIGNED_REQUEST_PRINCIPAL: AuthPrincipal = {
+  id: "signed:SIGNING_SECRET",
+  name: "signed-request",
+  scopes: SIGNED_REQUEST_SCOPES,
+};
+
+export type SignatureFailure =
+  | "signing_disabled"
+  | "missing_timestamp"
+  | "stale_timestamp"
+  | "malformed_signature"
+  | "bad_signature"
+  | "replayed";
+
+export type SignatureResult = { ok: true } | { ok: false; reason: SignatureFailure };
+
+export function isSignedRequest(request: Request): boolean {
+  return request.headers.has(SIGNATURE_HEADER);
+}
+
+// `METHOD\npath?query\ntimestamp\nbody` — the exact bytes both sides feed to HMAC-SHA256.
+export function canonicalRequest(method: string, path: string, timestamp: string, body: string): string {
+  return `${method.toUpperCase()}\n${path}\n${timestamp}\n${body}`;
+}
+
+function importHmacKey(secret: string, usage: "sign" | "verify"): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    [usage],
+  );
+}
+
+export function hexToBytes(hex: string): Uint8Array | null {
+  if (!/^(?:[0-9a-f]{2})+$/i.test(hex)) return null;
+  return Uint8Array.from(hex.match(/../g)!, (pair) => parseInt(pair, 16));
+}
+
+export async function hmacSha256Hex(secret: string, message: string): Promise<string> {
+  const key = await importHmacKey(secret, "sign");
+  const mac = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(message));
+  return Array.from(new Uint8Array(mac), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+// Constant-time check of a raw HMAC-SHA256 tag over `message`.
+export async function verifyHmacSha256(secret: string, message: string, mac: Uint8Array): Promise<boolean> {
+  const key = await importHmacKey(secret, "verify");
+  return crypto.subtle.verify("HMAC", key, mac, new TextEncoder().encode(message));
+}
+
+export async function signRequest(
+  secret: string,
+  method: string,
+  path: string,
+  timestamp: string,
+  body: string,
+): Promise<string> {
+  return hmacSha256Hex(secret, canonicalRequest(method, path, timestamp, body));
+}
+
+/**
+ * Verifies the signature (via `crypto.subtle.verify`, which compares in constant time) and then
+ * burns it as a nonce, so the same signed request is accepted at most once within the window.
+ */
+export async function verifySignedRequest(
+  request: Request,
+  secret: string | undefined,
+  kv: KVNamespace,
+  now = Date.now(),
+): Promise<SignatureResult> {
+  if (!secret) return { ok: false, reason: "signing_disabled" };
+
+  const timestamp = request.headers.get(TIMESTAMP_HEADER)?.trim() ?? "";
+  if (!/^\d+$/.test(timestamp)) return { ok: false, reason: "missing_timestamp" };
+  if (Math.abs(now / 1000 - Number(timestamp)) > SIGNATURE_WINDOW_SEC) {
+    return { ok: false, reason: "stale_timestamp" };
+  }
+
+  const signature = (request.headers.get(SIGNATURE_HEADER) ?? "").trim().toLowerCase();
+  const mac = hexToBytes(signature);
+  if (!mac || mac.length !== 32) return { ok: false, reason: "malformed_signature" };
+
+  const url = new URL(request.url);
+  const body = await request.clone().text();
+  const canonical = canonicalRequest(request.method, url.pathname + url.search, timestamp, body);
+  if (!(await verifyHmacSha256(secret, canonical, mac))) {
+    return { ok: false, reason: "bad_signature" };
+  }
+
+  const nonceKey = `${NONCE_KEY_PREFIX}${signature}`;
+  if (await kv.get(nonceKey)) return { ok: false, reason: "replayed" };
+  // Outlive the window on both sides of `now`, so a replay is rejected until its timestamp goes stale.
+  await kv.put(nonceKey, timestamp, { expirationTtl: SIGNATURE_WINDOW_SEC * 2 });
+  return { ok: true };
+}
@@ -0,0 +1,112 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { eventsAfter, formatSseEvent, StreamHub, type StreamEvent } from "./stream";
+
+function createHub(store = new Map<string, unknown>()) {
+  const state = {
+    storage: {
+      get: async (key: string) => store.get(key),
+      put: async (key: string, value: unknown) => {
+        store.set(key, structuredClone(value));
+      },
+    },
+    blockConcurrencyWhile: async (fn: () => Promise<unknown>) => fn(),
+  } as unknown as DurableObjectState;
+  return { hub: new StreamHub(state), store };
+}
+
+async function publish(hub: StreamHub, events: unknown[]) {
+  const res = await hub.fetch(new Request("https://stream-hub/publish", { method: "POST", body: JSON.stringify(events) }));
+  return res.json() as Promise<{ published: number; lastEventId?: number }>;
+}
+
+async function connect(hub: StreamHub, lastEventId?: string) {
+  const res = await hub.fetch(new Request("https://stream-hub/connect", {
+    headers: lastEventId === undefined ? {} : { "Last-Event-ID": lastEventId },
+  }));
+  const reader = (res.body as ReadableStream<Uint8Array>).getReader();
+  const decoder = new TextDecoder();
+  return {
+    res,
+    reader,
+    read: async () => decoder.decode((await reader.read()).value),
+  };
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["setInterval", "clearInterval"] });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("formatSseEvent", () => {
+  it("writes id, event, and JSON data lines", () => {
+    expect(formatSseEvent({ id: 7, type: "presence", data: { state: "active" } }))
+      .toBe('id: 7\nevent: presence\ndata: {"state":"active"}\n\n');
+  });
+});
+
+describe("eventsAfter", () => {
+  const events: StreamEvent[] = [3, 4, 5].map((id) => ({ id, type: "history", data: null }));
+
+  it("replays only what the client missed, and everything for ids the buffer does not know", () => {
+    expect(eventsAfter(events, null)).toEqual([]);
+    expect(eventsAfter(events, "4").map((event) => event.id)).toEqual([5]);
+    expect(eventsAfter(events, "5")).toEqual([]);
+    expect(eventsAfter(events, "1").map((event) => event.id)).toEqual([3, 4, 5]);
+    expect(eventsAfter(events, "99").map((event) => event.id)).toEqual([3, 4, 5]);
+    expect(eventsAfter(events, "abc").map((event) => event.id)).toEqual([3, 4, 5]);
+  });
+});
+
+describe("StreamHub", () => {
+  it("fans published events out to every connection and keeps them alive", async () => {
+    const { hub } = createHub();
+    const first = await connect(hub);
+    const second = await connect(hub);
+
+    expect(first.res.headers.get("Content-Type")).toBe("text/event-stream; charset=utf-8");
+    expect(await first.read()).toBe("retry: 3000\n\n");
+    expect(await second.read()).toBe("retry: 3000\n\n");
+
+    expect(await publish(hub, [
+      { type: "presence", data: { state: "active" } },
+      { type: "unknown", data: {} },
+    ])).toEqual({ published: 1, lastEventId: 1 });
+    expect(await first.read()).toBe('id: 1\nevent: presence\ndata: {"state":"active"}\n\n');
+    expect(await second.read()).toBe('id: 1\nevent: presence\ndata: {"state":"active"}\n\n');
+
+    vi.advanceTimersByTime(15_000);
+    expect(await first.read()).toBe(": keepalive\n\n");
+
+    await first.reader.cancel();
+    await second.reader.cancel();
+    vi.advanceTimersByTime(15_000);
+    await vi.waitFor(() => expect(vi.getTimerCount()).toBe(0));
+  });
+
+  it("replays events after Last-Event-ID from the stored buffer", async () => {
+    const store = new Map<string, unknown>();
+    const { hub: writer } = createHub(store);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    await publish(writer, [
+      { type: "history", data: { desc: "one" } },
+      { type: "history", data: { desc: "two" } },
+      { type: "heartbeat", data: { last_seen: "2026-03-01T00:00:00.000Z" } },
+    ]);
+
+    // A fresh instance (after eviction) loads the buffer from storage.
+    const { hub } = createHub(store);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    const client = await connect(hub, "1");
+
+    expect(await client.read()).toBe([
+      "retry: 3000\n\n",
+      'id: 2\nevent: history\ndata: {"desc":"two"}\n\n',
+      'id: 3\nevent: heartbeat\ndata: {"last_seen":"2026-03-01T00:00:00.000Z"}\n\n',
+    ].join(""));
+    expect(await publish(hub, [{ type: "history", data: { desc: "three" } }])).toEqual({ published: 1, lastEventId: 4 });
+    await client.reader.cancel();
+  });
+});
@@ -0,0 +1,119 @@
+// Server-Sent Events fan-out: one Durable Object holds every `/stream` connection and a replay buffer
+
+export const STREAM_EVENT_TYPES = ["presence", "history", "heartbeat", "fleet-health", "incident"] as const;
+export type StreamEventType = typeof STREAM_EVENT_TYPES[number];
+
+export type StreamEvent = { id: number; type: StreamEventType; data: unknown };
+export type StreamPublish = { type: StreamEventType; data: unknown };
+
+// Every connection shares one hub, so the hub's buffer is the single source of event ids.
+export const STREAM_HUB_NAME = "global";
+// Internal URLs the worker uses to reach the hub; the host is never resolved.
+export const STREAM_HUB_CONNECT_URL = "https://stream-hub/connect";
+export const STREAM_HUB_PUBLISH_URL = "https://stream-hub/publish";
+const STREAM_BUFFER_SIZE = 100;
+const STREAM_BUFFER_KEY = "events";
+const STREAM_KEEPALIVE_MS = 15_000;
+// Sent once per connection; EventSource waits this long before reconnecting.
+const STREAM_RETRY_MS = 3_000;
+
+export function isStreamEventType(value: unknown): value is StreamEventType {
+  return typeof value === "string" && (STREAM_EVENT_TYPES as readonly string[]).includes(value);
+}
+
+export function formatSseEvent(event: StreamEvent): string {
+  return `id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`;
+}
+
+// Events a client reconnecting with `Last-Event-ID` missed. An id the buffer does not know (the hub
+// lost its storage, or the id is garbage) replays the whole buffer rather than nothing.
+export function eventsAfter(events: StreamEvent[], lastEventId: string | null): StreamEvent[] {
+  if (lastEventId === null || lastEventId.trim() === "") return [];
+  const lastId = Number(lastEventId);
+  const newest = events[events.length - 1]?.id ?? 0;
+  if (!Number.isInteger(lastId) || lastId < 0 || lastId > newest) return events;
+  return events.filter((event) => event.id > lastId);
+}
+
+// Publishing is best-effort: a stream hub outage never fails the write that produced the events.
+// Resolves false when the hub did not take them, for callers that report it (background jobs).
+export async function publishStreamEvents(
+  hubs: DurableObjectNamespace | undefined,
+  events: StreamPublish[],
+): Promise<boolean> {
+  if (!hubs || events.length === 0) return true;
+  const hub = hubs.get(hubs.idFromName(STREAM_HUB_NAME));
+  const res = await hub.fetch(STREAM_HUB_PUBLISH_URL, { method: "POST", body: JSON.stringify(events) }).catch(() => null);
+  return res?.ok ?? false;
+}
+
+/**
+ * Durable Object behind `/stream`. `POST /publish` takes a list of `{ type, data }`, numbers and
+ * buffers them, and writes them to every open connection; `GET /connect` opens a connection,
+ * replaying what the client missed when it sends `Last-Event-ID`. Keepalive comments go out while
+ * any connection is open, which is also how writes to disconnected clients fail and get dropped.
+ */
+export class StreamHub {
+  private readonly storage: DurableObjectStorage;
+  private readonly clients = new Set<WritableStreamDefaultWriter<Uint8Array>>();
+  private readonly encoder = new TextEncoder();
+  private events: StreamEvent[] = [];
+  private keepalive: ReturnType<typeof setInterval> | null = null;
+
+  constructor(state: DurableObjectState) {
+    this.storage = state.storage;
+    void state.blockConcurrencyWhile(async () => {
+      this.events = await this.storage.get<StreamEvent[]>(STREAM_BUFFER_KEY) ?? [];
+    });
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    const { pathname } = new URL(request.url);
+    if (request.method === "POST" && pathname === "/publish") return this.publish(request);
+    if (request.method === "GET" && pathname === "/connect") return this.connect(request);
+    return new Response("Not Found", { status: 404 });
+  }
+
+  private async publish(request: Request): Promise<Response> {
+    const body = await request.json().catch(() => null) as unknown;
+    const published = (Array.isArray(body) ? body : [])
+      .filter((item): item is StreamPublish => Boolean(item) && isStreamEventType((item as StreamPublish).type));
+    let nextId = this.events[this.events.length - 1]?.id ?? 0;
+    const events = published.map((item) => ({ id: ++nextId, type: item.type, data: item.data ?? null }));
+    if (events.length === 0) return Response.json({ published: 0 });
+
+    this.events = [...this.events, ...events].slice(-STREAM_BUFFER_SIZE);
+    await this.storage.put(STREAM_BUFFER_KEY, this.events);
+    this.broadcast(events.map(formatSseEvent).join(""));
+    return Response.json({ published: events.length, lastEventId: nextId });
+  }
+
+  private connect(request: Request): Response {
+    const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+    const writer = writable.getWriter();
+    const missed = eventsAfter(this.events, request.headers.get("Last-Event-ID"));
+    this.send(writer, `retry: ${STREAM_RETRY_MS}\n\n${missed.map(formatSseEvent).join("")}`);
+    this.clients.add(writer);
+    this.keepalive ??= setInterval(() => this.broadcast(": keepalive\n\n"), STREAM_KEEPALIVE_MS);
+    return new Response(readable, { headers: { "Content-Type": "text/event-stream; charset=utf-8" } });
+  }
+
+  private broadcast(chunk: string): void {
+    for (const writer of this.clients) this.send(writer, chunk);
+  }
+
+  private send(writer: WritableStreamDefaultWriter<Uint8Array>, chunk: string): void {
+    writer.write(this.encoder.encode(chunk)).catch(() => this.drop(writer));
+  }
+
+  private drop(writer: WritableStreamDefaultWriter<Uint8Array>): void {
+    this.clients.delete(writer);
+    writer.abort().catch(() => {
+      // already closed by the client
+    });
+    if (this.clients.size === 0 && this.keepalive !== null) {
+      clearInterval(this.keepalive);
+      this.keepalive = null;
+    }
+  }
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { applyTaskPatch, createTask, ifMatchSatisfied, parseTaskQuery, queryTasks, taskEtag } from "./tasks";
+
+describe("ETags", () => {
+  const task = createTask({ title: "ship" }, 0);
+
+  it("changes with every patch", () => {
+    const updated = applyTaskPatch(task, { status: "done" }, 1000);
+    expect(updated.version).toBe(2);
+    expect(updated.updatedAt).toBe("1970-01-01T00:00:01.000Z");
+    expect(taskEtag(updated)).not.toBe(taskEtag(task));
+  });
+
+  it("accepts a missing header, *, weak tags, and lists", () => {
+    expect(ifMatchSatisfied(null, task)).toBe(true);
+    expect(ifMatchSatisfied("*", task)).toBe(true);
+    expect(ifMatchSatisfied(`W/${taskEtag(task)}`, task)).toBe(true);
+    expect(ifMatchSatisfied(`"other.1", ${taskEtag(task)}`, task)).toBe(true);
+    expect(ifMatchSatisfied("\"other.1\"", task)).toBe(false);
+  });
+});
+
+describe("queryTasks", () => {
+  it("keeps tasks without a due date last in both directions", () => {
+    const tasks = [
+      createTask({ title: "none" }),
+      createTask({ title: "early", dueDate: "2026-01-01" }),
+      createTask({ title: "late", dueDate: "2026-06-01" }),
+    ];
+    const sortBy = (sort: string) => {
+      const parsed = parseTaskQuery(new URLSearchParams({ sort }));
+      if (!parsed.ok) throw new Error(parsed.message);
+      return queryTasks(tasks, parsed.query).map((task) => task.title);
+    };
+
+    expect(sortBy("dueDate")).toEqual(["early", "late", "none"]);
+    expect(sortBy("-dueDate")).toEqual(["late", "early", "none"]);
+  });
+
+  it("rejects unknown filters", () => {
+    expect(parseTaskQuery(new URLSearchParams({ status: "blocked" })).ok).toBe(false);
+    expect(parseTaskQuery(new URLSearchParams({ priority: "blue" })).ok).toBe(false);
+  });
+});
@@ -0,0 +1,202 @@
+// Typed admin task model stored in KV, with versioned ETags for optimistic concurrency
+
+export const TASK_STATUSES = ["todo", "in_progress", "done"] as const;
+export const TASK_PRIORITIES = ["red", "yellow", "green"] as const;
+export const TASK_SORT_FIELDS = ["createdAt", "updatedAt", "dueDate", "priority", "title"] as const;
+
+export type TaskStatus = typeof TASK_STATUSES[number];
+export type TaskPriority = typeof TASK_PRIORITIES[number];
+type TaskSortField = typeof TASK_SORT_FIELDS[number];
+
+export type Task = {
+  id: string;
+  title: string;
+  status: TaskStatus;
+  priority: TaskPriority;
+  assignee: string | null;
+  repo: string | null;
+  tags: string[];
+  dueDate: string | null;
+  createdAt: string;
+  updatedAt: string;
+  version: number;
+};
+
+export type TaskInput = Partial<Pick<Task, "title" | "status" | "priority" | "assignee" | "repo" | "tags" | "dueDate">>;
+
+export type TaskQuery = {
+  status: TaskStatus | null;
+  priority: TaskPriority | null;
+  assignee: string | null;
+  tag: string | null;
+  sort: { field: TaskSortField; descending: boolean };
+};
+
+export const TASKS_KEY = "tasks:v2";
+// Untyped `{ id, text, done }` array written by the original `/admin/tasks` and `/set-presence`.
+const LEGACY_TASKS_KEY = "tasks";
+
+export function isOneOf<T extends string>(values: readonly T[], value: unknown): value is T {
+  return typeof value === "string" && (values as readonly string[]).includes(value);
+}
+
+function normalizeTask(value: unknown): Task | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+  const item = value as Record<string, unknown>;
+  if (typeof item.id !== "string" || typeof item.title !== "string") return null;
+  return {
+    id: item.id,
+    title: item.title,
+    status: isOneOf(TASK_STATUSES, item.status) ? item.status : "todo",
+    priority: isOneOf(TASK_PRIORITIES, item.priority) ? item.priority : "yellow",
+    assignee: typeof item.assignee === "string" ? item.assignee : null,
+    repo: typeof item.repo === "string" ? item.repo : null,
+    tags: Array.isArray(item.tags) ? item.tags.filter((tag): tag is string => typeof tag === "string") : [],
+    dueDate: typeof item.dueDate === "string" ? item.dueDate : null,
+    createdAt: typeof item.createdAt === "string" ? item.createdAt : new Date(0).toISOString(),
+    updatedAt: typeof item.updatedAt === "string" ? item.updatedAt : new Date(0).toISOString(),
+    version: typeof item.version === "number" && Number.isInteger(item.version) ? item.version : 1,
+  };
+}
+
+// Items without an id get one from their position and timestamps are the epoch, so every read converts
+// an item the same way until a write stores it.
+function migrateLegacyTask(value: unknown, index: number): Task | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+  const item = value as Record<string, unknown>;
+  const title = typeof item.text === "string" ? item.text : typeof item.title === "string" ? item.title : "";
+  if (!title.trim()) return null;
+  return {
+    id: typeof item.id === "string" && item.id.trim() ? item.id : `legacy-${index}`,
+    title,
+    status: item.done === true ? "done" : "todo",
+    priority: isOneOf(TASK_PRIORITIES, item.priority) ? item.priority : "yellow",
+    assignee: null,
+    repo: null,
+    tags: [],
+    dueDate: null,
+    createdAt: new Date(0).toISOString(),
+    updatedAt: new Date(0).toISOString(),
+    version: 1,
+  };
+}
+
+function parseArray(raw: string | null): unknown[] | null {
+  if (raw === null) return null;
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+// Never writes: without `TASKS_KEY` the legacy blob is converted in memory, and the first admin write
+// stores the converted list under `TASKS_KEY`.
+export async function loadTasks(kv: KVNamespace): Promise<Task[]> {
+  const current = parseArray(await kv.get(TASKS_KEY));
+  if (current !== null) {
+    return current.map(normalizeTask).filter((task): task is Task => task !== null);
+  }
+  const legacy = parseArray(await kv.get(LEGACY_TASKS_KEY)) ?? [];
+  return legacy
+    .map((item, index) => migrateLegacyTask(item, index))
+    .filter((task): task is Task => task !== null);
+}
+
+export async function saveTasks(kv: KVNamespace, tasks: Task[]): Promise<void> {
+  await kv.put(TASKS_KEY, JSON.stringify(tasks));
+}
+
+export function createTask(input: TaskInput & { title: string }, now = Date.now()): Task {
+  const timestamp = new Date(now).toISOString();
+  return {
+    id: crypto.randomUUID(),
+    title: input.title.trim(),
+    status: input.status ?? "todo",
+    priority: input.priority ?? "yellow",
+    assignee: input.assignee ?? null,
+    repo: input.repo ?? null,
+    tags: Array.from(new Set(input.tags ?? [])),
+    dueDate: input.dueDate ?? null,
+    createdAt: timestamp,
+    updatedAt: timestamp,
+    version: 1,
+  };
+}
+
+export function applyTaskPatch(task: Task, patch: TaskInput, now = Date.now()): Task {
+  return {
+    ...task,
+    ...patch,
+    title: patch.title !== undefined ? patch.title.trim() : task.title,
+    tags: patch.tags !== undefined ? Array.from(new Set(patch.tags)) : task.tags,
+    updatedAt: new Date(now).toISOString(),
+    version: task.version + 1,
+  };
+}
+
+export function taskEtag(task: Task): string {
+  return `"${task.id}.${task.version}"`;
+}
+
+// A missing `If-Match` header skips the check; `*` or any listed (possibly weak) ETag satisfies it.
+export function ifMatchSatisfied(header: string | null, task: Task): boolean {
+  if (header === null) return true;
+  const etag = taskEtag(task);
+  return header.split(",").map((value) => value.trim().replace(/^W\//, "")).some((value) => value === "*" || value === etag);
+}
+
+export function parseTaskQuery(params: URLSearchParams): { ok: true; query: TaskQuery } | { ok: false; message: string } {
+  const status = params.get("status");
+  if (status !== null && !isOneOf(TASK_STATUSES, status)) {
+    return { ok: false, message: `status must be one of ${TASK_STATUSES.join(", ")}` };
+  }
+  const priority = params.get("priority");
+  if (priority !== null && !isOneOf(TASK_PRIORITIES, priority)) {
+    return { ok: false, message: `priority must be one of ${TASK_PRIORITIES.join(", ")}` };
+  }
+  const rawSort = params.get("sort") ?? "-createdAt";
+  const descending = rawSort.startsWith("-");
+  const field = descending ? rawSort.slice(1) : rawSort;
+  if (!isOneOf(TASK_SORT_FIELDS, field)) {
+    return { ok: false, message: `sort must be one of ${TASK_SORT_FIELDS.join(", ")}, optionally prefixed with -` };
+  }
+  return {
+    ok: true,
+    query: {
+      status,
+      priority,
+      assignee: params.get("assignee") || null,
+      tag: params.get("tag") || null,
+      sort: { field, descending },
+    },
+  };
+}
+
+function compareTasks(a: Task, b: Task, field: TaskSortField): number {
+  if (field === "priority") return TASK_PRIORITIES.indexOf(a.priority) - TASK_PRIORITIES.indexOf(b.priority);
+  const left = a[field];
+  const right = b[field];
+  if (left === right) return 0;
+  if (left === null) return 1;
+  if (right === null) return -1;
+  return left < right ? -1 : 1;
+}
+
+// Tasks without a due date sort last in either direction.
+export function queryTasks(tasks: Task[], query: TaskQuery): Task[] {
+  const { field, descending } = query.sort;
+  return tasks
+    .filter((task) => query.status === null || task.status === query.status)
+    .filter((task) => query.priority === null || task.priority === query.priority)
+    .filter((task) => query.assignee === null || task.assignee === query.assignee)
+    .filter((task) => query.tag === null || task.tags.includes(query.tag))
+    .sort((a, b) => {
+      if (field === "dueDate" && (a.dueDate === null) !== (b.dueDate === null)) {
+        return a.dueDate === null ? 1 : -1;
+      }
+      const order = compareTasks(a, b, field);
+      return descending ? -order : order;
+    });
+}
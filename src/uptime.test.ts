@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { loadUptimeReport, recordCoverage, summarizeUptime } from "./uptime";
+
+const MINUTE = 60_000;
+
+function createKV() {
+  const store = new Map<string, string>();
+  const puts: string[] = [];
+  return {
+    get: async (key: string) => store.get(key) ?? null,
+    put: async (key: string, value: string) => {
+      puts.push(key);
+      store.set(key, value);
+    },
+    store,
+    puts,
+  } as unknown as KVNamespace & { store: Map<string, string>; puts: string[] };
+}
+
+describe("recordCoverage", () => {
+  it("splits coverage across UTC days and skips days that are already covered", async () => {
+    const kv = createKV();
+    const lateEvening = Date.parse("2026-03-01T23:55:00Z");
+    await recordCoverage(kv, lateEvening, lateEvening + 10 * MINUTE);
+    expect([...kv.store.keys()].sort()).toEqual(["uptime:2026-03-01:v1", "uptime:2026-03-02:v1", "uptime:since:v1"]);
+
+    kv.puts.length = 0;
+    await recordCoverage(kv, lateEvening + MINUTE, lateEvening + 5 * MINUTE);
+    expect(kv.puts).toEqual([]);
+
+    const report = await loadUptimeReport(kv, "24h", lateEvening + 20 * MINUTE);
+    expect(report).toMatchObject({
+      since: "2026-03-01T23:55:00.000Z",
+      availability: 50,
+      outages: [{ start: "2026-03-02T00:05:00.000Z", duration_ms: 10 * MINUTE, ongoing: true }],
+      mttr_ms: null,
+    });
+  });
+
+  it("reports nothing measured before the first heartbeat", async () => {
+    expect(await loadUptimeReport(createKV(), "7d", Date.parse("2026-03-01T00:00:00Z"))).toMatchObject({
+      availability: null,
+      outages: [],
+      longest_outage: null,
+      days: [],
+    });
+  });
+});
+
+describe("summarizeUptime", () => {
+  it("finds outages, the longest one, and the mean time to recover", () => {
+    const coverage = Uint8Array.from([1, 0, 0, 1, 1, 0, 1, 1, 1, 0]);
+    const summary = summarizeUptime(coverage, 0);
+
+    expect(summary.outages.map((outage) => [outage.duration_ms / MINUTE, outage.ongoing])).toEqual([
+      [2, false],
+      [1, false],
+      [1, true],
+    ]);
+    expect(summary.longest_outage).toMatchObject({ start: "1970-01-01T00:01:00.000Z", duration_ms: 2 * MINUTE });
+    expect(summary.mttr_ms).toBe(1.5 * MINUTE);
+    expect(summary.availability).toBe(60);
+    expect(summary.downtime_ms).toBe(4 * MINUTE);
+  });
+
+  it("rounds availability down so it never overstates", () => {
+    const coverage = new Uint8Array(100_000).fill(1);
+    coverage[0] = 0;
+    expect(summarizeUptime(coverage, 0).availability).toBe(99.999);
+    coverage[1] = 0;
+    expect(summarizeUptime(coverage, 0).availability).toBe(99.998);
+  });
+});
@@ -0,0 +1,156 @@
+// Uptime from heartbeats: per-minute coverage rolled up by UTC day in KV, and the availability and outages it adds up to
+
+export const UPTIME_WINDOWS = { "24h": 1, "7d": 7, "30d": 30, "90d": 90 } as const;
+export type UptimeWindow = keyof typeof UPTIME_WINDOWS;
+
+export type UptimeOutage = { start: string; end: string; duration_ms: number; ongoing: boolean };
+export type UptimeDay = { date: string; availability: number | null; downtime_ms: number };
+export type UptimeReport = {
+  since: string;
+  until: string;
+  availability: number | null;
+  downtime_ms: number;
+  outages: UptimeOutage[];
+  longest_outage: UptimeOutage | null;
+  mttr_ms: number | null;
+  days: UptimeDay[];
+};
+
+const MINUTE_MS = 60 * 1000;
+const MINUTES_PER_DAY = 24 * 60;
+const DAY_MS = MINUTES_PER_DAY * MINUTE_MS;
+const UPTIME_KEY_PREFIX = "uptime:";
+// The first covered minute; earlier time is not counted against availability.
+const UPTIME_SINCE_KEY = "uptime:since:v1";
+// The longest window, plus the day it starts part way through.
+const UPTIME_RETENTION_SEC = (UPTIME_WINDOWS["90d"] + 2) * 24 * 60 * 60;
+
+export function isUptimeWindow(value: string): value is UptimeWindow {
+  return Object.keys(UPTIME_WINDOWS).includes(value);
+}
+
+async function loadSince(kv: KVNamespace): Promise<number | null> {
+  const raw = await kv.get(UPTIME_SINCE_KEY);
+  return raw !== null && Number.isFinite(Number(raw)) ? Number(raw) : null;
+}
+
+function dayKey(day: number): string {
+  return `${UPTIME_KEY_PREFIX}${new Date(day * DAY_MS).toISOString().slice(0, 10)}:v1`;
+}
+
+// One bit per minute of the day, as 360 hex digits.
+function decodeDay(raw: string | null): Uint8Array {
+  const bits = new Uint8Array(MINUTES_PER_DAY / 8);
+  if (raw === null || !/^[0-9a-f]{360}$/.test(raw)) return bits;
+  for (let index = 0; index < bits.length; index++) bits[index] = parseInt(raw.slice(index * 2, index * 2 + 2), 16);
+  return bits;
+}
+
+function encodeDay(bits: Uint8Array): string {
+  return Array.from(bits, (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+// Marks the minutes from `from` up to `until` as up. Days whose minutes were all set already are not rewritten.
+export async function recordCoverage(kv: KVNamespace, from: number, until: number): Promise<void> {
+  const first = Math.floor(from / MINUTE_MS);
+  const last = Math.floor(until / MINUTE_MS);
+  if (last <= first) return;
+  if (await loadSince(kv) === null) {
+    await kv.put(UPTIME_SINCE_KEY, String(first * MINUTE_MS));
+  }
+  for (let day = Math.floor(first / MINUTES_PER_DAY); day * MINUTES_PER_DAY < last; day++) {
+    const bits = decodeDay(await kv.get(dayKey(day)));
+    let changed = false;
+    const start = Math.max(first, day * MINUTES_PER_DAY);
+    const end = Math.min(last, (day + 1) * MINUTES_PER_DAY);
+    for (let minute = start - day * MINUTES_PER_DAY; minute < end - day * MINUTES_PER_DAY; minute++) {
+      const mask = 1 << (minute % 8);
+      if ((bits[minute >> 3] & mask) === 0) {
+        bits[minute >> 3] |= mask;
+        changed = true;
+      }
+    }
+    if (changed) await kv.put(dayKey(day), encodeDay(bits), { expirationTtl: UPTIME_RETENTION_SEC });
+  }
+}
+
+// 1 for each covered minute from `startMinute` (inclusive) to `endMinute` (exclusive), counted from the epoch.
+async function loadCoverage(kv: KVNamespace, startMinute: number, endMinute: number): Promise<Uint8Array> {
+  const coverage = new Uint8Array(Math.max(0, endMinute - startMinute));
+  const firstDay = Math.floor(startMinute / MINUTES_PER_DAY);
+  const days = await Promise.all(Array.from(
+    { length: Math.ceil(endMinute / MINUTES_PER_DAY) - firstDay },
+    async (_, index) => decodeDay(await kv.get(dayKey(firstDay + index))),
+  ));
+  for (let minute = startMinute; minute < endMinute; minute++) {
+    const bits = days[Math.floor(minute / MINUTES_PER_DAY) - firstDay];
+    const offset = minute % MINUTES_PER_DAY;
+    coverage[minute - startMinute] = (bits[offset >> 3] >> (offset % 8)) & 1;
+  }
+  return coverage;
+}
+
+// Rounded down, so the published number never claims more than was measured.
+function percentage(up: number, total: number): number | null {
+  return total === 0 ? null : Math.floor((up / total) * 100_000) / 1000;
+}
+
+export function summarizeUptime(coverage: Uint8Array, startMinute: number): Omit<UptimeReport, "since" | "until"> {
+  const endMinute = startMinute + coverage.length;
+  const outages: UptimeOutage[] = [];
+  let down = 0;
+  for (let index = 0; index < coverage.length; index++) {
+    if (coverage[index] === 1) continue;
+    let end = index;
+    while (end < coverage.length && coverage[end] === 0) end++;
+    outages.push({
+      start: new Date((startMinute + index) * MINUTE_MS).toISOString(),
+      end: new Date((startMinute + end) * MINUTE_MS).toISOString(),
+      duration_ms: (end - index) * MINUTE_MS,
+      ongoing: end === coverage.length,
+    });
+    down += end - index;
+    index = end;
+  }
+
+  const days: UptimeDay[] = [];
+  for (let day = Math.floor(startMinute / MINUTES_PER_DAY); day * MINUTES_PER_DAY < endMinute; day++) {
+    const from = Math.max(startMinute, day * MINUTES_PER_DAY) - startMinute;
+    const to = Math.min(endMinute, (day + 1) * MINUTES_PER_DAY) - startMinute;
+    const up = coverage.subarray(from, to).reduce((sum, bit) => sum + bit, 0);
+    days.push({
+      date: new Date(day * DAY_MS).toISOString().slice(0, 10),
+      availability: percentage(up, to - from),
+      downtime_ms: (to - from - up) * MINUTE_MS,
+    });
+  }
+
+  const resolved = outages.filter((outage) => !outage.ongoing);
+  return {
+    availability: percentage(coverage.length - down, coverage.length),
+    downtime_ms: down * MINUTE_MS,
+    outages,
+    longest_outage: outages.reduce<UptimeOutage | null>(
+      (longest, outage) => (longest === null || outage.duration_ms > longest.duration_ms ? outage : longest),
+      null,
+    ),
+    mttr_ms: resolved.length === 0
+      ? null
+      : Math.round(resolved.reduce((sum, outage) => sum + outage.duration_ms, 0) / resolved.length),
+    days,
+  };
+}
+
+// Whole minutes in the window up to the current one, from when coverage was first recorded.
+export async function loadUptimeReport(kv: KVNamespace, window: UptimeWindow, now: number): Promise<UptimeReport> {
+  const endMinute = Math.floor(now / MINUTE_MS);
+  const since = await loadSince(kv);
+  const startMinute = since === null
+    ? endMinute
+    : Math.min(endMinute, Math.max(endMinute - UPTIME_WINDOWS[window] * MINUTES_PER_DAY, Math.floor(since / MINUTE_MS)));
+  return {
+    since: new Date(startMinute * MINUTE_MS).toISOString(),
+    until: new Date(endMinute * MINUTE_MS).toISOString(),
+    ...summarizeUptime(await loadCoverage(kv, startMinute, endMinute), startMinute),
+  };
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import type { JsonSchema } from "./schemas";
+import { parseJsonBody, validateSchema } from "./validation";
+
+describe("validateSchema", () => {
+  const schema: JsonSchema = {
+    type: "object",
+    properties: {
+      name: { type: "string", minLength: 2 },
+      count: { type: "integer", minimum: 0 },
+      tags: { type: "array", items: { type: "string" }, maxItems: 2 },
+      level: { type: "string", enum: ["red", "green"] },
+      note: { type: "string", nullable: true },
+    },
+    required: ["name"],
+    additionalProperties: false,
+  };
+
+  it("returns no issues for a valid value", () => {
+    expect(validateSchema(schema, { name: "ok", count: 1, tags: ["a"], level: "red", note: null })).toEqual([]);
+  });
+
+  it("reports every failing field with path, expected, and received", () => {
+    expect(validateSchema(schema, { count: 1.5, tags: ["a", 2, "c"], level: "blue", extra: true })).toEqual([
+      { path: "$.name", expected: "string", received: "undefined" },
+      { path: "$.count", expected: "integer", received: "number" },
+      { path: "$.tags", expected: "array with at most 2 items", received: "array of 3 items" },
+      { path: "$.tags[1]", expected: "string", received: "integer" },
+      { path: "$.level", expected: "one of red, green", received: "\"blue\"" },
+      { path: "$.extra", expected: "no additional properties", received: "boolean" },
+    ]);
+  });
+
+  it("reports a root type mismatch without descending", () => {
+    expect(validateSchema(schema, [])).toEqual([{ path: "$", expected: "object", received: "array" }]);
+  });
+
+  it("enforces string and number bounds", () => {
+    expect(validateSchema(schema, { name: "x", count: -1 })).toEqual([
+      { path: "$.name", expected: "string with at least 2 characters", received: "\"x\"" },
+      { path: "$.count", expected: "number >= 0", received: "-1" },
+    ]);
+  });
+});
+
+describe("parseJsonBody", () => {
+  const schema: JsonSchema = { type: "object", properties: { id: { type: "string" } }, required: [] };
+
+  function post(body?: string) {
+    return new Request("https://api.test/x", { method: "POST", body });
+  }
+
+  it("treats an empty body as an empty object", async () => {
+    expect(await parseJsonBody(post(), schema)).toEqual({ ok: true, value: {} });
+  });
+
+  it("returns a malformed JSON issue instead of throwing", async () => {
+    expect(await parseJsonBody(post("{oops"), schema)).toEqual({
+      ok: false,
+      issues: [{ path: "$", expected: "valid JSON", received: "malformed JSON" }],
+    });
+  });
+
+  it("returns the parsed value when it matches the schema", async () => {
+    expect(await parseJsonBody(post("{\"id\":\"t1\"}"), schema)).toEqual({ ok: true, value: { id: "t1" } });
+  });
+});
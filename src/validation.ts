@@ -0,0 +1,151 @@
+// Request body validation against the shared JSON schemas
+
+import type { JsonSchema } from "./schemas";
+
+export type ValidationIssue = {
+  path: string;
+  expected: string;
+  received: string;
+};
+
+export type ParsedBody =
+  | { ok: true; value: unknown }
+  | { ok: false; issues: ValidationIssue[] };
+
+function describeType(value: unknown): string {
+  if (value === undefined) return "undefined";
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number" && Number.isInteger(value)) return "integer";
+  return typeof value;
+}
+
+function describeValue(value: unknown): string {
+  if (typeof value === "string" || typeof value === "number" || typeof value === "boolean") {
+    return JSON.stringify(value);
+  }
+  return describeType(value);
+}
+
+function matchesType(schema: JsonSchema, value: unknown): boolean {
+  if (value === null) return schema.nullable === true;
+  switch (schema.type) {
+    case undefined:
+      return true;
+    case "object":
+      return typeof value === "object" && !Array.isArray(value);
+    case "array":
+      return Array.isArray(value);
+    case "integer":
+      return typeof value === "number" && Number.isInteger(value);
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    default:
+      return typeof value === schema.type;
+  }
+}
+
+function childPath(path: string, key: string | number): string {
+  return typeof key === "number" ? `${path}[${key}]` : `${path}.${key}`;
+}
+
+export function validateSchema(schema: JsonSchema, value: unknown, path = "$"): ValidationIssue[] {
+  if (!matchesType(schema, value)) {
+    return [{
+      path,
+      expected: schema.nullable ? `${schema.type} or null` : String(schema.type),
+      received: describeType(value),
+    }];
+  }
+  if (value === null) return [];
+
+  const issues: ValidationIssue[] = [];
+
+  if (schema.enum && !schema.enum.includes(value as string | number | boolean)) {
+    issues.push({ path, expected: `one of ${schema.enum.join(", ")}`, received: describeValue(value) });
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      issues.push({ path, expected: `string with at least ${schema.minLength} characters`, received: describeValue(value) });
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      issues.push({ path, expected: `string with at most ${schema.maxLength} characters`, received: `string of ${value.length} characters` });
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      issues.push({ path, expected: `string matching ${schema.pattern}`, received: describeValue(value) });
+    }
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      issues.push({ path, expected: `number >= ${schema.minimum}`, received: describeValue(value) });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      issues.push({ path, expected: `number <= ${schema.maximum}`, received: describeValue(value) });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      issues.push({ path, expected: `array with at least ${schema.minItems} items`, received: `array of ${value.length} items` });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      issues.push({ path, expected: `array with at most ${schema.maxItems} items`, received: `array of ${value.length} items` });
+    }
+    if (schema.items) {
+      value.forEach((item, index) => {
+        issues.push(...validateSchema(schema.items as JsonSchema, item, childPath(path, index)));
+      });
+    }
+  }
+
+  if (schema.type === "object" && typeof value === "object" && !Array.isArray(value)) {
+    const item = value as Record<string, unknown>;
+    const properties = schema.properties ?? {};
+    for (const key of schema.required ?? []) {
+      if (item[key] === undefined) {
+        const expected = properties[key]?.type ?? "value";
+        issues.push({ path: childPath(path, key), expected: String(expected), received: "undefined" });
+      }
+    }
+    for (const [key, propertyValue] of Object.entries(item)) {
+      const propertySchema = properties[key];
+      if (propertySchema) {
+        if (propertyValue !== undefined) {
+          issues.push(...validateSchema(propertySchema, propertyValue, childPath(path, key)));
+        }
+        continue;
+      }
+      if (schema.additionalProperties === false) {
+        issues.push({ path: childPath(path, key), expected: "no additional properties", received: describeType(propertyValue) });
+      } else if (schema.additionalProperties && typeof schema.additionalProperties === "object") {
+        issues.push(...validateSchema(schema.additionalProperties, propertyValue, childPath(path, key)));
+      }
+    }
+  }
+
+  return issues;
+}
+
+// An empty body is treated as `{}` so ping-style writes (e.g. `/heartbeat`) need no payload.
+export async function parseJsonBody(request: Request, schema: JsonSchema): Promise<ParsedBody> {
+  let text = "";
+  try {
+    text = await request.text();
+  } catch {
+    return { ok: false, issues: [{ path: "$", expected: "JSON body", received: "unreadable body" }] };
+  }
+
+  let value: unknown = {};
+  if (text.trim().length > 0) {
+    try {
+      value = JSON.parse(text) as unknown;
+    } catch {
+      return { ok: false, issues: [{ path: "$", expected: "valid JSON", received: "malformed JSON" }] };
+    }
+  }
+
+  const issues = validateSchema(schema, value);
+  return issues.length > 0 ? { ok: false, issues } : { ok: true, value };
+}
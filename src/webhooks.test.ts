@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { hmacSha256Hex } from "./signing";
+import { listDeliveries, recordDelivery, toGithubEvent, verifyGithubSignature, type WebhookDelivery } from "./webhooks";
+
+function createMockKV() {
+  const store: Record<string, { value: string; metadata?: unknown }> = {};
+  return {
+    put: async (key: string, value: string, opts?: { metadata?: unknown }) => {
+      store[key] = { value, metadata: opts?.metadata };
+    },
+    list: async ({ prefix = "" }: { prefix?: string }) => ({
+      keys: Object.keys(store).filter((name) => name.startsWith(prefix)).sort()
+        .map((name) => ({ name, metadata: store[name].metadata })),
+      list_complete: true,
+    }),
+  } as unknown as KVNamespace;
+}
+
+describe("verifyGithubSignature", () => {
+  it("accepts the sha256= HMAC of the raw body in either hex case", async () => {
+    const body = "{\"zen\":\"Keep it logically awesome.\"}";
+    const mac = await hmacSha256Hex("s3cret", body);
+    expect(await verifyGithubSignature("s3cret", body, `sha256=${mac.toUpperCase()}`)).toEqual({ ok: true });
+    expect(await verifyGithubSignature("s3cret", `${body} `, `sha256=${mac}`)).toEqual({ ok: false, reason: "bad_signature" });
+    expect(await verifyGithubSignature("s3cret", body, `sha1=${mac}`)).toEqual({ ok: false, reason: "malformed_signature" });
+  });
+});
+
+describe("toGithubEvent", () => {
+  const repository = { full_name: "clankamode/clanka-api" };
+
+  it("matches the polled feed shape and skips actions the feed omits", () => {
+    expect(toGithubEvent("pull_request", {
+      action: "closed",
+      repository,
+      pull_request: { number: 7, title: "Add board", merged: true },
+    }, "2026-03-01T00:00:00.000Z")).toEqual({
+      type: "PR",
+      repo: "clanka-api",
+      message: "merged PR #7: Add board",
+      timestamp: "2026-03-01T00:00:00.000Z",
+    });
+    expect(toGithubEvent("pull_request", { action: "labeled", repository }, "")).toBeNull();
+    expect(toGithubEvent("push", { deleted: true, repository }, "")).toBeNull();
+    expect(toGithubEvent("release", { action: "published", repository, release: { tag_name: "v1.2.0" } }, "")?.message)
+      .toBe("published release v1.2.0");
+  });
+});
+
+describe("listDeliveries", () => {
+  it("returns the newest deliveries first", async () => {
+    const kv = createMockKV();
+    const delivery = (id: string, receivedAt: string): WebhookDelivery => ({
+      id, event: "push", action: null, repo: null, outcome: "processed", receivedAt,
+    });
+    await recordDelivery(kv, delivery("a", "2026-03-01T00:00:02.000Z"));
+    await recordDelivery(kv, delivery("b", "2026-03-01T00:00:01.000Z"));
+    await recordDelivery(kv, delivery("c", "2026-03-01T00:00:03.000Z"));
+
+    const deliveries = await listDeliveries(kv, { event: null, limit: 2 });
+    expect(deliveries.map((item) => item.id)).toEqual(["c", "a"]);
+  });
+
+  it("lists from a time-ordered index, not in delivery id order", async () => {
+    const kv = createMockKV();
+    await recordDelivery(kv, {
+      id: "0000", event: "push", action: null, repo: null, outcome: "processed", receivedAt: "2026-03-01T00:00:00.000Z",
+    });
+    await recordDelivery(kv, {
+      id: "ffff", event: "issues", action: "opened", repo: null, outcome: "processed", receivedAt: "2026-03-02T00:00:00.000Z",
+    });
+
+    const { keys } = await kv.list({ prefix: "webhook:deliveries:" });
+    expect(keys.map((key) => key.name.split(":").pop())).toEqual(["ffff", "0000"]);
+    expect((await listDeliveries(kv, { event: "push", limit: 5 })).map((item) => item.id)).toEqual(["0000"]);
+  });
+});
@@ -0,0 +1,165 @@
+// GitHub webhook deliveries: signature check, feed events, and a deduplicating delivery log
+
+import { truncateMessage, type GithubEvent } from "./github-events";
+import { reverseTimestampKey } from "./reverse-timestamp";
+import { hexToBytes, verifyHmacSha256 } from "./signing";
+
+export const GITHUB_EVENT_HEADER = "X-GitHub-Event";
+export const GITHUB_DELIVERY_HEADER = "X-GitHub-Delivery";
+export const GITHUB_SIGNATURE_HEADER = "X-Hub-Signature-256";
+export const GITHUB_WEBHOOK_EVENTS = ["push", "workflow_run", "pull_request", "issues", "create", "release"] as const;
+
+export type GithubWebhookEvent = typeof GITHUB_WEBHOOK_EVENTS[number];
+export type WebhookSignatureFailure = "missing_signature" | "malformed_signature" | "bad_signature";
+export type WebhookOutcome = "processed" | "ignored";
+
+export type WebhookDelivery = {
+  id: string;
+  event: string;
+  action: string | null;
+  repo: string | null;
+  outcome: WebhookOutcome;
+  receivedAt: string;
+};
+
+// Loose view of the delivery payload fields this worker reads.
+export type GithubWebhookPayload = {
+  action?: string;
+  ref?: string;
+  ref_type?: string;
+  deleted?: boolean;
+  head_commit?: { message?: string } | null;
+  commits?: Array<{ id?: string; message?: string; timestamp?: string; author?: { name?: string; username?: string } }>;
+  repository?: { full_name?: string; default_branch?: string };
+  pull_request?: { number?: number; title?: string; merged?: boolean };
+  issue?: { number?: number; title?: string };
+  release?: { tag_name?: string; name?: string | null };
+  workflow_run?: unknown;
+};
+
+// One record per delivery id, for dedupe, plus an index entry keyed by reverse `receivedAt` that lists newest first.
+const DELIVERY_KEY_PREFIX = "webhook:delivery:";
+const DELIVERY_INDEX_PREFIX = "webhook:deliveries:";
+// GitHub only redelivers on request, so a week comfortably covers manual retries.
+export const DELIVERY_TTL_SEC = 7 * 24 * 60 * 60;
+export const DELIVERIES_DEFAULT_LIMIT = 50;
+export const DELIVERIES_MAX_LIMIT = 200;
+const DELIVERIES_SCAN_LIMIT = 5_000;
+
+export function isGithubWebhookEvent(value: string): value is GithubWebhookEvent {
+  return (GITHUB_WEBHOOK_EVENTS as readonly string[]).includes(value);
+}
+
+// `X-Hub-Signature-256: sha256=<hex>` is an HMAC-SHA256 of the raw body with the webhook secret.
+export async function verifyGithubSignature(
+  secret: string,
+  body: string,
+  header: string | null,
+): Promise<{ ok: true } | { ok: false; reason: WebhookSignatureFailure }> {
+  if (!header) return { ok: false, reason: "missing_signature" };
+  const match = header.trim().match(/^sha256=([0-9a-fA-F]{64})$/);
+  const mac = match ? hexToBytes(match[1]) : null;
+  if (!mac) return { ok: false, reason: "malformed_signature" };
+  if (!(await verifyHmacSha256(secret, body, mac))) return { ok: false, reason: "bad_signature" };
+  return { ok: true };
+}
+
+export function webhookRepo(payload: GithubWebhookPayload): string | null {
+  const name = payload.repository?.full_name;
+  return typeof name === "string" && name.length > 0 ? name : null;
+}
+
+/**
+ * Maps a delivery onto the `/github/events` feed shape produced by polling, or null when the
+ * polled feed would not show it either (label changes, draft releases, ...). Branch deletions
+ * arrive as `delete`, which this receiver does not subscribe to.
+ */
+export function toGithubEvent(event: string, payload: GithubWebhookPayload, timestamp: string): GithubEvent | null {
+  const fullName = webhookRepo(payload);
+  if (!fullName) return null;
+  const repo = fullName.replace("clankamode/", "");
+  const action = payload.action ?? "";
+
+  if (event === "push") {
+    if (payload.deleted) return null;
+    const message = payload.head_commit?.message ?? "push";
+    const messages = (payload.commits ?? []).map((commit) => (commit.message ?? "").split("\n")[0]);
+    return {
+      type: "PUSH",
+      repo,
+      message: truncateMessage(message.split("\n")[0]),
+      timestamp,
+      commits: { count: messages.length, messages },
+    };
+  }
+  if (event === "pull_request") {
+    if (!["opened", "closed", "reopened"].includes(action)) return null;
+    const pr = payload.pull_request;
+    const verb = action === "closed" && pr?.merged ? "merged" : action;
+    return { type: "PR", repo, message: truncateMessage(`${verb} PR #${pr?.number}: ${pr?.title ?? ""}`), timestamp };
+  }
+  if (event === "issues") {
+    if (!["opened", "closed", "reopened"].includes(action)) return null;
+    const issue = payload.issue;
+    return {
+      type: "ISSUE",
+      repo,
+      message: truncateMessage(`${action} issue #${issue?.number}: ${issue?.title ?? ""}`),
+      timestamp,
+    };
+  }
+  if (event === "create") {
+    return {
+      type: "CREATE",
+      repo,
+      message: truncateMessage(`created ${payload.ref_type} ${payload.ref ?? ""}`.trim()),
+      timestamp,
+    };
+  }
+  if (event === "release") {
+    if (action !== "published") return null;
+    const name = payload.release?.name || payload.release?.tag_name || "";
+    return { type: "RELEASE", repo, message: truncateMessage(`published release ${name}`.trim()), timestamp };
+  }
+  return null;
+}
+
+function deliveryKey(id: string): string {
+  return `${DELIVERY_KEY_PREFIX}${id}`;
+}
+
+function deliveryIndexKey(delivery: WebhookDelivery): string {
+  return `${DELIVERY_INDEX_PREFIX}${reverseTimestampKey(Date.parse(delivery.receivedAt))}:${delivery.id}`;
+}
+
+export async function findDelivery(kv: KVNamespace, id: string): Promise<WebhookDelivery | null> {
+  return kv.get<WebhookDelivery>(deliveryKey(id), "json").catch(() => null);
+}
+
+export async function recordDelivery(kv: KVNamespace, delivery: WebhookDelivery): Promise<void> {
+  await Promise.all([
+    kv.put(deliveryKey(delivery.id), JSON.stringify(delivery), { expirationTtl: DELIVERY_TTL_SEC }),
+    kv.put(deliveryIndexKey(delivery), "", { expirationTtl: DELIVERY_TTL_SEC, metadata: delivery }),
+  ]);
+}
+
+// Newest first, read from the index's list metadata, so this costs no reads per delivery and stops
+// as soon as `limit` matches are found.
+export async function listDeliveries(
+  kv: KVNamespace,
+  query: { event: string | null; limit: number },
+): Promise<WebhookDelivery[]> {
+  const deliveries: WebhookDelivery[] = [];
+  let cursor: string | undefined;
+  let scanned = 0;
+  do {
+    const page = await kv.list<WebhookDelivery>({ prefix: DELIVERY_INDEX_PREFIX, cursor });
+    scanned += page.keys.length;
+    for (const key of page.keys) {
+      if (key.metadata && (query.event === null || key.metadata.event === query.event)) deliveries.push(key.metadata);
+    }
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor && scanned < DELIVERIES_SCAN_LIMIT && deliveries.length < query.limit);
+
+  return deliveries.slice(0, query.limit);
+}